@@ -23,7 +23,9 @@ class AlarmActivity : AppCompatActivity() {
 
     companion object {
         private const val TAG = "AlarmActivity"
-        private const val SNOOZE_DURATION_MINUTES = 5
+        // Used for alarms scheduled by builds that did not pass the snooze policy
+        const val DEFAULT_SNOOZE_MINUTES = 5
+        const val DEFAULT_SNOOZES_REMAINING = 3
         const val EXTRA_REMINDER_ID = "reminder_id"
         const val EXTRA_ORIGINAL_REMINDER_ID = "original_reminder_id" // For snooze - keep original ID
         const val EXTRA_MEDICATION_NAME = "medication_name"
@@ -31,6 +33,8 @@ class AlarmActivity : AppCompatActivity() {
         const val EXTRA_INSTRUCTIONS = "instructions"
         const val EXTRA_PATIENT_ID = "patient_id"
         const val EXTRA_AUDIO_PATH = "audio_path"
+        const val EXTRA_SNOOZE_MINUTES = "snooze_minutes"
+        const val EXTRA_SNOOZES_REMAINING = "snoozes_remaining"
     }
 
     private var reminderId: String = ""
@@ -40,6 +44,8 @@ class AlarmActivity : AppCompatActivity() {
     private var instructions: String = ""
     private var patientId: String = ""
     private var audioPath: String? = null
+    private var snoozeMinutes: Int = DEFAULT_SNOOZE_MINUTES
+    private var snoozesRemaining: Int = DEFAULT_SNOOZES_REMAINING
     private var timeUpdateTimer: Timer? = null
 
     override fun onCreate(savedInstanceState: Bundle?) {
@@ -71,6 +77,8 @@ class AlarmActivity : AppCompatActivity() {
         instructions = intent.getStringExtra(EXTRA_INSTRUCTIONS) ?: ""
         patientId = intent.getStringExtra(EXTRA_PATIENT_ID) ?: ""
         audioPath = intent.getStringExtra(EXTRA_AUDIO_PATH)
+        snoozeMinutes = intent.getIntExtra(EXTRA_SNOOZE_MINUTES, DEFAULT_SNOOZE_MINUTES)
+        snoozesRemaining = intent.getIntExtra(EXTRA_SNOOZES_REMAINING, DEFAULT_SNOOZES_REMAINING)
         
         // Log audio path for debugging
         if (audioPath != null) {
@@ -120,7 +128,7 @@ class AlarmActivity : AppCompatActivity() {
         findViewById<Button>(R.id.confirmButton)?.setOnClickListener {
             Log.d(TAG, "Confirm clicked - confirming reminder: $originalReminderId")
             // Use original reminder ID for confirmation (important for snooze)
-            savePendingConfirmation(originalReminderId)
+            val idempotencyKey = savePendingConfirmation(originalReminderId)
             AlarmService.stopAlarm(this)
             
             // Open the main app activity to confirm medication
@@ -128,32 +136,47 @@ class AlarmActivity : AppCompatActivity() {
                 flags = Intent.FLAG_ACTIVITY_NEW_TASK or Intent.FLAG_ACTIVITY_CLEAR_TOP
                 putExtra("reminderId", originalReminderId)
                 putExtra("action", "confirm_medication")
+                putExtra("idempotencyKey", idempotencyKey)
             }
             startActivity(mainIntent)
             finish()
         }
 
-        findViewById<Button>(R.id.snoozeButton)?.setOnClickListener {
-            Log.d(TAG, "Snooze clicked - scheduling alarm for $SNOOZE_DURATION_MINUTES minutes")
-            AlarmService.stopAlarm(this)
-            scheduleSnoozeAlarm()
-            finish()
+        val snoozeButton = findViewById<Button>(R.id.snoozeButton)
+        if (snoozesRemaining > 0) {
+            snoozeButton?.text = getString(R.string.alarm_snooze_button, snoozeMinutes)
+            snoozeButton?.setOnClickListener {
+                Log.d(TAG, "Snooze clicked - scheduling alarm for $snoozeMinutes minutes ($snoozesRemaining left)")
+                AlarmService.stopAlarm(this)
+                scheduleSnoozeAlarm()
+                finish()
+            }
+        } else {
+            // Every snooze of the policy is used: the dose is either taken or missed
+            snoozeButton?.text = getString(R.string.alarm_missed_button)
+            snoozeButton?.setOnClickListener {
+                Log.d(TAG, "Snooze limit reached - marking reminder missed: $originalReminderId")
+                savePendingMissedDose(originalReminderId)
+                AlarmService.stopAlarm(this)
+                finish()
+            }
         }
     }
 
     /**
-     * Schedule a new alarm for 5 minutes from now with the same medication details
+     * Schedule a new alarm `snoozeMinutes` from now with the same medication details and
+     * one snooze less
      */
     private fun scheduleSnoozeAlarm() {
         try {
             val prefs = getSharedPreferences("MedicationAlarmPrefs", Context.MODE_PRIVATE)
             val alarmManager = getSystemService(Context.ALARM_SERVICE) as AlarmManager
-            val snoozeTime = System.currentTimeMillis() + (SNOOZE_DURATION_MINUTES * 60 * 1000L)
+            val snoozeTime = System.currentTimeMillis() + (snoozeMinutes * 60 * 1000L)
 
             // Create unique snooze alarm ID
             val snoozeAlarmId = "${reminderId}_snooze_${System.currentTimeMillis()}"
             
-            Log.d(TAG, "⏰ Scheduling snooze alarm for ${Date(snoozeTime)} (5 minutes from now)")
+            Log.d(TAG, "⏰ Scheduling snooze alarm for ${Date(snoozeTime)} ($snoozeMinutes minutes from now)")
 
             // Get audio path - try multiple sources
             var snoozeAudioPath = audioPath // First try from current intent
@@ -194,12 +217,14 @@ class AlarmActivity : AppCompatActivity() {
             val intent = Intent(this, AlarmReceiver::class.java).apply {
                 action = AlarmReceiver.ACTION_ALARM // ✅ CRITICAL: Must set action for receiver to work
                 putExtra(EXTRA_REMINDER_ID, snoozeAlarmId) // New alarm ID for scheduling
-                putExtra(EXTRA_ORIGINAL_REMINDER_ID, reminderId) // Keep original for confirmation
+                putExtra(EXTRA_ORIGINAL_REMINDER_ID, originalReminderId) // Keep original for confirmation
                 putExtra(EXTRA_MEDICATION_NAME, medicationName)
                 putExtra(EXTRA_DOSAGE, dosage)
-                putExtra(EXTRA_INSTRUCTIONS, instructions.ifEmpty { "Rappel (Snooze)" })
+                putExtra(EXTRA_INSTRUCTIONS, instructions.ifEmpty { getString(R.string.alarm_snooze_instructions) })
                 putExtra(EXTRA_PATIENT_ID, patientId)
                 putExtra(EXTRA_AUDIO_PATH, snoozeAudioPath) // ✅ Pass audio path (may be null, but we tried to retrieve it)
+                putExtra(EXTRA_SNOOZE_MINUTES, snoozeMinutes)
+                putExtra(EXTRA_SNOOZES_REMAINING, snoozesRemaining - 1)
             }
             
             Log.d(TAG, "📋 Snooze alarm intent created with audioPath: ${intent.getStringExtra(EXTRA_AUDIO_PATH) ?: "null"}")
@@ -255,7 +280,7 @@ class AlarmActivity : AppCompatActivity() {
                 Log.d(TAG, "✅ Snooze alarm scheduled for ${Date(snoozeTime)}")
             }
             
-            Log.d(TAG, "✅ Snooze alarm successfully scheduled - will fire in 5 minutes")
+            Log.d(TAG, "✅ Snooze alarm successfully scheduled - will fire in $snoozeMinutes minutes")
         } catch (e: Exception) {
             Log.e(TAG, "❌ Failed to schedule snooze alarm", e)
         }
@@ -291,7 +316,12 @@ class AlarmActivity : AppCompatActivity() {
         window.addFlags(WindowManager.LayoutParams.FLAG_DISMISS_KEYGUARD)
     }
 
-    private fun savePendingConfirmation(reminderId: String) {
+    /**
+     * Returns the idempotency key of the confirmation, created here with the tap so the
+     * backend counts it once whichever path sends it
+     */
+    private fun savePendingConfirmation(reminderId: String): String {
+        var idempotencyKey = "confirm_${UUID.randomUUID()}"
         try {
             val prefs = getSharedPreferences("MedicationAlarmPrefs", Context.MODE_PRIVATE)
             val existing = prefs.getString("pendingConfirmations", "[]")
@@ -304,6 +334,11 @@ class AlarmActivity : AppCompatActivity() {
                 if (existingConfirmation.getString("reminderId") == reminderId) {
                     alreadyExists = true
                     Log.d(TAG, "⚠️ Confirmation for $reminderId already exists, updating timestamp")
+                    if (existingConfirmation.has("idempotencyKey")) {
+                        idempotencyKey = existingConfirmation.getString("idempotencyKey")
+                    } else {
+                        existingConfirmation.put("idempotencyKey", idempotencyKey)
+                    }
                     // Update timestamp instead of adding duplicate
                     existingConfirmation.put("timestamp", System.currentTimeMillis())
                     break
@@ -314,6 +349,7 @@ class AlarmActivity : AppCompatActivity() {
                 val newConfirmation = org.json.JSONObject().apply {
                     put("reminderId", reminderId)
                     put("timestamp", System.currentTimeMillis())
+                    put("idempotencyKey", idempotencyKey)
                 }
                 confirmations.put(newConfirmation)
             }
@@ -326,6 +362,30 @@ class AlarmActivity : AppCompatActivity() {
         } catch (e: Exception) {
             Log.e(TAG, "❌ Failed to save confirmation for $reminderId", e)
         }
+        return idempotencyKey
+    }
+
+    /**
+     * Queue the dose for the app, which marks it missed on its next start
+     */
+    private fun savePendingMissedDose(reminderId: String) {
+        try {
+            val prefs = getSharedPreferences("MedicationAlarmPrefs", Context.MODE_PRIVATE)
+            val missedDoses = org.json.JSONArray(prefs.getString("pendingMissedDoses", "[]"))
+            for (i in 0 until missedDoses.length()) {
+                if (missedDoses.getJSONObject(i).getString("reminderId") == reminderId) {
+                    return
+                }
+            }
+            missedDoses.put(org.json.JSONObject().apply {
+                put("reminderId", reminderId)
+                put("timestamp", System.currentTimeMillis())
+            })
+            prefs.edit().putString("pendingMissedDoses", missedDoses.toString()).apply()
+            Log.d(TAG, "✅ Saved pending missed dose for reminderId: $reminderId")
+        } catch (e: Exception) {
+            Log.e(TAG, "❌ Failed to save missed dose for $reminderId", e)
+        }
     }
 
     override fun onBackPressed() {
@@ -33,6 +33,8 @@ class AlarmReceiver : BroadcastReceiver() {
         val dosage = intent.getStringExtra(AlarmActivity.EXTRA_DOSAGE) ?: ""
         val instructions = intent.getStringExtra(AlarmActivity.EXTRA_INSTRUCTIONS) ?: ""
         val patientId = intent.getStringExtra(AlarmActivity.EXTRA_PATIENT_ID) ?: ""
+        val snoozeMinutes = intent.getIntExtra(AlarmActivity.EXTRA_SNOOZE_MINUTES, AlarmActivity.DEFAULT_SNOOZE_MINUTES)
+        val snoozesRemaining = intent.getIntExtra(AlarmActivity.EXTRA_SNOOZES_REMAINING, AlarmActivity.DEFAULT_SNOOZES_REMAINING)
         
         // Get original reminder ID if this is a snooze alarm
         val originalReminderId = intent.getStringExtra(AlarmActivity.EXTRA_ORIGINAL_REMINDER_ID)
@@ -101,6 +103,8 @@ class AlarmReceiver : BroadcastReceiver() {
             putExtra(AlarmActivity.EXTRA_INSTRUCTIONS, instructions)
             putExtra(AlarmActivity.EXTRA_PATIENT_ID, patientId)
             putExtra(AlarmActivity.EXTRA_AUDIO_PATH, audioPath) // ✅ Pass audio path (may have been retrieved from prefs)
+            putExtra(AlarmActivity.EXTRA_SNOOZE_MINUTES, snoozeMinutes)
+            putExtra(AlarmActivity.EXTRA_SNOOZES_REMAINING, snoozesRemaining)
         }
 
         try {
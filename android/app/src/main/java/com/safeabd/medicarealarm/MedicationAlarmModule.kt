@@ -23,7 +23,8 @@ class MedicationAlarmModule(reactContext: ReactApplicationContext) : ReactContex
     @ReactMethod
     fun scheduleAlarm(
         reminderId: String, triggerTimeMs: Double, medicationName: String,
-        dosage: String, instructions: String, patientId: String, audioPath: String?, promise: Promise
+        dosage: String, instructions: String, patientId: String, audioPath: String?,
+        snoozeMinutes: Double, snoozesRemaining: Double, promise: Promise
     ) {
         try {
             val context = reactApplicationContext
@@ -51,6 +52,8 @@ class MedicationAlarmModule(reactContext: ReactApplicationContext) : ReactContex
                 putExtra(AlarmActivity.EXTRA_INSTRUCTIONS, instructions)
                 putExtra(AlarmActivity.EXTRA_PATIENT_ID, patientId)
                 putExtra(AlarmActivity.EXTRA_AUDIO_PATH, audioPath)
+                putExtra(AlarmActivity.EXTRA_SNOOZE_MINUTES, snoozeMinutes.toInt())
+                putExtra(AlarmActivity.EXTRA_SNOOZES_REMAINING, snoozesRemaining.toInt())
             }
             val pendingIntent = PendingIntent.getBroadcast(
                 context,
@@ -81,6 +84,8 @@ class MedicationAlarmModule(reactContext: ReactApplicationContext) : ReactContex
                         putExtra(AlarmActivity.EXTRA_INSTRUCTIONS, instructions)
                         putExtra(AlarmActivity.EXTRA_PATIENT_ID, patientId)
                         putExtra(AlarmActivity.EXTRA_AUDIO_PATH, audioPath)
+                        putExtra(AlarmActivity.EXTRA_SNOOZE_MINUTES, snoozeMinutes.toInt())
+                        putExtra(AlarmActivity.EXTRA_SNOOZES_REMAINING, snoozesRemaining.toInt())
                     },
                     PendingIntent.FLAG_UPDATE_CURRENT or PendingIntent.FLAG_IMMUTABLE
                 )
@@ -258,6 +263,8 @@ class MedicationAlarmModule(reactContext: ReactApplicationContext) : ReactContex
                 val map = Arguments.createMap()
                 map.putString("reminderId", item.getString("reminderId"))
                 map.putDouble("timestamp", item.getLong("timestamp").toDouble())
+                // Missing on confirmations saved by older builds
+                if (item.has("idempotencyKey")) map.putString("idempotencyKey", item.getString("idempotencyKey"))
                 result.pushMap(map)
             }
             promise.resolve(result)
@@ -273,6 +280,32 @@ class MedicationAlarmModule(reactContext: ReactApplicationContext) : ReactContex
         } catch (e: Exception) { promise.reject("CLEAR_ERROR", e.message) }
     }
 
+    @ReactMethod
+    fun getPendingMissedDoses(promise: Promise) {
+        try {
+            val prefs = reactApplicationContext.getSharedPreferences("MedicationAlarmPrefs", Context.MODE_PRIVATE)
+            val missedDoses = JSONArray(prefs.getString("pendingMissedDoses", "[]"))
+            val result = Arguments.createArray()
+            for (i in 0 until missedDoses.length()) {
+                val item = missedDoses.getJSONObject(i)
+                val map = Arguments.createMap()
+                map.putString("reminderId", item.getString("reminderId"))
+                map.putDouble("timestamp", item.getLong("timestamp").toDouble())
+                result.pushMap(map)
+            }
+            promise.resolve(result)
+        } catch (e: Exception) { promise.reject("GET_ERROR", e.message) }
+    }
+
+    @ReactMethod
+    fun clearPendingMissedDoses(promise: Promise) {
+        try {
+            reactApplicationContext.getSharedPreferences("MedicationAlarmPrefs", Context.MODE_PRIVATE)
+                .edit().putString("pendingMissedDoses", "[]").apply()
+            promise.resolve(true)
+        } catch (e: Exception) { promise.reject("CLEAR_ERROR", e.message) }
+    }
+
     @ReactMethod fun addListener(eventName: String) {}
     @ReactMethod fun removeListeners(count: Int) {}
 }
@@ -5,7 +5,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { useRouter, Stack } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useTranslation } from 'react-i18next';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getAccessToken, getCurrentUser } from '../../shared/services/api/session';
 import { getThemeColors } from '../../config/theme';
 import { changePassword } from '../../shared/services/api/common';
 import { useModal } from '../../shared/hooks/useModal';
@@ -34,12 +34,11 @@ export default function ChangePasswordScreen() {
   useEffect(() => {
     const loadUserData = async () => {
       try {
-        const storedToken = await AsyncStorage.getItem('userToken');
+        const storedToken = await getAccessToken();
         setToken(storedToken);
         
-        const userData = await AsyncStorage.getItem('userData');
-        if (userData) {
-          const user = JSON.parse(userData);
+        const user = await getCurrentUser();
+        if (user) {
           setUserType(user.userType);
         }
       } catch (error) {
@@ -7,12 +7,17 @@ import { useRouter } from 'expo-router';
 import { useFocusEffect } from 'expo-router';
 import { useTranslation } from 'react-i18next';
 import { useDoctorDashboard } from '../../features/doctor/hooks/useDoctorDashboard';
+import { useSyncConflicts } from '../../features/doctor/hooks/useSyncConflicts';
+import { usePendingMutations } from '../../shared/hooks/usePendingMutations';
 import PatientCard from '../../features/doctor/components/PatientCard';
 import SearchBar from '../../features/doctor/components/SearchBar';
+import MissedDoseAlertFeed from '../../features/doctor/components/MissedDoseAlertFeed';
+import SyncConflictBanner from '../../features/doctor/components/SyncConflictBanner';
 import CustomModal from '../../shared/components/ui/Modal';
 import EmptyState from '../../shared/components/ui/EmptyState';
 import { useModal } from '../../shared/hooks/useModal';
 import { Patient } from '../../shared/types';
+import { MissedDoseAlert } from '../../shared/types/escalation.types';
 import { getThemeColors } from '../../config/theme';
 
 export default function DoctorDashboardScreen() {
@@ -31,9 +36,14 @@ export default function DoctorDashboardScreen() {
     userName,
     loadPatients,
     loadDashboardData,
+    missedDoseAlerts,
+    loadMissedDoseAlerts,
+    handleAcknowledgeAlert,
     handleDeletePatient,
     handleLogout,
   } = useDoctorDashboard();
+  const { conflicts } = useSyncConflicts();
+  const { failed: failedMutations } = usePendingMutations();
 
   const colors = useMemo(() => getThemeColors(userType), [userType]);
 
@@ -41,14 +51,16 @@ export default function DoctorDashboardScreen() {
     useCallback(() => {
       loadPatients();
       loadDashboardData();
-    }, [loadPatients, loadDashboardData])
+      loadMissedDoseAlerts();
+    }, [loadPatients, loadDashboardData, loadMissedDoseAlerts])
   );
 
   const onRefresh = useCallback(() => {
     setIsRefreshing(true);
     loadPatients();
     loadDashboardData();
-  }, [loadPatients, loadDashboardData, setIsRefreshing]);
+    loadMissedDoseAlerts();
+  }, [loadPatients, loadDashboardData, loadMissedDoseAlerts, setIsRefreshing]);
 
   const onViewProfile = useCallback((patient: Patient) => {
     router.push({
@@ -57,6 +69,20 @@ export default function DoctorDashboardScreen() {
     });
   }, [router]);
 
+  const onOpenAlertPatient = useCallback((alert: MissedDoseAlert) => {
+    router.push({
+      pathname: '/(patient)/profile' as any,
+      params: { patientId: alert.patientId }
+    });
+  }, [router]);
+
+  const onAcknowledgeAlert = useCallback(async (alert: MissedDoseAlert) => {
+    const result = await handleAcknowledgeAlert(alert);
+    if (!result.success) {
+      showModal('error', t('common.error'), result.message);
+    }
+  }, [handleAcknowledgeAlert, showModal, t]);
+
   const onDelete = useCallback(async (patient: Patient) => {
     const result = await handleDeletePatient(patient);
     if (result.success) {
@@ -112,7 +138,7 @@ export default function DoctorDashboardScreen() {
             </View>
             <View style={styles.statCard}>
               <Ionicons name="alert-circle" size={24} color="white" />
-              <Text style={styles.statNumber}>{dashboardStats.medicationAlerts?.length || 0}</Text>
+              <Text style={styles.statNumber}>{missedDoseAlerts.length || dashboardStats.medicationAlerts?.length || 0}</Text>
               <Text style={styles.statLabel}>{t('dashboard.doctor.alerts')}</Text>
             </View>
           </View>
@@ -139,6 +165,21 @@ export default function DoctorDashboardScreen() {
           data={filteredPatients}
           renderItem={renderPatientCard}
           keyExtractor={(item) => item.id}
+          ListHeaderComponent={
+            <>
+              <SyncConflictBanner
+                conflictCount={conflicts.length}
+                failedCount={failedMutations.length}
+                onPress={() => router.push('/(doctor)/sync-conflicts' as any)}
+              />
+              <MissedDoseAlertFeed
+                alerts={missedDoseAlerts}
+                onOpenPatient={onOpenAlertPatient}
+                onAcknowledge={onAcknowledgeAlert}
+                primaryColor={colors.primary}
+              />
+            </>
+          }
           ListEmptyComponent={() => (
             <EmptyState
               icon="people-outline"
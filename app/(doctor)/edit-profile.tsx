@@ -5,19 +5,23 @@ import { Ionicons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useTranslation } from 'react-i18next';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getAccessToken, getCurrentUser } from '../../shared/services/api/session';
 import { getUserProfile, updateUserProfile } from '../../shared/services/api/common';
 import { useModal } from '../../shared/hooks/useModal';
 import CustomModal from '../../shared/components/ui/Modal';
 import { getThemeColors } from '../../config/theme';
 import { networkMonitor } from '../../shared/services/networkMonitor';
 import { loadCachedProfile, saveCachedProfile } from '../../shared/utils/profileCache';
+import { setUserTimeZone } from '../../shared/utils/timezone';
+import TimeZonePickerModal from '../../shared/components/modals/TimeZonePickerModal';
 
 interface ProfileFormData {
   firstName: string;
   lastName: string;
   email: string;
   phoneNumber: string;
+  // IANA zone; null follows the device
+  timezone: string | null;
 }
 
 export default function DoctorEditProfileScreen() {
@@ -34,26 +38,22 @@ export default function DoctorEditProfileScreen() {
     lastName: '',
     email: '',
     phoneNumber: '',
+    timezone: null,
   });
+  const [showTimeZonePicker, setShowTimeZonePicker] = useState(false);
 
   useEffect(() => {
     const loadProfile = async () => {
       let resolvedUserId: string | null = null;
-      const storedToken = await AsyncStorage.getItem('userToken');
+      const storedToken = await getAccessToken();
       setToken(storedToken);
 
       // Load user type
-      const userData = await AsyncStorage.getItem('userData');
-      if (userData) {
-        try {
-          const user = JSON.parse(userData);
-          setUserType(user.userType);
-          resolvedUserId = user?.id || null;
-          setUserId(resolvedUserId);
-        } catch {
-          setUserType(null);
-          setUserId(null);
-        }
+      const user = await getCurrentUser();
+      if (user) {
+        setUserType(user.userType);
+        resolvedUserId = user.id || null;
+        setUserId(resolvedUserId);
       }
 
       if (storedToken) {
@@ -67,6 +67,7 @@ export default function DoctorEditProfileScreen() {
                 lastName: cached.lastName || '',
                 email: cached.email || '',
                 phoneNumber: cached.phoneNumber || cached.phone || '',
+                timezone: cached.timezone || null,
               });
               if (cached.userType) {
                 setUserType(cached.userType);
@@ -83,6 +84,7 @@ export default function DoctorEditProfileScreen() {
               lastName: data.lastName || '',
               email: data.email || '',
               phoneNumber: data.phoneNumber || '',
+              timezone: data.timezone || null,
             });
             await saveCachedProfile(data, resolvedUserId);
             // Also set userType from profile if available
@@ -97,6 +99,7 @@ export default function DoctorEditProfileScreen() {
                 lastName: cached.lastName || '',
                 email: cached.email || '',
                 phoneNumber: cached.phoneNumber || cached.phone || '',
+                timezone: cached.timezone || null,
               });
               if (cached.userType) {
                 setUserType(cached.userType);
@@ -112,6 +115,7 @@ export default function DoctorEditProfileScreen() {
               lastName: cached.lastName || '',
               email: cached.email || '',
               phoneNumber: cached.phoneNumber || cached.phone || '',
+              timezone: cached.timezone || null,
             });
             if (cached.userType) {
               setUserType(cached.userType);
@@ -148,6 +152,7 @@ export default function DoctorEditProfileScreen() {
         lastName: formData.lastName,
         email: formData.email,
         phone: formData.phoneNumber,
+        timezone: formData.timezone,
       });
 
       if (result.success) {
@@ -159,9 +164,11 @@ export default function DoctorEditProfileScreen() {
           email: formData.email,
           phoneNumber: formData.phoneNumber,
           phone: formData.phoneNumber,
+          timezone: formData.timezone,
           userType: userType || (cached ? cached.userType : undefined),
         };
         await saveCachedProfile(updatedProfile, userId);
+        await setUserTimeZone(formData.timezone);
         showModal('success', t('common.success'), t('profile.editProfile') + ' ' + t('common.success'));
         setTimeout(() => {
           hideModal();
@@ -279,6 +286,20 @@ export default function DoctorEditProfileScreen() {
                   />
                 </View>
               </View>
+
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>{t('profile.timezone')}</Text>
+                <TouchableOpacity
+                  style={[styles.inputContainer, { borderColor: `${colors.primary}30` }]}
+                  onPress={() => setShowTimeZonePicker(true)}
+                >
+                  <Ionicons name="time" size={20} color={colors.textTertiary} />
+                  <Text style={[styles.input, { color: colors.text }]}>
+                    {formData.timezone || t('profile.timezoneDevice')}
+                  </Text>
+                  <Ionicons name="chevron-down" size={18} color={colors.textTertiary} />
+                </TouchableOpacity>
+              </View>
             </View>
 
             <TouchableOpacity
@@ -305,6 +326,14 @@ export default function DoctorEditProfileScreen() {
           type={modalData.type}
           onClose={hideModal}
         />
+
+        <TimeZonePickerModal
+          visible={showTimeZonePicker}
+          value={formData.timezone}
+          onSelect={(timezone) => setFormData({ ...formData, timezone })}
+          onClose={() => setShowTimeZonePicker(false)}
+          primaryColor={colors.primary}
+        />
       </LinearGradient>
     </SafeAreaView>
   );
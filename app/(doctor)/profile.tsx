@@ -5,18 +5,21 @@ import { Ionicons } from '@expo/vector-icons';
 import { useRouter, useFocusEffect } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useTranslation } from 'react-i18next';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { getUserProfile, updateUserProfile } from '../../shared/services/api/common';
+import { getAccessToken, getCurrentUser } from '../../shared/services/api/session';
+import { getUserProfile } from '../../shared/services/api/common';
 import { useModal } from '../../shared/hooks/useModal';
 import CustomModal from '../../shared/components/ui/Modal';
 import LanguagePickerModal from '../../shared/components/modals/LanguagePickerModal';
 import { useLanguageChange } from '../../shared/hooks/useLanguageChange';
 import { networkMonitor } from '../../shared/services/networkMonitor';
+import { mutationOutbox } from '../../shared/services/mutationOutbox';
+import { toVersionedEdit } from '../../shared/utils/conflicts';
 import { isNetworkError } from '../../shared/utils/errorHandling';
 import { getThemeColors } from '../../config/theme';
 import { changeLanguage } from '../../i18n';
 import { performLogout } from '../../shared/utils/logout';
 import { loadCachedProfile, saveCachedProfile } from '../../shared/utils/profileCache';
+import { getUserTimeZone, setUserTimeZone } from '../../shared/utils/timezone';
 
 interface UserProfile {
   id: string;
@@ -45,19 +48,13 @@ export default function DoctorProfileScreen() {
 
   useEffect(() => {
     const loadTokenAndUserType = async () => {
-      const storedToken = await AsyncStorage.getItem('userToken');
+      const storedToken = await getAccessToken();
       setToken(storedToken);
       
-      const userData = await AsyncStorage.getItem('userData');
-      if (userData) {
-        try {
-          const user = JSON.parse(userData);
-          setUserType(user.userType);
-          setUserId(user?.id || null);
-        } catch {
-          setUserType(null);
-          setUserId(null);
-        }
+      const user = await getCurrentUser();
+      if (user) {
+        setUserType(user.userType);
+        setUserId(user.id || null);
       }
     };
     loadTokenAndUserType();
@@ -83,6 +80,7 @@ export default function DoctorProfileScreen() {
       if (result.success && result.data) {
         const data = result.data as UserProfile;
         setProfile(data);
+        await setUserTimeZone(data.timezone || null);
         setNotificationsEnabled(data.notificationsEnabled ?? true);
         await saveCachedProfile(data, userId);
       } else {
@@ -128,7 +126,8 @@ export default function DoctorProfileScreen() {
     if (!token) return;
 
     try {
-      await updateUserProfile(token, { notificationsEnabled: value } as any);
+      const profileData = { notificationsEnabled: value };
+      await mutationOutbox.runOrEnqueue(token, 'updateProfile', { profileData, ...toVersionedEdit(profile, profileData) });
       if (profile) {
         const updatedProfile = { ...profile, notificationsEnabled: value };
         setProfile(updatedProfile);
@@ -153,13 +152,9 @@ export default function DoctorProfileScreen() {
         await saveCachedProfile(updatedProfile, userId);
       }
 
-      const online = await networkMonitor.isOnline();
-      if (!online) {
-        console.log('Skipping language sync while offline');
-        return;
-      }
-
-      await updateUserProfile(token, { language } as any);
+      // Sent as soon as the device is online again
+      const profileData = { language };
+      await mutationOutbox.runOrEnqueue(token, 'updateProfile', { profileData, ...toVersionedEdit(profile, profileData) });
     } catch (error) {
       console.error('Error updating language preference:', error);
       if (!isNetworkError(error)) {
@@ -348,9 +343,8 @@ export default function DoctorProfileScreen() {
                 {renderSettingItem(
                   'time',
                   t('profile.timezone'),
-                  profile?.timezone || 'Africa/Tunis',
-                  () => {},
-                  false
+                  profile?.timezone || getUserTimeZone(),
+                  () => router.push('/(doctor)/edit-profile' as any)
                 )}
               </LinearGradient>
             </View>
@@ -0,0 +1,171 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, StyleSheet } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useTranslation } from 'react-i18next';
+import { useSyncConflicts } from '../../features/doctor/hooks/useSyncConflicts';
+import ConflictCard from '../../features/doctor/components/ConflictCard';
+import FailedMutationCard from '../../features/doctor/components/FailedMutationCard';
+import EmptyState from '../../shared/components/ui/EmptyState';
+import CustomModal from '../../shared/components/ui/Modal';
+import { useModal } from '../../shared/hooks/useModal';
+import { usePendingMutations } from '../../shared/hooks/usePendingMutations';
+import { ConflictResolution } from '../../shared/types/outbox.types';
+import { getCurrentUser } from '../../shared/services/api/session';
+import { getThemeColors } from '../../config/theme';
+
+export default function SyncConflictsScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const { visible, modalData, showModal, hideModal } = useModal();
+  const { conflicts, resolvingId, resolveConflict } = useSyncConflicts();
+  const { failed, retryMutation, discardMutation } = usePendingMutations();
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [userType, setUserType] = useState<'medecin' | 'tuteur' | null>(null);
+
+  useEffect(() => {
+    const loadUserType = async () => {
+      const user = await getCurrentUser();
+      if (user) {
+        setUserType(user.userType);
+      }
+    };
+    loadUserType();
+  }, []);
+
+  const colors = useMemo(() => getThemeColors(userType), [userType]);
+  const gradientColors = colors.background as [string, string, string];
+  const primaryGradient = colors.gradient as [string, string];
+
+  const onResolve = useCallback(async (mutationId: string, resolution: ConflictResolution) => {
+    const result = await resolveConflict(mutationId, resolution);
+    if (!result.success) {
+      showModal('error', t('common.error'), t('syncConflicts.resolveError'));
+    }
+  }, [resolveConflict, showModal, t]);
+
+  const onFailedAction = useCallback(async (mutationId: string, action: (id: string) => Promise<void>) => {
+    setBusyId(mutationId);
+    try {
+      await action(mutationId);
+    } catch (error) {
+      showModal('error', t('common.error'), t('syncConflicts.retryError'));
+    } finally {
+      setBusyId(null);
+    }
+  }, [showModal, t]);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <LinearGradient colors={gradientColors} style={styles.background}>
+        <LinearGradient
+          colors={primaryGradient}
+          start={{ x: 0, y: 0 }}
+          end={{ x: 1, y: 0 }}
+          style={styles.header}
+        >
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <Ionicons name="arrow-back" size={24} color="white" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>{t('syncConflicts.title')}</Text>
+          <View style={styles.headerSpacer} />
+        </LinearGradient>
+
+        <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+          {conflicts.length === 0 && failed.length === 0 ? (
+            <EmptyState
+              icon="checkmark-done-outline"
+              title={t('syncConflicts.emptyTitle')}
+              subtitle={t('syncConflicts.emptySubtitle')}
+            />
+          ) : (
+            <>
+              {conflicts.length > 0 && (
+                <Text style={styles.intro}>{t('syncConflicts.intro')}</Text>
+              )}
+              {conflicts.map(mutation => (
+                <ConflictCard
+                  key={mutation.id}
+                  mutation={mutation}
+                  isResolving={resolvingId === mutation.id}
+                  onResolve={resolution => onResolve(mutation.id, resolution)}
+                  primaryColor={colors.primary}
+                />
+              ))}
+              {failed.length > 0 && (
+                <Text style={styles.intro}>{t('syncConflicts.failedIntro')}</Text>
+              )}
+              {failed.map(mutation => (
+                <FailedMutationCard
+                  key={mutation.id}
+                  mutation={mutation}
+                  isBusy={busyId === mutation.id}
+                  onRetry={() => onFailedAction(mutation.id, retryMutation)}
+                  onDiscard={() => onFailedAction(mutation.id, discardMutation)}
+                  primaryColor={colors.primary}
+                />
+              ))}
+            </>
+          )}
+        </ScrollView>
+      </LinearGradient>
+
+      <CustomModal
+        visible={visible}
+        title={modalData.title}
+        message={modalData.message}
+        type={modalData.type}
+        onClose={hideModal}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  background: {
+    flex: 1,
+  },
+  header: {
+    paddingTop: 20,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: 'white',
+    flex: 1,
+    textAlign: 'center',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  intro: {
+    marginTop: 20,
+    fontSize: 14,
+    lineHeight: 20,
+    color: 'rgba(255, 255, 255, 0.7)',
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
@@ -10,57 +10,18 @@ import {
 import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
 import { useRouter, Stack } from 'expo-router';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import apiService from '../../shared/services/api';
 import CustomModal from '../../shared/components/ui/Modal';
 import { useTranslation } from 'react-i18next';
+import EmptyState from '../../shared/components/ui/EmptyState';
+import LoadingSpinner from '../../shared/components/ui/LoadingSpinner';
 import { COLORS } from '../../shared/constants/colors';
-
-interface AdherenceStats {
-  overall: number;
-  last7Days: number;
-  last30Days: number;
-  currentStreak: number;
-  bestStreak: number;
-  totalMedications: number;
-  totalTaken: number;
-  totalMissed: number;
-}
-
-interface DailyAdherence {
-  date: string;
-  total: number;
-  taken: number;
-  missed: number;
-  rate: number;
-}
+import { useAdherenceHistory } from '../../features/patient/hooks/useAdherenceHistory';
 
 export default function PatientAdherenceHistoryScreen() {
   const router = useRouter();
   const { i18n } = useTranslation();
-  const [token, setToken] = useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [isRefreshing, setIsRefreshing] = useState(false);
-  const [stats, setStats] = useState<AdherenceStats>({
-    overall: 85,
-    last7Days: 90,
-    last30Days: 87,
-    currentStreak: 5,
-    bestStreak: 12,
-    totalMedications: 120,
-    totalTaken: 102,
-    totalMissed: 18,
-  });
-  const [dailyHistory, setDailyHistory] = useState<DailyAdherence[]>([
-    { date: '2025-10-08', total: 4, taken: 4, missed: 0, rate: 100 },
-    { date: '2025-10-07', total: 4, taken: 4, missed: 0, rate: 100 },
-    { date: '2025-10-06', total: 4, taken: 3, missed: 1, rate: 75 },
-    { date: '2025-10-05', total: 4, taken: 4, missed: 0, rate: 100 },
-    { date: '2025-10-04', total: 4, taken: 4, missed: 0, rate: 100 },
-    { date: '2025-10-03', total: 4, taken: 3, missed: 1, rate: 75 },
-    { date: '2025-10-02', total: 4, taken: 4, missed: 0, rate: 100 },
-  ]);
+  const { stats, dailyHistory, isLoading, isRefreshing, isOffline, onRefresh } = useAdherenceHistory();
 
   const [modalVisible, setModalVisible] = useState(false);
   const [modalConfig, setModalConfig] = useState({
@@ -69,21 +30,6 @@ export default function PatientAdherenceHistoryScreen() {
     type: 'info' as 'success' | 'error' | 'warning' | 'info',
   });
 
-  useEffect(() => {
-    const loadToken = async () => {
-      const storedToken = await AsyncStorage.getItem('userToken');
-      setToken(storedToken);
-      setIsLoading(false);
-    };
-    loadToken();
-  }, []);
-
-  const onRefresh = useCallback(async () => {
-    setIsRefreshing(true);
-    // In future, load real data from API
-    setTimeout(() => setIsRefreshing(false), 1000);
-  }, []);
-
   const getAdherenceColor = (rate: number) => {
     if (rate >= 90) return COLORS.patient.primary;
     if (rate >= 75) return COLORS.info[0];
@@ -99,7 +45,8 @@ export default function PatientAdherenceHistoryScreen() {
   };
 
   const formatDate = (dateStr: string) => {
-    const date = new Date(dateStr);
+    // Day keys are local calendar dates; parse them as local midnight rather than UTC
+    const date = new Date(`${dateStr}T00:00:00`);
     const locale = i18n.language === 'ar' ? 'ar-TN' : i18n.language === 'fr' ? 'fr-FR' : 'en-US';
     return date.toLocaleDateString(locale, {
       weekday: 'short',
@@ -134,191 +81,209 @@ export default function PatientAdherenceHistoryScreen() {
             <View style={styles.headerSpacer} />
           </LinearGradient>
 
-          <ScrollView
-            style={styles.content}
-            showsVerticalScrollIndicator={false}
-            refreshControl={
-              <RefreshControl
-                refreshing={isRefreshing}
-                onRefresh={onRefresh}
-                tintColor="white"
-                colors={[COLORS.primary] as const}
-              />
-            }
-          >
-            {/* Overall Stats Card */}
-            <View style={styles.statsCard}>
-              <LinearGradient
-                colors={COLORS.patient.cardBg}
-                style={styles.statsCardGradient}
-              >
-                <View style={styles.overallContainer}>
-                  <View style={styles.overallCircle}>
-                    <LinearGradient
-                      colors={[COLORS.patient.primary, COLORS.patient.primaryLight] as const}
-                      style={styles.circleGradient}
-                    >
-                      <Text style={styles.overallRate}>{stats.overall}%</Text>
-                    </LinearGradient>
-                  </View>
-                  <Text style={styles.overallLabel}>Observance globale</Text>
-                  <Text style={[styles.overallGrade, { color: getAdherenceColor(stats.overall) }]}>
-                    {getAdherenceGrade(stats.overall)}
-                  </Text>
-                </View>
-
-                <View style={styles.statsGrid}>
-                  <View style={styles.statItem}>
-                    <Ionicons name="calendar" size={24} color={COLORS.patient.primary} />
-                    <Text style={styles.statValue}>{stats.last7Days}%</Text>
-                    <Text style={styles.statLabel}>7 derniers jours</Text>
-                  </View>
-                  <View style={styles.statItem}>
-                    <Ionicons name="calendar-outline" size={24} color={COLORS.patient.primary} />
-                    <Text style={styles.statValue}>{stats.last30Days}%</Text>
-                    <Text style={styles.statLabel}>30 derniers jours</Text>
-                  </View>
+          {isLoading ? (
+            <LoadingSpinner color={COLORS.patient.primary} />
+          ) : (
+            <ScrollView
+              style={styles.content}
+              showsVerticalScrollIndicator={false}
+              refreshControl={
+                <RefreshControl
+                  refreshing={isRefreshing}
+                  onRefresh={onRefresh}
+                  tintColor="white"
+                  colors={[COLORS.primary] as const}
+                />
+              }
+            >
+              {isOffline && (
+                <View style={styles.offlineBanner}>
+                  <Ionicons name="cloud-offline-outline" size={16} color={COLORS.warning[0]} />
+                  <Text style={styles.offlineText}>Mode hors ligne : données enregistrées</Text>
                 </View>
-              </LinearGradient>
-            </View>
+              )}
 
-            {/* Streaks Card */}
-            <View style={styles.section}>
-              <Text style={styles.sectionTitle}>🔥 Séries</Text>
-              <View style={styles.card}>
+              {/* Overall Stats Card */}
+              <View style={styles.statsCard}>
                 <LinearGradient
                   colors={COLORS.patient.cardBg}
-                  style={styles.cardGradient}
+                  style={styles.statsCardGradient}
                 >
-                  <View style={styles.streakRow}>
-                    <View style={styles.streakItem}>
-                      <View style={styles.streakIcon}>
-                        <Ionicons name="flame" size={32} color={COLORS.warning[0]} />
-                      </View>
-                      <Text style={styles.streakValue}>{stats.currentStreak}</Text>
-                      <Text style={styles.streakLabel}>Série actuelle</Text>
-                      <Text style={styles.streakSubLabel}>jours consécutifs</Text>
-                    </View>
-                    <View style={styles.streakDivider} />
-                    <View style={styles.streakItem}>
-                      <View style={styles.streakIcon}>
-                        <Ionicons name="trophy" size={32} color="#FFD700" />
-                      </View>
-                      <Text style={styles.streakValue}>{stats.bestStreak}</Text>
-                      <Text style={styles.streakLabel}>Meilleure série</Text>
-                      <Text style={styles.streakSubLabel}>record personnel</Text>
+                  <View style={styles.overallContainer}>
+                    <View style={styles.overallCircle}>
+                      <LinearGradient
+                        colors={[COLORS.patient.primary, COLORS.patient.primaryLight] as const}
+                        style={styles.circleGradient}
+                      >
+                        <Text style={styles.overallRate}>{stats.overall}%</Text>
+                      </LinearGradient>
                     </View>
+                    <Text style={styles.overallLabel}>Observance globale</Text>
+                    <Text style={[styles.overallGrade, { color: getAdherenceColor(stats.overall) }]}>
+                      {getAdherenceGrade(stats.overall)}
+                    </Text>
                   </View>
-                </LinearGradient>
-              </View>
-            </View>
 
-            {/* Summary Card */}
-            <View style={styles.section}>
-              <Text style={styles.sectionTitle}>📊 Résumé</Text>
-              <View style={styles.card}>
-                <LinearGradient
-                  colors={COLORS.patient.cardBg}
-                  style={styles.cardGradient}
-                >
-                  <View style={styles.summaryRow}>
-                    <View style={styles.summaryItem}>
-                      <Ionicons name="medical" size={20} color={COLORS.textSecondary} />
-                      <Text style={styles.summaryLabel}>Total prescrit</Text>
-                      <Text style={styles.summaryValue}>{stats.totalMedications}</Text>
+                  <View style={styles.statsGrid}>
+                    <View style={styles.statItem}>
+                      <Ionicons name="calendar" size={24} color={COLORS.patient.primary} />
+                      <Text style={styles.statValue}>{stats.last7Days}%</Text>
+                      <Text style={styles.statLabel}>7 derniers jours</Text>
                     </View>
-                    <View style={styles.summaryItem}>
-                      <Ionicons name="checkmark-circle" size={20} color={COLORS.patient.primary} />
-                      <Text style={styles.summaryLabel}>Pris</Text>
-                      <Text style={[styles.summaryValue, { color: COLORS.patient.primary }]}>{stats.totalTaken}</Text>
-                    </View>
-                    <View style={styles.summaryItem}>
-                      <Ionicons name="close-circle" size={20} color={COLORS.error[0]} />
-                      <Text style={styles.summaryLabel}>Manqués</Text>
-                      <Text style={[styles.summaryValue, { color: COLORS.error[0] }]}>{stats.totalMissed}</Text>
+                    <View style={styles.statItem}>
+                      <Ionicons name="calendar-outline" size={24} color={COLORS.patient.primary} />
+                      <Text style={styles.statValue}>{stats.last30Days}%</Text>
+                      <Text style={styles.statLabel}>30 derniers jours</Text>
                     </View>
                   </View>
                 </LinearGradient>
               </View>
-            </View>
 
-            {/* Daily History */}
-            <View style={styles.section}>
-              <Text style={styles.sectionTitle}>📅 Historique quotidien</Text>
-              {dailyHistory.map((day, index) => (
-                <View key={day.date} style={styles.historyCard}>
+              {/* Streaks Card */}
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>🔥 Séries</Text>
+                <View style={styles.card}>
                   <LinearGradient
                     colors={COLORS.patient.cardBg}
-                    style={styles.historyCardGradient}
+                    style={styles.cardGradient}
                   >
-                    <View style={styles.historyHeader}>
-                      <Text style={styles.historyDate}>{formatDate(day.date)}</Text>
-                      <View style={[styles.rateBadge, { backgroundColor: `${getAdherenceColor(day.rate)}20` }]}>
-                        <Text style={[styles.rateText, { color: getAdherenceColor(day.rate) }]}>
-                          {day.rate}%
-                        </Text>
+                    <View style={styles.streakRow}>
+                      <View style={styles.streakItem}>
+                        <View style={styles.streakIcon}>
+                          <Ionicons name="flame" size={32} color={COLORS.warning[0]} />
+                        </View>
+                        <Text style={styles.streakValue}>{stats.currentStreak}</Text>
+                        <Text style={styles.streakLabel}>Série actuelle</Text>
+                        <Text style={styles.streakSubLabel}>jours consécutifs</Text>
+                      </View>
+                      <View style={styles.streakDivider} />
+                      <View style={styles.streakItem}>
+                        <View style={styles.streakIcon}>
+                          <Ionicons name="trophy" size={32} color="#FFD700" />
+                        </View>
+                        <Text style={styles.streakValue}>{stats.bestStreak}</Text>
+                        <Text style={styles.streakLabel}>Meilleure série</Text>
+                        <Text style={styles.streakSubLabel}>record personnel</Text>
                       </View>
                     </View>
-                    
-                    <View style={styles.historyStats}>
-                      <View style={styles.historyStatItem}>
-                        <Ionicons name="medical-outline" size={16} color={COLORS.textTertiary} />
-                        <Text style={styles.historyStatText}>{day.total} total</Text>
+                  </LinearGradient>
+                </View>
+              </View>
+
+              {/* Summary Card */}
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>📊 Résumé</Text>
+                <View style={styles.card}>
+                  <LinearGradient
+                    colors={COLORS.patient.cardBg}
+                    style={styles.cardGradient}
+                  >
+                    <View style={styles.summaryRow}>
+                      <View style={styles.summaryItem}>
+                        <Ionicons name="medical" size={20} color={COLORS.textSecondary} />
+                        <Text style={styles.summaryLabel}>Total prescrit</Text>
+                        <Text style={styles.summaryValue}>{stats.totalMedications}</Text>
+                      </View>
+                      <View style={styles.summaryItem}>
+                        <Ionicons name="checkmark-circle" size={20} color={COLORS.patient.primary} />
+                        <Text style={styles.summaryLabel}>Pris</Text>
+                        <Text style={[styles.summaryValue, { color: COLORS.patient.primary }]}>{stats.totalTaken}</Text>
+                      </View>
+                      <View style={styles.summaryItem}>
+                        <Ionicons name="close-circle" size={20} color={COLORS.error[0]} />
+                        <Text style={styles.summaryLabel}>Manqués</Text>
+                        <Text style={[styles.summaryValue, { color: COLORS.error[0] }]}>{stats.totalMissed}</Text>
                       </View>
-                      <View style={styles.historyStatItem}>
-                        <Ionicons name="checkmark" size={16} color={COLORS.patient.primary} />
-                        <Text style={styles.historyStatText}>{day.taken} pris</Text>
+                    </View>
+                  </LinearGradient>
+                </View>
+              </View>
+
+              {/* Daily History */}
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>📅 Historique quotidien</Text>
+                {dailyHistory.length === 0 && (
+                  <EmptyState
+                    icon="calendar-outline"
+                    title="Aucun historique"
+                    subtitle="Vos prises de médicaments apparaîtront ici"
+                  />
+                )}
+                {dailyHistory.map((day, index) => (
+                  <View key={day.date} style={styles.historyCard}>
+                    <LinearGradient
+                      colors={COLORS.patient.cardBg}
+                      style={styles.historyCardGradient}
+                    >
+                      <View style={styles.historyHeader}>
+                        <Text style={styles.historyDate}>{formatDate(day.date)}</Text>
+                        <View style={[styles.rateBadge, { backgroundColor: `${getAdherenceColor(day.rate)}20` }]}>
+                          <Text style={[styles.rateText, { color: getAdherenceColor(day.rate) }]}>
+                            {day.rate}%
+                          </Text>
+                        </View>
                       </View>
-                      {day.missed > 0 && (
+                    
+                      <View style={styles.historyStats}>
                         <View style={styles.historyStatItem}>
-                          <Ionicons name="close" size={16} color={COLORS.error[0]} />
-                          <Text style={styles.historyStatText}>{day.missed} manqués</Text>
+                          <Ionicons name="medical-outline" size={16} color={COLORS.textTertiary} />
+                          <Text style={styles.historyStatText}>{day.total} total</Text>
                         </View>
-                      )}
-                    </View>
+                        <View style={styles.historyStatItem}>
+                          <Ionicons name="checkmark" size={16} color={COLORS.patient.primary} />
+                          <Text style={styles.historyStatText}>{day.taken} pris</Text>
+                        </View>
+                        {day.missed > 0 && (
+                          <View style={styles.historyStatItem}>
+                            <Ionicons name="close" size={16} color={COLORS.error[0]} />
+                            <Text style={styles.historyStatText}>{day.missed} manqués</Text>
+                          </View>
+                        )}
+                      </View>
 
-                    {/* Progress Bar */}
-                    <View style={styles.progressBarContainer}>
-                      <View style={styles.progressBarBg}>
-                        <View 
-                          style={[
-                            styles.progressBarFill, 
-                            { 
-                              width: `${day.rate}%`,
-                              backgroundColor: getAdherenceColor(day.rate)
-                            }
-                          ]} 
-                        />
+                      {/* Progress Bar */}
+                      <View style={styles.progressBarContainer}>
+                        <View style={styles.progressBarBg}>
+                          <View 
+                            style={[
+                              styles.progressBarFill, 
+                              { 
+                                width: `${day.rate}%`,
+                                backgroundColor: getAdherenceColor(day.rate)
+                              }
+                            ]} 
+                          />
+                        </View>
                       </View>
+                    </LinearGradient>
+                  </View>
+                ))}
+              </View>
+
+              {/* Tips Card */}
+              <View style={styles.section}>
+                <View style={styles.tipsCard}>
+                  <LinearGradient
+                    colors={[`${COLORS.info[0]}1A`, `${COLORS.info[0]}0D`] as const}
+                    style={styles.tipsGradient}
+                  >
+                    <View style={styles.tipsHeader}>
+                      <Ionicons name="bulb" size={24} color={COLORS.info[0]} />
+                      <Text style={[styles.tipsTitle, { color: COLORS.info[0] }]}>Conseils pour améliorer votre observance</Text>
                     </View>
+                    <Text style={styles.tipText}>
+                      • Prenez vos médicaments à la même heure chaque jour{'\n'}
+                      • Utilisez les rappels de l'application{'\n'}
+                      • Gardez vos médicaments dans un endroit visible{'\n'}
+                      • Parlez à votre tuteur en cas de difficultés
+                    </Text>
                   </LinearGradient>
                 </View>
-              ))}
-            </View>
-
-            {/* Tips Card */}
-            <View style={styles.section}>
-              <View style={styles.tipsCard}>
-                <LinearGradient
-                  colors={[`${COLORS.info[0]}1A`, `${COLORS.info[0]}0D`] as const}
-                  style={styles.tipsGradient}
-                >
-                  <View style={styles.tipsHeader}>
-                    <Ionicons name="bulb" size={24} color={COLORS.info[0]} />
-                    <Text style={[styles.tipsTitle, { color: COLORS.info[0] }]}>Conseils pour améliorer votre observance</Text>
-                  </View>
-                  <Text style={styles.tipText}>
-                    • Prenez vos médicaments à la même heure chaque jour{'\n'}
-                    • Utilisez les rappels de l'application{'\n'}
-                    • Gardez vos médicaments dans un endroit visible{'\n'}
-                    • Parlez à votre tuteur en cas de difficultés
-                  </Text>
-                </LinearGradient>
               </View>
-            </View>
 
-            <View style={styles.bottomSpacing} />
-          </ScrollView>
+              <View style={styles.bottomSpacing} />
+            </ScrollView>
+          )}
 
           {/* Modal */}
           <CustomModal
@@ -372,6 +337,21 @@ const styles = StyleSheet.create({
     paddingHorizontal: 20,
   },
 
+  offlineBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 16,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    backgroundColor: `${COLORS.warning[0]}1A`,
+  },
+  offlineText: {
+    fontSize: 13,
+    color: COLORS.warning[0],
+  },
+
   // Stats Card
   statsCard: {
     marginTop: 24,
@@ -1,14 +1,17 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useTranslation } from 'react-i18next';
 import { ALARM_CONSTANTS } from '../../shared/constants/alarm';
+import { SNOOZE_DURATION_OPTIONS } from '../../shared/constants/medications';
 import { useMedicationAlarm } from '../../features/patient/hooks/useMedicationAlarm';
 
 export default function MedicationAlarmScreen() {
   const router = useRouter();
+  const { t } = useTranslation();
   const params = useLocalSearchParams();
 
   const reminderId = typeof params.reminderId === 'string' ? params.reminderId : '';
@@ -21,10 +24,23 @@ export default function MedicationAlarmScreen() {
   const dosage = dosageParam ? decodeURIComponent(dosageParam) : '';
   const hasVoiceMessage = Boolean(audioPath);
 
-  const { currentTime, isProcessing, handleConfirm, handleSnooze } = useMedicationAlarm({
+  const { currentTime, isProcessing, snoozeStatus, handleConfirm, handleSnooze, handleSkip } = useMedicationAlarm({
     reminderId,
     audioPath,
   });
+  const [snoozeMinutes, setSnoozeMinutes] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (snoozeStatus && snoozeMinutes === null) {
+      setSnoozeMinutes(snoozeStatus.policy.durationMinutes);
+    }
+  }, [snoozeStatus, snoozeMinutes]);
+
+  const snoozeOptions = Array.from(
+    new Set([...SNOOZE_DURATION_OPTIONS, snoozeStatus?.policy.durationMinutes ?? SNOOZE_DURATION_OPTIONS[0]])
+  ).sort((a, b) => a - b);
+  const selectedSnoozeMinutes = snoozeMinutes ?? snoozeStatus?.policy.durationMinutes ?? SNOOZE_DURATION_OPTIONS[0];
+  const snoozeExhausted = snoozeStatus !== null && snoozeStatus.remaining <= 0;
 
   const timeLabel = currentTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
 
@@ -94,17 +110,53 @@ export default function MedicationAlarmScreen() {
               <Text style={styles.actionSubtitle}>Stop alarm and confirm</Text>
             </View>
           </TouchableOpacity>
-          <TouchableOpacity
-            style={[styles.actionButton, styles.secondaryAction]}
-            onPress={handleSnooze}
-            disabled={isProcessing}
-          >
-            <Ionicons name="moon" size={20} color="#1f2937" />
-            <View style={styles.actionCopy}>
-              <Text style={styles.actionTitleDark}>Snooze</Text>
-              <Text style={styles.actionSubtitleDark}>Remind me in 5 minutes</Text>
-            </View>
-          </TouchableOpacity>
+          {snoozeExhausted ? (
+            <TouchableOpacity
+              style={[styles.actionButton, styles.secondaryAction]}
+              onPress={handleSkip}
+              disabled={isProcessing}
+            >
+              <Ionicons name="close-circle" size={20} color="#1f2937" />
+              <View style={styles.actionCopy}>
+                <Text style={styles.actionTitleDark}>{t('alarm.skipDose')}</Text>
+                <Text style={styles.actionSubtitleDark}>{t('alarm.skipDoseDesc')}</Text>
+              </View>
+            </TouchableOpacity>
+          ) : (
+            <>
+              <TouchableOpacity
+                style={[styles.actionButton, styles.secondaryAction]}
+                onPress={() => handleSnooze(selectedSnoozeMinutes)}
+                disabled={isProcessing}
+              >
+                <Ionicons name="moon" size={20} color="#1f2937" />
+                <View style={styles.actionCopy}>
+                  <Text style={styles.actionTitleDark}>Snooze</Text>
+                  <Text style={styles.actionSubtitleDark}>
+                    {t('alarm.remindIn', { minutes: selectedSnoozeMinutes })}
+                    {snoozeStatus ? t('alarm.snoozesLeft', { count: snoozeStatus.remaining }) : ''}
+                  </Text>
+                </View>
+              </TouchableOpacity>
+              <View style={styles.snoozeOptions}>
+                {snoozeOptions.map(minutes => {
+                  const isSelected = minutes === selectedSnoozeMinutes;
+                  return (
+                    <TouchableOpacity
+                      key={minutes}
+                      style={[styles.snoozeChip, isSelected && styles.snoozeChipActive]}
+                      onPress={() => setSnoozeMinutes(minutes)}
+                      disabled={isProcessing}
+                    >
+                      <Text style={[styles.snoozeChipText, isSelected && styles.snoozeChipTextActive]}>
+                        {t('alarm.snoozeOption', { minutes })}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </>
+          )}
         </View>
       </SafeAreaView>
     </LinearGradient>
@@ -260,6 +312,31 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginTop: 2,
   },
+  snoozeOptions: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  snoozeChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 999,
+    backgroundColor: 'rgba(255,255,255,0.12)',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.2)',
+  },
+  snoozeChipActive: {
+    backgroundColor: ALARM_CONSTANTS.SNOOZE_COLOR,
+    borderColor: ALARM_CONSTANTS.SNOOZE_COLOR,
+  },
+  snoozeChipText: {
+    color: 'rgba(255,255,255,0.85)',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  snoozeChipTextActive: {
+    color: '#FFFFFF',
+  },
   actionText: {
     color: '#FFFFFF',
     fontSize: 16,
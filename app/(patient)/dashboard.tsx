@@ -2,14 +2,19 @@ import React, { useEffect, useCallback } from 'react';
 import { FlatList, RefreshControl, StyleSheet, Text, View } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useFocusEffect } from 'expo-router';
+import { useFocusEffect, useRouter } from 'expo-router';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useTranslation } from 'react-i18next';
 import { usePatientDashboard } from '../../features/patient/hooks/usePatientDashboard';
+import { useTravelNotice } from '../../features/patient/hooks/useTravelNotice';
+import { useOfflineQueueStatus } from '../../features/patient/hooks/useOfflineQueueStatus';
+import { useReminderCoverage } from '../../features/patient/hooks/useReminderCoverage';
 import DashboardHeader from '../../features/patient/components/DashboardHeader';
 import DateSelector from '../../features/patient/components/DateSelector';
 import MedicationCard from '../../features/patient/components/MedicationCard';
 import SyncBanner from '../../features/patient/components/SyncBanner';
+import TravelBanner from '../../features/patient/components/TravelBanner';
+import CoverageBanner from '../../features/patient/components/CoverageBanner';
 import SyncBlockingOverlay from '../../features/patient/components/SyncBlockingOverlay';
 import CustomModal from '../../shared/components/ui/Modal';
 import EmptyState from '../../shared/components/ui/EmptyState';
@@ -42,6 +47,10 @@ export default function PatientDashboardScreen() {
     handleLogout,
     isTokenLoading,
   } = usePatientDashboard();
+  const { travelNotice, dismissTravelNotice } = useTravelNotice();
+  const { deadLetters } = useOfflineQueueStatus();
+  const { coverage } = useReminderCoverage();
+  const router = useRouter();
 
   useFocusEffect(
     useCallback(() => {
@@ -110,8 +119,18 @@ export default function PatientDashboardScreen() {
           isSyncing={isSyncing}
           onSyncPress={() => syncReminders(false)}
           i18nLanguage={i18n.language}
+          pendingCount={pendingSyncCount}
+          deadLetterCount={deadLetters.length}
+          onReviewPress={() => router.push('/(patient)/sync-issues')}
         />
 
+        <TravelBanner
+          travelState={travelNotice}
+          onDismiss={dismissTravelNotice}
+        />
+
+        <CoverageBanner coverage={coverage} currentTime={currentTime} />
+
         <DateSelector
           selectedDate={selectedDate}
           onDateSelect={setSelectedDate}
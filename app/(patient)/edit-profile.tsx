@@ -5,19 +5,24 @@ import { Ionicons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useTranslation } from 'react-i18next';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getAccessToken, getCurrentUser } from '../../shared/services/api/session';
 import { getUserProfile, updateUserProfile } from '../../shared/services/api/common';
 import { useModal } from '../../shared/hooks/useModal';
 import CustomModal from '../../shared/components/ui/Modal';
 import { getThemeColors } from '../../config/theme';
 import { networkMonitor } from '../../shared/services/networkMonitor';
 import { loadCachedProfile, saveCachedProfile } from '../../shared/utils/profileCache';
+import { setUserTimeZone } from '../../shared/utils/timezone';
+import TimeZonePickerModal from '../../shared/components/modals/TimeZonePickerModal';
+import localReminderService from '../../shared/services/localReminderService';
 
 interface ProfileFormData {
   firstName: string;
   lastName: string;
   email: string;
   phoneNumber: string;
+  // IANA zone; null follows the device
+  timezone: string | null;
 }
 
 export default function PatientEditProfileScreen() {
@@ -33,23 +38,18 @@ export default function PatientEditProfileScreen() {
     lastName: '',
     email: '',
     phoneNumber: '',
+    timezone: null,
   });
+  const [showTimeZonePicker, setShowTimeZonePicker] = useState(false);
 
   useEffect(() => {
     const loadProfile = async () => {
       let resolvedUserId: string | null = null;
-      const storedToken = await AsyncStorage.getItem('userToken');
+      const storedToken = await getAccessToken();
       setToken(storedToken);
-      const storedUser = await AsyncStorage.getItem('userData');
-      if (storedUser) {
-        try {
-          const parsed = JSON.parse(storedUser);
-          resolvedUserId = parsed?.id || null;
-          setUserId(resolvedUserId);
-        } catch {
-          setUserId(null);
-        }
-      }
+      const storedUser = await getCurrentUser();
+      resolvedUserId = storedUser?.id || null;
+      setUserId(resolvedUserId);
 
       if (storedToken) {
         try {
@@ -62,6 +62,7 @@ export default function PatientEditProfileScreen() {
                 lastName: cached.lastName || '',
                 email: cached.email || '',
                 phoneNumber: cached.phoneNumber || cached.phone || '',
+                timezone: cached.timezone || null,
               });
             }
             return;
@@ -75,6 +76,7 @@ export default function PatientEditProfileScreen() {
               lastName: data.lastName || '',
               email: data.email || '',
               phoneNumber: data.phoneNumber || '',
+              timezone: data.timezone || null,
             });
             await saveCachedProfile(data, resolvedUserId);
           } else {
@@ -85,6 +87,7 @@ export default function PatientEditProfileScreen() {
                 lastName: cached.lastName || '',
                 email: cached.email || '',
                 phoneNumber: cached.phoneNumber || cached.phone || '',
+                timezone: cached.timezone || null,
               });
             }
           }
@@ -97,6 +100,7 @@ export default function PatientEditProfileScreen() {
               lastName: cached.lastName || '',
               email: cached.email || '',
               phoneNumber: cached.phoneNumber || cached.phone || '',
+              timezone: cached.timezone || null,
             });
           } else {
             showModal('error', t('common.error'), t('common.errorMessage'));
@@ -130,6 +134,7 @@ export default function PatientEditProfileScreen() {
         lastName: formData.lastName,
         email: formData.email,
         phone: formData.phoneNumber,
+        timezone: formData.timezone,
       });
 
       if (result.success) {
@@ -141,8 +146,17 @@ export default function PatientEditProfileScreen() {
           email: formData.email,
           phoneNumber: formData.phoneNumber,
           phone: formData.phoneNumber,
+          timezone: formData.timezone,
         };
+        const timeZoneChanged = (cached?.timezone || null) !== formData.timezone;
         await saveCachedProfile(updatedProfile, userId);
+        await setUserTimeZone(formData.timezone);
+        // Dose times are planned server-side in the profile zone, pull the re-planned schedule
+        if (timeZoneChanged) {
+          localReminderService.reconcileReminders(token, 30, { force: true, full: true }).catch((error: any) => {
+            console.error('❌ Error rescheduling reminders after timezone change:', error);
+          });
+        }
         showModal('success', t('common.success'), t('profile.editProfile') + ' ' + t('common.success'));
         setTimeout(() => {
           hideModal();
@@ -260,6 +274,20 @@ export default function PatientEditProfileScreen() {
                   />
                 </View>
               </View>
+
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>{t('profile.timezone')}</Text>
+                <TouchableOpacity
+                  style={[styles.inputContainer, { borderColor: `${colors.primary}30` }]}
+                  onPress={() => setShowTimeZonePicker(true)}
+                >
+                  <Ionicons name="time" size={20} color={colors.textTertiary} />
+                  <Text style={[styles.input, { color: colors.text }]}>
+                    {formData.timezone || t('profile.timezoneDevice')}
+                  </Text>
+                  <Ionicons name="chevron-down" size={18} color={colors.textTertiary} />
+                </TouchableOpacity>
+              </View>
             </View>
 
             <TouchableOpacity
@@ -286,6 +314,14 @@ export default function PatientEditProfileScreen() {
           type={modalData.type}
           onClose={hideModal}
         />
+
+        <TimeZonePickerModal
+          visible={showTimeZonePicker}
+          value={formData.timezone}
+          onSelect={(timezone) => setFormData({ ...formData, timezone })}
+          onClose={() => setShowTimeZonePicker(false)}
+          primaryColor={colors.primary}
+        />
       </LinearGradient>
     </SafeAreaView>
   );
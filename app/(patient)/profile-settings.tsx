@@ -5,18 +5,28 @@ import { Ionicons } from '@expo/vector-icons';
 import { useRouter, useFocusEffect } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useTranslation } from 'react-i18next';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { getUserProfile, updateUserProfile } from '../../shared/services/api/common';
+import { getAccessToken, getCurrentUser } from '../../shared/services/api/session';
+import { getUserProfile } from '../../shared/services/api/common';
 import { useModal } from '../../shared/hooks/useModal';
 import CustomModal from '../../shared/components/ui/Modal';
 import LanguagePickerModal from '../../shared/components/modals/LanguagePickerModal';
+import SnoozeSettingsModal from '../../shared/components/modals/SnoozeSettingsModal';
 import { useLanguageChange } from '../../shared/hooks/useLanguageChange';
 import { networkMonitor } from '../../shared/services/networkMonitor';
+import { mutationOutbox } from '../../shared/services/mutationOutbox';
+import { toVersionedEdit } from '../../shared/utils/conflicts';
 import { isNetworkError } from '../../shared/utils/errorHandling';
 import { getThemeColors } from '../../config/theme';
 import { changeLanguage } from '../../i18n';
 import { performLogout } from '../../shared/utils/logout';
 import { loadCachedProfile, saveCachedProfile } from '../../shared/utils/profileCache';
+import { getUserTimeZone, setUserTimeZone } from '../../shared/utils/timezone';
+import { snoozeService } from '../../shared/services/snoozeService';
+import { logService } from '../../shared/services/logService';
+import { DEFAULT_SNOOZE_POLICY } from '../../shared/constants/medications';
+import { SnoozePolicy } from '../../shared/types';
+
+const DIAGNOSTICS_UNLOCK_TAPS = 7;
 
 interface UserProfile {
   id: string;
@@ -28,6 +38,7 @@ interface UserProfile {
   notificationsEnabled: boolean;
   timezone?: string;
   language?: string;
+  snoozePolicy?: SnoozePolicy | null;
 }
 
 export default function PatientProfileSettingsScreen() {
@@ -41,23 +52,21 @@ export default function PatientProfileSettingsScreen() {
   const [token, setToken] = useState<string | null>(null);
   const [userId, setUserId] = useState<string | null>(null);
   const [notificationsEnabled, setNotificationsEnabled] = useState(true);
+  const [snoozePolicy, setSnoozePolicy] = useState<SnoozePolicy>(DEFAULT_SNOOZE_POLICY);
+  const [showSnoozeSettings, setShowSnoozeSettings] = useState(false);
+  // Taps on "About"; the reminder diagnostics screen for support opens on the seventh
+  const [aboutTaps, setAboutTaps] = useState(0);
 
   useEffect(() => {
     const loadToken = async () => {
-      const storedToken = await AsyncStorage.getItem('userToken');
+      const storedToken = await getAccessToken();
       setToken(storedToken);
 
-      const userData = await AsyncStorage.getItem('userData');
-      if (userData) {
-        try {
-          const parsed = JSON.parse(userData);
-          setUserId(parsed?.id || null);
-        } catch {
-          setUserId(null);
-        }
-      }
+      const user = await getCurrentUser();
+      setUserId(user?.id || null);
     };
     loadToken();
+    snoozeService.getPatientSnoozePolicy().then(setSnoozePolicy);
   }, []);
 
   const loadProfile = useCallback(async () => {
@@ -80,7 +89,13 @@ export default function PatientProfileSettingsScreen() {
       if (result.success && result.data) {
         const data = result.data as UserProfile;
         setProfile(data);
+        await setUserTimeZone(data.timezone || null);
         setNotificationsEnabled(data.notificationsEnabled ?? true);
+        if (data.snoozePolicy) {
+          // Server copy wins so the setting follows the patient across devices
+          setSnoozePolicy(data.snoozePolicy);
+          await snoozeService.savePatientSnoozePolicy(data.snoozePolicy);
+        }
         await saveCachedProfile(data, userId);
       } else {
         const cached = await loadCachedProfile<UserProfile>(userId);
@@ -125,7 +140,8 @@ export default function PatientProfileSettingsScreen() {
     if (!token) return;
 
     try {
-      await updateUserProfile(token, { notificationsEnabled: value } as any);
+      const profileData = { notificationsEnabled: value };
+      await mutationOutbox.runOrEnqueue(token, 'updateProfile', { profileData, ...toVersionedEdit(profile, profileData) });
       if (profile) {
         const updatedProfile = { ...profile, notificationsEnabled: value };
         setProfile(updatedProfile);
@@ -150,16 +166,38 @@ export default function PatientProfileSettingsScreen() {
         await saveCachedProfile(updatedProfile, userId);
       }
 
-      const online = await networkMonitor.isOnline();
-      if (!online) {
-        console.log('Skipping language sync while offline');
-        return;
+      // Sent as soon as the device is online again
+      const profileData = { language };
+      await mutationOutbox.runOrEnqueue(token, 'updateProfile', { profileData, ...toVersionedEdit(profile, profileData) });
+    } catch (error) {
+      console.error('Error updating language preference:', error);
+      if (!isNetworkError(error)) {
+        showModal('error', t('common.error'), t('common.errorMessage'));
       }
+    }
+  };
+
+  const handleSnoozePolicyChange = async (policy: SnoozePolicy) => {
+    const previous = snoozePolicy;
+    setSnoozePolicy(policy);
 
-      await updateUserProfile(token, { language } as any);
+    try {
+      await snoozeService.savePatientSnoozePolicy(policy);
+
+      if (profile) {
+        const updatedProfile = { ...profile, snoozePolicy: policy };
+        setProfile(updatedProfile);
+        await saveCachedProfile(updatedProfile, userId);
+      }
+
+      if (!token) return;
+      const profileData = { snoozePolicy: policy };
+      await mutationOutbox.runOrEnqueue(token, 'updateProfile', { profileData, ...toVersionedEdit(profile, profileData) });
     } catch (error) {
-      console.error('Error updating language preference:', error);
+      console.error('Error updating snooze settings:', error);
       if (!isNetworkError(error)) {
+        setSnoozePolicy(previous);
+        await snoozeService.savePatientSnoozePolicy(previous);
         showModal('error', t('common.error'), t('common.errorMessage'));
       }
     }
@@ -176,6 +214,23 @@ export default function PatientProfileSettingsScreen() {
     }, 2000);
   };
 
+  const handleAboutPress = () => {
+    if (aboutTaps + 1 >= DIAGNOSTICS_UNLOCK_TAPS) {
+      setAboutTaps(0);
+      router.push('/(patient)/reminder-diagnostics' as any);
+      return;
+    }
+    setAboutTaps(aboutTaps + 1);
+  };
+
+  const handleSendLogs = async () => {
+    const sent = await logService.exportLogs(t('profile.sendLogsTitle'));
+    if (!sent) {
+      return;
+    }
+    showModal('success', t('profile.sendLogs'), t('profile.sendLogsDone'));
+  };
+
   const getInitials = () => {
     if (!profile) return '?';
     return `${profile.firstName?.charAt(0) || 'P'}${profile.lastName?.charAt(0) || 'I'}`.toUpperCase();
@@ -343,12 +398,17 @@ export default function PatientProfileSettingsScreen() {
                   currentLanguage === 'fr' ? t('language.french') : currentLanguage === 'ar' ? t('language.arabic') : t('language.english'),
                   () => setShowLanguagePicker(true)
                 )}
+                {renderSettingItem(
+                  'alarm',
+                  t('profile.snooze'),
+                  t('profile.snoozeDesc', { minutes: snoozePolicy.durationMinutes, max: snoozePolicy.maxSnoozes }),
+                  () => setShowSnoozeSettings(true)
+                )}
                 {renderSettingItem(
                   'time',
                   t('profile.timezone'),
-                  profile?.timezone || 'Africa/Tunis',
-                  () => {},
-                  false
+                  profile?.timezone || getUserTimeZone(),
+                  () => router.push('/(patient)/edit-profile' as any)
                 )}
               </LinearGradient>
             </View>
@@ -392,11 +452,17 @@ export default function PatientProfileSettingsScreen() {
                   t('profile.privacyDesc'),
                   () => router.push('/(shared)/privacy-policy' as any)
                 )}
+                {renderSettingItem(
+                  'help-buoy',
+                  t('profile.sendLogs'),
+                  t('profile.sendLogsDesc'),
+                  handleSendLogs
+                )}
                 {renderSettingItem(
                   'information-circle',
                   t('profile.about'),
                   t('profile.version'),
-                  () => {},
+                  handleAboutPress,
                   false
                 )}
               </LinearGradient>
@@ -431,6 +497,14 @@ export default function PatientProfileSettingsScreen() {
           onSelect={handleLanguageChangeWithAPI}
           onClose={() => setShowLanguagePicker(false)}
         />
+
+        <SnoozeSettingsModal
+          visible={showSnoozeSettings}
+          policy={snoozePolicy}
+          onSave={handleSnoozePolicyChange}
+          onClose={() => setShowSnoozeSettings(false)}
+          primaryColor={colors.primary}
+        />
       </LinearGradient>
     </SafeAreaView>
   );
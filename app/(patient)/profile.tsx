@@ -3,11 +3,12 @@ import { View, Text, TouchableOpacity, StyleSheet, ScrollView, RefreshControl, F
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getCurrentUser } from '../../shared/services/api/session';
 import { getThemeColors } from '../../config/theme';
 import { usePatientProfile } from '../../features/doctor/hooks/usePatientProfile';
 import { useAuthToken } from '../../shared/hooks/useAuthToken';
 import PatientInfoCard from '../../features/doctor/components/PatientInfoCard';
+import DeviceHealthCard from '../../features/doctor/components/DeviceHealthCard';
 import PatientProfileTabs from '../../features/doctor/components/PatientProfileTabs';
 import ProfileMedicationCard from '../../features/doctor/components/ProfileMedicationCard';
 import AdherenceStatsSection from '../../features/doctor/components/AdherenceStatsSection';
@@ -24,9 +25,8 @@ export default function PatientProfileScreen() {
 
   React.useEffect(() => {
     const loadUserType = async () => {
-      const userData = await AsyncStorage.getItem('userData');
-      if (userData) {
-        const user = JSON.parse(userData);
+      const user = await getCurrentUser();
+      if (user) {
         setUserType(user.userType);
       }
     };
@@ -45,8 +45,12 @@ export default function PatientProfileScreen() {
     voiceMessages,
     showVoiceRecorder,
     currentPlayingVoice,
-    adherenceHistory,
+    adherenceReport,
+    adherenceEvents,
+    adherenceDaysBack,
     adherenceLoading,
+    deviceHealth,
+    deviceHealthWarnings,
     selectedTab,
     userType: hookUserType,
     setShowPrescriptionModal,
@@ -180,6 +184,9 @@ export default function PatientProfileScreen() {
           {/* Patient Contact Info */}
           <PatientInfoCard patient={patient} medicationCount={medications.length} colors={colors} />
 
+          {/* Patient Device Health */}
+          <DeviceHealthCard heartbeat={deviceHealth} warnings={deviceHealthWarnings} colors={colors} />
+
           {/* Tab Selector */}
           <PatientProfileTabs selectedTab={selectedTab} onTabChange={setSelectedTab} colors={colors} />
 
@@ -211,8 +218,13 @@ export default function PatientProfileScreen() {
                 <View style={styles.loadingContainer}>
                   <Text style={[styles.loadingText, { color: colors.text }]}>Chargement de l'observance...</Text>
                 </View>
-              ) : adherenceHistory ? (
-                <AdherenceStatsSection adherenceHistory={adherenceHistory} colors={colors} />
+              ) : adherenceReport ? (
+                <AdherenceStatsSection
+                  report={adherenceReport}
+                  recentEvents={adherenceEvents}
+                  periodDays={adherenceDaysBack}
+                  colors={colors}
+                />
               ) : (
                 <View style={styles.emptyContainer}>
                   <Ionicons name="stats-chart-outline" size={64} color="rgba(255, 255, 255, 0.3)" />
@@ -270,6 +282,7 @@ export default function PatientProfileScreen() {
           existingPrescription={selectedPrescription}
           patientName={patient ? `${patient.firstName || 'Patient'} ${patient.lastName || 'Inconnu'}` : 'Patient'}
           patientId={patientId || ''}
+          patientTimeZone={patient?.timezone}
           token={token || ''}
           voiceMessages={voiceMessages}
           onVoiceMessagesUpdate={(voices) => {
@@ -0,0 +1,388 @@
+import React, { useCallback } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView, ActivityIndicator, RefreshControl } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useTranslation } from 'react-i18next';
+import CustomModal from '../../shared/components/ui/Modal';
+import EmptyState from '../../shared/components/ui/EmptyState';
+import { useModal } from '../../shared/hooks/useModal';
+import { COLORS } from '../../shared/constants/colors';
+import { formatDateTime } from '../../shared/utils/formatting/timeFormatting';
+import { DiagnosticsAction, useReminderDiagnostics } from '../../features/patient/hooks/useReminderDiagnostics';
+import { DevicePermissions } from '../../shared/types/deviceHealth.types';
+
+const PERMISSIONS: (keyof DevicePermissions)[] = ['notifications', 'exactAlarms', 'overlays', 'batteryOptimizations'];
+
+export default function ReminderDiagnosticsScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const { visible, modalData, showModal, hideModal } = useModal();
+  const { report, isLoading, busyAction, refresh, forceReconcile, fireTestAlarm, exportReport } = useReminderDiagnostics();
+
+  const onReconcile = useCallback(async () => {
+    const result = await forceReconcile();
+    if (result.success) {
+      showModal('success', t('diagnostics.actions.reconcile'), t('diagnostics.reconcileDone'));
+    } else {
+      showModal('error', t('common.error'), t('diagnostics.reconcileError'));
+    }
+  }, [forceReconcile, showModal, t]);
+
+  const onTestAlarm = useCallback(async () => {
+    const result = await fireTestAlarm({
+      medicationName: t('diagnostics.testAlarmName'),
+      dosage: t('diagnostics.testAlarmDosage'),
+    });
+    if (!result.success) {
+      showModal('error', t('common.error'), t('diagnostics.testAlarmError'));
+    }
+  }, [fireTestAlarm, showModal, t]);
+
+  const onExport = useCallback(async () => {
+    const result = await exportReport(t('diagnostics.exportTitle'));
+    if (!result.success) {
+      showModal('error', t('common.error'), t('common.errorMessage'));
+    }
+  }, [exportReport, showModal, t]);
+
+  const formatOptional = (value: string | null) =>
+    value ? formatDateTime(value, { year: undefined }) : t('diagnostics.never');
+
+  const renderAction = (action: DiagnosticsAction, icon: string, onPress: () => void) => (
+    <TouchableOpacity
+      key={action}
+      style={styles.actionButton}
+      onPress={onPress}
+      disabled={!!busyAction}
+    >
+      {busyAction === action ? (
+        <ActivityIndicator color="white" size="small" />
+      ) : (
+        <Ionicons name={icon as any} size={18} color="white" />
+      )}
+      <Text style={styles.actionText}>{t(`diagnostics.actions.${action}`)}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderRow = (label: string, value: string, valueStyle?: object) => (
+    <View style={styles.row}>
+      <Text style={styles.rowLabel}>{label}</Text>
+      <Text style={[styles.rowValue, valueStyle]} selectable>{value}</Text>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <LinearGradient colors={COLORS.patient.background} style={styles.background}>
+        <LinearGradient
+          colors={[COLORS.patient.primary, COLORS.patient.primaryLight] as const}
+          start={{ x: 0, y: 0 }}
+          end={{ x: 1, y: 0 }}
+          style={styles.header}
+        >
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => {
+              if (router.canGoBack()) {
+                router.back();
+              } else {
+                router.replace('/(patient)/profile-settings');
+              }
+            }}
+          >
+            <Ionicons name="arrow-back" size={24} color="white" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>{t('diagnostics.title')}</Text>
+          <View style={styles.headerSpacer} />
+        </LinearGradient>
+
+        {isLoading && !report ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator color={COLORS.patient.primary} />
+          </View>
+        ) : (
+          <ScrollView
+            style={styles.content}
+            contentContainerStyle={styles.contentContainer}
+            refreshControl={
+              <RefreshControl
+                refreshing={false}
+                onRefresh={refresh}
+                tintColor="white"
+                colors={[COLORS.patient.primary]}
+              />
+            }
+          >
+            <View style={styles.actions}>
+              {renderAction('reconcile', 'sync', onReconcile)}
+              {renderAction('testAlarm', 'alarm', onTestAlarm)}
+              {renderAction('export', 'share-outline', onExport)}
+            </View>
+
+            {report && (
+              <>
+                <Text style={styles.sectionTitle}>{t('diagnostics.device')}</Text>
+                <View style={styles.card}>
+                  {renderRow(t('diagnostics.platform'), `${report.device.platform} ${report.device.osVersion}`)}
+                  {renderRow(t('diagnostics.appVersion'), report.device.appVersion || '-')}
+                  {renderRow(t('diagnostics.lastSync'), formatOptional(report.sync.lastSyncAt))}
+                  {renderRow(t('diagnostics.lastFullReconcile'), formatOptional(report.sync.lastFullReconcileAt))}
+                  {renderRow(t('diagnostics.pendingNotifications'), String(report.pendingNotificationCount))}
+                  {renderRow(t('diagnostics.deferred'), String(report.sync.deferredReminders))}
+                  {PERMISSIONS.map(permission => (
+                    <React.Fragment key={permission}>
+                      {renderRow(
+                        t(`diagnostics.permissions.${permission}`),
+                        report.device.permissions[permission] ? t('diagnostics.granted') : t('diagnostics.denied'),
+                        report.device.permissions[permission] ? undefined : styles.errorText
+                      )}
+                    </React.Fragment>
+                  ))}
+                </View>
+
+                {(report.untrackedNotifications.length > 0 || report.untrackedAlarms.length > 0) && (
+                  <View style={[styles.card, styles.warningCard]}>
+                    {report.untrackedNotifications.length > 0 && (
+                      <>
+                        <Text style={styles.warningTitle}>
+                          {t('diagnostics.untrackedNotifications', { total: report.untrackedNotifications.length })}
+                        </Text>
+                        {report.untrackedNotifications.map(notification => (
+                          <Text key={notification.identifier} style={styles.mono} selectable>
+                            {notification.identifier} ({notification.reminderId})
+                          </Text>
+                        ))}
+                      </>
+                    )}
+                    {report.untrackedAlarms.length > 0 && (
+                      <>
+                        <Text style={styles.warningTitle}>
+                          {t('diagnostics.untrackedAlarms', { total: report.untrackedAlarms.length })}
+                        </Text>
+                        {report.untrackedAlarms.map(alarmId => (
+                          <Text key={alarmId} style={styles.mono} selectable>{alarmId}</Text>
+                        ))}
+                      </>
+                    )}
+                  </View>
+                )}
+
+                <Text style={styles.sectionTitle}>
+                  {t('diagnostics.reminders', { total: report.records.length })}
+                </Text>
+                {report.records.length === 0 ? (
+                  <EmptyState
+                    icon="alarm-outline"
+                    title={t('diagnostics.emptyTitle')}
+                    subtitle={t('diagnostics.emptySubtitle')}
+                  />
+                ) : (
+                  report.records.map(({ record, pendingNotificationIds, missingNotificationIds, alarm, voice, issues }) => (
+                    <View key={record.reminderId} style={[styles.card, issues.length > 0 && styles.issueCard]}>
+                      <Text style={styles.cardTitle}>
+                        {record.medicationName || record.reminderId}
+                        {record.dosage ? ` · ${record.dosage}` : ''}
+                      </Text>
+                      <Text style={styles.cardMeta}>
+                        {record.scheduledFor ? formatDateTime(record.scheduledFor, { year: undefined }) : '-'}
+                      </Text>
+
+                      {renderRow(t('diagnostics.fields.reminderId'), record.reminderId, styles.mono)}
+                      {renderRow(t('diagnostics.fields.schedule'), record.schedule.platform)}
+                      {alarm !== 'none' && renderRow(
+                        t('diagnostics.fields.alarm'),
+                        `${record.schedule.alarmId || record.reminderId} · ${t(`diagnostics.alarmStates.${alarm}`)}`
+                      )}
+                      {(pendingNotificationIds.length > 0 || missingNotificationIds.length > 0) && (
+                        <View style={styles.row}>
+                          <Text style={styles.rowLabel}>{t('diagnostics.fields.notifications')}</Text>
+                          <View style={styles.idList}>
+                            {pendingNotificationIds.map(id => (
+                              <Text key={id} style={styles.mono} selectable>✓ {id}</Text>
+                            ))}
+                            {missingNotificationIds.map(id => (
+                              <Text key={id} style={[styles.mono, styles.errorText]} selectable>✗ {id}</Text>
+                            ))}
+                          </View>
+                        </View>
+                      )}
+                      {renderRow(t('diagnostics.fields.fingerprint'), record.fingerprint, styles.mono)}
+                      {renderRow(
+                        t('diagnostics.fields.voice'),
+                        t(`diagnostics.voiceStates.${voice}`),
+                        voice === 'missing' ? styles.errorText : undefined
+                      )}
+
+                      {issues.map(issue => (
+                        <View key={issue} style={styles.issue}>
+                          <Ionicons name="alert-circle" size={16} color={COLORS.error[0]} />
+                          <Text style={styles.issueText}>{t(`diagnostics.issues.${issue}`)}</Text>
+                        </View>
+                      ))}
+                    </View>
+                  ))
+                )}
+              </>
+            )}
+          </ScrollView>
+        )}
+      </LinearGradient>
+
+      <CustomModal
+        visible={visible}
+        title={modalData.title}
+        message={modalData.message}
+        type={modalData.type}
+        onClose={hideModal}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  background: {
+    flex: 1,
+  },
+  header: {
+    paddingTop: 20,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: 'white',
+    flex: 1,
+    textAlign: 'center',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 20,
+  },
+  actionButton: {
+    flex: 1,
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 12,
+    paddingHorizontal: 8,
+    borderRadius: 12,
+    backgroundColor: COLORS.patient.primaryDark,
+  },
+  actionText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: 'white',
+    textAlign: 'center',
+  },
+  sectionTitle: {
+    marginTop: 24,
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.patient.primary,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+  },
+  card: {
+    marginTop: 12,
+    padding: 16,
+    borderRadius: 16,
+    backgroundColor: COLORS.patient.cardBg[0],
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  warningCard: {
+    backgroundColor: 'rgba(245, 158, 11, 0.1)',
+    borderColor: 'rgba(245, 158, 11, 0.3)',
+  },
+  issueCard: {
+    backgroundColor: 'rgba(239, 68, 68, 0.08)',
+    borderColor: 'rgba(239, 68, 68, 0.3)',
+  },
+  warningTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.warning[0],
+    marginBottom: 4,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: COLORS.text,
+  },
+  cardMeta: {
+    fontSize: 12,
+    color: COLORS.textTertiary,
+    marginTop: 2,
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+    paddingVertical: 4,
+  },
+  rowLabel: {
+    fontSize: 13,
+    color: COLORS.textTertiary,
+  },
+  rowValue: {
+    flexShrink: 1,
+    fontSize: 13,
+    color: COLORS.textSecondary,
+    textAlign: 'right',
+  },
+  idList: {
+    flexShrink: 1,
+    alignItems: 'flex-end',
+  },
+  mono: {
+    fontSize: 12,
+    fontFamily: 'monospace',
+    color: COLORS.textSecondary,
+  },
+  errorText: {
+    color: COLORS.error[0],
+  },
+  issue: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 8,
+  },
+  issueText: {
+    flex: 1,
+    fontSize: 13,
+    color: COLORS.error[0],
+  },
+});
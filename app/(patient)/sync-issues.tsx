@@ -0,0 +1,305 @@
+import React, { useState, useCallback } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView, ActivityIndicator } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useTranslation } from 'react-i18next';
+import CustomModal from '../../shared/components/ui/Modal';
+import EmptyState from '../../shared/components/ui/EmptyState';
+import { useModal } from '../../shared/hooks/useModal';
+import { COLORS } from '../../shared/constants/colors';
+import { formatDateTime } from '../../shared/utils/formatting/timeFormatting';
+import { useOfflineQueueStatus } from '../../features/patient/hooks/useOfflineQueueStatus';
+
+export default function SyncIssuesScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const { visible, modalData, showModal, hideModal } = useModal();
+  const {
+    pendingCount,
+    deadLetters,
+    medicationsByReminder,
+    busyId,
+    retryAction,
+    retryAll,
+    discardAction,
+  } = useOfflineQueueStatus();
+  // Discarding loses the dose record for good, so it takes a second tap
+  const [confirmingId, setConfirmingId] = useState<string | null>(null);
+
+  const onRetry = useCallback(async (actionId: string) => {
+    const result = await retryAction(actionId);
+    if (!result.success) {
+      showModal('error', t('common.error'), t('syncIssues.retryError'));
+    }
+  }, [retryAction, showModal, t]);
+
+  const onRetryAll = useCallback(async () => {
+    const result = await retryAll();
+    if (!result.success) {
+      showModal('error', t('common.error'), t('syncIssues.retryError'));
+    }
+  }, [retryAll, showModal, t]);
+
+  const onDiscard = useCallback(async (actionId: string) => {
+    if (confirmingId !== actionId) {
+      setConfirmingId(actionId);
+      return;
+    }
+    setConfirmingId(null);
+    const result = await discardAction(actionId);
+    if (!result.success) {
+      showModal('error', t('common.error'), t('common.errorMessage'));
+    }
+  }, [confirmingId, discardAction, showModal, t]);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <LinearGradient colors={COLORS.patient.background} style={styles.background}>
+        <LinearGradient
+          colors={[COLORS.patient.primary, COLORS.patient.primaryLight] as const}
+          start={{ x: 0, y: 0 }}
+          end={{ x: 1, y: 0 }}
+          style={styles.header}
+        >
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => {
+              if (router.canGoBack()) {
+                router.back();
+              } else {
+                router.replace('/(patient)/dashboard');
+              }
+            }}
+          >
+            <Ionicons name="arrow-back" size={24} color="white" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>{t('syncIssues.title')}</Text>
+          <View style={styles.headerSpacer} />
+        </LinearGradient>
+
+        <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+          {pendingCount > 0 && (
+            <View style={styles.pendingInfo}>
+              <Ionicons name="time-outline" size={16} color={COLORS.warning[0]} />
+              <Text style={styles.pendingText}>{t('syncIssues.pending', { total: pendingCount })}</Text>
+            </View>
+          )}
+
+          {deadLetters.length === 0 ? (
+            <EmptyState
+              icon="checkmark-done-outline"
+              title={t('syncIssues.emptyTitle')}
+              subtitle={t('syncIssues.emptySubtitle')}
+            />
+          ) : (
+            <>
+              <Text style={styles.intro}>{t('syncIssues.intro')}</Text>
+
+              {deadLetters.map(action => {
+                const medication = medicationsByReminder[action.reminderId];
+                const isBusy = busyId === action.id || busyId === 'all';
+                return (
+                  <View key={action.id} style={styles.card}>
+                    <View style={styles.cardHeader}>
+                      <Ionicons name="alert-circle" size={20} color={COLORS.error[0]} />
+                      <View style={styles.cardTitleBlock}>
+                        <Text style={styles.cardTitle}>
+                          {t(`syncIssues.actions.${action.type}`)}
+                          {medication ? ` · ${medication.medicationName}` : ''}
+                        </Text>
+                        <Text style={styles.cardMeta}>
+                          {formatDateTime(medication?.scheduledFor || action.timestamp, { year: undefined })}
+                        </Text>
+                      </View>
+                    </View>
+
+                    <Text style={styles.reason}>{t(`syncIssues.reasons.${action.reason}`)}</Text>
+                    {!!action.lastError && <Text style={styles.lastError}>{action.lastError}</Text>}
+
+                    {isBusy ? (
+                      <ActivityIndicator color={COLORS.patient.primary} style={styles.loader} />
+                    ) : (
+                      <View style={styles.actions}>
+                        <TouchableOpacity
+                          style={[styles.discardButton, confirmingId === action.id && styles.discardConfirm]}
+                          onPress={() => onDiscard(action.id)}
+                        >
+                          <Text style={styles.discardText}>
+                            {confirmingId === action.id ? t('syncIssues.confirmDiscard') : t('syncIssues.discard')}
+                          </Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity style={styles.retryButton} onPress={() => onRetry(action.id)}>
+                          <Ionicons name="refresh" size={16} color="white" />
+                          <Text style={styles.retryText}>{t('syncIssues.retry')}</Text>
+                        </TouchableOpacity>
+                      </View>
+                    )}
+                  </View>
+                );
+              })}
+
+              {deadLetters.length > 1 && (
+                <TouchableOpacity style={styles.retryAllButton} onPress={onRetryAll} disabled={!!busyId}>
+                  <Text style={styles.retryText}>{t('syncIssues.retryAll')}</Text>
+                </TouchableOpacity>
+              )}
+            </>
+          )}
+        </ScrollView>
+      </LinearGradient>
+
+      <CustomModal
+        visible={visible}
+        title={modalData.title}
+        message={modalData.message}
+        type={modalData.type}
+        onClose={hideModal}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  background: {
+    flex: 1,
+  },
+  header: {
+    paddingTop: 20,
+    paddingBottom: 20,
+    paddingHorizontal: 20,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: 'white',
+    flex: 1,
+    textAlign: 'center',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  pendingInfo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 20,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: 'rgba(245, 158, 11, 0.1)',
+  },
+  pendingText: {
+    flex: 1,
+    fontSize: 13,
+    color: COLORS.warning[0],
+  },
+  intro: {
+    marginTop: 20,
+    fontSize: 14,
+    lineHeight: 20,
+    color: COLORS.textSecondary,
+  },
+  card: {
+    marginTop: 16,
+    padding: 16,
+    borderRadius: 16,
+    backgroundColor: 'rgba(239, 68, 68, 0.08)',
+    borderWidth: 1,
+    borderColor: 'rgba(239, 68, 68, 0.3)',
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  cardTitleBlock: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: COLORS.text,
+  },
+  cardMeta: {
+    fontSize: 12,
+    color: COLORS.textTertiary,
+    marginTop: 2,
+  },
+  reason: {
+    marginTop: 12,
+    fontSize: 14,
+    color: COLORS.textSecondary,
+  },
+  lastError: {
+    marginTop: 4,
+    fontSize: 12,
+    color: COLORS.textTertiary,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 10,
+    marginTop: 16,
+  },
+  discardButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  discardConfirm: {
+    borderColor: COLORS.error[0],
+    backgroundColor: 'rgba(239, 68, 68, 0.15)',
+  },
+  discardText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.textSecondary,
+  },
+  retryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 10,
+    backgroundColor: COLORS.patient.primary,
+  },
+  retryText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: 'white',
+  },
+  retryAllButton: {
+    marginTop: 20,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: COLORS.patient.primaryDark,
+  },
+  loader: {
+    marginTop: 16,
+  },
+});
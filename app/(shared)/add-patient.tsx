@@ -5,8 +5,8 @@ import { Ionicons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useTranslation } from 'react-i18next';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { sendPatientInvitation } from '../../shared/services/api/caregiver';
+import { getAccessToken, getCurrentUser } from '../../shared/services/api/session';
+import { mutationOutbox } from '../../shared/services/mutationOutbox';
 import InternationalPhoneInput, { PhoneInputValue } from '../../shared/components/forms/InternationalPhoneInput';
 import { extractErrorMessage } from '../../shared/utils/errorHandling';
 import { useModal } from '../../shared/hooks/useModal';
@@ -31,12 +31,11 @@ export default function AddPatientScreen() {
   useEffect(() => {
     const loadTokenAndUserType = async () => {
       try {
-        const storedToken = await AsyncStorage.getItem('userToken');
+        const storedToken = await getAccessToken();
         setToken(storedToken);
 
-        const userData = await AsyncStorage.getItem('userData');
-        if (userData) {
-          const user = JSON.parse(userData);
+        const user = await getCurrentUser();
+        if (user) {
           setUserType(user.userType);
         }
       } catch (error) {
@@ -84,7 +83,7 @@ export default function AddPatientScreen() {
     setIsLoading(true);
 
     try {
-      const result = await sendPatientInvitation(token, {
+      const outcome = await mutationOutbox.runOrEnqueue(token, 'invitePatient', {
         firstName: formData.firstName.trim(),
         lastName: formData.lastName.trim(),
         phoneNumber: phoneValidation!.e164,
@@ -92,15 +91,14 @@ export default function AddPatientScreen() {
 
       setIsLoading(false);
 
-      if (result.success) {
-        showModal('success', t('common.success'), t('dashboard.doctor.patientAdded') || `Invitation envoyée avec succès au ${formData.phoneNumber}`);
-        setTimeout(() => {
-          hideModal();
-          router.back();
-        }, 2000);
-      } else {
-        showModal('error', t('common.error'), result.message || t('common.error'));
-      }
+      const message = outcome.queued
+        ? t('dashboard.doctor.invitationQueued')
+        : t('dashboard.doctor.patientAdded') || `Invitation envoyée avec succès au ${formData.phoneNumber}`;
+      showModal('success', t('common.success'), message);
+      setTimeout(() => {
+        hideModal();
+        router.back();
+      }, 2000);
     } catch (error: any) {
       setIsLoading(false);
       console.error('Error sending invitation:', error);
@@ -15,6 +15,7 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getAccessToken, getCurrentUser } from '../../shared/services/api/session';
 import { useRouter, useFocusEffect } from 'expo-router';
 import { useTranslation } from 'react-i18next';
 import { alarmService } from '../../shared/services/alarmService';
@@ -46,14 +47,8 @@ export default function PermissionsOnboardingScreen() {
 
   useEffect(() => {
     const loadUserType = async () => {
-      const stored = await AsyncStorage.getItem('userData');
-      if (!stored) return;
-      try {
-        const parsed = JSON.parse(stored);
-        setUserType(parsed?.userType ?? null);
-      } catch {
-        setUserType(null);
-      }
+      const user = await getCurrentUser();
+      setUserType(user?.userType ?? null);
     };
     loadUserType();
   }, []);
@@ -90,7 +85,7 @@ export default function PermissionsOnboardingScreen() {
 
   const registerPushTokenIfPossible = useCallback(async () => {
     try {
-      const token = await AsyncStorage.getItem('userToken');
+      const token = await getAccessToken();
       if (!token) return;
 
       const online = await networkMonitor.isOnline();
@@ -142,17 +137,10 @@ export default function PermissionsOnboardingScreen() {
     if (!status.allGranted) return;
     await AsyncStorage.setItem(PERMISSIONS_ONBOARDING_COMPLETED, 'true');
 
-    const stored = await AsyncStorage.getItem('userData');
+    const user = await getCurrentUser();
     let target = '/(patient)/dashboard';
-    if (stored) {
-      try {
-        const user = JSON.parse(stored);
-        if (user?.userType === 'medecin' || user?.userType === 'tuteur') {
-          target = '/(doctor)/dashboard';
-        }
-      } catch {
-        target = '/(patient)/dashboard';
-      }
+    if (user?.userType === 'medecin' || user?.userType === 'tuteur') {
+      target = '/(doctor)/dashboard';
     }
 
     router.replace(target as any);
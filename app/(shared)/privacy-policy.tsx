@@ -5,7 +5,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useTranslation } from 'react-i18next';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getAccessToken, getCurrentUser } from '../../shared/services/api/session';
 import { getThemeColors } from '../../config/theme';
 
 export default function PrivacyPolicyScreen() {
@@ -19,23 +19,22 @@ export default function PrivacyPolicyScreen() {
         // #region agent log
         fetch('http://127.0.0.1:7242/ingest/ef6884b6-78e4-4a25-87fa-c5f8fa77e982',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'privacy-policy.tsx:17',message:'Loading user type for privacy page',data:{hasUserData:false,hasToken:false},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'A'})}).catch(()=>{});
         // #endregion
-        const token = await AsyncStorage.getItem('userToken');
+        const token = await getAccessToken();
         // #region agent log
         fetch('http://127.0.0.1:7242/ingest/ef6884b6-78e4-4a25-87fa-c5f8fa77e982',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'privacy-policy.tsx:20',message:'Token check result',data:{hasToken:!!token,tokenLength:token?.length||0},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'B'})}).catch(()=>{});
         // #endregion
-        const userData = await AsyncStorage.getItem('userData');
+        const user = await getCurrentUser();
         // #region agent log
-        fetch('http://127.0.0.1:7242/ingest/ef6884b6-78e4-4a25-87fa-c5f8fa77e982',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'privacy-policy.tsx:22',message:'UserData check result',data:{hasUserData:!!userData,userDataLength:userData?.length||0,hasToken:!!token},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'C'})}).catch(()=>{});
+        fetch('http://127.0.0.1:7242/ingest/ef6884b6-78e4-4a25-87fa-c5f8fa77e982',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'privacy-policy.tsx:22',message:'UserData check result',data:{hasUserData:!!user,hasToken:!!token},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'C'})}).catch(()=>{});
         // #endregion
-        if (userData && token) {
-          const user = JSON.parse(userData);
+        if (user && token) {
           // #region agent log
           fetch('http://127.0.0.1:7242/ingest/ef6884b6-78e4-4a25-87fa-c5f8fa77e982',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'privacy-policy.tsx:25',message:'Setting userType from userData',data:{userType:user.userType},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'D'})}).catch(()=>{});
           // #endregion
           setUserType(user.userType);
         } else {
           // #region agent log
-          fetch('http://127.0.0.1:7242/ingest/ef6884b6-78e4-4a25-87fa-c5f8fa77e982',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'privacy-policy.tsx:28',message:'No userType set - user not logged in',data:{hasUserData:!!userData,hasToken:!!token},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'E'})}).catch(()=>{});
+          fetch('http://127.0.0.1:7242/ingest/ef6884b6-78e4-4a25-87fa-c5f8fa77e982',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'privacy-policy.tsx:28',message:'No userType set - user not logged in',data:{hasUserData:!!user,hasToken:!!token},timestamp:Date.now(),sessionId:'debug-session',runId:'run1',hypothesisId:'E'})}).catch(()=>{});
           // #endregion
           setUserType(null);
         }
@@ -11,9 +11,23 @@ import localReminderService from '../shared/services/localReminderService';
 import notifeeAlarmService from '../shared/services/notifeeAlarmService';
 import * as apiService from '../shared/services/api/patient';
 import { offlineQueueService } from '../shared/services/offlineQueueService';
+import { escalationService } from '../shared/services/escalationService';
+import { travelModeService } from '../shared/services/travelModeService';
+import { getAccessToken, getCurrentUser, onSessionExpired } from '../shared/services/api/session';
+import { mutationOutbox } from '../shared/services/mutationOutbox';
+import { prescriptionSyncService } from '../shared/services/prescriptionSyncService';
+import { reminderRefillService } from '../shared/services/reminderRefillService';
+import { logService } from '../shared/services/logService';
+import { secureStorage } from '../shared/services/secureStorage';
+import { hydrateUserTimeZone } from '../shared/utils/timezone';
 import { getNotificationPermissionStatus, getPermissionStatus } from '../shared/services/permissionService';
+import { updateCachedMedicationStatus } from '../shared/utils/medicationCache';
+import { getDoseActionKey } from '../shared/utils/idempotency';
+import { createLogger } from '../shared/utils/logger';
 import '../i18n';
 
+const log = createLogger('app');
+
 // Safely import notifee - it may not be available in Expo Go
 let notifee: any = null;
 let EventType: any = null;
@@ -32,86 +46,49 @@ try {
 
       const reminderId = notification.data.reminderId as string;
 
-      console.log('🔔 Notifee background event:', EventType?.[type], pressAction?.id);
+      log.info('🔔 Notifee background event:', EventType?.[type], pressAction?.id);
 
       if (type === EventType?.ACTION_PRESS && pressAction) {
         if (pressAction.id === 'confirm') {
-          console.log('✅ Background confirm action');
+          log.info('✅ Background confirm action');
           try {
             await confirmReminderAndSync(reminderId);
             if (notifee?.cancelNotification) {
               await notifee.cancelNotification(notification.id!);
             }
           } catch (error) {
-            console.error('Error confirming medication in background:', error);
+            log.error('Error confirming medication in background:', error);
           }
         } else if (pressAction.id === 'snooze') {
-          console.log('⏰ Background snooze action');
+          log.info('⏰ Background snooze action');
           try {
             await localReminderService.snoozeReminderLocally(reminderId);
             if (notifee?.cancelNotification) {
               await notifee.cancelNotification(notification.id!);
             }
           } catch (error) {
-            console.error('Error snoozing in background:', error);
+            log.error('Error snoozing in background:', error);
           }
         }
       }
     });
   }
 } catch (error) {
-  console.warn('⚠️ Notifee not available (expected in Expo Go):', error);
+  log.warn('⚠️ Notifee not available (expected in Expo Go):', error);
 }
 
-const MEDS_CACHE_PREFIX = '@patient_medications_by_date:';
-const STATS_CACHE_PREFIX = '@patient_medication_stats_by_date:';
-
-const updateCachedMedicationStatus = async (reminderIds: string[]) => {
-  try {
-    const reminderSet = new Set(reminderIds);
-    const keys = await AsyncStorage.getAllKeys();
-    const medsKeys = keys.filter(key => key.startsWith(MEDS_CACHE_PREFIX));
-
-    for (const medsKey of medsKeys) {
-      const medsJson = await AsyncStorage.getItem(medsKey);
-      if (!medsJson) continue;
-
-      const meds = JSON.parse(medsJson) as Array<{ reminderId: string; status: string }>;
-      let updated = false;
-      const updatedMeds = meds.map(med => {
-        if (reminderSet.has(med.reminderId) && med.status !== 'taken') {
-          updated = true;
-          return { ...med, status: 'taken' };
-        }
-        return med;
-      });
-
-      if (!updated) continue;
-
-      await AsyncStorage.setItem(medsKey, JSON.stringify(updatedMeds));
-
-      const dateKey = medsKey.replace(MEDS_CACHE_PREFIX, '');
-      const total = updatedMeds.length;
-      const taken = updatedMeds.filter(med => med.status === 'taken').length;
-      const adherenceRate = total > 0 ? Math.round((taken / total) * 100) : 0;
-      const statsKey = `${STATS_CACHE_PREFIX}${dateKey}`;
-      await AsyncStorage.setItem(
-        statsKey,
-        JSON.stringify({ totalMedicationsToday: total, takenToday: taken, adherenceRate })
-      );
-    }
-  } catch (error) {
-    console.error('Error updating cached medication status:', error);
-  }
-};
-
-const confirmReminderAndSync = async (reminderId: string) => {
+/**
+ * @param idempotencyKey - Key the confirmation was created with (native alarm, deep link);
+ * otherwise the key already recorded for this dose, or a new one
+ */
+const confirmReminderAndSync = async (reminderId: string, idempotencyKey?: string) => {
   try {
+    const key = await getDoseActionKey('confirm', reminderId, idempotencyKey);
     await localReminderService.confirmReminderLocally(reminderId);
     await updateCachedMedicationStatus([reminderId]);
     await AsyncStorage.setItem('@patient_dashboard_refresh', new Date().toISOString());
 
-    const token = await AsyncStorage.getItem('userToken');
+    const token = await getAccessToken();
     if (!token) {
       return;
     }
@@ -119,16 +96,16 @@ const confirmReminderAndSync = async (reminderId: string) => {
     const online = await networkMonitor.isOnline();
     if (online) {
       try {
-        await apiService.confirmMedicationTaken(token, [reminderId]);
+        await apiService.confirmMedicationTaken(token, [reminderId], key);
       } catch (error) {
-        console.error('Error confirming medication with backend:', error);
-        await offlineQueueService.addAction('confirm', reminderId);
+        log.error('Error confirming medication with backend:', error);
+        await offlineQueueService.addAction('confirm', reminderId, key);
       }
     } else {
-      await offlineQueueService.addAction('confirm', reminderId);
+      await offlineQueueService.addAction('confirm', reminderId, key);
     }
   } catch (error) {
-    console.error('Error confirming reminder:', error);
+    log.error('Error confirming reminder:', error);
   }
 };
 
@@ -143,18 +120,27 @@ export default function RootLayout() {
   }, [pathname]);
 
   useEffect(() => {
-    console.log('🚀 Initializing notification and network systems...');
+    // Keep the log buffer of earlier sessions for support exports
+    logService.initLogPersistence();
+    // Move tokens written by earlier versions to the keystore and encrypt cached health data
+    secureStorage.migrateLegacyStorage();
+    log.info('🚀 Initializing notification and network systems...');
 
     // Initialize notifee alarm service for Android
     if (Platform.OS === 'android' && notifee) {
       notifeeAlarmService.initialize().catch(err => {
-        console.error('❌ Error initializing notifee alarm service:', err);
+        log.error('❌ Error initializing notifee alarm service:', err);
       });
     }
 
+    // Restore the profile timezone before screens format any date
+    hydrateUserTimeZone().catch(err => {
+      log.error('❌ Error restoring user timezone:', err);
+    });
+
     // Initialize network monitoring
     networkMonitor.init().catch(err => {
-      console.error('❌ Error initializing network monitor:', err);
+      log.error('❌ Error initializing network monitor:', err);
     });
 
     // Initialize notification service
@@ -162,20 +148,24 @@ export default function RootLayout() {
       try {
         const token = await notificationService.initialize();
         if (token) {
-          console.log('✅ Notification service initialized with token');
+          log.info('✅ Notification service initialized with token');
+          await prescriptionSyncService.registerBackgroundPushTask();
         } else {
-          console.log('⚠️ Notification service initialized without token (emulator or no permissions)');
+          log.info('⚠️ Notification service initialized without token (emulator or no permissions)');
         }
       } catch (error: any) {
-        console.error('❌ Error initializing notifications:', error);
+        log.error('❌ Error initializing notifications:', error);
         if (error.message && error.message.includes('Firebase')) {
-          console.log('📱 Firebase error detected - continuing with local notifications only');
+          log.info('📱 Firebase error detected - continuing with local notifications only');
         }
       }
     };
 
     initNotifications();
 
+    // Keeps the scheduled reminders moving forward while the app stays closed
+    reminderRefillService.registerRefillTask();
+
     let isProcessingPendingConfirmations = false;
 
     const processNativePendingConfirmations = async () => {
@@ -184,30 +174,46 @@ export default function RootLayout() {
       }
 
       if (isProcessingPendingConfirmations) {
-        console.log('Pending confirmations already processing, skipping');
+        log.info('Pending confirmations already processing, skipping');
         return;
       }
 
       isProcessingPendingConfirmations = true;
 
       try {
+        // Doses whose snoozes ran out on the native alarm screen
+        const missedDoses = await alarmService.getPendingMissedDoses();
+        if (missedDoses.length) {
+          for (const reminderId of new Set(missedDoses.map(item => item.reminderId))) {
+            await localReminderService.markReminderMissedLocally(reminderId);
+          }
+          await alarmService.clearPendingMissedDoses();
+          await AsyncStorage.setItem('@patient_dashboard_refresh', new Date().toISOString());
+        }
+
         const pending = await alarmService.getPendingConfirmations();
         if (!pending.length) {
           return;
         }
 
-        const reminderIds = Array.from(new Set(pending.map(item => item.reminderId).filter(Boolean)));
-        if (!reminderIds.length) {
+        // One confirmation per reminder, with the key the native alarm created it with
+        const keysByReminder = new Map<string, string | undefined>();
+        pending.forEach(item => {
+          if (item.reminderId && !keysByReminder.has(item.reminderId)) {
+            keysByReminder.set(item.reminderId, item.idempotencyKey);
+          }
+        });
+        if (!keysByReminder.size) {
           return;
         }
-        for (const reminderId of reminderIds) {
-          await confirmReminderAndSync(reminderId);
+        for (const [reminderId, idempotencyKey] of keysByReminder) {
+          await confirmReminderAndSync(reminderId, idempotencyKey);
         }
 
         await alarmService.clearPendingConfirmations();
         await AsyncStorage.setItem('@patient_dashboard_refresh', new Date().toISOString());
       } catch (error) {
-        console.error('Error processing native pending confirmations:', error);
+        log.error('Error processing native pending confirmations:', error);
       } finally {
         isProcessingPendingConfirmations = false;
       }
@@ -226,13 +232,12 @@ export default function RootLayout() {
       }
 
       try {
-        const token = await AsyncStorage.getItem('userToken');
+        const token = await getAccessToken();
         if (!token) {
           return;
         }
 
-        const userData = await AsyncStorage.getItem('userData');
-        const user = userData ? JSON.parse(userData) : null;
+        const user = await getCurrentUser();
         if (user?.userType !== 'patient') {
           return;
         }
@@ -257,34 +262,49 @@ export default function RootLayout() {
           }, 500);
         }
       } catch (error) {
-        console.error(`Error enforcing permissions (${source}):`, error);
+        log.error(`Error enforcing permissions (${source}):`, error);
       }
     };
 
-    const maybeReconcileReminders = async (source: string) => {
+    const maybeReconcileReminders = async (source: string, force: boolean = false) => {
       try {
-        const token = await AsyncStorage.getItem('userToken');
+        const token = await getAccessToken();
         if (!token) {
           return;
         }
 
-        const userData = await AsyncStorage.getItem('userData');
-        const user = userData ? JSON.parse(userData) : null;
+        const user = await getCurrentUser();
         if (user?.userType !== 'patient') {
           return;
         }
 
-        console.log(`Starting reminder reconcile (${source})`);
-        await localReminderService.reconcileReminders(token);
+        log.info(`Starting reminder reconcile (${source})`);
+        // A timezone change moves every dose time: rebuild instead of applying changes
+        const result = await localReminderService.reconcileReminders(token, undefined, { force, full: force });
+        if (result.success) {
+          await prescriptionSyncService.acknowledgeSyncedHints(token);
+        }
+        await escalationService.reportOverdueDoses(token);
+      } catch (error) {
+        log.error(`Error reconciling reminders (${source}):`, error);
+      }
+    };
+
+    const flushMutationOutbox = async () => {
+      try {
+        const token = await getAccessToken();
+        if (token) {
+          await mutationOutbox.flushOutbox(token);
+        }
       } catch (error) {
-        console.error(`Error reconciling reminders (${source}):`, error);
+        log.error('❌ Error flushing mutation outbox:', error);
       }
     };
 
     // Permissions are handled by the onboarding flow.
     if (false) {
       alarmService.ensureAlarmPermissions().catch(err => {
-        console.error('❌ Error requesting alarm permissions:', err);
+        log.error('❌ Error requesting alarm permissions:', err);
       });
     }
 
@@ -296,31 +316,31 @@ export default function RootLayout() {
 
       const reminderId = notification.data.reminderId as string;
 
-      console.log('🔔 Notifee event:', EventType?.[type], pressAction?.id);
+      log.info('🔔 Notifee event:', EventType?.[type], pressAction?.id);
 
       // Native XML alarm handles full-screen UI; no RN alarm navigation.
 
       // Handle action button presses
       if (EventType && type === EventType.ACTION_PRESS && pressAction) {
         if (pressAction.id === 'confirm') {
-          console.log('✅ Confirm action pressed');
+          log.info('✅ Confirm action pressed');
           try {
             await confirmReminderAndSync(reminderId);
             if (notifee?.cancelNotification) {
               await notifee.cancelNotification(notification.id);
             }
           } catch (error) {
-            console.error('Error confirming medication:', error);
+            log.error('Error confirming medication:', error);
           }
         } else if (pressAction.id === 'snooze') {
-          console.log('⏰ Snooze action pressed');
+          log.info('⏰ Snooze action pressed');
           try {
             await localReminderService.snoozeReminderLocally(reminderId);
             if (notifee?.cancelNotification) {
               await notifee.cancelNotification(notification.id);
             }
           } catch (error) {
-            console.error('Error snoozing reminder:', error);
+            log.error('Error snoozing reminder:', error);
           }
         }
       }
@@ -332,34 +352,49 @@ export default function RootLayout() {
       try {
         notifeeUnsubscribe = notifee.onForegroundEvent(handleNotifeeEvent);
       } catch (error) {
-        console.warn('⚠️ Could not set up notifee foreground events:', error);
+        log.warn('⚠️ Could not set up notifee foreground events:', error);
       }
     }
 
     // Handle notification received while app is in foreground
     const notificationReceivedListener = notificationService.addNotificationReceivedListener(
       async (notification) => {
-        console.log('📩 Notification received in foreground:', notification);
+        log.info('📩 Notification received in foreground:', notification.request.identifier);
+
+        if (await prescriptionSyncService.handlePrescriptionsChangedPush(notification.request.content.data, 'foreground')) {
+          return;
+        }
 
         const medicationData = notificationService.parseMedicationNotification(notification);
         if (medicationData) {
-          console.log("?Y'S Medication reminder detected (native alarm handles UI):", medicationData);
+          log.info(`Medication reminder ${medicationData.reminderId} detected (native alarm handles UI)`);
         }
       }
     );
 
+    // A timezone change (e.g. after a flight) moves reminder times, so reconcile right away
+    const reconcileAfterTimeZoneCheck = async (source: string) => {
+      const change = await travelModeService.checkDeviceTimeZoneChange();
+      if (change) {
+        log.info(`🌍 Device timezone changed: ${change.fromTimeZone} → ${change.toTimeZone}`);
+      }
+      await maybeReconcileReminders(change ? 'timezone-change' : source, !!change);
+    };
+
     // Handle app state changes to detect when app comes to foreground
     const handleAppStateChange = (nextAppState: AppStateStatus) => {
-      console.log('📱 App state changed to:', nextAppState);
+      log.info('📱 App state changed to:', nextAppState);
 
       if (nextAppState === 'active') {
-        console.log('🚀 App is now active - checking for pending medication reminders');
+        log.info('🚀 App is now active - checking for pending medication reminders');
         notificationService.handleBackgroundNotificationCheck().catch(err => {
-          console.error('❌ Error in background notification check:', err);
+          log.error('❌ Error in background notification check:', err);
         });
         processNativePendingConfirmations();
         maybeEnforcePermissions('app-active');
-        maybeReconcileReminders('app-active');
+        reconcileAfterTimeZoneCheck('app-active');
+      } else if (nextAppState === 'background') {
+        logService.flushLogs();
       }
     };
 
@@ -368,6 +403,7 @@ export default function RootLayout() {
     const handleNetworkChange = (online: boolean) => {
       if (online) {
         maybeReconcileReminders('network-online');
+        flushMutationOutbox();
       }
     };
 
@@ -376,8 +412,9 @@ export default function RootLayout() {
     // Handle notification tapped (user clicked on notification or action button)
     const notificationResponseListener = notificationService.addNotificationResponseReceivedListener(
       async (response) => {
-        console.log('👆 Notification response:', response);
-        console.log('   Action identifier:', response.actionIdentifier);
+        log.info(
+          `👆 Notification response: ${response.notification.request.identifier} (${response.actionIdentifier})`
+        );
 
         const notification = response.notification;
         const actionIdentifier = response.actionIdentifier;
@@ -389,21 +426,21 @@ export default function RootLayout() {
         }
 
         if (actionIdentifier === 'confirm') {
-          console.log('✅ Quick confirm action from lock screen');
+          log.info('✅ Quick confirm action from lock screen');
           try {
             await confirmReminderAndSync(reminderId);
-            console.log('✅ Reminder confirmed from lock screen');
+            log.info('✅ Reminder confirmed from lock screen');
           } catch (error) {
-            console.error('❌ Error confirming from lock screen:', error);
+            log.error('❌ Error confirming from lock screen:', error);
           }
           return;
         } else if (actionIdentifier === 'snooze') {
-          console.log('⏰ Quick snooze action from lock screen');
+          log.info('⏰ Quick snooze action from lock screen');
           try {
-            await localReminderService.snoozeReminderLocally(reminderId);
-            console.log('✅ Reminder snoozed from lock screen');
+            const result = await localReminderService.snoozeReminderLocally(reminderId);
+            log.info(result.missed ? '❌ Snooze limit reached, dose marked as missed' : '✅ Reminder snoozed from lock screen');
           } catch (error) {
-            console.error('❌ Error snoozing from lock screen:', error);
+            log.error('❌ Error snoozing from lock screen:', error);
           }
           return;
         }
@@ -411,14 +448,14 @@ export default function RootLayout() {
         // User tapped on the notification body - open dashboard
         const medicationData = notificationService.parseMedicationNotification(notification);
         if (medicationData) {
-          console.log('Notification tapped by user, opening dashboard:', medicationData);
+          log.info(`Notification for reminder ${medicationData.reminderId} tapped, opening dashboard`);
         }
 
         if (medicationData && Platform.OS === 'ios') {
           try {
             await localReminderService.cancelPendingNotifications(reminderId);
           } catch (error) {
-            console.warn('Error cancelling pending iOS notifications:', error);
+            log.warn('Error cancelling pending iOS notifications:', error);
           }
 
           const audioPath = medicationData.voicePath ? encodeURIComponent(medicationData.voicePath) : '';
@@ -440,8 +477,7 @@ export default function RootLayout() {
         }
 
         try {
-          const userData = await AsyncStorage.getItem('userData');
-          const user = userData ? JSON.parse(userData) : null;
+          const user = await getCurrentUser();
           await AsyncStorage.setItem('@patient_dashboard_refresh', new Date().toISOString());
           if (user?.userType === 'patient') {
             router.replace('/(patient)/dashboard' as any);
@@ -449,25 +485,26 @@ export default function RootLayout() {
             router.replace('/(doctor)/dashboard' as any);
           }
         } catch (error) {
-          console.error('Error opening dashboard from notification:', error);
+          log.error('Error opening dashboard from notification:', error);
         }
       }
     );
 
     // Handle deep links from native AlarmActivity (Android)
     const handleDeepLink = async (event: { url: string }) => {
-      console.log('🔗 Deep link received:', event.url);
+      log.info('🔗 Deep link received:', event.url.split('?')[0]);
 
       const url = new URL(event.url);
       const action = url.searchParams.get('action');
       const reminderId = url.searchParams.get('reminderId');
+      const idempotencyKey = url.searchParams.get('idempotencyKey') || undefined;
 
       if (action === 'confirm' && reminderId) {
         try {
-          await confirmReminderAndSync(reminderId);
-          console.log('✅ Reminder confirmed from native alarm');
+          await confirmReminderAndSync(reminderId, idempotencyKey);
+          log.info('✅ Reminder confirmed from native alarm');
         } catch (error) {
-          console.error('❌ Error confirming from native alarm:', error);
+          log.error('❌ Error confirming from native alarm:', error);
         }
       }
     };
@@ -480,17 +517,23 @@ export default function RootLayout() {
       }
     });
 
+    // The API client logs out on an unrecoverable 401; send the user back to login
+    const unsubscribeSessionExpired = onSessionExpired(() => {
+      router.replace('/(auth)/login' as any);
+    });
+
     processNativePendingConfirmations();
     maybeEnforcePermissions('startup');
-    maybeReconcileReminders('startup');
+    reconcileAfterTimeZoneCheck('startup');
 
     return () => {
-      console.log('🧹 Cleaning up notification listeners');
+      log.info('🧹 Cleaning up notification listeners');
       notificationReceivedListener.remove();
       notificationResponseListener.remove();
       appStateSubscription.remove();
       networkMonitor.removeListener(handleNetworkChange);
       linkingSubscription.remove();
+      unsubscribeSessionExpired();
       if (notifeeUnsubscribe) {
         notifeeUnsubscribe();
       }
@@ -505,13 +548,12 @@ export default function RootLayout() {
       }
 
       try {
-        const token = await AsyncStorage.getItem('userToken');
+        const token = await getAccessToken();
         if (!token) {
           return;
         }
 
-        const userData = await AsyncStorage.getItem('userData');
-        const user = userData ? JSON.parse(userData) : null;
+        const user = await getCurrentUser();
         if (user?.userType !== 'patient') {
           return;
         }
@@ -536,7 +578,7 @@ export default function RootLayout() {
           }, 500);
         }
       } catch (error) {
-        console.error('Error enforcing permissions on route change:', error);
+        log.error('Error enforcing permissions on route change:', error);
       }
     };
 
@@ -555,12 +597,15 @@ export default function RootLayout() {
         <Stack.Screen name="(doctor)/dashboard" options={{ headerShown: false }} />
         <Stack.Screen name="(doctor)/profile" options={{ headerShown: false }} />
         <Stack.Screen name="(doctor)/edit-profile" options={{ headerShown: false }} />
+        <Stack.Screen name="(doctor)/sync-conflicts" options={{ headerShown: false }} />
         <Stack.Screen name="(patient)/dashboard" options={{ headerShown: false }} />
         <Stack.Screen name="(patient)/alarm" options={{ headerShown: false }} />
         <Stack.Screen name="(patient)/profile" options={{ headerShown: false }} />
         <Stack.Screen name="(patient)/profile-settings" options={{ headerShown: false }} />
         <Stack.Screen name="(patient)/edit-profile" options={{ headerShown: false }} />
         <Stack.Screen name="(patient)/adherence-history" options={{ headerShown: false }} />
+        <Stack.Screen name="(patient)/sync-issues" options={{ headerShown: false }} />
+        <Stack.Screen name="(patient)/reminder-diagnostics" options={{ headerShown: false }} />
         <Stack.Screen name="(shared)/permissions-onboarding" options={{ headerShown: false }} />
         <Stack.Screen name="(shared)/add-patient" options={{ headerShown: false }} />
         <Stack.Screen name="(shared)/terms" options={{ headerShown: false }} />
@@ -4,7 +4,7 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getAccessToken, getCurrentUser } from '../shared/services/api/session';
 import { useTranslation } from 'react-i18next';
 import LanguagePickerModal from '../shared/components/modals/LanguagePickerModal';
 import { useLanguageChange } from '../shared/hooks/useLanguageChange';
@@ -20,11 +20,10 @@ export default function LandingScreen() {
   useEffect(() => {
     const checkAuth = async () => {
       try {
-        const token = await AsyncStorage.getItem('userToken');
-        const userData = await AsyncStorage.getItem('userData');
+        const token = await getAccessToken();
+        const user = await getCurrentUser();
         
-        if (token && userData) {
-          const user = JSON.parse(userData);
+        if (token && user) {
           setUserType(user.userType);
           
           // Immediate redirect without showing landing page
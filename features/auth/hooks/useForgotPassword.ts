@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getCurrentUser } from '../../../shared/services/api/session';
 import { requestPasswordReset } from '../../../shared/services/api/auth';
 import { extractErrorMessage } from '../../../shared/utils/errorHandling';
 
@@ -10,9 +10,8 @@ export function useForgotPassword() {
   useEffect(() => {
     const loadUserType = async () => {
       try {
-        const userData = await AsyncStorage.getItem('userData');
-        if (userData) {
-          const user = JSON.parse(userData);
+        const user = await getCurrentUser();
+        if (user) {
           setUserType(user.userType);
         }
       } catch (error) {
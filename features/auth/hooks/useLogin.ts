@@ -1,15 +1,17 @@
 import { useState, useEffect } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { login, registerPushToken } from '../../../shared/services/api/auth';
+import { saveCurrentUser, saveSession } from '../../../shared/services/api/session';
+import { deleteSecret, getSecret, setSecret } from '../../../shared/services/secureStorage';
 import { extractErrorMessage } from '../../../shared/utils/errorHandling';
 import { LoginCredentials } from '../../../shared/types/auth.types';
 import { notificationService } from '../../../shared/services/notificationService';
 import { getNotificationPermissionStatus } from '../../../shared/services/permissionService';
+import { setUserTimeZone } from '../../../shared/utils/timezone';
 
 const STORAGE_KEYS = {
   REMEMBER_ME: '@medicare_remember_me',
   SAVED_EMAIL: '@medicare_saved_email',
-  SAVED_PASSWORD: '@medicare_saved_password',
 };
 
 export function useLogin() {
@@ -27,7 +29,7 @@ export function useLogin() {
         const savedRememberMe = await AsyncStorage.getItem(STORAGE_KEYS.REMEMBER_ME);
         if (savedRememberMe === 'true') {
           const savedEmail = await AsyncStorage.getItem(STORAGE_KEYS.SAVED_EMAIL);
-          const savedPassword = await AsyncStorage.getItem(STORAGE_KEYS.SAVED_PASSWORD);
+          const savedPassword = await getSecret('SAVED_PASSWORD');
           
           if (savedEmail && savedPassword) {
             setSavedCredentials({
@@ -99,18 +101,19 @@ export function useLogin() {
         if (credentials.rememberMe) {
           await AsyncStorage.setItem(STORAGE_KEYS.REMEMBER_ME, 'true');
           await AsyncStorage.setItem(STORAGE_KEYS.SAVED_EMAIL, emailOrPhone);
-          await AsyncStorage.setItem(STORAGE_KEYS.SAVED_PASSWORD, credentials.password);
+          await setSecret('SAVED_PASSWORD', credentials.password);
         } else {
           await AsyncStorage.multiRemove([
             STORAGE_KEYS.REMEMBER_ME,
             STORAGE_KEYS.SAVED_EMAIL,
-            STORAGE_KEYS.SAVED_PASSWORD
           ]);
+          await deleteSecret('SAVED_PASSWORD');
         }
 
-        await AsyncStorage.setItem('userToken', token);
+        await saveSession(token, result.refreshToken || result.data?.refreshToken);
         if (user) {
-          await AsyncStorage.setItem('userData', JSON.stringify(user));
+          await saveCurrentUser(user);
+          await setUserTimeZone(user.timezone || null);
         }
 
         try {
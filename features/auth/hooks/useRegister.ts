@@ -1,10 +1,19 @@
 import { useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { register } from '../../../shared/services/api/auth';
-import { extractErrorMessage } from '../../../shared/utils/errorHandling';
+import { extractErrorMessage, getFieldErrors } from '../../../shared/utils/errorHandling';
 import { RegisterData } from '../../../shared/types/auth.types';
 import { RegisterFormData } from '../components/RegisterForm';
 
+// Backend field name → error key understood by the register screen
+const FIELD_ERROR_KEYS: Record<string, string> = {
+  email: 'invalidEmail',
+  phoneNumber: 'invalidPhone',
+  password: 'weakPassword',
+  confirmPassword: 'passwordsDontMatch',
+  dateOfBirth: 'invalidDateOfBirth',
+};
+
 export function useRegister() {
   const { t } = useTranslation();
   const [isLoading, setIsLoading] = useState(false);
@@ -106,6 +115,12 @@ export function useRegister() {
     } catch (error: any) {
       setIsLoading(false);
       console.error('Registration error:', error);
+      const fieldErrors = getFieldErrors(error);
+      const field = Object.keys(fieldErrors).find(name => FIELD_ERROR_KEYS[name]);
+      if (field) {
+        onError(FIELD_ERROR_KEYS[field], fieldErrors[field]);
+        return;
+      }
       const errorMessage = extractErrorMessage(error, t('auth.accountCreationError'));
       onError('registrationError', errorMessage);
     }
@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef } from 'react';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getCurrentUser } from '../../../shared/services/api/session';
 import { verifyResetCode, requestPasswordReset } from '../../../shared/services/api/auth';
 import { extractErrorMessage } from '../../../shared/utils/errorHandling';
 
@@ -12,9 +12,8 @@ export function useVerifyCode() {
   useEffect(() => {
     const loadUserType = async () => {
       try {
-        const userData = await AsyncStorage.getItem('userData');
-        if (userData) {
-          const user = JSON.parse(userData);
+        const user = await getCurrentUser();
+        if (user) {
           setUserType(user.userType);
         }
       } catch (error) {
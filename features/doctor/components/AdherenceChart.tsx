@@ -1,11 +1,9 @@
 import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
+import { WeeklyAdherence } from '../../../shared/types/adherence.types';
 
 interface AdherenceChartProps {
-  weeklyAdherence: Array<{
-    weekNumber: number;
-    adherenceRate: number;
-  }>;
+  weeklyAdherence: WeeklyAdherence[];
   colors: {
     text: string;
     textSecondary: string;
@@ -18,18 +16,18 @@ export default function AdherenceChart({ weeklyAdherence, colors }: AdherenceCha
     <View style={styles.weeklyAdherenceSection}>
       <Text style={[styles.sectionTitle, { color: colors.text }]}>4 Dernières Semaines</Text>
       <View style={[styles.weeklyChartContainer, { backgroundColor: colors.cardBg[0] }]}>
-        {weeklyAdherence.map((week: any, index: number) => (
-          <View key={index} style={styles.weekBar}>
+        {weeklyAdherence.map(week => (
+          <View key={week.weekStart} style={styles.weekBar}>
             <View style={styles.weekBarContainer}>
               <View
                 style={[
                   styles.weekBarFill,
                   {
-                    height: `${Math.max(week.adherenceRate, 5)}%`,
+                    height: `${Math.max(week.rate, 5)}%`,
                     backgroundColor:
-                      week.adherenceRate >= 80
+                      week.rate >= 80
                         ? '#10B981'
-                        : week.adherenceRate >= 60
+                        : week.rate >= 60
                         ? '#F59E0B'
                         : '#EF4444',
                   },
@@ -38,7 +36,7 @@ export default function AdherenceChart({ weeklyAdherence, colors }: AdherenceCha
             </View>
             <Text style={[styles.weekBarLabel, { color: colors.text }]}>S{week.weekNumber}</Text>
             <Text style={[styles.weekBarRate, { color: colors.textSecondary }]}>
-              {week.adherenceRate}%
+              {week.rate}%
             </Text>
           </View>
         ))}
@@ -3,10 +3,13 @@ import { View, Text, StyleSheet } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
 import { formatTime } from '../../../shared/utils/formatting/timeFormatting';
+import { AdherenceEvent, AdherenceEventStatus, AdherenceReport, TimeOfDay } from '../../../shared/types/adherence.types';
 import AdherenceChart from './AdherenceChart';
 
 interface AdherenceStatsSectionProps {
-  adherenceHistory: any;
+  report: AdherenceReport;
+  recentEvents: AdherenceEvent[];
+  periodDays: number;
   colors: {
     primary: string;
     text: string;
@@ -15,41 +18,65 @@ interface AdherenceStatsSectionProps {
   };
 }
 
-export default function AdherenceStatsSection({ adherenceHistory, colors }: AdherenceStatsSectionProps) {
-  if (!adherenceHistory) return null;
+const TIME_OF_DAY_LABELS: Record<TimeOfDay, string> = {
+  morning: 'Matin',
+  afternoon: 'Après-midi',
+  evening: 'Soir',
+  night: 'Nuit',
+};
 
-  const { overallStats, medicationAdherence, weeklyAdherence, recentHistory } = adherenceHistory;
+const TIME_OF_DAY_ICONS: Record<TimeOfDay, keyof typeof Ionicons.glyphMap> = {
+  morning: 'sunny-outline',
+  afternoon: 'partly-sunny-outline',
+  evening: 'cloudy-night-outline',
+  night: 'moon-outline',
+};
+
+const STATUS_DISPLAY: Record<AdherenceEventStatus, { label: string; color: string; icon: keyof typeof Ionicons.glyphMap }> = {
+  taken: { label: 'Pris', color: '#10B981', icon: 'checkmark-circle' },
+  missed: { label: 'Manqué', color: '#EF4444', icon: 'close-circle' },
+  snoozed: { label: 'Reporté', color: '#F59E0B', icon: 'alarm' },
+  pending: { label: 'En attente', color: '#F59E0B', icon: 'time' },
+};
+
+const getRateColor = (rate: number) => (rate >= 80 ? '#10B981' : rate >= 60 ? '#F59E0B' : '#EF4444');
+
+export default function AdherenceStatsSection({ report, recentEvents, periodDays, colors }: AdherenceStatsSectionProps) {
+  const { overall, byMedication, weekly, byTimeOfDay, punctuality } = report;
+  const recentHistory = [...recentEvents]
+    .filter(event => new Date(event.scheduledFor).getTime() <= Date.now())
+    .sort((a, b) => new Date(b.scheduledFor).getTime() - new Date(a.scheduledFor).getTime());
 
   return (
     <>
       {/* Overall Statistics */}
       <View style={styles.adherenceStatsContainer}>
         <Text style={[styles.sectionTitle, { color: colors.text }]}>
-          Statistiques Globales ({overallStats.period})
+          Statistiques Globales ({periodDays} derniers jours)
         </Text>
 
         {/* Big Adherence Rate Card */}
         <View style={styles.bigStatCard}>
           <LinearGradient
             colors={
-              overallStats.adherenceRate >= 80
+              overall.rate >= 80
                 ? ['#10B981', '#059669']
-                : overallStats.adherenceRate >= 60
+                : overall.rate >= 60
                 ? ['#F59E0B', '#D97706']
                 : ['#EF4444', '#DC2626']
             }
             style={styles.bigStatGradient}
           >
             <Text style={styles.bigStatNumber}>
-              {overallStats.adherenceRate}%
+              {overall.rate}%
             </Text>
             <Text style={styles.bigStatLabel}>Taux d'Observance</Text>
             <View style={styles.bigStatDetails}>
               <Text style={styles.bigStatDetailText}>
-                ✓ {overallStats.takenReminders} pris
+                ✓ {overall.taken} pris
               </Text>
               <Text style={styles.bigStatDetailText}>
-                ✗ {overallStats.missedReminders} manqués
+                ✗ {overall.missed} manqués
               </Text>
             </View>
           </LinearGradient>
@@ -60,7 +87,7 @@ export default function AdherenceStatsSection({ adherenceHistory, colors }: Adhe
           <View style={[styles.miniStatCard, { backgroundColor: colors.cardBg[0] }]}>
             <Ionicons name="checkmark-circle" size={28} color="#10B981" />
             <Text style={[styles.miniStatNumber, { color: colors.text }]}>
-              {overallStats.takenReminders}
+              {overall.taken}
             </Text>
             <Text style={[styles.miniStatLabel, { color: colors.textSecondary }]}>Pris</Text>
           </View>
@@ -68,7 +95,7 @@ export default function AdherenceStatsSection({ adherenceHistory, colors }: Adhe
           <View style={[styles.miniStatCard, { backgroundColor: colors.cardBg[0] }]}>
             <Ionicons name="close-circle" size={28} color="#EF4444" />
             <Text style={[styles.miniStatNumber, { color: colors.text }]}>
-              {overallStats.missedReminders}
+              {overall.missed}
             </Text>
             <Text style={[styles.miniStatLabel, { color: colors.textSecondary }]}>Manqués</Text>
           </View>
@@ -76,37 +103,52 @@ export default function AdherenceStatsSection({ adherenceHistory, colors }: Adhe
           <View style={[styles.miniStatCard, { backgroundColor: colors.cardBg[0] }]}>
             <Ionicons name="time" size={28} color="#F59E0B" />
             <Text style={[styles.miniStatNumber, { color: colors.text }]}>
-              {overallStats.pendingReminders}
+              {overall.pending + overall.snoozed}
             </Text>
             <Text style={[styles.miniStatLabel, { color: colors.textSecondary }]}>En attente</Text>
           </View>
         </View>
+
+        {/* Streaks and Punctuality */}
+        <View style={[styles.statsRow, styles.statsRowSpacing]}>
+          <View style={[styles.miniStatCard, { backgroundColor: colors.cardBg[0] }]}>
+            <Ionicons name="flame" size={28} color="#F59E0B" />
+            <Text style={[styles.miniStatNumber, { color: colors.text }]}>
+              {report.stats.currentStreak}
+            </Text>
+            <Text style={[styles.miniStatLabel, { color: colors.textSecondary }]}>Série (jours)</Text>
+          </View>
+
+          <View style={[styles.miniStatCard, { backgroundColor: colors.cardBg[0] }]}>
+            <Ionicons name="stopwatch-outline" size={28} color={colors.primary} />
+            <Text style={[styles.miniStatNumber, { color: colors.text }]}>
+              {punctuality.measured > 0 ? `${punctuality.onTimeRate}%` : '-'}
+            </Text>
+            <Text style={[styles.miniStatLabel, { color: colors.textSecondary }]}>À l'heure</Text>
+          </View>
+
+          <View style={[styles.miniStatCard, { backgroundColor: colors.cardBg[0] }]}>
+            <Ionicons name="hourglass-outline" size={28} color={colors.primary} />
+            <Text style={[styles.miniStatNumber, { color: colors.text }]}>
+              {punctuality.averageMinutesLate !== null ? `${punctuality.averageMinutesLate} min` : '-'}
+            </Text>
+            <Text style={[styles.miniStatLabel, { color: colors.textSecondary }]}>Retard moyen</Text>
+          </View>
+        </View>
       </View>
 
       {/* Medication-Specific Adherence */}
-      {medicationAdherence && medicationAdherence.length > 0 && (
+      {byMedication.length > 0 && (
         <View style={styles.medicationAdherenceSection}>
           <Text style={[styles.sectionTitle, { color: colors.text }]}>Par Médicament</Text>
-          {medicationAdherence.map((med: any) => (
-            <View key={med.id} style={[styles.medicationAdherenceCard, { backgroundColor: colors.cardBg[0] }]}>
+          {byMedication.map(med => (
+            <View key={med.prescriptionId || med.medicationName} style={[styles.medicationAdherenceCard, { backgroundColor: colors.cardBg[0] }]}>
               <View style={styles.medicationAdherenceHeader}>
                 <Text style={[styles.medicationAdherenceName, { color: colors.text }]} numberOfLines={1}>
-                  {med.name}
+                  {med.medicationName}
                 </Text>
-                <Text
-                  style={[
-                    styles.medicationAdherenceRate,
-                    {
-                      color:
-                        med.adherenceRate >= 80
-                          ? '#10B981'
-                          : med.adherenceRate >= 60
-                          ? '#F59E0B'
-                          : '#EF4444',
-                    },
-                  ]}
-                >
-                  {med.adherenceRate}%
+                <Text style={[styles.medicationAdherenceRate, { color: getRateColor(med.rate) }]}>
+                  {med.rate}%
                 </Text>
               </View>
 
@@ -116,13 +158,8 @@ export default function AdherenceStatsSection({ adherenceHistory, colors }: Adhe
                   style={[
                     styles.progressBarFill,
                     {
-                      width: `${med.adherenceRate}%`,
-                      backgroundColor:
-                        med.adherenceRate >= 80
-                          ? '#10B981'
-                          : med.adherenceRate >= 60
-                          ? '#F59E0B'
-                          : '#EF4444',
+                      width: `${med.rate}%`,
+                      backgroundColor: getRateColor(med.rate),
                     },
                   ]}
                 />
@@ -135,6 +172,11 @@ export default function AdherenceStatsSection({ adherenceHistory, colors }: Adhe
                 <Text style={[styles.medicationAdherenceStatText, { color: colors.textSecondary }]}>
                   ✗ {med.missed} manqués
                 </Text>
+                {med.averageMinutesLate !== null && (
+                  <Text style={[styles.medicationAdherenceStatText, { color: colors.textSecondary }]}>
+                    ⏱ {med.averageMinutesLate} min
+                  </Text>
+                )}
               </View>
             </View>
           ))}
@@ -142,72 +184,64 @@ export default function AdherenceStatsSection({ adherenceHistory, colors }: Adhe
       )}
 
       {/* Weekly Adherence Chart */}
-      {weeklyAdherence && weeklyAdherence.length > 0 && (
-        <AdherenceChart weeklyAdherence={weeklyAdherence} colors={colors} />
+      {weekly.length > 0 && (
+        <AdherenceChart weeklyAdherence={weekly} colors={colors} />
       )}
 
-      {/* Recent History */}
-      {recentHistory && recentHistory.length > 0 && (
-        <View style={styles.recentHistorySection}>
-          <Text style={[styles.sectionTitle, { color: colors.text }]}>Historique Récent</Text>
-          {recentHistory.slice(0, 10).map((item: any) => (
-            <View key={item.id} style={[styles.historyItem, { backgroundColor: colors.cardBg[0] }]}>
+      {/* Time of Day Breakdown */}
+      {byTimeOfDay.length > 0 && (
+        <View style={styles.medicationAdherenceSection}>
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>Par Moment de la Journée</Text>
+          {byTimeOfDay.map(slot => (
+            <View key={slot.period} style={[styles.historyItem, { backgroundColor: colors.cardBg[0] }]}>
               <View style={styles.historyLeft}>
-                <Ionicons
-                  name={
-                    item.status === 'confirmed' || item.status === 'manual_confirm'
-                      ? 'checkmark-circle'
-                      : item.status === 'missed'
-                      ? 'close-circle'
-                      : 'time'
-                  }
-                  size={24}
-                  color={
-                    item.status === 'confirmed' || item.status === 'manual_confirm'
-                      ? '#10B981'
-                      : item.status === 'missed'
-                      ? '#EF4444'
-                      : '#F59E0B'
-                  }
-                />
+                <Ionicons name={TIME_OF_DAY_ICONS[slot.period]} size={24} color={colors.primary} />
                 <View style={styles.historyInfo}>
-                  <Text style={[styles.historyMedName, { color: colors.text }]} numberOfLines={1}>
-                    {item.medicationName}
+                  <Text style={[styles.historyMedName, { color: colors.text }]}>
+                    {TIME_OF_DAY_LABELS[slot.period]}
                   </Text>
                   <Text style={[styles.historyDate, { color: colors.textSecondary }]}>
-                    {formatTime(item.scheduledFor)}
+                    {slot.taken}/{slot.total} pris
                   </Text>
                 </View>
               </View>
               <View style={styles.historyRight}>
-                <Text
-                  style={[
-                    styles.historyStatus,
-                    {
-                      color:
-                        item.status === 'confirmed' || item.status === 'manual_confirm'
-                          ? '#10B981'
-                          : item.status === 'missed'
-                          ? '#EF4444'
-                          : item.status === 'scheduled' || item.status === 'sent'
-                          ? '#F59E0B'
-                          : '#999',
-                    },
-                  ]}
-                >
-                  {item.status === 'confirmed' || item.status === 'manual_confirm'
-                    ? 'Pris'
-                    : item.status === 'missed'
-                    ? 'Manqué'
-                    : item.status === 'scheduled' || item.status === 'sent'
-                    ? 'En attente'
-                    : 'Non défini'}
-                </Text>
+                <Text style={[styles.historyStatus, { color: getRateColor(slot.rate) }]}>{slot.rate}%</Text>
               </View>
             </View>
           ))}
         </View>
       )}
+
+      {/* Recent History */}
+      {recentHistory.length > 0 && (
+        <View style={styles.recentHistorySection}>
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>Historique Récent</Text>
+          {recentHistory.slice(0, 10).map(item => {
+            const display = STATUS_DISPLAY[item.status];
+            return (
+              <View key={`${item.reminderId}_${item.scheduledFor}`} style={[styles.historyItem, { backgroundColor: colors.cardBg[0] }]}>
+                <View style={styles.historyLeft}>
+                  <Ionicons name={display.icon} size={24} color={display.color} />
+                  <View style={styles.historyInfo}>
+                    <Text style={[styles.historyMedName, { color: colors.text }]} numberOfLines={1}>
+                      {item.medicationName}
+                    </Text>
+                    <Text style={[styles.historyDate, { color: colors.textSecondary }]}>
+                      {formatTime(item.scheduledFor)}
+                    </Text>
+                  </View>
+                </View>
+                <View style={styles.historyRight}>
+                  <Text style={[styles.historyStatus, { color: display.color }]}>
+                    {display.label}
+                  </Text>
+                </View>
+              </View>
+            );
+          })}
+        </View>
+      )}
     </>
   );
 }
@@ -262,6 +296,9 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     gap: 12,
   },
+  statsRowSpacing: {
+    marginTop: 12,
+  },
   miniStatCard: {
     flex: 1,
     borderRadius: 12,
@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { AnyQueuedMutation, ConflictChoice, ConflictResolution } from '../../../shared/types/outbox.types';
+import { formatDateTime } from '../../../shared/utils/formatting/timeFormatting';
+
+interface ConflictCardProps {
+  mutation: AnyQueuedMutation;
+  isResolving: boolean;
+  onResolve: (resolution: ConflictResolution) => void;
+  primaryColor?: string;
+}
+
+const getSubject = (mutation: AnyQueuedMutation): string | undefined =>
+  mutation.type === 'updatePrescription' ? mutation.payload.prescriptionData.medicationName : undefined;
+
+export default function ConflictCard({
+  mutation,
+  isResolving,
+  onResolve,
+  primaryColor = '#4facfe',
+}: ConflictCardProps) {
+  const { t } = useTranslation();
+  const fields = mutation.conflict?.fields || [];
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+
+  const formatValue = (value: unknown): string => {
+    if (value === null || value === undefined || value === '') {
+      return t('syncConflicts.notSet');
+    }
+    if (typeof value === 'boolean') {
+      return value ? t('common.yes') : t('common.no');
+    }
+    if (Array.isArray(value)) {
+      // Schedules are the common case: show their times
+      return value
+        .map(item => (item && typeof item === 'object' && 'time' in item ? String(item.time) : formatValue(item)))
+        .join(', ');
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  };
+
+  const renderOption = (field: string, choice: ConflictChoice, value: unknown) => {
+    const isSelected = (choices[field] || 'local') === choice;
+    return (
+      <TouchableOpacity
+        style={[styles.option, isSelected && { borderColor: primaryColor, backgroundColor: `${primaryColor}20` }]}
+        onPress={() => setChoices(prev => ({ ...prev, [field]: choice }))}
+        disabled={isResolving}
+      >
+        <Text style={styles.optionLabel}>
+          {choice === 'local' ? t('syncConflicts.mine') : t('syncConflicts.server')}
+        </Text>
+        <Text style={styles.optionValue}>{formatValue(value)}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const subject = getSubject(mutation);
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <Ionicons name="git-compare-outline" size={20} color={primaryColor} />
+        <View style={styles.headerText}>
+          <Text style={styles.title}>
+            {t(`syncConflicts.types.${mutation.type}`)}{subject ? ` · ${subject}` : ''}
+          </Text>
+          <Text style={styles.meta}>
+            {t('syncConflicts.editedAt', { date: formatDateTime(mutation.createdAt, { year: undefined }) })}
+          </Text>
+        </View>
+      </View>
+
+      {fields.map(conflict => (
+        <View key={conflict.field} style={styles.field}>
+          <Text style={styles.fieldLabel}>
+            {t(`syncConflicts.fields.${conflict.field}`, { defaultValue: conflict.field })}
+          </Text>
+          <View style={styles.options}>
+            {renderOption(conflict.field, 'local', conflict.local)}
+            {renderOption(conflict.field, 'server', conflict.server)}
+          </View>
+        </View>
+      ))}
+
+      {isResolving ? (
+        <ActivityIndicator color={primaryColor} style={styles.loader} />
+      ) : (
+        <View style={styles.actions}>
+          <TouchableOpacity style={styles.actionButton} onPress={() => onResolve('keep-local')}>
+            <Text style={styles.actionText}>{t('syncConflicts.keepMine')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.actionButton} onPress={() => onResolve('keep-server')}>
+            <Text style={styles.actionText}>{t('syncConflicts.keepServer')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionButton, { backgroundColor: primaryColor, borderColor: primaryColor }]}
+            onPress={() => onResolve(choices)}
+          >
+            <Text style={styles.actionText}>{t('syncConflicts.merge')}</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginTop: 16,
+    padding: 16,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.08)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.12)',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginBottom: 12,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: 'white',
+  },
+  meta: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.5)',
+    marginTop: 2,
+  },
+  field: {
+    marginTop: 10,
+  },
+  fieldLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: 'rgba(255, 255, 255, 0.8)',
+    marginBottom: 6,
+  },
+  options: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  option: {
+    flex: 1,
+    padding: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  optionLabel: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: 'rgba(255, 255, 255, 0.6)',
+    textTransform: 'uppercase',
+    marginBottom: 4,
+  },
+  optionValue: {
+    fontSize: 14,
+    color: 'white',
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 16,
+  },
+  actionButton: {
+    flexGrow: 1,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.25)',
+    alignItems: 'center',
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: 'white',
+  },
+  loader: {
+    marginTop: 16,
+  },
+});
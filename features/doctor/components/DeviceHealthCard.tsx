@@ -0,0 +1,124 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { COLORS } from '../../../shared/constants/colors';
+import { formatDateTime } from '../../../shared/utils/formatting/timeFormatting';
+import { DeviceHeartbeat, DeviceHealthWarning } from '../../../shared/types/deviceHealth.types';
+
+interface DeviceHealthCardProps {
+  heartbeat: DeviceHeartbeat | null;
+  warnings: DeviceHealthWarning[];
+  colors: {
+    primary: string;
+    text: string;
+    textSecondary: string;
+    cardBg: string[];
+  };
+}
+
+const getWarningLabel = (warning: DeviceHealthWarning): string => {
+  switch (warning.code) {
+    case 'noHeartbeat':
+      return "Aucune information de l'appareil du patient";
+    case 'staleSync':
+      return `Non synchronisé depuis ${warning.days ?? 1} jour(s)`;
+    case 'notificationsDisabled':
+      return 'Notifications désactivées';
+    case 'exactAlarmsDisabled':
+      return 'Alarmes exactes désactivées';
+    case 'batteryOptimized':
+      return 'Optimisation de batterie active';
+    case 'overlaysDisabled':
+      return 'Affichage par-dessus les autres applications désactivé';
+    case 'noAlarmsScheduled':
+      return 'Aucune alarme programmée';
+  }
+};
+
+const getPlatformLabel = (heartbeat: DeviceHeartbeat): string => {
+  const platform = heartbeat.platform === 'ios' ? 'iOS' : heartbeat.platform === 'android' ? 'Android' : heartbeat.platform;
+  const version = heartbeat.appVersion ? ` · App ${heartbeat.appVersion}` : '';
+  return `${platform} ${heartbeat.osVersion}${version}`;
+};
+
+export default function DeviceHealthCard({ heartbeat, warnings, colors }: DeviceHealthCardProps) {
+  return (
+    <View style={[styles.card, { backgroundColor: colors.cardBg[0] }]}>
+      <View style={styles.header}>
+        <Ionicons name="phone-portrait-outline" size={20} color={colors.primary} />
+        <Text style={[styles.title, { color: colors.text }]}>Appareil du patient</Text>
+      </View>
+
+      {heartbeat && (
+        <View style={styles.details}>
+          <Text style={[styles.detailText, { color: colors.textSecondary }]} numberOfLines={1}>
+            {getPlatformLabel(heartbeat)}
+          </Text>
+          <Text style={[styles.detailText, { color: colors.textSecondary }]}>
+            Dernière synchronisation : {heartbeat.lastSyncAt ? formatDateTime(heartbeat.lastSyncAt) : 'jamais'}
+          </Text>
+          <Text style={[styles.detailText, { color: colors.textSecondary }]}>
+            {heartbeat.scheduledAlarms} alarme(s) programmée(s)
+          </Text>
+        </View>
+      )}
+
+      {warnings.length === 0 ? (
+        <View style={styles.statusRow}>
+          <Ionicons name="checkmark-circle" size={18} color={COLORS.success[0]} />
+          <Text style={[styles.statusText, { color: COLORS.success[0] }]}>Tout est en ordre</Text>
+        </View>
+      ) : (
+        warnings.map(warning => {
+          const color = warning.severity === 'critical' ? COLORS.error[0] : COLORS.warning[0];
+          return (
+            <View key={warning.code} style={styles.statusRow}>
+              <Ionicons
+                name={warning.severity === 'critical' ? 'alert-circle' : 'warning'}
+                size={18}
+                color={color}
+              />
+              <Text style={[styles.statusText, { color }]}>{getWarningLabel(warning)}</Text>
+            </View>
+          );
+        })
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginVertical: 10,
+    borderRadius: 16,
+    padding: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  details: {
+    gap: 4,
+    marginBottom: 12,
+  },
+  detailText: {
+    fontSize: 13,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 4,
+  },
+  statusText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
@@ -0,0 +1,131 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { AnyQueuedMutation } from '../../../shared/types/outbox.types';
+import { formatDateTime } from '../../../shared/utils/formatting/timeFormatting';
+
+interface FailedMutationCardProps {
+  mutation: AnyQueuedMutation;
+  isBusy: boolean;
+  onRetry: () => void;
+  onDiscard: () => void;
+  primaryColor?: string;
+}
+
+const getSubject = (mutation: AnyQueuedMutation): string | undefined => {
+  switch (mutation.type) {
+    case 'createPrescription':
+    case 'updatePrescription':
+      return mutation.payload.prescriptionData.medicationName;
+    case 'uploadVoiceMessage':
+      return mutation.payload.title || mutation.payload.fileName;
+    case 'invitePatient':
+      return `${mutation.payload.firstName} ${mutation.payload.lastName}`;
+    default:
+      return undefined;
+  }
+};
+
+export default function FailedMutationCard({
+  mutation,
+  isBusy,
+  onRetry,
+  onDiscard,
+  primaryColor = '#4facfe',
+}: FailedMutationCardProps) {
+  const { t } = useTranslation();
+  const subject = getSubject(mutation);
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <Ionicons name="cloud-offline-outline" size={20} color="#F87171" />
+        <View style={styles.headerText}>
+          <Text style={styles.title}>
+            {t(`syncConflicts.types.${mutation.type}`)}{subject ? ` · ${subject}` : ''}
+          </Text>
+          <Text style={styles.meta}>
+            {t('syncConflicts.editedAt', { date: formatDateTime(mutation.createdAt, { year: undefined }) })}
+          </Text>
+        </View>
+      </View>
+
+      {mutation.lastError ? (
+        <Text style={styles.error}>{mutation.lastErrorMessage || t(mutation.lastError)}</Text>
+      ) : null}
+
+      {isBusy ? (
+        <ActivityIndicator color={primaryColor} style={styles.loader} />
+      ) : (
+        <View style={styles.actions}>
+          <TouchableOpacity style={styles.actionButton} onPress={onDiscard}>
+            <Text style={styles.actionText}>{t('syncConflicts.discard')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionButton, { backgroundColor: primaryColor, borderColor: primaryColor }]}
+            onPress={onRetry}
+          >
+            <Text style={styles.actionText}>{t('syncConflicts.retry')}</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginTop: 16,
+    padding: 16,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.08)',
+    borderWidth: 1,
+    borderColor: 'rgba(248, 113, 113, 0.35)',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: 'white',
+  },
+  meta: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.5)',
+    marginTop: 2,
+  },
+  error: {
+    marginTop: 10,
+    fontSize: 13,
+    color: '#FCA5A5',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 16,
+  },
+  actionButton: {
+    flex: 1,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.25)',
+    alignItems: 'center',
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: 'white',
+  },
+  loader: {
+    marginTop: 16,
+  },
+});
@@ -0,0 +1,145 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { MissedDoseAlert } from '../../../shared/types/escalation.types';
+import { formatDateTime } from '../../../shared/utils/formatting/timeFormatting';
+
+interface MissedDoseAlertFeedProps {
+  alerts: MissedDoseAlert[];
+  onOpenPatient: (alert: MissedDoseAlert) => void;
+  onAcknowledge: (alert: MissedDoseAlert) => void;
+  primaryColor?: string;
+}
+
+export default function MissedDoseAlertFeed({
+  alerts,
+  onOpenPatient,
+  onAcknowledge,
+  primaryColor = '#4facfe',
+}: MissedDoseAlertFeedProps) {
+  const { t } = useTranslation();
+
+  if (alerts.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.titleRow}>
+        <Ionicons name="warning" size={18} color="#F59E0B" />
+        <Text style={styles.title}>{t('dashboard.doctor.missedDoseAlerts')}</Text>
+        <View style={styles.countBadge}>
+          <Text style={styles.countText}>{alerts.length}</Text>
+        </View>
+      </View>
+
+      {alerts.map((alert) => {
+        const minutesLate = Math.max(
+          0,
+          Math.round((new Date(alert.reportedAt).getTime() - new Date(alert.scheduledFor).getTime()) / 60000)
+        );
+
+        return (
+          <TouchableOpacity
+            key={alert.id}
+            style={styles.alertCard}
+            onPress={() => onOpenPatient(alert)}
+            activeOpacity={0.8}
+          >
+            <View style={styles.alertInfo}>
+              <Text style={styles.patientName}>{alert.patientName}</Text>
+              <Text style={styles.medicationName}>{alert.medicationName}</Text>
+              <Text style={styles.alertMeta}>
+                {formatDateTime(alert.scheduledFor, { year: undefined })} · {t('dashboard.doctor.minutesLate', { minutes: minutesLate })}
+              </Text>
+            </View>
+            <TouchableOpacity
+              style={[styles.acknowledgeButton, { borderColor: primaryColor }]}
+              onPress={() => onAcknowledge(alert)}
+            >
+              <Ionicons name="checkmark" size={16} color={primaryColor} />
+              <Text style={[styles.acknowledgeText, { color: primaryColor }]}>
+                {t('dashboard.doctor.acknowledge')}
+              </Text>
+            </TouchableOpacity>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: 20,
+    marginBottom: 16,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 10,
+  },
+  title: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '700',
+    color: 'white',
+  },
+  countBadge: {
+    minWidth: 24,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 12,
+    backgroundColor: 'rgba(245, 158, 11, 0.2)',
+    alignItems: 'center',
+  },
+  countText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#F59E0B',
+  },
+  alertCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 14,
+    marginBottom: 8,
+    borderRadius: 12,
+    backgroundColor: 'rgba(245, 158, 11, 0.08)',
+    borderWidth: 1,
+    borderColor: 'rgba(245, 158, 11, 0.3)',
+  },
+  alertInfo: {
+    flex: 1,
+    marginRight: 10,
+  },
+  patientName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: 'white',
+  },
+  medicationName: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.8)',
+    marginTop: 2,
+  },
+  alertMeta: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.5)',
+    marginTop: 4,
+  },
+  acknowledgeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  acknowledgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
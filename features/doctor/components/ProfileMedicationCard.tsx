@@ -3,6 +3,7 @@ import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
 import { Medication } from '../hooks/usePatientProfile';
+import { formatDateTime, formatTime } from '../../../shared/utils/formatting/timeFormatting';
 
 interface ProfileMedicationCardProps {
   medication: Medication;
@@ -16,6 +17,21 @@ interface ProfileMedicationCardProps {
   };
 }
 
+// Whether the patient's device applied the latest change; nothing when the server does not report it
+const getDeviceSyncStatus = (medication: Medication): { synced: boolean; label: string } | null => {
+  if (medication.pendingSync || medication.patientSyncedAt === undefined) {
+    return null;
+  }
+  const syncedAt = medication.patientSyncedAt ? new Date(medication.patientSyncedAt) : null;
+  if (!syncedAt || (medication.updatedAt && syncedAt < new Date(medication.updatedAt))) {
+    return { synced: false, label: "En attente de synchronisation sur l'appareil du patient" };
+  }
+  const when = syncedAt.toDateString() === new Date().toDateString()
+    ? `à ${formatTime(syncedAt)}`
+    : `le ${formatDateTime(syncedAt, { year: undefined })}`;
+  return { synced: true, label: `Synchronisé sur l'appareil du patient ${when}` };
+};
+
 export default function ProfileMedicationCard({
   medication,
   onEdit,
@@ -23,6 +39,7 @@ export default function ProfileMedicationCard({
   colors,
 }: ProfileMedicationCardProps) {
   const dayNames = ['Lun', 'Mar', 'Mer', 'Jeu', 'Ven', 'Sam', 'Dim'];
+  const deviceSync = getDeviceSyncStatus(medication);
 
   return (
     <View style={styles.medicationCard}>
@@ -94,6 +111,19 @@ export default function ProfileMedicationCard({
               {medication.isChronic ? 'Chronique' : 'Temporaire'}
             </Text>
           </View>
+
+          {deviceSync && (
+            <View style={styles.detailRow}>
+              <Ionicons
+                name={deviceSync.synced ? 'phone-portrait-outline' : 'time-outline'}
+                size={16}
+                color={deviceSync.synced ? '#10B981' : '#F59E0B'}
+              />
+              <Text style={[styles.detailText, styles.deviceSyncText, { color: colors.textSecondary }]}>
+                {deviceSync.label}
+              </Text>
+            </View>
+          )}
         </View>
 
         <View style={[styles.medicationActions, { borderTopColor: `${colors.text}10` }]}>
@@ -216,6 +246,9 @@ const styles = StyleSheet.create({
     marginLeft: 12,
     flex: 1,
   },
+  deviceSyncText: {
+    fontSize: 12,
+  },
   medicationActions: {
     flexDirection: 'row',
     justifyContent: 'flex-end',
@@ -0,0 +1,53 @@
+import React from 'react';
+import { Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+
+interface SyncConflictBannerProps {
+  conflictCount: number;
+  // Offline changes the outbox gave up sending
+  failedCount?: number;
+  onPress: () => void;
+}
+
+export default function SyncConflictBanner({ conflictCount, failedCount = 0, onPress }: SyncConflictBannerProps) {
+  const { t } = useTranslation();
+
+  if (conflictCount === 0 && failedCount === 0) {
+    return null;
+  }
+
+  const message = [
+    conflictCount > 0 ? t('syncConflicts.banner', { total: conflictCount }) : null,
+    failedCount > 0 ? t('syncConflicts.failedBanner', { total: failedCount }) : null,
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <TouchableOpacity style={styles.banner} onPress={onPress} activeOpacity={0.8}>
+      <Ionicons name="git-compare-outline" size={20} color="#F87171" />
+      <Text style={styles.text}>{message}</Text>
+      <Ionicons name="chevron-forward" size={18} color="rgba(255, 255, 255, 0.6)" />
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginHorizontal: 20,
+    marginBottom: 16,
+    padding: 14,
+    borderRadius: 12,
+    backgroundColor: 'rgba(248, 113, 113, 0.1)',
+    borderWidth: 1,
+    borderColor: 'rgba(248, 113, 113, 0.35)',
+  },
+  text: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: 'white',
+  },
+});
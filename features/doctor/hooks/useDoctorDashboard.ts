@@ -1,11 +1,23 @@
 import { useState, useCallback, useEffect, useMemo } from 'react';
 import { useRouter } from 'expo-router';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { getDoctorPatients, getDoctorDashboard, deletePatient } from '../../../shared/services/api/caregiver';
+import { getCurrentUser } from '../../../shared/services/api/session';
+import {
+  getDoctorPatients,
+  getDoctorDashboard,
+  deletePatient,
+  getMissedDoseAlerts,
+  acknowledgeMissedDoseAlert,
+} from '../../../shared/services/api/caregiver';
 import { Patient, DoctorDashboardStats } from '../../../shared/types';
+import { MissedDoseAlert } from '../../../shared/types/escalation.types';
 import { useAuthToken } from '../../../shared/hooks/useAuthToken';
 import { useTranslation } from 'react-i18next';
 import { performLogout } from '../../../shared/utils/logout';
+import { queryCache } from '../../../shared/services/queryCache';
+import { QUERY_KEYS } from '../../../shared/constants/queries';
+import { createLogger } from '../../../shared/utils/logger';
+
+const log = createLogger('doctorDashboard');
 
 export function useDoctorDashboard() {
   const router = useRouter();
@@ -18,6 +30,7 @@ export function useDoctorDashboard() {
   const [dashboardStats, setDashboardStats] = useState<DoctorDashboardStats | null>(null);
   const [userType, setUserType] = useState<'medecin' | 'tuteur' | null>(null);
   const [userName, setUserName] = useState<string>('');
+  const [missedDoseAlerts, setMissedDoseAlerts] = useState<MissedDoseAlert[]>([]);
 
   const filteredPatients = useMemo(() => {
     if (searchQuery.trim() === '') {
@@ -43,6 +56,13 @@ export function useDoctorDashboard() {
         return;
       }
 
+      // Render the last known list while the request runs
+      const cachedPatients = await queryCache.getQueryData<Patient[]>(QUERY_KEYS.doctorPatients());
+      if (cachedPatients) {
+        setPatients(cachedPatients);
+        setIsLoading(false);
+      }
+
       const result = await getDoctorPatients(token);
 
       if (result.success && result.data && Array.isArray(result.data)) {
@@ -63,6 +83,7 @@ export function useDoctorDashboard() {
         }));
 
         setPatients(transformedPatients);
+        await queryCache.setQueryData(QUERY_KEYS.doctorPatients(), transformedPatients);
 
         setDashboardStats(prev => ({
           totalPatients: transformedPatients.length,
@@ -74,7 +95,7 @@ export function useDoctorDashboard() {
         setPatients([]);
       }
     } catch (error: any) {
-      console.error('❌ Error loading patients:', error);
+      log.error('❌ Error loading patients:', error);
       setPatients([]);
     } finally {
       setIsLoading(false);
@@ -94,15 +115,51 @@ export function useDoctorDashboard() {
         setDashboardStats(prev => ({
           totalPatients: prev?.totalPatients || 0,
           recentPatients: prev?.recentPatients || [],
-          upcomingAppointments: (result.data as any).upcomingAppointments || [],
-          medicationAlerts: (result.data as any).medicationAlerts || (result.data as any).alerts?.missedMedications || [],
+          upcomingAppointments: result.data?.upcomingAppointments || [],
+          medicationAlerts: result.data?.medicationAlerts || result.data?.alerts?.missedMedications || [],
         }));
       }
     } catch (error: any) {
-      console.error('❌ Error loading dashboard data:', error);
+      log.error('❌ Error loading dashboard data:', error);
     }
   }, [token, isTokenLoading]);
 
+  const loadMissedDoseAlerts = useCallback(async () => {
+    if (isTokenLoading || !token || !userType) {
+      return;
+    }
+
+    try {
+      const result = await getMissedDoseAlerts(token, 'open', userType);
+
+      if (result.success && result.data) {
+        const alerts = Array.isArray(result.data.alerts) ? result.data.alerts : [];
+        setMissedDoseAlerts(
+          alerts.sort((a, b) => new Date(b.scheduledFor).getTime() - new Date(a.scheduledFor).getTime())
+        );
+      }
+    } catch (error: any) {
+      log.error('❌ Error loading missed dose alerts:', error);
+    }
+  }, [token, isTokenLoading, userType]);
+
+  const handleAcknowledgeAlert = useCallback(async (alert: MissedDoseAlert) => {
+    if (!token) return { success: false, message: t('dashboard.doctor.sessionExpired') };
+
+    try {
+      const result = await acknowledgeMissedDoseAlert(token, alert.id, userType || undefined);
+
+      if (result.success) {
+        setMissedDoseAlerts(prev => prev.filter(a => a.id !== alert.id));
+        return { success: true };
+      }
+      return { success: false, message: result.message || t('dashboard.doctor.acknowledgeAlertError') };
+    } catch (error: any) {
+      log.error('❌ Error acknowledging missed dose alert:', error);
+      return { success: false, message: error.message || t('dashboard.doctor.acknowledgeAlertError') };
+    }
+  }, [token, userType, t]);
+
   const handleDeletePatient = useCallback(async (patient: Patient) => {
     if (!token) return { success: false, message: t('dashboard.doctor.sessionExpired') };
 
@@ -110,6 +167,7 @@ export function useDoctorDashboard() {
       const result = await deletePatient(token, patient.id);
 
       if (result.success) {
+        await queryCache.removeQueries(QUERY_KEYS.patient(patient.id));
         setPatients(prev => prev.filter(p => p.id !== patient.id));
         setDashboardStats(prev => prev ? {
           ...prev,
@@ -128,7 +186,7 @@ export function useDoctorDashboard() {
         return { success: false, message: result.message || t('dashboard.doctor.deletePatientError') };
       }
     } catch (error: any) {
-      console.error('Error deleting patient:', error);
+      log.error('Error deleting patient:', error);
       return { success: false, message: error.message || t('dashboard.doctor.deletePatientError') };
     }
   }, [token, loadPatients, loadDashboardData, t]);
@@ -142,14 +200,13 @@ export function useDoctorDashboard() {
   useEffect(() => {
     const loadUserData = async () => {
       try {
-        const userData = await AsyncStorage.getItem('userData');
-        if (userData) {
-          const user = JSON.parse(userData);
+        const user = await getCurrentUser();
+        if (user) {
           setUserType(user.userType);
           setUserName(user.firstName || '');
         }
       } catch (error) {
-        console.error('Error loading user data:', error);
+        log.error('Error loading user data:', error);
       }
     };
     loadUserData();
@@ -162,6 +219,11 @@ export function useDoctorDashboard() {
     }
   }, [token, isTokenLoading, loadPatients, loadDashboardData]);
 
+  // Waits for the stored user type, which picks the doctor or tutor alert feed
+  useEffect(() => {
+    loadMissedDoseAlerts();
+  }, [loadMissedDoseAlerts]);
+
   return {
     searchQuery,
     setSearchQuery,
@@ -174,6 +236,9 @@ export function useDoctorDashboard() {
     userName,
     loadPatients,
     loadDashboardData,
+    missedDoseAlerts,
+    loadMissedDoseAlerts,
+    handleAcknowledgeAlert,
     handleDeletePatient,
     handleLogout,
     isTokenLoading,
@@ -1,22 +1,31 @@
-import { useState, useCallback, useEffect, useRef } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { useFocusEffect } from 'expo-router';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getCurrentUser } from '../../../shared/services/api/session';
 import { useAudioPlayer, setAudioModeAsync } from 'expo-audio';
-import * as FileSystem from 'expo-file-system/legacy';
 import { useAuthToken } from '../../../shared/hooks/useAuthToken';
+import { useQuery } from '../../../shared/hooks/useQuery';
+import { usePendingMutations } from '../../../shared/hooks/usePendingMutations';
+import { queryCache } from '../../../shared/services/queryCache';
+import { mutationOutbox, toOutboxRef } from '../../../shared/services/mutationOutbox';
+import { QUERY_KEYS, QUERY_STALE_TIMES } from '../../../shared/constants/queries';
 import { fixUrl } from '../../../config/api';
 import {
   getPatientDetails,
   getDoctorPatientMedications,
   getPatientVoiceMessages,
   getPatientAdherenceHistory,
-  createPrescription,
-  updatePrescription,
-  deletePrescription,
-  uploadVoiceMessage,
-  createVoiceMessage,
+  getPatientDeviceHealth,
   deleteVoiceMessage,
 } from '../../../shared/services/api/caregiver';
+import { buildAdherenceReport, toAdherenceEvents } from '../../../shared/utils/adherence';
+import { AdherenceEvent, AdherenceReport } from '../../../shared/types/adherence.types';
+import { ScheduleType, SnoozePolicy, TimeZonePolicy } from '../../../shared/types';
+import { PatientDetailsData, PatientProfileSummary } from '../../../shared/types/api.types';
+import { AnyQueuedMutation } from '../../../shared/types/outbox.types';
+import { toPrescriptionFields, toVersionedEdit } from '../../../shared/utils/conflicts';
+import { EscalationPolicy } from '../../../shared/types/escalation.types';
+import { DeviceHeartbeat } from '../../../shared/types/deviceHealth.types';
+import { getDeviceHealthWarnings } from '../../../shared/utils/deviceHealth';
 
 export interface Patient {
   id: string;
@@ -26,6 +35,7 @@ export interface Patient {
   phoneNumber: string;
   lastVisit?: Date | string;
   medicationCount?: number;
+  timezone?: string;
 }
 
 export interface Medication {
@@ -51,8 +61,19 @@ export interface Medication {
     days: number[];
   }>;
   isChronic?: boolean;
-  scheduleType?: 'daily' | 'weekly' | 'interval' | 'monthly' | 'custom';
+  scheduleType?: ScheduleType;
   intervalHours?: number;
+  monthDays?: number[];
+  customDates?: string[];
+  escalationPolicy?: EscalationPolicy | null;
+  snoozePolicy?: SnoozePolicy | null;
+  timeZonePolicy?: TimeZonePolicy;
+  version?: number;
+  updatedAt?: string;
+  // Set by the server when the patient device acknowledges the latest change
+  patientSyncedAt?: string | null;
+  // Changed offline, waiting in the mutation outbox
+  pendingSync?: boolean;
 }
 
 export interface VoiceMessage {
@@ -63,6 +84,7 @@ export interface VoiceMessage {
   durationSeconds: number;
   isActive: boolean;
   createdAt: string;
+  pendingSync?: boolean;
 }
 
 export interface FeedbackModalState {
@@ -76,11 +98,89 @@ export interface FeedbackModalState {
   cancelText?: string;
 }
 
+interface PatientProfileSnapshot {
+  patient: Patient | null;
+  medications: Medication[];
+}
+
+const ADHERENCE_DAYS_BACK = 30;
+
+const toPatient = (summary: PatientProfileSummary): Patient => ({
+  ...summary,
+  email: summary.email || '',
+  phoneNumber: summary.phoneNumber || '',
+  lastVisit: summary.lastVisit || undefined,
+  timezone: summary.timezone || undefined,
+});
+
+/**
+ * Show prescription changes still in the outbox on top of the server list
+ */
+const applyPendingPrescriptions = (
+  medications: Medication[],
+  mutations: AnyQueuedMutation[],
+  patientId: string | undefined
+): Medication[] => mutations.reduce<Medication[]>((list, mutation) => {
+  if (mutation.type === 'createPrescription' && mutation.payload.patientId === patientId) {
+    const { prescriptionData } = mutation.payload;
+    const id = toOutboxRef(mutation.id);
+    return [...list, {
+      ...prescriptionData,
+      id,
+      name: prescriptionData.medicationName,
+      dosage: prescriptionData.medicationDosage,
+      isActive: true,
+      medication: {
+        id,
+        name: prescriptionData.medicationName,
+        dosage: prescriptionData.medicationDosage,
+        form: prescriptionData.medicationForm,
+        genericName: prescriptionData.medicationGenericName,
+        description: prescriptionData.medicationDescription,
+      },
+      pendingSync: true,
+    }];
+  }
+  if (mutation.type === 'updatePrescription' && mutation.payload.patientId === patientId) {
+    const { prescriptionId, prescriptionData } = mutation.payload;
+    return list.map(item => item.id === prescriptionId
+      ? { ...item, ...prescriptionData, pendingSync: true }
+      : item);
+  }
+  if (mutation.type === 'deletePrescription' && mutation.payload.patientId === patientId) {
+    return list.filter(item => item.id !== mutation.payload.prescriptionId);
+  }
+  return list;
+}, medications);
+
+const applyPendingVoiceMessages = (
+  voiceMessages: VoiceMessage[],
+  mutations: AnyQueuedMutation[],
+  patientId: string | undefined
+): VoiceMessage[] => [
+  ...voiceMessages,
+  ...mutations.flatMap(mutation =>
+    mutation.type === 'uploadVoiceMessage' && mutation.payload.patientId === patientId
+      ? [{
+          id: toOutboxRef(mutation.id),
+          fileName: mutation.payload.fileName,
+          // Local copy, so the recording can be played before it is sent
+          fileUrl: mutation.payload.fileUri,
+          title: mutation.payload.title,
+          durationSeconds: mutation.payload.durationSeconds,
+          isActive: true,
+          createdAt: mutation.createdAt,
+          pendingSync: true,
+        }]
+      : []
+  ),
+];
+
+const isProfileData = (data: PatientDetailsData): data is Extract<PatientDetailsData, { patient: unknown }> =>
+  'patient' in data && !!data.patient;
+
 export function usePatientProfile(patientId: string | undefined) {
   const { token } = useAuthToken();
-  const [patient, setPatient] = useState<Patient | null>(null);
-  const [medications, setMedications] = useState<Medication[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showPrescriptionModal, setShowPrescriptionModal] = useState(false);
   const [selectedPrescription, setSelectedPrescription] = useState<Medication | null>(null);
@@ -103,15 +203,11 @@ export function usePatientProfile(patientId: string | undefined) {
   });
 
   // Voice messages state
-  const [voiceMessages, setVoiceMessages] = useState<VoiceMessage[]>([]);
   const [showVoiceRecorder, setShowVoiceRecorder] = useState(false);
   const [currentPlayingVoice, setCurrentPlayingVoice] = useState<string | null>(null);
   const [currentVoiceUri, setCurrentVoiceUri] = useState<string | null>(null);
   const playingStateRef = useRef<{ messageId: string | null; playStartTime: number }>({ messageId: null, playStartTime: 0 });
 
-  // Adherence history state
-  const [adherenceHistory, setAdherenceHistory] = useState<any>(null);
-  const [adherenceLoading, setAdherenceLoading] = useState(false);
   const [selectedTab, setSelectedTab] = useState<'medications' | 'adherence' | 'voices'>('medications');
 
   // Initialize audio player for voice messages - keep it initialized with null, use replace() to load audio
@@ -120,116 +216,166 @@ export function usePatientProfile(patientId: string | undefined) {
   // Load user type
   useEffect(() => {
     const loadUserType = async () => {
-      const userData = await AsyncStorage.getItem('userData');
-      if (userData) {
-        const user = JSON.parse(userData);
+      const user = await getCurrentUser();
+      if (user) {
         setUserType(user.userType);
       }
     };
     loadUserType();
   }, []);
 
-  // Load adherence history
-  const loadAdherenceHistory = useCallback(async () => {
-    if (!token || !patientId) return;
+  const canLoad = !!token && !!patientId;
 
-    try {
-      setAdherenceLoading(true);
-      console.log('📊 Loading adherence history...');
+  // Patient details, with the prescriptions when the profile endpoint includes them
+  const fetchProfile = useCallback(async (): Promise<PatientProfileSnapshot> => {
+    if (!token || !patientId) {
+      return { patient: null, medications: [] };
+    }
 
-      const result = await getPatientAdherenceHistory(token, patientId, 30);
-      if (result.success && result.data) {
-        console.log('✅ Adherence history loaded:', result.data);
-        setAdherenceHistory(result.data);
-      }
-    } catch (error) {
-      console.error('Error loading adherence history:', error);
-    } finally {
-      setAdherenceLoading(false);
+    const normalizeMedications = (items: any[]) => (items || []).map((item: any) => {
+      const voiceMessage = item?.voiceMessage
+        ? { ...item.voiceMessage, fileUrl: fixUrl(item.voiceMessage.fileUrl) }
+        : item?.voiceMessage;
+      const voiceMessageId = item?.voiceMessageId || voiceMessage?.id || null;
+      return { ...item, voiceMessage, voiceMessageId };
+    });
+
+    const patientResult = await getPatientDetails(token, patientId, userType || undefined);
+    console.log('📋 Patient details result:', patientResult);
+    const details = patientResult.success ? patientResult.data : undefined;
+    // The tutor endpoint returns { patient, prescriptions, reminders }, the doctor one the patient alone
+    const patientData = details ? toPatient(isProfileData(details) ? details.patient : details) : null;
+    const prescriptions = details && isProfileData(details) ? details.prescriptions : undefined;
+    if (prescriptions) {
+      return { patient: patientData, medications: normalizeMedications(prescriptions) };
     }
+
+    const medicationsResult = await getDoctorPatientMedications(token, patientId);
+    return {
+      patient: patientData,
+      medications: medicationsResult.success && Array.isArray(medicationsResult.data)
+        ? normalizeMedications(medicationsResult.data)
+        : [],
+    };
+  }, [token, patientId, userType]);
+
+  const fetchVoiceMessages = useCallback(async (): Promise<VoiceMessage[]> => {
+    if (!token || !patientId) return [];
+
+    const voiceResult = await getPatientVoiceMessages(token, patientId);
+    console.log('🎤 Voice messages loaded:', voiceResult.data);
+    // Fix URLs that might have old IP addresses
+    return (voiceResult.data || []).map(msg => ({
+      ...msg,
+      fileUrl: fixUrl(msg.fileUrl),
+    }));
   }, [token, patientId]);
 
-  // Load patient data
-  const loadPatientData = useCallback(async () => {
-    if (!token || !patientId) return;
+  const fetchAdherence = useCallback(async (): Promise<AdherenceEvent[]> => {
+    if (!token || !patientId) return [];
 
-    try {
-      setIsLoading(true);
-
-      const normalizeMedications = (items: any[]) => (items || []).map((item: any) => {
-        const voiceMessage = item?.voiceMessage
-          ? { ...item.voiceMessage, fileUrl: fixUrl(item.voiceMessage.fileUrl) }
-          : item?.voiceMessage;
-        const voiceMessageId = item?.voiceMessageId || voiceMessage?.id || null;
-        return { ...item, voiceMessage, voiceMessageId };
-      });
+    console.log('📊 Loading adherence history...');
+    const result = await getPatientAdherenceHistory(token, patientId, ADHERENCE_DAYS_BACK);
+    // Prefer the full reminder list; older backends only return the recent slice
+    const records = result.data?.reminders || result.data?.recentHistory || [];
+    const events = toAdherenceEvents(records);
+    console.log(`✅ Adherence history loaded: ${events.length} reminders`);
+    return events;
+  }, [token, patientId]);
 
-      // Load patient details
-      const patientResult = await getPatientDetails(token, patientId, userType || undefined);
-      console.log('📋 Patient details result:', patientResult);
-      if (patientResult.success && patientResult.data) {
-        // The tutor endpoint returns { patient, prescriptions, reminders }
-        const data = patientResult.data as any;
-        if (data.patient) {
-          setPatient(data.patient);
-          // Also use prescriptions from this response
-          if (data.prescriptions) {
-            setMedications(normalizeMedications(data.prescriptions));
-          }
-        } else {
-          // Fallback if data is already the patient object
-          setPatient(data);
-        }
-      }
+  const fetchDeviceHealth = useCallback(async (): Promise<DeviceHeartbeat | null> => {
+    if (!token || !patientId) return null;
 
-      // Load patient medications (if not already loaded from patient details)
-      const data = patientResult.data as any;
-      if (!data?.prescriptions) {
-        const medicationsResult = await getDoctorPatientMedications(token, patientId);
-        if (medicationsResult.success && Array.isArray(medicationsResult.data)) {
-          setMedications(normalizeMedications(medicationsResult.data));
-        } else {
-          setMedications([]);
-        }
-      }
+    const result = await getPatientDeviceHealth(token, patientId, userType || undefined);
+    return result.success ? result.data ?? null : null;
+  }, [token, patientId, userType]);
 
-      // Load voice messages
-      const voiceResult = await getPatientVoiceMessages(token, patientId);
-      if (voiceResult.success) {
-        console.log('🎤 Voice messages loaded:', voiceResult.data);
-        const voiceData = voiceResult.data as any[];
-        // Fix URLs that might have old IP addresses
-        const fixedVoiceData = (voiceData || []).map((msg: any) => ({
-          ...msg,
-          fileUrl: fixUrl(msg.fileUrl),
-        }));
-        setVoiceMessages(fixedVoiceData);
-      }
+  const profileQuery = useQuery(
+    patientId ? QUERY_KEYS.patientProfile(patientId, userType || 'tuteur') : null,
+    fetchProfile,
+    { enabled: canLoad, staleTime: QUERY_STALE_TIMES.PATIENT_PROFILE }
+  );
+  const voiceQuery = useQuery(
+    patientId ? QUERY_KEYS.patientVoiceMessages(patientId) : null,
+    fetchVoiceMessages,
+    { enabled: canLoad, staleTime: QUERY_STALE_TIMES.PATIENT_PROFILE }
+  );
+  const adherenceQuery = useQuery(
+    patientId ? QUERY_KEYS.patientAdherence(patientId, ADHERENCE_DAYS_BACK) : null,
+    fetchAdherence,
+    { enabled: canLoad, staleTime: QUERY_STALE_TIMES.ADHERENCE }
+  );
+  const deviceHealthQuery = useQuery(
+    patientId ? QUERY_KEYS.patientDeviceHealth(patientId) : null,
+    fetchDeviceHealth,
+    { enabled: canLoad, staleTime: QUERY_STALE_TIMES.PATIENT_PROFILE }
+  );
+
+  // Offline changes are shown right away, before the outbox sends them
+  const { pending: pendingMutations } = usePendingMutations();
+  const patient = profileQuery.data?.patient ?? null;
+  const medications = useMemo(
+    () => applyPendingPrescriptions(profileQuery.data?.medications ?? [], pendingMutations, patientId),
+    [profileQuery.data, pendingMutations, patientId]
+  );
+  const voiceMessages = useMemo(
+    () => applyPendingVoiceMessages(voiceQuery.data ?? [], pendingMutations, patientId),
+    [voiceQuery.data, pendingMutations, patientId]
+  );
+  const adherenceEvents = adherenceQuery.data ?? [];
+  const adherenceReport = useMemo<AdherenceReport | null>(
+    () => (adherenceEvents.length ? buildAdherenceReport(adherenceEvents) : null),
+    [adherenceEvents]
+  );
+  const deviceHealth = deviceHealthQuery.data ?? null;
+  const deviceHealthWarnings = useMemo(
+    () => (deviceHealthQuery.isLoading ? [] : getDeviceHealthWarnings(deviceHealth)),
+    [deviceHealth, deviceHealthQuery.isLoading]
+  );
+  const isLoading = profileQuery.isLoading;
+  const adherenceLoading = adherenceQuery.isLoading;
+
+  const { refetch: refetchProfile } = profileQuery;
+  const { refetch: refetchVoiceMessages } = voiceQuery;
+  const { refetch: refetchAdherence } = adherenceQuery;
+  const { refetch: refetchDeviceHealth } = deviceHealthQuery;
+
+  // Forced reload, used by pull-to-refresh
+  const loadPatientData = useCallback(async () => {
+    if (!canLoad) return;
 
-      // Load adherence history
-      await loadAdherenceHistory();
+    try {
+      await Promise.all([refetchProfile(), refetchVoiceMessages(), refetchAdherence(), refetchDeviceHealth()]);
     } catch (error) {
       console.error('Error loading patient data:', error);
     } finally {
-      setIsLoading(false);
       setIsRefreshing(false);
     }
-  }, [token, patientId, userType, loadAdherenceHistory]);
-
-  useEffect(() => {
-    if (token && patientId) {
-      loadPatientData();
+  }, [canLoad, refetchProfile, refetchVoiceMessages, refetchAdherence, refetchDeviceHealth]);
+
+  // Refetch whatever this patient's screens show after a mutation
+  const invalidatePatient = useCallback(async () => {
+    if (patientId) {
+      await queryCache.invalidateQueries(QUERY_KEYS.patient(patientId));
+      // Medication counts shown on the caregiver dashboard
+      await queryCache.invalidateQueries(QUERY_KEYS.doctorPatients());
     }
-  }, [token, patientId, loadPatientData]);
+  }, [patientId]);
+
+  const { revalidate: revalidateProfile } = profileQuery;
+  const { revalidate: revalidateVoiceMessages } = voiceQuery;
+  const { revalidate: revalidateAdherence } = adherenceQuery;
+  const { revalidate: revalidateDeviceHealth } = deviceHealthQuery;
 
-  // Reload data when screen comes into focus
+  // Cached data renders immediately; on focus only stale queries are refetched
   useFocusEffect(
     useCallback(() => {
-      console.log('📱 Patient profile screen focused - refreshing data...');
-      if (token && patientId) {
-        loadPatientData();
-      }
-    }, [token, patientId, loadPatientData])
+      console.log('📱 Patient profile screen focused - revalidating data...');
+      revalidateProfile();
+      revalidateVoiceMessages();
+      revalidateAdherence();
+      revalidateDeviceHealth();
+    }, [revalidateProfile, revalidateVoiceMessages, revalidateAdherence, revalidateDeviceHealth])
   );
 
   const onRefresh = useCallback(() => {
@@ -255,33 +401,24 @@ export function usePatientProfile(patientId: string | undefined) {
   }, []);
 
   const confirmDeletePrescription = useCallback(async () => {
-    if (!deleteConfirmModal.medication || !token) return;
+    if (!deleteConfirmModal.medication || !token || !patientId) return;
 
     try {
-      const result = await deletePrescription(token, deleteConfirmModal.medication.id);
+      const outcome = await mutationOutbox.runOrEnqueue(token, 'deletePrescription', {
+        patientId,
+        prescriptionId: deleteConfirmModal.medication.id,
+      });
 
       setDeleteConfirmModal({ visible: false, medication: null });
-
-      if (result.success) {
-        setFeedbackModal({
-          visible: true,
-          type: 'success',
-          title: 'Succès',
-          message: 'Prescription supprimée avec succès',
-          onConfirm: () => {
-            setFeedbackModal(prev => ({ ...prev, visible: false }));
-            loadPatientData();
-          },
-        });
-      } else {
-        setFeedbackModal({
-          visible: true,
-          type: 'error',
-          title: 'Erreur',
-          message: result.message || 'Erreur lors de la suppression',
-          onConfirm: () => setFeedbackModal(prev => ({ ...prev, visible: false })),
-        });
-      }
+      setFeedbackModal({
+        visible: true,
+        type: 'success',
+        title: 'Succès',
+        message: outcome.queued
+          ? 'Hors ligne : la suppression sera envoyée dès le retour de la connexion'
+          : 'Prescription supprimée avec succès',
+        onConfirm: () => setFeedbackModal(prev => ({ ...prev, visible: false })),
+      });
     } catch (error: any) {
       setDeleteConfirmModal({ visible: false, medication: null });
       setFeedbackModal({
@@ -292,44 +429,42 @@ export function usePatientProfile(patientId: string | undefined) {
         onConfirm: () => setFeedbackModal(prev => ({ ...prev, visible: false })),
       });
     }
-  }, [deleteConfirmModal, token, loadPatientData]);
+  }, [deleteConfirmModal, token, patientId]);
 
   const handleSavePrescription = useCallback(async (prescriptionData: any) => {
     if (!token || !patientId) {
       throw new Error('Token ou ID patient manquant');
     }
 
-    let result;
-    if (selectedPrescription) {
+    const outcome = selectedPrescription
       // Update existing prescription
-      result = await updatePrescription(token, selectedPrescription.id, prescriptionData);
-    } else {
+      ? await mutationOutbox.runOrEnqueue(token, 'updatePrescription', {
+          patientId,
+          prescriptionId: selectedPrescription.id,
+          prescriptionData,
+          // What the edit started from, to detect changes made elsewhere meanwhile
+          ...toVersionedEdit(toPrescriptionFields(selectedPrescription), prescriptionData),
+        })
       // Create new prescription
-      result = await createPrescription(token, patientId, prescriptionData);
-    }
-
-    if (result.success) {
-      setShowPrescriptionModal(false);
-      setSelectedPrescription(null);
+      : await mutationOutbox.runOrEnqueue(token, 'createPrescription', { patientId, prescriptionData });
 
-      // Reload data immediately
-      await loadPatientData();
+    setShowPrescriptionModal(false);
+    setSelectedPrescription(null);
 
-      setFeedbackModal({
-        visible: true,
-        type: 'success',
-        title: 'Succès',
-        message: selectedPrescription
+    setFeedbackModal({
+      visible: true,
+      type: 'success',
+      title: 'Succès',
+      message: outcome.queued
+        ? 'Hors ligne : la prescription sera envoyée dès le retour de la connexion'
+        : selectedPrescription
           ? 'Prescription mise à jour avec succès'
           : 'Prescription créée avec succès',
-        onConfirm: () => {
-          setFeedbackModal(prev => ({ ...prev, visible: false }));
-        },
-      });
-    } else {
-      throw new Error(result.message || 'Erreur lors de la sauvegarde');
-    }
-  }, [token, patientId, selectedPrescription, loadPatientData]);
+      onConfirm: () => {
+        setFeedbackModal(prev => ({ ...prev, visible: false }));
+      },
+    });
+  }, [token, patientId, selectedPrescription]);
 
   // Voice message handlers
   const handlePlayVoiceMessage = useCallback(async (messageId: string, fileUrl: string) => {
@@ -429,7 +564,7 @@ export function usePatientProfile(patientId: string | undefined) {
               message: 'Message vocal supprimé avec succès',
               onConfirm: () => {
                 setFeedbackModal(prev => ({ ...prev, visible: false }));
-                loadPatientData();
+                invalidatePatient();
               },
             });
           }
@@ -447,7 +582,7 @@ export function usePatientProfile(patientId: string | undefined) {
       confirmText: 'Supprimer',
       cancelText: 'Annuler',
     });
-  }, [token, loadPatientData]);
+  }, [token, invalidatePatient]);
 
   const handleSaveVoiceMessage = useCallback(async (audioUri: string, duration: number, title: string) => {
     console.log('💾 Saving voice message - URI:', audioUri, 'Duration:', duration);
@@ -456,53 +591,25 @@ export function usePatientProfile(patientId: string | undefined) {
         throw new Error('Token ou ID patient manquant');
       }
 
-      // Read audio file as base64
-      const base64Audio = await FileSystem.readAsStringAsync(audioUri, {
-        encoding: FileSystem.EncodingType.Base64,
-      });
-
-      // Upload the audio file
-      const uploadResult = await uploadVoiceMessage(token, {
-        fileBase64: base64Audio,
+      // Upload the audio file and create the voice message, or queue both while offline
+      const outcome = await mutationOutbox.runOrEnqueue(token, 'uploadVoiceMessage', {
+        patientId,
+        fileUri: audioUri,
         fileName: `voice_${Date.now()}.m4a`,
         mimeType: 'audio/m4a',
-      });
-
-      if (!uploadResult.success || !uploadResult.data) {
-        throw new Error('Échec du téléchargement du fichier audio');
-      }
-
-      // Create the voice message
-      console.log('📤 Creating voice message with data:', {
-        patientId: patientId,
-        fileUrl: uploadResult.data.fileUrl,
-        fileName: `voice_${Date.now()}.m4a`,
-        title: title,
+        title,
         durationSeconds: duration,
       });
 
-      const createResult = await createVoiceMessage(token, {
-        patientId: patientId,
-        fileUrl: uploadResult.data.fileUrl,
-        fileName: `voice_${Date.now()}.m4a`,
-        title: title,
-        durationSeconds: duration,
+      setFeedbackModal({
+        visible: true,
+        type: 'success',
+        title: 'Succès',
+        message: outcome.queued
+          ? 'Hors ligne : le message vocal sera envoyé dès le retour de la connexion'
+          : 'Message vocal envoyé avec succès',
+        onConfirm: () => setFeedbackModal(prev => ({ ...prev, visible: false })),
       });
-
-      if (createResult.success) {
-        setFeedbackModal({
-          visible: true,
-          type: 'success',
-          title: 'Succès',
-          message: 'Message vocal envoyé avec succès',
-          onConfirm: () => {
-            setFeedbackModal(prev => ({ ...prev, visible: false }));
-            loadPatientData();
-          },
-        });
-      } else {
-        throw new Error(createResult.message || 'Erreur lors de la création du message');
-      }
     } catch (error: any) {
       setFeedbackModal({
         visible: true,
@@ -512,7 +619,7 @@ export function usePatientProfile(patientId: string | undefined) {
         onConfirm: () => setFeedbackModal(prev => ({ ...prev, visible: false })),
       });
     }
-  }, [token, patientId, loadPatientData]);
+  }, [token, patientId]);
 
   return {
     // State
@@ -527,8 +634,12 @@ export function usePatientProfile(patientId: string | undefined) {
     voiceMessages,
     showVoiceRecorder,
     currentPlayingVoice,
-    adherenceHistory,
+    adherenceReport,
+    adherenceEvents,
+    adherenceDaysBack: ADHERENCE_DAYS_BACK,
     adherenceLoading,
+    deviceHealth,
+    deviceHealthWarnings,
     selectedTab,
     userType,
 
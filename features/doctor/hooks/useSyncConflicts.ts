@@ -0,0 +1,58 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuthToken } from '../../../shared/hooks/useAuthToken';
+import { mutationOutbox } from '../../../shared/services/mutationOutbox';
+import { AnyQueuedMutation, ConflictResolution } from '../../../shared/types/outbox.types';
+import { createLogger } from '../../../shared/utils/logger';
+
+const log = createLogger('outbox');
+
+/**
+ * Offline edits the server rejected as conflicting, and how to settle them
+ */
+export function useSyncConflicts() {
+  const { token } = useAuthToken();
+  const [conflicts, setConflicts] = useState<AnyQueuedMutation[]>([]);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+    mutationOutbox.getConflicts().then(current => {
+      if (isMounted) {
+        setConflicts(current);
+      }
+    });
+
+    const listener = (queue: AnyQueuedMutation[]) =>
+      setConflicts(queue.filter(mutation => mutation.status === 'conflict'));
+    mutationOutbox.addListener(listener);
+    return () => {
+      isMounted = false;
+      mutationOutbox.removeListener(listener);
+    };
+  }, []);
+
+  const resolveConflict = useCallback(async (
+    mutationId: string,
+    resolution: ConflictResolution
+  ): Promise<{ success: boolean }> => {
+    setResolvingId(mutationId);
+    try {
+      await mutationOutbox.resolveConflict(mutationId, resolution);
+      if (token && resolution !== 'keep-server') {
+        await mutationOutbox.flushOutbox(token);
+      }
+      return { success: true };
+    } catch (error) {
+      log.error('❌ Error resolving sync conflict:', error);
+      return { success: false };
+    } finally {
+      setResolvingId(null);
+    }
+  }, [token]);
+
+  return {
+    conflicts,
+    resolvingId,
+    resolveConflict,
+  };
+}
@@ -0,0 +1,72 @@
+import React from 'react';
+import { View, Text, StyleSheet, I18nManager } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { COLORS } from '../../../shared/constants/colors';
+import { REMINDER_REFILL } from '../../../shared/constants/reminderWindow';
+import { ReminderCoverage } from '../../../shared/services/localReminderService';
+import { formatDateTime } from '../../../shared/utils/formatting/timeFormatting';
+
+interface CoverageBannerProps {
+  coverage: ReminderCoverage | null;
+  currentTime: Date;
+}
+
+export default function CoverageBanner({ coverage, currentTime }: CoverageBannerProps) {
+  const { t } = useTranslation();
+
+  // Only shown when some upcoming doses could not be scheduled yet (iOS notification budget)
+  if (!coverage || coverage.deferredCount === 0 || !coverage.lastScheduledAt) {
+    return null;
+  }
+
+  const date = formatDateTime(coverage.lastScheduledAt, { year: undefined });
+  const endsSoon =
+    new Date(coverage.lastScheduledAt).getTime() - currentTime.getTime() < REMINDER_REFILL.COVERAGE_WARNING_MS;
+
+  if (!endsSoon) {
+    return (
+      <View style={styles.infoBanner}>
+        <Ionicons name="alarm-outline" size={16} color={COLORS.textTertiary} />
+        <Text style={styles.infoText}>{t('dashboard.patient.coverageUntil', { date })}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.warningBanner}>
+      <Ionicons name="alarm" size={20} color={COLORS.warning[0]} />
+      <Text style={styles.warningText}>{t('dashboard.patient.coverageEndsSoon', { date })}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  infoBanner: {
+    paddingVertical: 6,
+    paddingHorizontal: 16,
+    flexDirection: I18nManager.isRTL ? 'row-reverse' : 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  infoText: {
+    flex: 1,
+    fontSize: 12,
+    color: COLORS.textTertiary,
+  },
+  warningBanner: {
+    backgroundColor: 'rgba(245, 158, 11, 0.15)',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    flexDirection: I18nManager.isRTL ? 'row-reverse' : 'row',
+    alignItems: 'center',
+    gap: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(245, 158, 11, 0.3)',
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 13,
+    color: COLORS.warning[0],
+  },
+});
@@ -4,6 +4,8 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { DateItem } from '../../../shared/types/patient.types';
 import { COLORS } from '../../../shared/constants/colors';
 import { useTranslation } from 'react-i18next';
+import { useUserTimeZone } from '../../../shared/hooks/useUserTimeZone';
+import { addDaysToDateKey, getZonedDateKey, zonedTimeToUtc } from '../../../shared/utils/timezone';
 
 interface DateSelectorProps {
   selectedDate: Date;
@@ -12,15 +14,18 @@ interface DateSelectorProps {
 
 export default function DateSelector({ selectedDate, onDateSelect }: DateSelectorProps) {
   const { t, i18n } = useTranslation();
+  const timeZone = useUserTimeZone();
 
   const datesList = useMemo(() => {
     const dates: DateItem[] = [];
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    // Days of the profile timezone, which may differ from the device's while travelling
+    const todayKey = getZonedDateKey(new Date(), timeZone);
 
     for (let i = -7; i <= 6; i++) {
-      const date = new Date(today);
-      date.setDate(today.getDate() + i);
+      const [year, month, day] = addDaysToDateKey(todayKey, i).split('-').map(Number);
+      // Midday is never skipped by a DST change
+      const date = zonedTimeToUtc(year, month, day, 12, 0, timeZone);
+      const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
       
       const dayNames = [
         t('dashboard.days.sun'),
@@ -48,18 +53,18 @@ export default function DateSelector({ selectedDate, onDateSelect }: DateSelecto
       
       dates.push({
         date: date,
-        dayName: dayNames[date.getDay()],
-        dayNumber: date.getDate(),
-        monthName: monthNames[date.getMonth()],
+        dayName: dayNames[weekday],
+        dayNumber: day,
+        monthName: monthNames[month - 1],
         isToday: i === 0,
       });
     }
     
     return dates;
-  }, [t, i18n.language]);
+  }, [t, i18n.language, timeZone]);
 
   const renderDateCircle = ({ item }: { item: DateItem }) => {
-    const isSelected = item.date.toDateString() === selectedDate.toDateString();
+    const isSelected = getZonedDateKey(item.date, timeZone) === getZonedDateKey(selectedDate, timeZone);
     
     return (
       <TouchableOpacity
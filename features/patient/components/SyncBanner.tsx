@@ -3,6 +3,7 @@ import { View, Text, TouchableOpacity, StyleSheet, I18nManager } from 'react-nat
 import { Ionicons } from '@expo/vector-icons';
 import { COLORS } from '../../../shared/constants/colors';
 import { useTranslation } from 'react-i18next';
+import { getUserTimeZone } from '../../../shared/utils/timezone';
 
 interface SyncBannerProps {
   hasUpdates: boolean;
@@ -10,6 +11,9 @@ interface SyncBannerProps {
   isSyncing: boolean;
   onSyncPress: () => void;
   i18nLanguage: string;
+  pendingCount?: number;
+  deadLetterCount?: number;
+  onReviewPress?: () => void;
 }
 
 export default function SyncBanner({
@@ -18,9 +22,29 @@ export default function SyncBanner({
   isSyncing,
   onSyncPress,
   i18nLanguage,
+  pendingCount = 0,
+  deadLetterCount = 0,
+  onReviewPress,
 }: SyncBannerProps) {
   const { t } = useTranslation();
 
+  // Confirmations the server refused (or that ran out of retries) come first: they need the patient
+  if (deadLetterCount > 0) {
+    return (
+      <View style={styles.deadLetterBanner}>
+        <Ionicons name="cloud-offline" size={20} color={COLORS.error[0]} />
+        <Text style={styles.deadLetterBannerText}>
+          {t('dashboard.patient.stuckActions', { total: deadLetterCount })}
+        </Text>
+        {onReviewPress && (
+          <TouchableOpacity style={styles.deadLetterBannerButton} onPress={onReviewPress}>
+            <Text style={styles.updateBannerButtonText}>{t('dashboard.patient.review')}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  }
+
   if (hasUpdates) {
     return (
       <View style={styles.updateBanner}>
@@ -41,6 +65,17 @@ export default function SyncBanner({
     );
   }
 
+  if (pendingCount > 0) {
+    return (
+      <View style={styles.pendingBanner}>
+        <Ionicons name="time-outline" size={16} color={COLORS.warning[0]} />
+        <Text style={styles.pendingText}>
+          {t('dashboard.patient.pendingActions', { total: pendingCount })}
+        </Text>
+      </View>
+    );
+  }
+
   if (lastSyncTime) {
     return (
       <View style={styles.syncInfoBanner}>
@@ -53,7 +88,7 @@ export default function SyncBanner({
               month: 'short',
               hour: '2-digit',
               minute: '2-digit',
-              timeZone: 'Africa/Tunis',
+              timeZone: getUserTimeZone(),
               numberingSystem: 'latn'
             }
           )}
@@ -95,6 +130,46 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: 'white',
   },
+  deadLetterBanner: {
+    backgroundColor: 'rgba(239, 68, 68, 0.15)',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    flexDirection: I18nManager.isRTL ? 'row-reverse' : 'row', // Reverse for RTL
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(239, 68, 68, 0.3)',
+  },
+  deadLetterBannerText: {
+    flex: 1,
+    fontSize: 14,
+    color: COLORS.error[0],
+    fontWeight: '600',
+    marginLeft: I18nManager.isRTL ? 0 : 8,
+    marginRight: I18nManager.isRTL ? 8 : 0,
+  },
+  deadLetterBannerButton: {
+    backgroundColor: COLORS.error[0],
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  pendingBanner: {
+    backgroundColor: 'rgba(245, 158, 11, 0.1)',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    flexDirection: I18nManager.isRTL ? 'row-reverse' : 'row', // Reverse for RTL
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(245, 158, 11, 0.2)',
+  },
+  pendingText: {
+    fontSize: 12,
+    color: COLORS.warning[0],
+    marginLeft: I18nManager.isRTL ? 0 : 6,
+    marginRight: I18nManager.isRTL ? 6 : 0,
+  },
   syncInfoBanner: {
     backgroundColor: 'rgba(16, 185, 129, 0.1)',
     paddingVertical: 8,
@@ -0,0 +1,90 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, I18nManager } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { COLORS } from '../../../shared/constants/colors';
+import { travelModeService, TravelModeState } from '../../../shared/services/travelModeService';
+
+interface TravelBannerProps {
+  travelState: TravelModeState | null;
+  onDismiss: () => void;
+}
+
+const formatOffsetDelta = (minutes: number): string => {
+  const sign = minutes < 0 ? '-' : '+';
+  const absolute = Math.abs(minutes);
+  const hours = Math.floor(absolute / 60);
+  const rest = absolute % 60;
+  return rest ? `${sign}${hours}h${String(rest).padStart(2, '0')}` : `${sign}${hours}h`;
+};
+
+export default function TravelBanner({ travelState, onDismiss }: TravelBannerProps) {
+  const { t } = useTranslation();
+
+  if (!travelState) {
+    return null;
+  }
+
+  const message = travelState.active
+    ? t('dashboard.patient.travelMoved', {
+        moved: travelState.movedCount,
+        kept: travelState.keptCount,
+        offset: formatOffsetDelta(travelModeService.getTravelOffsetMinutes(travelState)),
+      })
+    : t('dashboard.patient.travelBackHome', { zone: travelState.homeTimeZone });
+
+  return (
+    <View style={styles.banner}>
+      <Ionicons name="airplane" size={20} color={COLORS.info[0]} />
+      <View style={styles.textContainer}>
+        <Text style={styles.title}>
+          {t('dashboard.patient.travelTitle', { zone: travelState.currentTimeZone })}
+        </Text>
+        <Text style={styles.message}>{message}</Text>
+      </View>
+      <TouchableOpacity style={styles.dismissButton} onPress={onDismiss}>
+        <Text style={styles.dismissText}>{t('dashboard.patient.travelDismiss')}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    backgroundColor: 'rgba(59, 130, 246, 0.15)',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    flexDirection: I18nManager.isRTL ? 'row-reverse' : 'row',
+    alignItems: 'center',
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(59, 130, 246, 0.3)',
+  },
+  textContainer: {
+    flex: 1,
+    marginLeft: I18nManager.isRTL ? 0 : 10,
+    marginRight: I18nManager.isRTL ? 10 : 0,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.info[0],
+  },
+  message: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.75)',
+    marginTop: 2,
+  },
+  dismissButton: {
+    backgroundColor: COLORS.info[0],
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+    marginLeft: I18nManager.isRTL ? 0 : 10,
+    marginRight: I18nManager.isRTL ? 10 : 0,
+  },
+  dismissText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: 'white',
+  },
+});
@@ -0,0 +1,174 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { getAdherenceHistory } from '../../../shared/services/api/patient';
+import { AbortedError } from '../../../shared/services/api/errors';
+import { networkMonitor } from '../../../shared/services/networkMonitor';
+import { offlineQueueService } from '../../../shared/services/offlineQueueService';
+import { getEncryptedItem, setEncryptedItem } from '../../../shared/services/secureStorage';
+import { useAuthToken } from '../../../shared/hooks/useAuthToken';
+import { buildAdherenceReport, toAdherenceEvents } from '../../../shared/utils/adherence';
+import { AdherenceEvent, AdherenceRecord, AdherenceReport } from '../../../shared/types/adherence.types';
+import { createLogger } from '../../../shared/utils/logger';
+
+const log = createLogger('adherence');
+
+const STORAGE_KEYS = {
+  ADHERENCE_HISTORY: '@patient_adherence_history',
+};
+
+const HISTORY_DAYS_BACK = 90;
+
+const getHistoryCacheKey = (daysBack: number) => `${STORAGE_KEYS.ADHERENCE_HISTORY}:${daysBack}`;
+
+export function useAdherenceHistory(daysBack: number = HISTORY_DAYS_BACK) {
+  const { token, isLoading: isTokenLoading } = useAuthToken();
+  const [events, setEvents] = useState<AdherenceEvent[]>([]);
+  const [report, setReport] = useState<AdherenceReport>(() => buildAdherenceReport([]));
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isOffline, setIsOffline] = useState(false);
+  const [lastUpdatedAt, setLastUpdatedAt] = useState<string | null>(null);
+  // In-flight history request, aborted when a newer load starts or the screen unmounts
+  const abortRef = useRef<AbortController | null>(null);
+
+  const loadCachedHistory = useCallback(async () => {
+    try {
+      const stored = await getEncryptedItem(getHistoryCacheKey(daysBack));
+      if (!stored) return null;
+      return JSON.parse(stored) as { records: AdherenceRecord[]; fetchedAt: string };
+    } catch (error) {
+      log.error('Error loading cached adherence history:', error);
+      return null;
+    }
+  }, [daysBack]);
+
+  const saveCachedHistory = useCallback(async (items: AdherenceRecord[], fetchedAt: string) => {
+    try {
+      await setEncryptedItem(
+        getHistoryCacheKey(daysBack),
+        JSON.stringify({ records: items, fetchedAt })
+      );
+    } catch (error) {
+      log.error('Error saving cached adherence history:', error);
+    }
+  }, [daysBack]);
+
+  // Doses confirmed offline are not known to the backend yet, so count them as taken here
+  const applyLocalConfirmations = useCallback(async (items: AdherenceEvent[]) => {
+    try {
+      const confirmationsJson = await getEncryptedItem('@medication_confirmations');
+      const confirmations = confirmationsJson
+        ? (JSON.parse(confirmationsJson) as Array<{ reminderId: string; confirmedAt?: string }>)
+        : [];
+      const queue = await offlineQueueService.getQueue();
+      const confirmedAt = new Map<string, string>();
+
+      confirmations.forEach(entry => {
+        if (entry.reminderId) {
+          confirmedAt.set(entry.reminderId, entry.confirmedAt || new Date().toISOString());
+        }
+      });
+      queue
+        .filter(action => !action.synced && action.type === 'confirm')
+        .forEach(action => {
+          if (!confirmedAt.has(action.reminderId)) {
+            confirmedAt.set(action.reminderId, action.timestamp);
+          }
+        });
+
+      if (!confirmedAt.size) {
+        return items;
+      }
+
+      return items.map(item =>
+        item.status !== 'taken' && confirmedAt.has(item.reminderId)
+          ? { ...item, status: 'taken' as const, takenAt: confirmedAt.get(item.reminderId) }
+          : item
+      );
+    } catch (error) {
+      log.error('Error applying local confirmations to adherence history:', error);
+      return items;
+    }
+  }, []);
+
+  const applyRecords = useCallback(async (items: AdherenceRecord[]) => {
+    const applied = await applyLocalConfirmations(toAdherenceEvents(items));
+    setEvents(applied);
+    setReport(buildAdherenceReport(applied));
+  }, [applyLocalConfirmations]);
+
+  const loadHistory = useCallback(async () => {
+    if (isTokenLoading) {
+      return;
+    }
+
+    try {
+      if (!token) {
+        return;
+      }
+
+      const online = await networkMonitor.isOnline();
+      setIsOffline(!online);
+
+      if (!online) {
+        const cached = await loadCachedHistory();
+        if (cached) {
+          await applyRecords(cached.records);
+          setLastUpdatedAt(cached.fetchedAt);
+        }
+        return;
+      }
+
+      abortRef.current?.abort();
+      const controller = new AbortController();
+      abortRef.current = controller;
+
+      const result = await getAdherenceHistory(token, daysBack, controller.signal);
+      if (result.success && result.data) {
+        const items = Array.isArray(result.data.reminders) ? result.data.reminders : [];
+        const fetchedAt = new Date().toISOString();
+        await applyRecords(items);
+        setLastUpdatedAt(fetchedAt);
+        await saveCachedHistory(items, fetchedAt);
+      }
+    } catch (error) {
+      if (error instanceof AbortedError) {
+        return;
+      }
+      log.error('Error loading adherence history:', error);
+      const cached = await loadCachedHistory();
+      if (cached) {
+        await applyRecords(cached.records);
+        setLastUpdatedAt(cached.fetchedAt);
+      }
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  }, [token, isTokenLoading, daysBack, loadCachedHistory, saveCachedHistory, applyRecords]);
+
+  const onRefresh = useCallback(async () => {
+    setIsRefreshing(true);
+    await loadHistory();
+  }, [loadHistory]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  return {
+    events,
+    report,
+    stats: report.stats,
+    dailyHistory: report.daily,
+    isLoading: isLoading || isTokenLoading,
+    isRefreshing,
+    isOffline,
+    lastUpdatedAt,
+    onRefresh,
+    loadHistory,
+  };
+}
@@ -4,63 +4,34 @@ import { Vibration, Platform } from 'react-native';
 import { Audio } from 'expo-av';
 import notifee from '@notifee/react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getAccessToken } from '../../../shared/services/api/session';
 import localReminderService from '../../../shared/services/localReminderService';
 import apiService from '../../../shared/services/api';
 import { offlineQueueService } from '../../../shared/services/offlineQueueService';
 import { networkMonitor } from '../../../shared/services/networkMonitor';
-
-const MEDS_CACHE_PREFIX = '@patient_medications_by_date:';
-const STATS_CACHE_PREFIX = '@patient_medication_stats_by_date:';
+import { SnoozeStatus } from '../../../shared/services/snoozeService';
+import { updateCachedMedicationStatus } from '../../../shared/utils/medicationCache';
+import { getDoseActionKey } from '../../../shared/utils/idempotency';
 
 interface UseMedicationAlarmParams {
   reminderId: string;
   audioPath?: string;
 }
 
-const updateCachedMedicationStatus = async (reminderIds: string[]) => {
-  try {
-    const reminderSet = new Set(reminderIds);
-    const keys = await AsyncStorage.getAllKeys();
-    const medsKeys = keys.filter(key => key.startsWith(MEDS_CACHE_PREFIX));
-
-    for (const medsKey of medsKeys) {
-      const medsJson = await AsyncStorage.getItem(medsKey);
-      if (!medsJson) continue;
-
-      const meds = JSON.parse(medsJson) as Array<{ reminderId: string; status: string }>;
-      let updated = false;
-      const updatedMeds = meds.map(med => {
-        if (reminderSet.has(med.reminderId) && med.status !== 'taken') {
-          updated = true;
-          return { ...med, status: 'taken' };
-        }
-        return med;
-      });
-
-      if (!updated) continue;
-
-      await AsyncStorage.setItem(medsKey, JSON.stringify(updatedMeds));
-
-      const dateKey = medsKey.replace(MEDS_CACHE_PREFIX, '');
-      const total = updatedMeds.length;
-      const taken = updatedMeds.filter(med => med.status === 'taken').length;
-      const adherenceRate = total > 0 ? Math.round((taken / total) * 100) : 0;
-      const statsKey = `${STATS_CACHE_PREFIX}${dateKey}`;
-      await AsyncStorage.setItem(
-        statsKey,
-        JSON.stringify({ totalMedicationsToday: total, takenToday: taken, adherenceRate })
-      );
-    }
-  } catch (error) {
-    console.error('Error updating cached medication status:', error);
-  }
-};
-
 export function useMedicationAlarm({ reminderId, audioPath }: UseMedicationAlarmParams) {
   const router = useRouter();
   const [currentTime, setCurrentTime] = useState(new Date());
   const [isProcessing, setIsProcessing] = useState(false);
   const [sound, setSound] = useState<Audio.Sound | null>(null);
+  const [snoozeStatus, setSnoozeStatus] = useState<SnoozeStatus | null>(null);
+
+  useEffect(() => {
+    if (!reminderId) return;
+    localReminderService
+      .getReminderSnoozeStatus(reminderId)
+      .then(setSnoozeStatus)
+      .catch(error => console.error('Error loading snooze status:', error));
+  }, [reminderId]);
 
   useEffect(() => {
     const timer = setInterval(() => {
@@ -127,23 +98,25 @@ export function useMedicationAlarm({ reminderId, audioPath }: UseMedicationAlarm
         }
       }
 
+      // Created with the tap, kept through retries and the offline queue
+      const idempotencyKey = await getDoseActionKey('confirm', reminderId);
       await localReminderService.confirmReminderLocally(reminderId);
       await updateCachedMedicationStatus([reminderId]);
       await AsyncStorage.setItem('@patient_dashboard_refresh', new Date().toISOString());
 
-      const token = await AsyncStorage.getItem('userToken');
+      const token = await getAccessToken();
       if (token && reminderId) {
         const isOnline = await networkMonitor.isOnline();
         if (isOnline) {
           try {
-            await apiService.confirmMedicationTaken(token, [reminderId]);
+            await apiService.confirmMedicationTaken(token, [reminderId], idempotencyKey);
             console.log('✅ Medication confirmed with backend');
           } catch (error) {
             console.error('Failed to sync with backend, will retry later:', error);
-            await offlineQueueService.addAction('confirm', reminderId);
+            await offlineQueueService.addAction('confirm', reminderId, idempotencyKey);
           }
         } else {
-          await offlineQueueService.addAction('confirm', reminderId);
+          await offlineQueueService.addAction('confirm', reminderId, idempotencyKey);
         }
       }
 
@@ -155,7 +128,7 @@ export function useMedicationAlarm({ reminderId, audioPath }: UseMedicationAlarm
     }
   }, [reminderId, router, isProcessing, sound]);
 
-  const handleSnooze = useCallback(async () => {
+  const handleSnooze = useCallback(async (durationMinutes?: number) => {
     if (isProcessing) return;
     setIsProcessing(true);
 
@@ -174,7 +147,11 @@ export function useMedicationAlarm({ reminderId, audioPath }: UseMedicationAlarm
         }
       }
 
-      await localReminderService.snoozeReminderLocally(reminderId);
+      const result = await localReminderService.snoozeReminderLocally(reminderId, durationMinutes);
+      if (result.missed) {
+        await updateCachedMedicationStatus([reminderId], 'missed');
+        await AsyncStorage.setItem('@patient_dashboard_refresh', new Date().toISOString());
+      }
 
       router.replace('/(patient)/dashboard');
     } catch (error) {
@@ -184,11 +161,44 @@ export function useMedicationAlarm({ reminderId, audioPath }: UseMedicationAlarm
     }
   }, [router, isProcessing, reminderId, sound]);
 
+  const handleSkip = useCallback(async () => {
+    if (isProcessing) return;
+    setIsProcessing(true);
+
+    try {
+      Vibration.cancel();
+
+      if (sound) {
+        await sound.stopAsync();
+      }
+
+      if (Platform.OS === 'android' && reminderId) {
+        try {
+          await notifee.cancelNotification(reminderId);
+        } catch (e) {
+          console.log('Could not cancel notifee notification:', e);
+        }
+      }
+
+      await localReminderService.markReminderMissedLocally(reminderId);
+      await updateCachedMedicationStatus([reminderId], 'missed');
+      await AsyncStorage.setItem('@patient_dashboard_refresh', new Date().toISOString());
+
+      router.replace('/(patient)/dashboard');
+    } catch (error) {
+      console.error('Error skipping dose:', error);
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [router, isProcessing, reminderId, sound]);
+
   return {
     currentTime,
     isProcessing,
+    snoozeStatus,
     handleConfirm,
     handleSnooze,
+    handleSkip,
   };
 }
 
@@ -0,0 +1,94 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuthToken } from '../../../shared/hooks/useAuthToken';
+import { networkMonitor } from '../../../shared/services/networkMonitor';
+import { offlineQueueService, DeadLetterAction } from '../../../shared/services/offlineQueueService';
+import { findCachedMedications } from '../../../shared/utils/medicationCache';
+import { Medication } from '../../../shared/types';
+
+/**
+ * Pending and dead-lettered dose actions, with the retry/discard actions of the sync issues screen
+ */
+export function useOfflineQueueStatus() {
+  const { token } = useAuthToken();
+  const [pendingCount, setPendingCount] = useState(0);
+  const [deadLetters, setDeadLetters] = useState<DeadLetterAction[]>([]);
+  // Medication of each stuck action, to tell the patient which dose it is about
+  const [medicationsByReminder, setMedicationsByReminder] = useState<Record<string, Medication>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    const [count, stuck] = await Promise.all([
+      offlineQueueService.getPendingCount(),
+      offlineQueueService.getDeadLetters(),
+    ]);
+    setPendingCount(count);
+    setDeadLetters(stuck);
+    setMedicationsByReminder(await findCachedMedications(stuck.map(action => action.reminderId)));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    offlineQueueService.addListener(refresh);
+    return () => offlineQueueService.removeListener(refresh);
+  }, [refresh]);
+
+  const syncNow = useCallback(async () => {
+    if (!token || !(await networkMonitor.isOnline())) {
+      return;
+    }
+    await offlineQueueService.syncQueue(token, { force: true });
+  }, [token]);
+
+  const retryAction = useCallback(async (actionId: string): Promise<{ success: boolean }> => {
+    setBusyId(actionId);
+    try {
+      await offlineQueueService.retryDeadLetter(actionId);
+      await syncNow();
+      return { success: true };
+    } catch (error) {
+      console.error('❌ Error retrying stuck action:', error);
+      return { success: false };
+    } finally {
+      setBusyId(null);
+    }
+  }, [syncNow]);
+
+  const retryAll = useCallback(async (): Promise<{ success: boolean }> => {
+    setBusyId('all');
+    try {
+      for (const action of deadLetters) {
+        await offlineQueueService.retryDeadLetter(action.id);
+      }
+      await syncNow();
+      return { success: true };
+    } catch (error) {
+      console.error('❌ Error retrying stuck actions:', error);
+      return { success: false };
+    } finally {
+      setBusyId(null);
+    }
+  }, [deadLetters, syncNow]);
+
+  const discardAction = useCallback(async (actionId: string): Promise<{ success: boolean }> => {
+    setBusyId(actionId);
+    try {
+      await offlineQueueService.discardDeadLetter(actionId);
+      return { success: true };
+    } catch (error) {
+      console.error('❌ Error discarding stuck action:', error);
+      return { success: false };
+    } finally {
+      setBusyId(null);
+    }
+  }, []);
+
+  return {
+    pendingCount,
+    deadLetters,
+    medicationsByReminder,
+    busyId,
+    retryAction,
+    retryAll,
+    discardAction,
+  };
+}
@@ -6,32 +6,28 @@ import { getPatientMedicationsByDate, confirmMedicationTaken } from '../../../sh
 import { registerPushToken } from '../../../shared/services/api/auth';
 import { notificationService } from '../../../shared/services/notificationService';
 import { offlineQueueService } from '../../../shared/services/offlineQueueService';
+import { escalationService } from '../../../shared/services/escalationService';
+import { getEncryptedItem } from '../../../shared/services/secureStorage';
 import { DashboardStats, Medication } from '../../../shared/types';
 import { useAuthToken } from '../../../shared/hooks/useAuthToken';
 import { useTranslation } from 'react-i18next';
 import { performLogout } from '../../../shared/utils/logout';
-
-const STORAGE_KEYS = {
-  MEDICATIONS_BY_DATE: '@patient_medications_by_date',
-  STATS_BY_DATE: '@patient_medication_stats_by_date',
-};
+import { addDaysToDateKey, getUserTimeZone, getZonedDateKey } from '../../../shared/utils/timezone';
+import { useUserTimeZone } from '../../../shared/hooks/useUserTimeZone';
+import { loadCachedMedicationDay, saveCachedMedicationDay } from '../../../shared/utils/medicationCache';
+import { getDoseActionKey } from '../../../shared/utils/idempotency';
 
 const PREFETCH_DAYS_AHEAD = 30;
 
-const formatDateKey = (date: Date) => {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
-  return `${year}-${month}-${day}`;
-};
-
-const getMedicationsCacheKey = (dateKey: string) => `${STORAGE_KEYS.MEDICATIONS_BY_DATE}:${dateKey}`;
-const getStatsCacheKey = (dateKey: string) => `${STORAGE_KEYS.STATS_BY_DATE}:${dateKey}`;
+// Calendar day in the profile timezone, so "today" follows the patient rather than the device
+const formatDateKey = (date: Date) => getZonedDateKey(date, getUserTimeZone());
 
 export function usePatientDashboard() {
   const router = useRouter();
   const { t } = useTranslation();
   const { token, isLoading: isTokenLoading } = useAuthToken();
+  // Date keys follow the profile timezone; listed in the loader deps so a change reloads the day
+  const timeZone = useUserTimeZone();
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [medications, setMedications] = useState<Medication[]>([]);
   const [stats, setStats] = useState<DashboardStats>({
@@ -54,33 +50,7 @@ export function usePatientDashboard() {
 
   const loadCachedMedications = useCallback(async (dateKey: string) => {
     try {
-      const [medsEntry, statsEntry] = await AsyncStorage.multiGet([
-        getMedicationsCacheKey(dateKey),
-        getStatsCacheKey(dateKey),
-      ]);
-
-      const medsJson = medsEntry?.[1];
-      if (!medsJson) {
-        return null;
-      }
-
-      const meds = JSON.parse(medsJson) as Medication[];
-      let stats: DashboardStats | null = null;
-
-      if (statsEntry?.[1]) {
-        stats = JSON.parse(statsEntry[1]) as DashboardStats;
-      } else {
-        const total = meds.length;
-        const taken = meds.filter(m => m.status === 'taken').length;
-        const adherenceRate = total > 0 ? Math.round((taken / total) * 100) : 0;
-        stats = {
-          totalMedicationsToday: total,
-          takenToday: taken,
-          adherenceRate,
-        };
-      }
-
-      return { meds, stats };
+      return await loadCachedMedicationDay(dateKey);
     } catch (error) {
       console.error('Error loading cached medications:', error);
       return null;
@@ -89,24 +59,20 @@ export function usePatientDashboard() {
 
   const saveCachedMedications = useCallback(
     async (dateKey: string, meds: Medication[], stats: DashboardStats) => {
-      try {
-        await AsyncStorage.multiSet([
-          [getMedicationsCacheKey(dateKey), JSON.stringify(meds)],
-          [getStatsCacheKey(dateKey), JSON.stringify(stats)],
-        ]);
-      } catch (error) {
-        console.error('Error saving cached medications:', error);
-      }
+      await saveCachedMedicationDay(dateKey, meds, stats);
     },
     []
   );
 
   const applyLocalConfirmations = useCallback(async (meds: Medication[], stats?: DashboardStats) => {
     try {
-      const confirmationsJson = await AsyncStorage.getItem('@medication_confirmations');
+      const confirmationsJson = await getEncryptedItem('@medication_confirmations');
       const confirmations = confirmationsJson ? (JSON.parse(confirmationsJson) as Array<{ reminderId: string }>) : [];
       const queue = await offlineQueueService.getQueue();
       const pendingQueue = queue.filter(action => !action.synced && action.type === 'confirm');
+      // A stuck confirmation still means the dose was taken: never invite the patient to take it again
+      const deadLetters = await offlineQueueService.getDeadLetters();
+      const stuckConfirmations = deadLetters.filter(action => action.type === 'confirm');
       const confirmedIds = new Set<string>();
 
       confirmations.forEach(entry => {
@@ -114,7 +80,7 @@ export function usePatientDashboard() {
           confirmedIds.add(entry.reminderId);
         }
       });
-      pendingQueue.forEach(entry => {
+      [...pendingQueue, ...stuckConfirmations].forEach(entry => {
         if (entry.reminderId) {
           confirmedIds.add(entry.reminderId);
         }
@@ -131,7 +97,7 @@ export function usePatientDashboard() {
       }
 
       const updatedMeds = meds.map(med =>
-        confirmedIds.has(med.reminderId) ? { ...med, status: 'taken' } : med
+        confirmedIds.has(med.reminderId) ? { ...med, status: 'taken' as const } : med
       );
 
       const total = updatedMeds.length;
@@ -179,6 +145,15 @@ export function usePatientDashboard() {
         return;
       }
 
+      // Show the cached day straight away; the request below refreshes it quietly
+      const cachedDay = await loadCachedMedications(dateKey);
+      if (cachedDay) {
+        const applied = await applyLocalConfirmations(cachedDay.meds, cachedDay.stats);
+        setMedications(applied.meds);
+        setStats(applied.stats);
+        setIsLoading(false);
+      }
+
       const pushToken = notificationService.getPushToken();
       if (pushToken) {
         try {
@@ -217,7 +192,7 @@ export function usePatientDashboard() {
       setIsLoading(false);
       setIsRefreshing(false);
     }
-  }, [token, isTokenLoading, router, isOnline, loadCachedMedications, saveCachedMedications]);
+  }, [token, isTokenLoading, router, isOnline, loadCachedMedications, saveCachedMedications, timeZone]);
 
   const prefetchFutureDates = useCallback(async () => {
     if (!token || !isOnline || prefetchingRef.current) {
@@ -227,16 +202,15 @@ export function usePatientDashboard() {
     prefetchingRef.current = true;
 
     try {
-      const today = new Date();
+      const todayKey = formatDateKey(new Date());
 
       for (let offset = 1; offset <= PREFETCH_DAYS_AHEAD; offset += 1) {
         if (!isOnline) {
           break;
         }
 
-        const date = new Date(today);
-        date.setDate(today.getDate() + offset);
-        const dateKey = formatDateKey(date);
+        // Step over calendar keys rather than adding 24h, which skips or repeats days across DST
+        const dateKey = addDaysToDateKey(todayKey, offset);
 
         const result = await getPatientMedicationsByDate(token, dateKey);
 
@@ -361,10 +335,11 @@ export function usePatientDashboard() {
     if (!token) return;
 
     try {
+      const idempotencyKey = await getDoseActionKey('confirm', reminderId);
       if (!isOnline) {
         const { offlineQueueService } = await import('../../../shared/services/offlineQueueService');
         const { default: localReminderService } = await import('../../../shared/services/localReminderService');
-        await offlineQueueService.addAction('confirm', reminderId);
+        await offlineQueueService.addAction('confirm', reminderId, idempotencyKey);
         await localReminderService.confirmReminderLocally(reminderId);
 
         const dateKey = formatDateKey(selectedDate);
@@ -386,7 +361,7 @@ export function usePatientDashboard() {
         return { success: true, message: t('dashboard.patient.medicationMarked') };
       }
 
-      const result = await confirmMedicationTaken(token, [reminderId]);
+      const result = await confirmMedicationTaken(token, [reminderId], idempotencyKey);
       
       if (result.success) {
         await loadMedicationsForDate(selectedDate);
@@ -409,8 +384,7 @@ export function usePatientDashboard() {
 
   // Helper function to check if date is today
   const isToday = (date: Date) => {
-    const today = new Date();
-    return date.toDateString() === today.toDateString();
+    return formatDateKey(date) === formatDateKey(new Date());
   };
 
   useEffect(() => {
@@ -446,6 +420,9 @@ export function usePatientDashboard() {
     let isMounted = true;
     const interval = setInterval(async () => {
       if (!isMounted || !isOnline || isSyncing) return;
+      // Doses left unconfirmed while the app stays open still need to reach caregivers
+      await escalationService.reportOverdueDoses(token);
+
       const viewingToday = isToday(selectedDate);
       if (!viewingToday) return;
 
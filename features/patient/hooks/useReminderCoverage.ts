@@ -0,0 +1,28 @@
+import { useState, useEffect, useCallback } from 'react';
+import localReminderService, { ReminderCoverage } from '../../../shared/services/localReminderService';
+import { createLogger } from '../../../shared/utils/logger';
+
+const log = createLogger('reminders');
+
+/**
+ * Last dose scheduled on the device, refreshed after every reminder sync
+ */
+export function useReminderCoverage() {
+  const [coverage, setCoverage] = useState<ReminderCoverage | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setCoverage(await localReminderService.getReminderCoverage());
+    } catch (error) {
+      log.error('❌ Error reading reminder coverage:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    localReminderService.addScheduleListener(refresh);
+    return () => localReminderService.removeScheduleListener(refresh);
+  }, [refresh]);
+
+  return { coverage };
+}
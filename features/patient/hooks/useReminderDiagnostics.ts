@@ -0,0 +1,85 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuthToken } from '../../../shared/hooks/useAuthToken';
+import localReminderService from '../../../shared/services/localReminderService';
+import { reminderDiagnosticsService } from '../../../shared/services/reminderDiagnosticsService';
+import { ReminderDiagnosticsReport } from '../../../shared/types/reminderDiagnostics.types';
+import { createLogger } from '../../../shared/utils/logger';
+
+const log = createLogger('diagnostics');
+
+export type DiagnosticsAction = 'reconcile' | 'testAlarm' | 'export';
+
+/**
+ * Diagnostics report of the reminder schedule, with the support actions of the diagnostics screen
+ */
+export function useReminderDiagnostics() {
+  const { token } = useAuthToken();
+  const [report, setReport] = useState<ReminderDiagnosticsReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyAction, setBusyAction] = useState<DiagnosticsAction | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setReport(await reminderDiagnosticsService.collectDiagnostics());
+    } catch (error) {
+      log.error('❌ Error collecting reminder diagnostics:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    localReminderService.addScheduleListener(refresh);
+    return () => localReminderService.removeScheduleListener(refresh);
+  }, [refresh]);
+
+  const forceReconcile = useCallback(async (): Promise<{ success: boolean }> => {
+    if (!token) {
+      return { success: false };
+    }
+    setBusyAction('reconcile');
+    try {
+      const success = await reminderDiagnosticsService.forceReconcile(token);
+      await refresh();
+      return { success };
+    } finally {
+      setBusyAction(null);
+    }
+  }, [token, refresh]);
+
+  const fireTestAlarm = useCallback(async (label: { medicationName: string; dosage: string }) => {
+    setBusyAction('testAlarm');
+    try {
+      return { success: await reminderDiagnosticsService.fireTestAlarm(label) };
+    } finally {
+      setBusyAction(null);
+    }
+  }, []);
+
+  const exportReport = useCallback(async (title: string): Promise<{ success: boolean }> => {
+    setBusyAction('export');
+    try {
+      // Collected again so the report matches the device at the time it is sent
+      const latest = await reminderDiagnosticsService.collectDiagnostics();
+      setReport(latest);
+      await reminderDiagnosticsService.exportReport(latest, title);
+      return { success: true };
+    } catch (error) {
+      log.error('❌ Error exporting reminder diagnostics:', error);
+      return { success: false };
+    } finally {
+      setBusyAction(null);
+    }
+  }, []);
+
+  return {
+    report,
+    isLoading,
+    busyAction,
+    refresh,
+    forceReconcile,
+    fireTestAlarm,
+    exportReport,
+  };
+}
@@ -0,0 +1,41 @@
+import { useState, useEffect, useCallback } from 'react';
+import { travelModeService, TravelModeState } from '../../../shared/services/travelModeService';
+import { createLogger } from '../../../shared/utils/logger';
+
+const log = createLogger('travelMode');
+
+/**
+ * Travel notice shown on the dashboard after the device changed timezone
+ */
+export function useTravelNotice() {
+  const [travelState, setTravelState] = useState<TravelModeState | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+    travelModeService.getTravelState().then(state => {
+      if (isMounted) {
+        setTravelState(state);
+      }
+    });
+
+    const listener = (state: TravelModeState | null) => setTravelState(state);
+    travelModeService.addListener(listener);
+    return () => {
+      isMounted = false;
+      travelModeService.removeListener(listener);
+    };
+  }, []);
+
+  const dismissTravelNotice = useCallback(async () => {
+    try {
+      await travelModeService.dismissTravelNotice();
+    } catch (error) {
+      log.error('❌ Error dismissing travel notice:', error);
+    }
+  }, []);
+
+  return {
+    travelNotice: travelState && !travelState.dismissed ? travelState : null,
+    dismissTravelNotice,
+  };
+}
@@ -9,6 +9,11 @@ import VoiceMessageManager from './VoiceMessageManager';
 import PrescriptionFormFields from './PrescriptionFormFields';
 import VoiceRecorderModal from '../../../shared/components/modals/VoiceRecorderModal';
 import FeedbackModal from '../../../shared/components/modals/FeedbackModal';
+import ScheduleRuleEditor from '../../../shared/components/forms/ScheduleRuleEditor';
+import SchedulePreview from '../../../shared/components/forms/SchedulePreview';
+import EscalationPolicyEditor from '../../../shared/components/forms/EscalationPolicyEditor';
+import SnoozePolicyEditor from '../../../shared/components/forms/SnoozePolicyEditor';
+import TimeZonePolicySelector from '../../../shared/components/forms/TimeZonePolicySelector';
 import { PrescriptionData, VoiceMessage } from '../../../shared/types';
 import { MedicationOption } from '../../../shared/constants/medications';
 
@@ -22,6 +27,8 @@ interface PrescriptionFormProps {
   token: string;
   voiceMessages?: VoiceMessage[];
   onVoiceMessagesUpdate?: (voices: VoiceMessage[]) => void;
+  // Dose times are previewed in the patient's zone, not the caregiver's
+  patientTimeZone?: string;
 }
 
 export default function PrescriptionForm({
@@ -34,6 +41,7 @@ export default function PrescriptionForm({
   token,
   voiceMessages = [],
   onVoiceMessagesUpdate,
+  patientTimeZone,
 }: PrescriptionFormProps) {
   const {
     medicationName,
@@ -41,8 +49,16 @@ export default function PrescriptionForm({
     customDosage,
     instructions,
     schedules,
+    scheduleType,
+    intervalHours,
+    monthDays,
+    customDates,
+    scheduleRule,
     isChronic,
     repeatWeeks,
+    escalationPolicy,
+    snoozePolicy,
+    timeZonePolicy,
     selectedVoiceMessageId,
     isSaving,
     isUploadingVoice,
@@ -52,8 +68,15 @@ export default function PrescriptionForm({
     setCustomDosage,
     setInstructions,
     setSchedules,
+    setScheduleType,
+    setIntervalHours,
+    setMonthDays,
+    setCustomDates,
     setIsChronic,
     setRepeatWeeks,
+    setEscalationPolicy,
+    setSnoozePolicy,
+    setTimeZonePolicy,
     setSelectedVoiceMessageId,
     setShowCustomMedForm,
     setCustomMedData,
@@ -145,12 +168,27 @@ export default function PrescriptionForm({
 
               <View style={styles.section}>
                 <Text style={styles.sectionTitle}>PLANIFICATION</Text>
+                <ScheduleRuleEditor
+                  scheduleType={scheduleType}
+                  onScheduleTypeChange={setScheduleType}
+                  intervalHours={intervalHours}
+                  onIntervalHoursChange={setIntervalHours}
+                  monthDays={monthDays}
+                  onMonthDaysChange={setMonthDays}
+                  customDates={customDates}
+                  onCustomDatesChange={setCustomDates}
+                />
                 <ScheduleSelector
                   schedules={schedules}
                   onSchedulesChange={setSchedules}
+                  scheduleType={scheduleType}
                   repeatWeeks={repeatWeeks}
                   onRepeatWeeksChange={setRepeatWeeks}
                 />
+                <SchedulePreview
+                  input={{ ...scheduleRule, isChronic, repeatWeeks: parseInt(repeatWeeks) || 1 }}
+                  timeZone={patientTimeZone}
+                />
               </View>
 
               <PrescriptionFormFields
@@ -162,6 +200,30 @@ export default function PrescriptionForm({
                 onIsChronicChange={setIsChronic}
               />
 
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>REPORT D'ALARME</Text>
+                <SnoozePolicyEditor
+                  policy={snoozePolicy}
+                  onPolicyChange={setSnoozePolicy}
+                />
+              </View>
+
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>EN VOYAGE</Text>
+                <TimeZonePolicySelector
+                  policy={timeZonePolicy}
+                  onPolicyChange={setTimeZonePolicy}
+                />
+              </View>
+
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>ALERTE AIDANT</Text>
+                <EscalationPolicyEditor
+                  policy={escalationPolicy}
+                  onPolicyChange={setEscalationPolicy}
+                />
+              </View>
+
               <View style={styles.section}>
                 <VoiceMessageManager
                   voiceMessages={voiceMessages}
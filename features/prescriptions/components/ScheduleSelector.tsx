@@ -2,12 +2,13 @@ import React, { useState } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, Platform, TextInput, Modal } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import DateTimePicker from '@react-native-community/datetimepicker';
-import { PrescriptionSchedule } from '../../../shared/types';
+import { PrescriptionSchedule, ScheduleType } from '../../../shared/types';
 import { WEEK_DAYS } from '../../../shared/constants/medications';
 
 interface ScheduleSelectorProps {
   schedules: PrescriptionSchedule[];
   onSchedulesChange: (schedules: PrescriptionSchedule[]) => void;
+  scheduleType?: ScheduleType;
   repeatWeeks: string;
   onRepeatWeeksChange: (weeks: string) => void;
 }
@@ -15,6 +16,7 @@ interface ScheduleSelectorProps {
 export default function ScheduleSelector({
   schedules,
   onSchedulesChange,
+  scheduleType = 'weekly',
   repeatWeeks,
   onRepeatWeeksChange,
 }: ScheduleSelectorProps) {
@@ -102,11 +104,13 @@ export default function ScheduleSelector({
 
   return (
     <View style={styles.container}>
-      {schedules.map((schedule, index) => (
+      {(scheduleType === 'interval' ? schedules.slice(0, 1) : schedules).map((schedule, index) => (
         <View key={index} style={styles.scheduleCard}>
           <View style={styles.scheduleHeader}>
-            <Text style={styles.scheduleTitle}>Horaire {index + 1}</Text>
-            {schedules.length > 1 && (
+            <Text style={styles.scheduleTitle}>
+              {scheduleType === 'interval' ? 'Première prise' : `Horaire ${index + 1}`}
+            </Text>
+            {schedules.length > 1 && scheduleType !== 'interval' && (
               <TouchableOpacity
                 style={styles.removeButton}
                 onPress={() => removeSchedule(index)}
@@ -129,41 +133,45 @@ export default function ScheduleSelector({
             </TouchableOpacity>
           </View>
 
-          <View style={styles.daysSection}>
-            <Text style={styles.daysLabel}>Jours de la semaine:</Text>
-            <View style={styles.daysContainer}>
-              {WEEK_DAYS.map((day, dayIndex) => {
-                const isSelected = schedule.days?.includes(day.value) ?? false;
-                return (
-                  <TouchableOpacity
-                    key={dayIndex}
-                    style={[
-                      styles.dayButton,
-                      isSelected && styles.selectedDayButton
-                    ]}
-                    onPress={() => toggleDay(index, dayIndex)}
-                  >
-                    <Text style={[
-                      styles.dayButtonText,
-                      isSelected && styles.selectedDayButtonText
-                    ]}>
-                      {day.short}
-                    </Text>
-                  </TouchableOpacity>
-                );
-              })}
+          {scheduleType === 'weekly' && (
+            <View style={styles.daysSection}>
+              <Text style={styles.daysLabel}>Jours de la semaine:</Text>
+              <View style={styles.daysContainer}>
+                {WEEK_DAYS.map((day, dayIndex) => {
+                  const isSelected = schedule.days?.includes(day.value) ?? false;
+                  return (
+                    <TouchableOpacity
+                      key={dayIndex}
+                      style={[
+                        styles.dayButton,
+                        isSelected && styles.selectedDayButton
+                      ]}
+                      onPress={() => toggleDay(index, dayIndex)}
+                    >
+                      <Text style={[
+                        styles.dayButtonText,
+                        isSelected && styles.selectedDayButtonText
+                      ]}>
+                        {day.short}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
             </View>
-          </View>
+          )}
         </View>
       ))}
 
-      <TouchableOpacity
-        style={styles.addScheduleButton}
-        onPress={addSchedule}
-      >
-        <Ionicons name="add-circle-outline" size={20} color="#10B981" />
-        <Text style={styles.addScheduleText}>Ajouter un horaire</Text>
-      </TouchableOpacity>
+      {scheduleType !== 'interval' && (
+        <TouchableOpacity
+          style={styles.addScheduleButton}
+          onPress={addSchedule}
+        >
+          <Ionicons name="add-circle-outline" size={20} color="#10B981" />
+          <Text style={styles.addScheduleText}>Ajouter un horaire</Text>
+        </TouchableOpacity>
+      )}
 
       <View style={styles.repeatWeeksContainer}>
         <Text style={styles.repeatWeeksLabel}>Répéter sur</Text>
@@ -1,10 +1,12 @@
 import { useState, useEffect } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as FileSystem from 'expo-file-system/legacy';
-import { PrescriptionData, VoiceMessage } from '../../../shared/types';
-import { MedicationOption } from '../../../shared/constants/medications';
+import { PrescriptionData, ScheduleType, SnoozePolicy, TimeZonePolicy, VoiceMessage } from '../../../shared/types';
+import { EscalationPolicy } from '../../../shared/types/escalation.types';
+import { DEFAULT_ESCALATION_POLICY, DEFAULT_TIME_ZONE_POLICY, MedicationOption } from '../../../shared/constants/medications';
 import { uploadVoiceFile, createVoice, getVoiceMessages } from '../services/prescriptionService';
 import { createPrescription, updatePrescription } from '../../../shared/services/api/caregiver';
+import { buildSchedulePayload, getScheduleEndDate, getScheduleRuleError, ScheduleRule } from '../../../shared/utils/schedule';
 
 const MAX_VOICE_DURATION_SECONDS = 30;
 
@@ -30,8 +32,15 @@ export function usePrescriptionForm({
   const [schedules, setSchedules] = useState<Array<{ time: string; days: number[] }>>([
     { time: '08:00', days: [1, 2, 3, 4, 5, 6, 7] }
   ]);
+  const [scheduleType, setScheduleType] = useState<ScheduleType>('weekly');
+  const [intervalHours, setIntervalHours] = useState('8');
+  const [monthDays, setMonthDays] = useState<number[]>([1]);
+  const [customDates, setCustomDates] = useState<string[]>([]);
   const [isChronic, setIsChronic] = useState(true);
   const [repeatWeeks, setRepeatWeeks] = useState('1');
+  const [escalationPolicy, setEscalationPolicy] = useState<EscalationPolicy>(DEFAULT_ESCALATION_POLICY);
+  const [snoozePolicy, setSnoozePolicy] = useState<SnoozePolicy | null>(null);
+  const [timeZonePolicy, setTimeZonePolicy] = useState<TimeZonePolicy>(DEFAULT_TIME_ZONE_POLICY);
   const [selectedVoiceMessageId, setSelectedVoiceMessageId] = useState<string | null>(null);
   const [voiceMessages, setVoiceMessages] = useState<VoiceMessage[]>([]);
   const [isSaving, setIsSaving] = useState(false);
@@ -75,8 +84,15 @@ export function usePrescriptionForm({
         }));
         setSchedules(sanitizedSchedules);
       }
+      setScheduleType(existingPrescription.scheduleType || 'weekly');
+      setIntervalHours(String(existingPrescription.intervalHours || 8));
+      setMonthDays(existingPrescription.monthDays?.length ? existingPrescription.monthDays : [1]);
+      setCustomDates(existingPrescription.customDates || []);
       setIsChronic(existingPrescription.isChronic ?? true);
       setRepeatWeeks(String(existingPrescription.repeatWeeks || 1));
+      setEscalationPolicy(existingPrescription.escalationPolicy || DEFAULT_ESCALATION_POLICY);
+      setSnoozePolicy(existingPrescription.snoozePolicy || null);
+      setTimeZonePolicy(existingPrescription.timeZonePolicy || DEFAULT_TIME_ZONE_POLICY);
       const voiceMessageId = (existingPrescription as any).voiceMessageId;
       setSelectedVoiceMessageId(voiceMessageId || null);
     } else {
@@ -85,8 +101,15 @@ export function usePrescriptionForm({
       setCustomDosage('');
       setInstructions('');
       setSchedules([{ time: '08:00', days: [1, 2, 3, 4, 5, 6, 7] }]);
+      setScheduleType('weekly');
+      setIntervalHours('8');
+      setMonthDays([1]);
+      setCustomDates([]);
       setIsChronic(true);
       setRepeatWeeks('1');
+      setEscalationPolicy(DEFAULT_ESCALATION_POLICY);
+      setSnoozePolicy(null);
+      setTimeZonePolicy(DEFAULT_TIME_ZONE_POLICY);
       setSelectedVoiceMessageId(null);
     }
   }, [existingPrescription]);
@@ -150,19 +173,26 @@ export function usePrescriptionForm({
     }
   };
 
+  const scheduleRule: ScheduleRule = {
+    scheduleType,
+    schedules,
+    intervalHours: parseInt(intervalHours) || undefined,
+    monthDays,
+    customDates,
+  };
+
   const handleSave = async (): Promise<{ success: boolean; message?: string }> => {
     if (!medicationName.trim()) {
       return { success: false, message: 'Veuillez sélectionner ou saisir un nom de médicament' };
     }
 
-    if (schedules.length === 0) {
-      return { success: false, message: 'Veuillez définir au moins un horaire' };
+    const scheduleError = getScheduleRuleError(scheduleRule);
+    if (scheduleError) {
+      return { success: false, message: scheduleError };
     }
 
-    for (const schedule of schedules) {
-      if (!schedule.days || schedule.days.length === 0) {
-        return { success: false, message: 'Veuillez sélectionner au moins un jour pour chaque horaire' };
-      }
+    if (escalationPolicy.enabled && escalationPolicy.notify.length === 0) {
+      return { success: false, message: 'Veuillez choisir au moins une personne à prévenir' };
     }
 
     setIsSaving(true);
@@ -176,12 +206,14 @@ export function usePrescriptionForm({
         medicationDescription: selectedMedication?.description,
         customDosage: customDosage || undefined,
         instructions: instructions || undefined,
-        schedules,
+        ...buildSchedulePayload(scheduleRule),
         voiceMessageId: selectedVoiceMessageId || undefined,
         isChronic,
-        endDate: !isChronic ? new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString() : undefined,
-        scheduleType: 'weekly' as const,
+        endDate: getScheduleEndDate({ isChronic, repeatWeeks: parseInt(repeatWeeks) || 1 })?.toISOString(),
         repeatWeeks: parseInt(repeatWeeks) || 1,
+        escalationPolicy,
+        snoozePolicy,
+        timeZonePolicy,
       };
 
       await onSave(prescriptionData);
@@ -226,8 +258,16 @@ export function usePrescriptionForm({
     customDosage,
     instructions,
     schedules,
+    scheduleType,
+    intervalHours,
+    monthDays,
+    customDates,
+    scheduleRule,
     isChronic,
     repeatWeeks,
+    escalationPolicy,
+    snoozePolicy,
+    timeZonePolicy,
     selectedVoiceMessageId,
     voiceMessages,
     isSaving,
@@ -239,8 +279,15 @@ export function usePrescriptionForm({
     setCustomDosage,
     setInstructions,
     setSchedules,
+    setScheduleType,
+    setIntervalHours,
+    setMonthDays,
+    setCustomDates,
     setIsChronic,
     setRepeatWeeks,
+    setEscalationPolicy,
+    setSnoozePolicy,
+    setTimeZonePolicy,
     setSelectedVoiceMessageId,
     setShowCustomMedForm,
     setCustomMedData,
@@ -27,7 +27,7 @@ export async function getVoiceMessages(
 ): Promise<VoiceMessage[]> {
   const result = await getPatientVoiceMessages(token, patientId);
   if (result.success && result.data) {
-    return result.data as VoiceMessage[];
+    return result.data;
   }
   return [];
 }
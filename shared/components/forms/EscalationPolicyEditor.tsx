@@ -0,0 +1,164 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Switch } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { EscalationPolicy, EscalationRecipient } from '../../types/escalation.types';
+import { ESCALATION_DELAY_OPTIONS } from '../../constants/medications';
+
+const RECIPIENTS: Array<{ value: EscalationRecipient; label: string; icon: string }> = [
+  { value: 'tuteur', label: 'Tuteur', icon: 'people-outline' },
+  { value: 'medecin', label: 'Médecin', icon: 'medkit-outline' },
+];
+
+interface EscalationPolicyEditorProps {
+  policy: EscalationPolicy;
+  onPolicyChange: (policy: EscalationPolicy) => void;
+  accentColor?: string;
+}
+
+/**
+ * Per-prescription escalation settings: alert caregivers when a dose stays unconfirmed
+ */
+export default function EscalationPolicyEditor({
+  policy,
+  onPolicyChange,
+  accentColor = '#4facfe',
+}: EscalationPolicyEditorProps) {
+  const toggleRecipient = (recipient: EscalationRecipient) => {
+    const notify = policy.notify.includes(recipient)
+      ? policy.notify.filter(r => r !== recipient)
+      : [...policy.notify, recipient];
+    onPolicyChange({ ...policy, notify });
+  };
+
+  const formatDelay = (minutes: number) =>
+    minutes < 60 ? `${minutes} min` : `${minutes / 60} h`;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.toggleRow}>
+        <Ionicons name="notifications-outline" size={20} color={accentColor} />
+        <Text style={styles.toggleLabel}>Alerter si la prise n'est pas confirmée</Text>
+        <Switch
+          value={policy.enabled}
+          onValueChange={(enabled) => onPolicyChange({ ...policy, enabled })}
+          trackColor={{ false: 'rgba(255, 255, 255, 0.2)', true: accentColor }}
+          thumbColor="white"
+        />
+      </View>
+
+      {policy.enabled && (
+        <>
+          <Text style={styles.label}>Délai après l'heure prévue</Text>
+          <View style={styles.chipsContainer}>
+            {ESCALATION_DELAY_OPTIONS.map((minutes) => {
+              const isSelected = policy.delayMinutes === minutes;
+              return (
+                <TouchableOpacity
+                  key={minutes}
+                  style={[
+                    styles.chip,
+                    isSelected && { backgroundColor: accentColor, borderColor: accentColor },
+                  ]}
+                  onPress={() => onPolicyChange({ ...policy, delayMinutes: minutes })}
+                >
+                  <Text style={[styles.chipText, isSelected && styles.chipTextActive]}>
+                    {formatDelay(minutes)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <Text style={styles.label}>Personnes à prévenir</Text>
+          <View style={styles.chipsContainer}>
+            {RECIPIENTS.map((recipient) => {
+              const isSelected = policy.notify.includes(recipient.value);
+              return (
+                <TouchableOpacity
+                  key={recipient.value}
+                  style={[
+                    styles.chip,
+                    isSelected && { backgroundColor: accentColor, borderColor: accentColor },
+                  ]}
+                  onPress={() => toggleRecipient(recipient.value)}
+                >
+                  <Ionicons
+                    name={recipient.icon as any}
+                    size={16}
+                    color={isSelected ? 'white' : 'rgba(255, 255, 255, 0.6)'}
+                  />
+                  <Text style={[styles.chipText, isSelected && styles.chipTextActive]}>
+                    {recipient.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <Text style={styles.helperText}>
+            Si le patient ne confirme pas la prise {formatDelay(policy.delayMinutes)} après l'heure prévue,
+            une alerte est envoyée.
+          </Text>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 14,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  toggleLabel: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+    color: 'white',
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: 'rgba(255, 255, 255, 0.8)',
+    marginTop: 16,
+    marginBottom: 10,
+  },
+  chipsContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+    gap: 6,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: 'rgba(255, 255, 255, 0.6)',
+  },
+  chipTextActive: {
+    color: 'white',
+  },
+  helperText: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.5)',
+    marginTop: 12,
+    fontStyle: 'italic',
+  },
+});
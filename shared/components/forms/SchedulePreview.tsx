@@ -0,0 +1,273 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { WEEK_DAYS } from '../../constants/medications';
+import { getUserTimeZone } from '../../utils/timezone';
+import {
+  buildPreviewCalendar,
+  expandSchedule,
+  getScheduleEndDate,
+  getScheduleRuleError,
+  ScheduleExpansionInput,
+} from '../../utils/schedule';
+
+const CALENDAR_WEEKS = 4;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface SchedulePreviewProps {
+  input: ScheduleExpansionInput;
+  count?: number;
+  timeZone?: string;
+  accentColor?: string;
+}
+
+/**
+ * Live preview of the doses a schedule will produce, as a list of the next doses or a
+ * four-week calendar, shown before saving
+ */
+export default function SchedulePreview({
+  input,
+  count = 6,
+  timeZone,
+  accentColor = '#4facfe',
+}: SchedulePreviewProps) {
+  const { i18n } = useTranslation();
+  const [mode, setMode] = useState<'list' | 'calendar'>('list');
+  const locale = i18n.language === 'ar' ? 'ar-TN' : i18n.language === 'fr' ? 'fr-FR' : 'en-US';
+  const zone = timeZone || getUserTimeZone();
+
+  const error = getScheduleRuleError(input);
+  const now = new Date();
+  const nextDoses = error ? [] : expandSchedule(input, { from: now, limit: count, timeZone: zone });
+  const calendarDoses = error
+    ? []
+    : expandSchedule(input, { from: now, until: new Date(now.getTime() + CALENDAR_WEEKS * 7 * DAY_MS), timeZone: zone });
+  const calendar = buildPreviewCalendar(calendarDoses, { from: now, weeks: CALENDAR_WEEKS, timeZone: zone });
+  const endDate = getScheduleEndDate(input, now);
+
+  // Weekdays without any dose over the whole calendar usually mean a day was left unticked
+  const uncoveredWeekdays = input.scheduleType === 'weekly' && calendarDoses.length > 0
+    ? WEEK_DAYS.filter(day =>
+        calendar.every(week => week[day.value - 1].isPast || week[day.value - 1].doseCount === 0)
+      )
+    : [];
+
+  const formatDay = (date: Date) =>
+    date.toLocaleDateString(locale, {
+      weekday: 'short',
+      day: 'numeric',
+      month: 'short',
+      timeZone: zone,
+      numberingSystem: 'latn',
+    });
+
+  const renderList = () => (
+    nextDoses.length === 0 ? (
+      <Text style={styles.emptyText}>Aucune prise à venir avec ce planning</Text>
+    ) : (
+      nextDoses.map((dose) => (
+        <View key={dose.scheduledFor} style={styles.row}>
+          <Text style={styles.dayText}>{formatDay(new Date(dose.scheduledFor))}</Text>
+          <Text style={[styles.timeText, { color: accentColor }]}>{dose.time}</Text>
+        </View>
+      ))
+    )
+  );
+
+  const renderCalendar = () => (
+    <View>
+      <View style={styles.calendarRow}>
+        {WEEK_DAYS.map((day) => (
+          <Text key={day.value} style={styles.calendarHeaderText}>{day.short}</Text>
+        ))}
+      </View>
+      {calendar.map((week) => (
+        <View key={week[0].dateKey} style={styles.calendarRow}>
+          {week.map((day) => (
+            <View
+              key={day.dateKey}
+              style={[
+                styles.calendarCell,
+                day.doseCount > 0 && { backgroundColor: `${accentColor}30` },
+                day.isToday && { borderColor: accentColor },
+              ]}
+            >
+              <Text style={[styles.calendarDayText, day.isPast && styles.calendarPastText]}>
+                {day.dayOfMonth}
+              </Text>
+              {day.doseCount > 0 && (
+                <Text style={[styles.calendarCountText, { color: accentColor }]}>
+                  {day.doseCount}
+                </Text>
+              )}
+            </View>
+          ))}
+        </View>
+      ))}
+      <Text style={styles.summaryText}>
+        {calendarDoses.length} prise(s) sur les {CALENDAR_WEEKS} prochaines semaines
+      </Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Ionicons name="eye-outline" size={18} color={accentColor} />
+        <Text style={styles.title}>Aperçu des prises</Text>
+        {!error && (
+          <View style={styles.modeToggle}>
+            {(['list', 'calendar'] as const).map((value) => (
+              <TouchableOpacity
+                key={value}
+                style={[styles.modeButton, mode === value && { backgroundColor: accentColor }]}
+                onPress={() => setMode(value)}
+              >
+                <Ionicons
+                  name={value === 'list' ? 'list-outline' : 'calendar-outline'}
+                  size={16}
+                  color={mode === value ? 'white' : 'rgba(255, 255, 255, 0.6)'}
+                />
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+      </View>
+
+      {error ? (
+        <Text style={styles.emptyText}>{error}</Text>
+      ) : (
+        <>
+          {mode === 'list' ? renderList() : renderCalendar()}
+
+          {endDate && (
+            <Text style={styles.summaryText}>
+              Fin du traitement : {formatDay(endDate)}
+            </Text>
+          )}
+
+          {uncoveredWeekdays.length > 0 && (
+            <View style={styles.warningRow}>
+              <Ionicons name="alert-circle-outline" size={16} color="#F59E0B" />
+              <Text style={styles.warningText}>
+                Aucune prise le {uncoveredWeekdays.map(day => day.full.toLowerCase()).join(', ')}
+              </Text>
+            </View>
+          )}
+        </>
+      )}
+
+      <Text style={styles.timeZoneText}>Fuseau horaire : {zone}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 14,
+    padding: 16,
+    marginTop: 14,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 10,
+  },
+  title: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: 'white',
+  },
+  modeToggle: {
+    flexDirection: 'row',
+    backgroundColor: 'rgba(255, 255, 255, 0.08)',
+    borderRadius: 8,
+    padding: 2,
+  },
+  modeButton: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.06)',
+  },
+  dayText: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.8)',
+    textTransform: 'capitalize',
+  },
+  timeText: {
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  calendarRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 6,
+  },
+  calendarHeaderText: {
+    width: 36,
+    textAlign: 'center',
+    fontSize: 12,
+    fontWeight: '600',
+    color: 'rgba(255, 255, 255, 0.5)',
+  },
+  calendarCell: {
+    width: 36,
+    height: 40,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  calendarDayText: {
+    fontSize: 13,
+    color: 'white',
+  },
+  calendarPastText: {
+    color: 'rgba(255, 255, 255, 0.3)',
+  },
+  calendarCountText: {
+    fontSize: 10,
+    fontWeight: '700',
+  },
+  summaryText: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.6)',
+    marginTop: 8,
+  },
+  warningRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 8,
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 12,
+    color: '#F59E0B',
+  },
+  timeZoneText: {
+    fontSize: 11,
+    color: 'rgba(255, 255, 255, 0.4)',
+    marginTop: 8,
+  },
+  emptyText: {
+    fontSize: 13,
+    color: 'rgba(255, 255, 255, 0.5)',
+    fontStyle: 'italic',
+  },
+});
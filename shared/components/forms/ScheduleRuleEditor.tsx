@@ -0,0 +1,432 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, TextInput, StyleSheet, Platform, Modal } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { useTranslation } from 'react-i18next';
+import { ScheduleType } from '../../types';
+import { SCHEDULE_TYPES, INTERVAL_HOURS_PRESETS } from '../../constants/medications';
+import { formatDayKey } from '../../utils/adherence';
+import { getDeviceTimeZone } from '../../utils/timezone';
+import { parseDateKey } from '../../utils/schedule';
+
+const MONTH_DAYS = Array.from({ length: 31 }, (_, index) => index + 1);
+
+interface ScheduleRuleEditorProps {
+  scheduleType: ScheduleType;
+  onScheduleTypeChange: (scheduleType: ScheduleType) => void;
+  intervalHours: string;
+  onIntervalHoursChange: (hours: string) => void;
+  monthDays: number[];
+  onMonthDaysChange: (days: number[]) => void;
+  customDates: string[];
+  onCustomDatesChange: (dates: string[]) => void;
+  accentColor?: string;
+}
+
+/**
+ * Schedule type picker plus the type-specific settings (interval, days of month, date list).
+ * Dose times themselves stay in the caller's time rows.
+ */
+export default function ScheduleRuleEditor({
+  scheduleType,
+  onScheduleTypeChange,
+  intervalHours,
+  onIntervalHoursChange,
+  monthDays,
+  onMonthDaysChange,
+  customDates,
+  onCustomDatesChange,
+  accentColor = '#4facfe',
+}: ScheduleRuleEditorProps) {
+  const { i18n } = useTranslation();
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const [tempDate, setTempDate] = useState(new Date());
+
+  const locale = i18n.language === 'ar' ? 'ar-TN' : i18n.language === 'fr' ? 'fr-FR' : 'en-US';
+
+  const toggleMonthDay = (day: number) => {
+    if (monthDays.includes(day)) {
+      onMonthDaysChange(monthDays.filter(d => d !== day));
+    } else {
+      onMonthDaysChange([...monthDays, day].sort((a, b) => a - b));
+    }
+  };
+
+  const addCustomDate = (date: Date) => {
+    // The picker returns the chosen day at device-local midnight
+    const dateKey = formatDayKey(date, getDeviceTimeZone());
+    if (!customDates.includes(dateKey)) {
+      onCustomDatesChange([...customDates, dateKey].sort());
+    }
+  };
+
+  const removeCustomDate = (dateKey: string) => {
+    onCustomDatesChange(customDates.filter(d => d !== dateKey));
+  };
+
+  const handleDateChange = (event: any, selectedDate?: Date) => {
+    if (Platform.OS === 'android') {
+      setShowDatePicker(false);
+      if (event?.type === 'set' && selectedDate) {
+        addCustomDate(selectedDate);
+      }
+      return;
+    }
+
+    if (selectedDate) {
+      setTempDate(selectedDate);
+    }
+  };
+
+  const confirmDatePicker = () => {
+    addCustomDate(tempDate);
+    setShowDatePicker(false);
+  };
+
+  const formatCustomDate = (dateKey: string) => {
+    const date = parseDateKey(dateKey);
+    if (!date) return dateKey;
+    return date.toLocaleDateString(locale, {
+      weekday: 'short',
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+      numberingSystem: 'latn',
+    });
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.typeContainer}>
+        {SCHEDULE_TYPES.map((type) => {
+          const isSelected = scheduleType === type.value;
+          return (
+            <TouchableOpacity
+              key={type.value}
+              style={[
+                styles.typeChip,
+                isSelected && { backgroundColor: accentColor, borderColor: accentColor },
+              ]}
+              onPress={() => onScheduleTypeChange(type.value)}
+            >
+              <Ionicons
+                name={type.icon as any}
+                size={16}
+                color={isSelected ? 'white' : 'rgba(255, 255, 255, 0.6)'}
+              />
+              <Text style={[styles.typeChipText, isSelected && styles.typeChipTextActive]}>
+                {type.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {scheduleType === 'interval' && (
+        <View style={styles.ruleCard}>
+          <View style={styles.intervalRow}>
+            <Text style={styles.ruleLabel}>Toutes les</Text>
+            <TextInput
+              style={styles.intervalInput}
+              value={intervalHours}
+              onChangeText={onIntervalHoursChange}
+              keyboardType="numeric"
+              placeholder="8"
+              placeholderTextColor="rgba(255, 255, 255, 0.4)"
+            />
+            <Text style={styles.ruleLabel}>heure(s)</Text>
+          </View>
+          <View style={styles.presetContainer}>
+            {INTERVAL_HOURS_PRESETS.map((hours) => {
+              const isSelected = intervalHours === String(hours);
+              return (
+                <TouchableOpacity
+                  key={hours}
+                  style={[
+                    styles.presetChip,
+                    isSelected && { backgroundColor: accentColor, borderColor: accentColor },
+                  ]}
+                  onPress={() => onIntervalHoursChange(String(hours))}
+                >
+                  <Text style={[styles.presetChipText, isSelected && styles.typeChipTextActive]}>
+                    {hours}h
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <Text style={styles.helperText}>
+            Les prises sont calculées à partir de l'heure de la première prise
+          </Text>
+        </View>
+      )}
+
+      {scheduleType === 'monthly' && (
+        <View style={styles.ruleCard}>
+          <Text style={styles.ruleTitle}>Jours du mois</Text>
+          <View style={styles.monthDaysContainer}>
+            {MONTH_DAYS.map((day) => {
+              const isSelected = monthDays.includes(day);
+              return (
+                <TouchableOpacity
+                  key={day}
+                  style={[
+                    styles.monthDayButton,
+                    isSelected && { backgroundColor: accentColor, borderColor: accentColor },
+                  ]}
+                  onPress={() => toggleMonthDay(day)}
+                >
+                  <Text style={[styles.monthDayText, isSelected && styles.typeChipTextActive]}>
+                    {day}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <Text style={styles.helperText}>
+            Un jour absent du mois (ex : le 31) tombe le dernier jour du mois
+          </Text>
+        </View>
+      )}
+
+      {scheduleType === 'custom' && (
+        <View style={styles.ruleCard}>
+          <Text style={styles.ruleTitle}>Dates de prise</Text>
+          {customDates.length === 0 ? (
+            <Text style={styles.helperText}>Aucune date sélectionnée</Text>
+          ) : (
+            customDates.map((dateKey) => (
+              <View key={dateKey} style={styles.dateRow}>
+                <Ionicons name="calendar-outline" size={18} color={accentColor} />
+                <Text style={styles.dateText}>{formatCustomDate(dateKey)}</Text>
+                <TouchableOpacity onPress={() => removeCustomDate(dateKey)}>
+                  <Ionicons name="close-circle" size={20} color="#EF4444" />
+                </TouchableOpacity>
+              </View>
+            ))
+          )}
+          <TouchableOpacity
+            style={styles.addDateButton}
+            onPress={() => {
+              setTempDate(new Date());
+              setShowDatePicker(true);
+            }}
+          >
+            <Ionicons name="add-circle-outline" size={20} color="#10B981" />
+            <Text style={styles.addDateText}>Ajouter une date</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {showDatePicker && (
+        <>
+          {Platform.OS === 'ios' ? (
+            <Modal
+              visible={showDatePicker}
+              transparent={true}
+              animationType="slide"
+              onRequestClose={() => setShowDatePicker(false)}
+            >
+              <View style={styles.datePickerModalOverlay}>
+                <View style={styles.datePickerModalContent}>
+                  <View style={styles.datePickerHeader}>
+                    <Text style={styles.datePickerTitle}>Sélectionner une date</Text>
+                    <TouchableOpacity onPress={confirmDatePicker}>
+                      <Text style={[styles.datePickerDoneButton, { color: accentColor }]}>Ajouter</Text>
+                    </TouchableOpacity>
+                  </View>
+                  <DateTimePicker
+                    value={tempDate}
+                    mode="date"
+                    display="spinner"
+                    minimumDate={new Date()}
+                    onChange={handleDateChange}
+                    textColor="white"
+                    style={styles.datePicker}
+                  />
+                </View>
+              </View>
+            </Modal>
+          ) : (
+            <DateTimePicker
+              value={tempDate}
+              mode="date"
+              display="default"
+              minimumDate={new Date()}
+              onChange={handleDateChange}
+            />
+          )}
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 14,
+  },
+  typeContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 14,
+  },
+  typeChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+    gap: 6,
+  },
+  typeChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: 'rgba(255, 255, 255, 0.6)',
+  },
+  typeChipTextActive: {
+    color: 'white',
+  },
+  ruleCard: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 14,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  ruleTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: 'white',
+    marginBottom: 12,
+  },
+  ruleLabel: {
+    fontSize: 14,
+    color: 'white',
+    fontWeight: '500',
+  },
+  intervalRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginBottom: 12,
+  },
+  intervalInput: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 16,
+    color: 'white',
+    width: 70,
+    textAlign: 'center',
+    borderWidth: 1,
+    borderColor: 'rgba(79, 172, 254, 0.3)',
+  },
+  presetContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  presetChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  presetChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: 'rgba(255, 255, 255, 0.6)',
+  },
+  monthDaysContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  monthDayButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  monthDayText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: 'rgba(255, 255, 255, 0.5)',
+  },
+  helperText: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.5)',
+    marginTop: 10,
+    fontStyle: 'italic',
+  },
+  dateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    gap: 10,
+  },
+  dateText: {
+    flex: 1,
+    fontSize: 14,
+    color: 'white',
+  },
+  addDateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(16, 185, 129, 0.15)',
+    paddingVertical: 10,
+    borderRadius: 12,
+    gap: 8,
+    marginTop: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(16, 185, 129, 0.3)',
+  },
+  addDateText: {
+    color: '#10B981',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  datePickerModalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'flex-end',
+  },
+  datePickerModalContent: {
+    backgroundColor: '#1a1a2e',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingBottom: 40,
+  },
+  datePickerHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  datePickerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: 'white',
+  },
+  datePickerDoneButton: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  datePicker: {
+    height: 200,
+  },
+});
@@ -0,0 +1,148 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Switch } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { SnoozePolicy } from '../../types';
+import {
+  DEFAULT_SNOOZE_POLICY,
+  SNOOZE_DURATION_OPTIONS,
+  SNOOZE_LIMIT_OPTIONS,
+} from '../../constants/medications';
+
+interface SnoozePolicyEditorProps {
+  // null keeps the patient's own snooze settings
+  policy: SnoozePolicy | null;
+  onPolicyChange: (policy: SnoozePolicy | null) => void;
+  accentColor?: string;
+}
+
+/**
+ * Per-prescription snooze override: duration of each snooze and how many are allowed
+ */
+export default function SnoozePolicyEditor({
+  policy,
+  onPolicyChange,
+  accentColor = '#4facfe',
+}: SnoozePolicyEditorProps) {
+  const renderChips = (
+    options: number[],
+    selected: number,
+    onSelect: (value: number) => void,
+    formatLabel: (value: number) => string
+  ) => (
+    <View style={styles.chipsContainer}>
+      {options.map((value) => {
+        const isSelected = value === selected;
+        return (
+          <TouchableOpacity
+            key={value}
+            style={[
+              styles.chip,
+              isSelected && { backgroundColor: accentColor, borderColor: accentColor },
+            ]}
+            onPress={() => onSelect(value)}
+          >
+            <Text style={[styles.chipText, isSelected && styles.chipTextActive]}>
+              {formatLabel(value)}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.toggleRow}>
+        <Ionicons name="alarm-outline" size={20} color={accentColor} />
+        <Text style={styles.toggleLabel}>Personnaliser le report</Text>
+        <Switch
+          value={!!policy}
+          onValueChange={(enabled) => onPolicyChange(enabled ? DEFAULT_SNOOZE_POLICY : null)}
+          trackColor={{ false: 'rgba(255, 255, 255, 0.2)', true: accentColor }}
+          thumbColor="white"
+        />
+      </View>
+
+      {policy ? (
+        <>
+          <Text style={styles.label}>Durée du report</Text>
+          {renderChips(
+            SNOOZE_DURATION_OPTIONS,
+            policy.durationMinutes,
+            (durationMinutes) => onPolicyChange({ ...policy, durationMinutes }),
+            (value) => `${value} min`
+          )}
+
+          <Text style={styles.label}>Reports maximum</Text>
+          {renderChips(
+            SNOOZE_LIMIT_OPTIONS,
+            policy.maxSnoozes,
+            (maxSnoozes) => onPolicyChange({ ...policy, maxSnoozes }),
+            (value) => `${value}`
+          )}
+
+          <Text style={styles.helperText}>
+            Au-delà de {policy.maxSnoozes} report(s), la prise est comptée comme manquée.
+          </Text>
+        </>
+      ) : (
+        <Text style={styles.helperText}>Les réglages de report du patient s'appliquent.</Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 14,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  toggleLabel: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+    color: 'white',
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: 'rgba(255, 255, 255, 0.8)',
+    marginTop: 16,
+    marginBottom: 10,
+  },
+  chipsContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: 'rgba(255, 255, 255, 0.6)',
+  },
+  chipTextActive: {
+    color: 'white',
+  },
+  helperText: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.5)',
+    marginTop: 12,
+    fontStyle: 'italic',
+  },
+});
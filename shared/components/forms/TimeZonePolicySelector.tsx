@@ -0,0 +1,102 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { TimeZonePolicy } from '../../types';
+
+interface TimeZonePolicySelectorProps {
+  policy: TimeZonePolicy;
+  onPolicyChange: (policy: TimeZonePolicy) => void;
+  accentColor?: string;
+}
+
+const OPTIONS: Array<{
+  value: TimeZonePolicy;
+  icon: 'sunny-outline' | 'globe-outline';
+  title: string;
+  description: string;
+}> = [
+  {
+    value: 'local',
+    icon: 'sunny-outline',
+    title: 'Heure locale',
+    description: "La prise de 8h sonne à 8h là où se trouve le patient.",
+  },
+  {
+    value: 'absolute',
+    icon: 'globe-outline',
+    title: 'Heure fixe',
+    description: "Même instant quel que soit le fuseau (traitements à intervalle strict).",
+  },
+];
+
+/**
+ * How reminders of a prescription move when the patient travels to another timezone
+ */
+export default function TimeZonePolicySelector({
+  policy,
+  onPolicyChange,
+  accentColor = '#4facfe',
+}: TimeZonePolicySelectorProps) {
+  return (
+    <View style={styles.container}>
+      {OPTIONS.map((option) => {
+        const isSelected = option.value === policy;
+        return (
+          <TouchableOpacity
+            key={option.value}
+            style={[
+              styles.option,
+              isSelected && { borderColor: accentColor, backgroundColor: `${accentColor}20` },
+            ]}
+            onPress={() => onPolicyChange(option.value)}
+          >
+            <Ionicons
+              name={option.icon}
+              size={20}
+              color={isSelected ? accentColor : 'rgba(255, 255, 255, 0.5)'}
+            />
+            <View style={styles.optionText}>
+              <Text style={[styles.optionTitle, isSelected && styles.optionTitleActive]}>
+                {option.title}
+              </Text>
+              <Text style={styles.optionDescription}>{option.description}</Text>
+            </View>
+            {isSelected && <Ionicons name="checkmark-circle" size={20} color={accentColor} />}
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 10,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 14,
+    borderRadius: 14,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  optionText: {
+    flex: 1,
+  },
+  optionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: 'rgba(255, 255, 255, 0.7)',
+  },
+  optionTitleActive: {
+    color: 'white',
+  },
+  optionDescription: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.5)',
+    marginTop: 2,
+  },
+});
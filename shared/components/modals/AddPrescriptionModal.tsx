@@ -16,9 +16,20 @@ import DateTimePicker from '@react-native-community/datetimepicker';
 import { Audio } from 'expo-av';
 import FeedbackModal from './FeedbackModal';
 import VoiceRecorderModal from './VoiceRecorderModal';
+import ScheduleRuleEditor from '../forms/ScheduleRuleEditor';
+import SchedulePreview from '../forms/SchedulePreview';
+import EscalationPolicyEditor from '../forms/EscalationPolicyEditor';
+import SnoozePolicyEditor from '../forms/SnoozePolicyEditor';
+import TimeZonePolicySelector from '../forms/TimeZonePolicySelector';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as FileSystem from 'expo-file-system/legacy';
 import apiService from '../../services/api';
+import { queryCache } from '../../services/queryCache';
+import { ScheduleType, SnoozePolicy, TimeZonePolicy } from '../../types';
+import { EscalationPolicy } from '../../types/escalation.types';
+import { buildSchedulePayload, getScheduleEndDate, getScheduleRuleError, ScheduleRule } from '../../utils/schedule';
+import { DEFAULT_ESCALATION_POLICY, DEFAULT_TIME_ZONE_POLICY } from '../../constants/medications';
+import { QUERY_KEYS } from '../../constants/queries';
 
 interface PrescriptionSchedule {
   time: string;
@@ -41,9 +52,14 @@ interface PrescriptionData {
   instructions?: string;
   schedules?: PrescriptionSchedule[];
   isChronic?: boolean;
-  scheduleType?: 'daily' | 'weekly' | 'interval' | 'monthly' | 'custom';
+  scheduleType?: ScheduleType;
   intervalHours?: number;
+  monthDays?: number[];
+  customDates?: string[];
   repeatWeeks?: number;
+  escalationPolicy?: EscalationPolicy | null;
+  snoozePolicy?: SnoozePolicy | null;
+  timeZonePolicy?: TimeZonePolicy;
 }
 
 interface VoiceMessage {
@@ -69,6 +85,8 @@ interface AddPrescriptionModalProps {
   token: string;
   voiceMessages?: VoiceMessage[];
   onVoiceMessagesUpdate?: (voices: VoiceMessage[]) => void;
+  // Dose times are previewed in the patient's zone, not the caregiver's
+  patientTimeZone?: string;
   colors?: {
     primary: string;
     primaryLight: string;
@@ -110,6 +128,7 @@ export default function AddPrescriptionModal({
   token,
   voiceMessages = [],
   onVoiceMessagesUpdate,
+  patientTimeZone,
   colors,
 }: AddPrescriptionModalProps) {
   // Default colors (doctor theme) if not provided
@@ -128,8 +147,15 @@ export default function AddPrescriptionModal({
   const [schedules, setSchedules] = useState<PrescriptionSchedule[]>([
     { time: '08:00', days: [1, 2, 3, 4, 5, 6, 7] }
   ]);
+  const [scheduleType, setScheduleType] = useState<ScheduleType>('weekly');
+  const [intervalHours, setIntervalHours] = useState('8');
+  const [monthDays, setMonthDays] = useState<number[]>([1]);
+  const [customDates, setCustomDates] = useState<string[]>([]);
   const [isChronic, setIsChronic] = useState(true);
   const [repeatWeeks, setRepeatWeeks] = useState('1');
+  const [escalationPolicy, setEscalationPolicy] = useState<EscalationPolicy>(DEFAULT_ESCALATION_POLICY);
+  const [snoozePolicy, setSnoozePolicy] = useState<SnoozePolicy | null>(null);
+  const [timeZonePolicy, setTimeZonePolicy] = useState<TimeZonePolicy>(DEFAULT_TIME_ZONE_POLICY);
   const [showMedicationPicker, setShowMedicationPicker] = useState(false);
   const [showCustomMedForm, setShowCustomMedForm] = useState(false);
   const [medSearch, setMedSearch] = useState('');
@@ -189,8 +215,15 @@ export default function AddPrescriptionModal({
         }));
         setSchedules(sanitizedSchedules);
       }
+      setScheduleType(existingPrescription.scheduleType || 'weekly');
+      setIntervalHours(String(existingPrescription.intervalHours || 8));
+      setMonthDays(existingPrescription.monthDays?.length ? existingPrescription.monthDays : [1]);
+      setCustomDates(existingPrescription.customDates || []);
       setIsChronic(existingPrescription.isChronic ?? true);
       setRepeatWeeks(String(existingPrescription.repeatWeeks || 1));
+      setEscalationPolicy(existingPrescription.escalationPolicy || DEFAULT_ESCALATION_POLICY);
+      setSnoozePolicy(existingPrescription.snoozePolicy || null);
+      setTimeZonePolicy(existingPrescription.timeZonePolicy || DEFAULT_TIME_ZONE_POLICY);
       
       // ✅ FIX: Load voice message ID from existing prescription
       const voiceMessageId = (existingPrescription as any).voiceMessageId
@@ -207,8 +240,15 @@ export default function AddPrescriptionModal({
       setCustomDosage('');
       setInstructions('');
       setSchedules([{ time: '08:00', days: [1, 2, 3, 4, 5, 6, 7] }]);
+      setScheduleType('weekly');
+      setIntervalHours('8');
+      setMonthDays([1]);
+      setCustomDates([]);
       setIsChronic(true);
       setRepeatWeeks('1');
+      setEscalationPolicy(DEFAULT_ESCALATION_POLICY);
+      setSnoozePolicy(null);
+      setTimeZonePolicy(DEFAULT_TIME_ZONE_POLICY);
       setSelectedVoiceMessageId(null);
     }
   }, [existingPrescription, visible]);
@@ -443,10 +483,13 @@ export default function AddPrescriptionModal({
       });
 
       if (createResult.success && createResult.data) {
+        // The patient profile screen lists voice messages from the query cache
+        queryCache.invalidateQueries(QUERY_KEYS.patientVoiceMessages(patientId));
+
         // Reload voice messages
         const voiceResult = await apiService.getPatientVoiceMessages(token, patientId);
         if (voiceResult.success && Array.isArray(voiceResult.data)) {
-          const fetchedVoices = voiceResult.data as VoiceMessage[];
+          const fetchedVoices = voiceResult.data;
           setLocalVoiceMessages(fetchedVoices);
           if (onVoiceMessagesUpdate) {
             onVoiceMessagesUpdate(fetchedVoices);
@@ -543,6 +586,14 @@ export default function AddPrescriptionModal({
     setShowCustomMedForm(false);
   };
 
+  const scheduleRule: ScheduleRule = {
+    scheduleType,
+    schedules,
+    intervalHours: parseInt(intervalHours) || undefined,
+    monthDays,
+    customDates,
+  };
+
   const handleSave = async () => {
     if (!medicationName.trim()) {
       setErrorModal({
@@ -552,22 +603,21 @@ export default function AddPrescriptionModal({
       return;
     }
 
-    if (schedules.length === 0) {
+    const scheduleError = getScheduleRuleError(scheduleRule);
+    if (scheduleError) {
       setErrorModal({
         visible: true,
-        message: 'Veuillez définir au moins un horaire',
+        message: scheduleError,
       });
       return;
     }
 
-    for (const schedule of schedules) {
-      if (!schedule.days || schedule.days.length === 0) {
-        setErrorModal({
-          visible: true,
-          message: 'Veuillez sélectionner au moins un jour pour chaque horaire',
-        });
-        return;
-      }
+    if (escalationPolicy.enabled && escalationPolicy.notify.length === 0) {
+      setErrorModal({
+        visible: true,
+        message: 'Veuillez choisir au moins une personne à prévenir',
+      });
+      return;
     }
 
     setIsSaving(true);
@@ -581,12 +631,14 @@ export default function AddPrescriptionModal({
         medicationDescription: selectedMedication?.description,
         customDosage: customDosage || undefined,
         instructions: instructions || undefined,
-        schedules,
+        ...buildSchedulePayload(scheduleRule),
         voiceMessageId: selectedVoiceMessageId || undefined,
         isChronic,
-        endDate: !isChronic ? new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString() : undefined,
-        scheduleType: 'weekly' as const,
+        endDate: getScheduleEndDate({ isChronic, repeatWeeks: parseInt(repeatWeeks) || 1 })?.toISOString(),
         repeatWeeks: parseInt(repeatWeeks) || 1,
+        escalationPolicy,
+        snoozePolicy,
+        timeZonePolicy,
       };
 
       await onSave(prescriptionData);
@@ -712,12 +764,26 @@ export default function AddPrescriptionModal({
               {/* 4. PLANIFICATION */}
               <View style={styles.section}>
                 <Text style={styles.sectionTitle}>PLANIFICATION</Text>
+
+                <ScheduleRuleEditor
+                  scheduleType={scheduleType}
+                  onScheduleTypeChange={setScheduleType}
+                  intervalHours={intervalHours}
+                  onIntervalHoursChange={setIntervalHours}
+                  monthDays={monthDays}
+                  onMonthDaysChange={setMonthDays}
+                  customDates={customDates}
+                  onCustomDatesChange={setCustomDates}
+                  accentColor={themeColors.primary}
+                />
                 
-                {schedules.map((schedule, index) => (
+                {(scheduleType === 'interval' ? schedules.slice(0, 1) : schedules).map((schedule, index) => (
                   <View key={index} style={styles.scheduleCard}>
                     <View style={styles.scheduleHeader}>
-                      <Text style={styles.scheduleTitle}>Horaire {index + 1}</Text>
-                      {schedules.length > 1 && (
+                      <Text style={styles.scheduleTitle}>
+                        {scheduleType === 'interval' ? 'Première prise' : `Horaire ${index + 1}`}
+                      </Text>
+                      {schedules.length > 1 && scheduleType !== 'interval' && (
                         <TouchableOpacity
                           style={styles.removeScheduleButton}
                           onPress={() => removeSchedule(index)}
@@ -742,42 +808,52 @@ export default function AddPrescriptionModal({
                     </View>
 
                     {/* Days of the week */}
-                    <View style={styles.daysSection}>
-                      <Text style={styles.daysLabel}>Jours de la semaine:</Text>
-                      <View style={styles.daysContainer}>
-                        {WEEK_DAYS.map((day, dayIndex) => {
-                          const isSelected = schedule.days?.includes(dayIndex + 1) ?? false;
-                          return (
-                            <TouchableOpacity
-                              key={dayIndex}
-                              style={[
-                                styles.dayButton,
-                                isSelected && styles.selectedDayButton
-                              ]}
-                              onPress={() => toggleDay(index, dayIndex)}
-                            >
-                              <Text style={[
-                                styles.dayButtonText,
-                                isSelected && styles.selectedDayButtonText
-                              ]}>
-                                {day.short}
-                              </Text>
-                            </TouchableOpacity>
-                          );
-                        })}
+                    {scheduleType === 'weekly' && (
+                      <View style={styles.daysSection}>
+                        <Text style={styles.daysLabel}>Jours de la semaine:</Text>
+                        <View style={styles.daysContainer}>
+                          {WEEK_DAYS.map((day, dayIndex) => {
+                            const isSelected = schedule.days?.includes(dayIndex + 1) ?? false;
+                            return (
+                              <TouchableOpacity
+                                key={dayIndex}
+                                style={[
+                                  styles.dayButton,
+                                  isSelected && styles.selectedDayButton
+                                ]}
+                                onPress={() => toggleDay(index, dayIndex)}
+                              >
+                                <Text style={[
+                                  styles.dayButtonText,
+                                  isSelected && styles.selectedDayButtonText
+                                ]}>
+                                  {day.short}
+                                </Text>
+                              </TouchableOpacity>
+                            );
+                          })}
+                        </View>
                       </View>
-                    </View>
+                    )}
                   </View>
                 ))}
 
                 {/* Add schedule button */}
-                <TouchableOpacity
-                  style={styles.addScheduleButton}
-                  onPress={addSchedule}
-                >
-                  <Ionicons name="add-circle-outline" size={20} color="#10B981" />
-                  <Text style={styles.addScheduleText}>Ajouter un horaire</Text>
-                </TouchableOpacity>
+                {scheduleType !== 'interval' && (
+                  <TouchableOpacity
+                    style={styles.addScheduleButton}
+                    onPress={addSchedule}
+                  >
+                    <Ionicons name="add-circle-outline" size={20} color="#10B981" />
+                    <Text style={styles.addScheduleText}>Ajouter un horaire</Text>
+                  </TouchableOpacity>
+                )}
+
+                <SchedulePreview
+                  input={{ ...scheduleRule, isChronic, repeatWeeks: parseInt(repeatWeeks) || 1 }}
+                  accentColor={themeColors.primary}
+                  timeZone={patientTimeZone}
+                />
               </View>
 
               {/* 5. DURÉE */}
@@ -836,6 +912,36 @@ export default function AddPrescriptionModal({
                 )}
               </View>
 
+              {/* Snooze override for this prescription */}
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>REPORT D'ALARME</Text>
+                <SnoozePolicyEditor
+                  policy={snoozePolicy}
+                  onPolicyChange={setSnoozePolicy}
+                  accentColor={themeColors.primary}
+                />
+              </View>
+
+              {/* What happens to dose times when the patient travels */}
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>EN VOYAGE</Text>
+                <TimeZonePolicySelector
+                  policy={timeZonePolicy}
+                  onPolicyChange={setTimeZonePolicy}
+                  accentColor={themeColors.primary}
+                />
+              </View>
+
+              {/* Caregiver alert when a dose is missed */}
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>ALERTE AIDANT</Text>
+                <EscalationPolicyEditor
+                  policy={escalationPolicy}
+                  onPolicyChange={setEscalationPolicy}
+                  accentColor={themeColors.primary}
+                />
+              </View>
+
               {/* Instructions (optional) */}
               <View style={styles.section}>
                 <Text style={styles.sectionTitle}>INSTRUCTIONS (Optionnel)</Text>
@@ -0,0 +1,208 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { SnoozePolicy } from '../../types';
+import { SNOOZE_DURATION_OPTIONS, SNOOZE_LIMIT_OPTIONS } from '../../constants/medications';
+
+interface SnoozeSettingsModalProps {
+  visible: boolean;
+  policy: SnoozePolicy;
+  onSave: (policy: SnoozePolicy) => void;
+  onClose: () => void;
+  primaryColor?: string;
+}
+
+export default function SnoozeSettingsModal({
+  visible,
+  policy,
+  onSave,
+  onClose,
+  primaryColor = '#10B981',
+}: SnoozeSettingsModalProps) {
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState<SnoozePolicy>(policy);
+
+  useEffect(() => {
+    if (visible) {
+      setDraft(policy);
+    }
+  }, [visible, policy]);
+
+  const renderChips = (
+    options: number[],
+    selected: number,
+    onSelect: (value: number) => void,
+    formatLabel: (value: number) => string
+  ) => (
+    <View style={styles.chipsContainer}>
+      {options.map((value) => {
+        const isSelected = value === selected;
+        return (
+          <TouchableOpacity
+            key={value}
+            style={[
+              styles.chip,
+              isSelected && { backgroundColor: primaryColor, borderColor: primaryColor },
+            ]}
+            onPress={() => onSelect(value)}
+          >
+            <Text style={[styles.chipText, isSelected && styles.chipTextActive]}>
+              {formatLabel(value)}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="fade"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.modalContainer}>
+          <LinearGradient
+            colors={["rgba(26, 26, 46, 0.98)", "rgba(15, 52, 96, 0.98)"]}
+            style={styles.modalContent}
+          >
+            <View style={styles.header}>
+              <Text style={styles.title}>{t('profile.snooze')}</Text>
+              <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+                <Ionicons name="close" size={24} color="white" />
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.label}>{t('profile.snoozeDuration')}</Text>
+            {renderChips(
+              SNOOZE_DURATION_OPTIONS,
+              draft.durationMinutes,
+              (durationMinutes) => setDraft(prev => ({ ...prev, durationMinutes })),
+              (value) => `${value} min`
+            )}
+
+            <Text style={styles.label}>{t('profile.snoozeLimit')}</Text>
+            {renderChips(
+              SNOOZE_LIMIT_OPTIONS,
+              draft.maxSnoozes,
+              (maxSnoozes) => setDraft(prev => ({ ...prev, maxSnoozes })),
+              (value) => `${value}`
+            )}
+            <Text style={styles.helperText}>{t('profile.snoozeLimitHelp')}</Text>
+
+            <TouchableOpacity
+              style={styles.saveButton}
+              onPress={() => {
+                onSave(draft);
+                onClose();
+              }}
+            >
+              <LinearGradient
+                colors={[primaryColor, primaryColor]}
+                style={styles.saveButtonGradient}
+              >
+                <Text style={styles.saveButtonText}>{t('common.save')}</Text>
+              </LinearGradient>
+            </TouchableOpacity>
+          </LinearGradient>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContainer: {
+    width: '100%',
+    maxWidth: 400,
+    borderRadius: 20,
+    overflow: 'hidden',
+  },
+  modalContent: {
+    padding: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: 'white',
+    flex: 1,
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: 'rgba(255, 255, 255, 0.8)',
+    marginTop: 12,
+    marginBottom: 10,
+  },
+  chipsContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: 'rgba(255, 255, 255, 0.6)',
+  },
+  chipTextActive: {
+    color: 'white',
+  },
+  helperText: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.5)',
+    marginTop: 10,
+  },
+  saveButton: {
+    marginTop: 24,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  saveButtonGradient: {
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: 'white',
+  },
+});
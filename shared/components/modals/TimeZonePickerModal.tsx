@@ -0,0 +1,223 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  FlatList,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { TIME_ZONE_OPTIONS } from '../../constants/timezones';
+import {
+  formatUtcOffset,
+  getDeviceTimeZone,
+  getTimeZoneOffsetMinutes,
+  isValidTimeZone,
+} from '../../utils/timezone';
+
+interface TimeZonePickerModalProps {
+  visible: boolean;
+  // null means "follow the device timezone"
+  value: string | null;
+  onSelect: (timeZone: string | null) => void;
+  onClose: () => void;
+  primaryColor?: string;
+}
+
+type TimeZoneRow = {
+  value: string | null;
+  label: string;
+  detail: string;
+};
+
+export default function TimeZonePickerModal({
+  visible,
+  value,
+  onSelect,
+  onClose,
+  primaryColor = '#10B981',
+}: TimeZonePickerModalProps) {
+  const { t } = useTranslation();
+  const [search, setSearch] = useState('');
+
+  const rows = useMemo<TimeZoneRow[]>(() => {
+    const now = new Date();
+    const deviceZone = getDeviceTimeZone();
+    const describe = (timeZone: string) =>
+      `${timeZone} · ${formatUtcOffset(getTimeZoneOffsetMinutes(now, timeZone))}`;
+
+    const options = TIME_ZONE_OPTIONS.filter(option => isValidTimeZone(option.value));
+    // Keep a profile timezone that is not in the curated list selectable
+    if (value && isValidTimeZone(value) && !options.some(option => option.value === value)) {
+      options.unshift({ value, label: value.split('/').pop()?.replace(/_/g, ' ') || value });
+    }
+
+    const query = search.trim().toLowerCase();
+    const zoneRows: TimeZoneRow[] = options
+      .filter(option =>
+        !query ||
+        option.label.toLowerCase().includes(query) ||
+        option.value.toLowerCase().includes(query)
+      )
+      .map(option => ({ value: option.value, label: option.label, detail: describe(option.value) }));
+
+    return [
+      { value: null, label: t('profile.timezoneDevice'), detail: describe(deviceZone) },
+      ...zoneRows,
+    ];
+  }, [search, value, t]);
+
+  const handleClose = () => {
+    setSearch('');
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="fade"
+      transparent={true}
+      onRequestClose={handleClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.modalContainer}>
+          <LinearGradient
+            colors={["rgba(26, 26, 46, 0.98)", "rgba(15, 52, 96, 0.98)"]}
+            style={styles.modalContent}
+          >
+            <View style={styles.header}>
+              <Text style={styles.title}>{t('profile.timezoneSelect')}</Text>
+              <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
+                <Ionicons name="close" size={24} color="white" />
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.searchContainer}>
+              <Ionicons name="search" size={18} color="rgba(255, 255, 255, 0.5)" />
+              <TextInput
+                style={styles.searchInput}
+                value={search}
+                onChangeText={setSearch}
+                placeholder={t('profile.timezoneSearch')}
+                placeholderTextColor="rgba(255, 255, 255, 0.4)"
+                autoCapitalize="none"
+              />
+            </View>
+
+            <FlatList
+              data={rows}
+              keyExtractor={(item) => item.value || 'device'}
+              style={styles.list}
+              keyboardShouldPersistTaps="handled"
+              renderItem={({ item }) => {
+                const isSelected = item.value === value;
+                return (
+                  <TouchableOpacity
+                    style={[styles.row, isSelected && { borderColor: primaryColor }]}
+                    onPress={() => {
+                      onSelect(item.value);
+                      handleClose();
+                    }}
+                  >
+                    <View style={styles.rowText}>
+                      <Text style={styles.rowLabel}>{item.label}</Text>
+                      <Text style={styles.rowDetail}>{item.detail}</Text>
+                    </View>
+                    {isSelected && (
+                      <Ionicons name="checkmark-circle" size={22} color={primaryColor} />
+                    )}
+                  </TouchableOpacity>
+                );
+              }}
+            />
+          </LinearGradient>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContainer: {
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '80%',
+    borderRadius: 20,
+    overflow: 'hidden',
+  },
+  modalContent: {
+    padding: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: 'white',
+    flex: 1,
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255, 255, 255, 0.08)',
+    marginBottom: 12,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: 'white',
+  },
+  list: {
+    flexGrow: 0,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 14,
+    marginBottom: 8,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255, 255, 255, 0.06)',
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: 'white',
+  },
+  rowDetail: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.6)',
+    marginTop: 2,
+  },
+});
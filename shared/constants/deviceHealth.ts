@@ -0,0 +1,14 @@
+/**
+ * Device heartbeat and health thresholds
+ */
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+export const DEVICE_HEALTH = {
+  // Identical heartbeats are not sent more often than this
+  HEARTBEAT_MIN_INTERVAL_MS: 15 * MINUTE,
+  // Reminders are reconciled at least daily while the app runs
+  STALE_SYNC_WARNING_MS: DAY,
+  STALE_SYNC_CRITICAL_MS: 3 * DAY,
+};
@@ -0,0 +1,18 @@
+/**
+ * App logging levels and on-device log buffer
+ */
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+
+export const LOGGING = {
+  // Lowest level written to the device console; release builds only keep problems
+  CONSOLE_MIN_LEVEL: (__DEV__ ? 'debug' : 'warn') as (typeof LOG_LEVELS)[number],
+  // Lowest level kept in the buffer sent to support
+  BUFFER_MIN_LEVEL: 'info' as (typeof LOG_LEVELS)[number],
+  // Entries kept on the device, oldest dropped first
+  BUFFER_SIZE: 500,
+  // New entries are written to storage in batches
+  PERSIST_DELAY_MS: 2000,
+  // Longest message kept in the buffer
+  MAX_MESSAGE_LENGTH: 1000,
+};
@@ -2,6 +2,9 @@
  * Medication constants and data
  */
 
+import { ScheduleType, SnoozePolicy, TimeZonePolicy } from '../types';
+import { EscalationPolicy } from '../types/escalation.types';
+
 export interface MedicationOption {
   id: string;
   name: string;
@@ -34,3 +37,32 @@ export const WEEK_DAYS = [
 
 
 
+
+export const SCHEDULE_TYPES: Array<{ value: ScheduleType; label: string; icon: string }> = [
+  { value: 'daily', label: 'Tous les jours', icon: 'sunny-outline' },
+  { value: 'weekly', label: 'Jours choisis', icon: 'calendar-outline' },
+  { value: 'interval', label: 'Intervalle', icon: 'repeat-outline' },
+  { value: 'monthly', label: 'Mensuel', icon: 'calendar-number-outline' },
+  { value: 'custom', label: 'Dates précises', icon: 'list-outline' },
+];
+
+export const INTERVAL_HOURS_PRESETS = [4, 6, 8, 12, 24];
+
+export const ESCALATION_DELAY_OPTIONS = [15, 30, 60, 120];
+
+export const DEFAULT_ESCALATION_POLICY: EscalationPolicy = {
+  enabled: false,
+  delayMinutes: 30,
+  notify: ['tuteur'],
+};
+
+export const SNOOZE_DURATION_OPTIONS = [5, 10, 15, 30];
+
+export const SNOOZE_LIMIT_OPTIONS = [1, 2, 3, 5];
+
+export const DEFAULT_SNOOZE_POLICY: SnoozePolicy = {
+  durationMinutes: 5,
+  maxSnoozes: 3,
+};
+
+export const DEFAULT_TIME_ZONE_POLICY: TimeZonePolicy = 'local';
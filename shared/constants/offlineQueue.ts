@@ -0,0 +1,14 @@
+/**
+ * Retry policy of the offline dose action queue
+ */
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+export const OFFLINE_QUEUE_RETRY = {
+  // Wait after the first failed attempt; doubles with every further failure
+  BASE_DELAY_MS: 30 * SECOND,
+  MAX_DELAY_MS: 60 * MINUTE,
+  // Failed attempts before an action moves to the dead-letter list
+  MAX_ATTEMPTS: 8,
+};
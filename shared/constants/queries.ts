@@ -0,0 +1,33 @@
+/**
+ * Query cache keys and freshness windows
+ */
+
+export type QueryKey = ReadonlyArray<string | number>;
+
+const MINUTE = 60 * 1000;
+
+export const QUERY_KEYS = {
+  // Prefix of the cached profiles of every user signed in on this device
+  profiles: () => ['profile'] as const,
+  profile: (userId?: string | null) => ['profile', userId || 'current'] as const,
+  // Prefix of everything cached for one patient on the caregiver side
+  patient: (patientId: string) => ['patients', patientId] as const,
+  patientProfile: (patientId: string, userType: string) => ['patients', patientId, 'profile', userType] as const,
+  patientVoiceMessages: (patientId: string) => ['patients', patientId, 'voice-messages'] as const,
+  patientAdherence: (patientId: string, daysBack: number) => ['patients', patientId, 'adherence', daysBack] as const,
+  patientDeviceHealth: (patientId: string) => ['patients', patientId, 'device-health'] as const,
+  doctorPatients: () => ['doctor', 'patients'] as const,
+  // Prefix of the patient's per-day medication lists
+  medications: () => ['patient-medications'] as const,
+  medicationsByDate: (dateKey: string) => ['patient-medications', dateKey] as const,
+};
+
+// How long data counts as fresh; stale data is still shown while it revalidates
+export const QUERY_STALE_TIMES = {
+  DEFAULT: 5 * MINUTE,
+  PROFILE: 30 * MINUTE,
+  PATIENT_PROFILE: 2 * MINUTE,
+  ADHERENCE: 10 * MINUTE,
+  DOCTOR_PATIENTS: 2 * MINUTE,
+  MEDICATIONS_BY_DATE: MINUTE,
+};
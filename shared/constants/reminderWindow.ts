@@ -0,0 +1,28 @@
+/**
+ * Rolling window of reminders kept scheduled on the device
+ */
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+export const IOS_NOTIFICATION_WINDOW = {
+  // iOS keeps at most this many pending local notifications per app
+  MAX_PENDING: 64,
+  // Spacing of the repeated alerts of one dose
+  REPEAT_INTERVAL_MS: MINUTE,
+  // Alerts per dose by distance from now: nearest doses repeat the most, the rest get one
+  REPEAT_TIERS: [
+    { withinMs: 12 * HOUR, repeats: 5 },
+    { withinMs: 48 * HOUR, repeats: 3 },
+  ],
+  FAR_REPEATS: 1,
+  // Upper bound once every dose fits, spent on the nearest ones
+  MAX_REPEATS: 10,
+};
+
+export const REMINDER_REFILL = {
+  // Requested interval of the background refill; the system decides when it actually runs
+  MINIMUM_INTERVAL_MINUTES: 4 * 60,
+  // The dashboard warns when the scheduled doses run out sooner than this
+  COVERAGE_WARNING_MS: 24 * HOUR,
+};
@@ -0,0 +1,40 @@
+/**
+ * Timezones offered in the profile timezone picker
+ * Covers where patients live and travel most; labels are city names, sorted by region
+ */
+
+export const TIME_ZONE_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: 'Africa/Tunis', label: 'Tunis' },
+  { value: 'Africa/Algiers', label: 'Alger' },
+  { value: 'Africa/Casablanca', label: 'Casablanca' },
+  { value: 'Africa/Tripoli', label: 'Tripoli' },
+  { value: 'Africa/Cairo', label: 'Le Caire' },
+  { value: 'Africa/Dakar', label: 'Dakar' },
+  { value: 'Africa/Abidjan', label: 'Abidjan' },
+  { value: 'Europe/London', label: 'Londres' },
+  { value: 'Europe/Paris', label: 'Paris' },
+  { value: 'Europe/Brussels', label: 'Bruxelles' },
+  { value: 'Europe/Berlin', label: 'Berlin' },
+  { value: 'Europe/Madrid', label: 'Madrid' },
+  { value: 'Europe/Rome', label: 'Rome' },
+  { value: 'Europe/Zurich', label: 'Zurich' },
+  { value: 'Europe/Istanbul', label: 'Istanbul' },
+  { value: 'Europe/Moscow', label: 'Moscou' },
+  { value: 'Asia/Beirut', label: 'Beyrouth' },
+  { value: 'Asia/Riyadh', label: 'Riyad' },
+  { value: 'Asia/Qatar', label: 'Doha' },
+  { value: 'Asia/Dubai', label: 'Dubaï' },
+  { value: 'Asia/Karachi', label: 'Karachi' },
+  { value: 'Asia/Kolkata', label: 'Mumbai' },
+  { value: 'Asia/Shanghai', label: 'Pékin' },
+  { value: 'Asia/Tokyo', label: 'Tokyo' },
+  { value: 'Australia/Sydney', label: 'Sydney' },
+  { value: 'America/Montreal', label: 'Montréal' },
+  { value: 'America/Toronto', label: 'Toronto' },
+  { value: 'America/New_York', label: 'New York' },
+  { value: 'America/Chicago', label: 'Chicago' },
+  { value: 'America/Denver', label: 'Denver' },
+  { value: 'America/Los_Angeles', label: 'Los Angeles' },
+  { value: 'America/Sao_Paulo', label: 'São Paulo' },
+  { value: 'UTC', label: 'UTC' },
+];
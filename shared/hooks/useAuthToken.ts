@@ -1,13 +1,15 @@
 import { useState, useEffect, useCallback } from 'react';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useFocusEffect } from 'expo-router';
 import { networkMonitor } from '../services/networkMonitor';
 import { offlineQueueService } from '../services/offlineQueueService';
+import { mutationOutbox } from '../services/mutationOutbox';
 import localReminderService from '../services/localReminderService';
+import { escalationService } from '../services/escalationService';
+import { getAccessToken, getCurrentUser } from '../services/api/session';
 
 /**
  * Custom hook for managing authentication token
- * Automatically loads token from AsyncStorage on mount and when screen comes into focus
+ * Automatically loads token from secure storage on mount and when screen comes into focus
  * This ensures the token is always up-to-date after login
  * 
  * @returns Object with token and isLoading state
@@ -18,7 +20,7 @@ export function useAuthToken(): { token: string | null; isLoading: boolean } {
 
   const loadToken = useCallback(async () => {
     try {
-      const storedToken = await AsyncStorage.getItem('userToken');
+      const storedToken = await getAccessToken();
       setToken(storedToken);
     } catch (error) {
       console.error('Error loading token:', error);
@@ -48,16 +50,17 @@ export function useAuthToken(): { token: string | null; isLoading: boolean } {
         const online = await networkMonitor.isOnline();
         if (online) {
           await offlineQueueService.syncQueue(token);
+          await mutationOutbox.flushOutbox(token);
         }
 
-        const userData = await AsyncStorage.getItem('userData');
-        const user = userData ? JSON.parse(userData) : null;
+        const user = await getCurrentUser();
         const isPatient = user?.userType === 'patient';
 
         if (online && isPatient) {
           try {
             console.log('Starting reminder reconcile (token-load)');
             await localReminderService.reconcileReminders(token);
+            await escalationService.reportOverdueDoses(token);
           } catch (error) {
             console.error('Error reconciling reminders after token load:', error);
           }
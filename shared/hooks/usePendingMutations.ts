@@ -0,0 +1,53 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAuthToken } from './useAuthToken';
+import { mutationOutbox } from '../services/mutationOutbox';
+import { AnyQueuedMutation } from '../types/outbox.types';
+
+/**
+ * Mutations still waiting in the outbox, for optimistic rendering, and those that
+ * failed for good, which the caregiver can retry or discard
+ */
+export function usePendingMutations() {
+  const { token } = useAuthToken();
+  const [queue, setQueue] = useState<AnyQueuedMutation[]>([]);
+
+  useEffect(() => {
+    let isMounted = true;
+    Promise.all([mutationOutbox.getPendingMutations(), mutationOutbox.getFailedMutations()]).then(
+      ([pending, failed]) => {
+        if (isMounted) {
+          setQueue([...pending, ...failed]);
+        }
+      }
+    );
+
+    const listener = (current: AnyQueuedMutation[]) => setQueue(current);
+    mutationOutbox.addListener(listener);
+    return () => {
+      isMounted = false;
+      mutationOutbox.removeListener(listener);
+    };
+  }, []);
+
+  const retryMutation = useCallback(async (mutationId: string) => {
+    await mutationOutbox.retryMutation(mutationId);
+    if (token) {
+      await mutationOutbox.flushOutbox(token);
+    }
+  }, [token]);
+
+  const discardMutation = useCallback(
+    (mutationId: string) => mutationOutbox.discardMutation(mutationId),
+    []
+  );
+
+  const pending = useMemo(() => queue.filter(mutation => mutation.status === 'pending'), [queue]);
+  const failed = useMemo(() => queue.filter(mutation => mutation.status === 'failed'), [queue]);
+
+  return {
+    pending,
+    failed,
+    retryMutation,
+    discardMutation,
+  };
+}
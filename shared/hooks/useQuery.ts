@@ -0,0 +1,121 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { QueryKey } from '../constants/queries';
+import { queryCache } from '../services/queryCache';
+import { networkMonitor } from '../services/networkMonitor';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('queryCache');
+
+interface UseQueryOptions {
+  enabled?: boolean;
+  staleTime?: number;
+}
+
+/**
+ * Render cached data for `key` right away and revalidate it in the background when it is
+ * stale, missing or invalidated. Offline, the cached data is kept as is.
+ *
+ * @returns data (last known value), isLoading (nothing to show yet), isFetching, error,
+ * refetch (always hits the server) and revalidate (only when stale)
+ */
+export function useQuery<T>(
+  key: QueryKey | null,
+  fetcher: () => Promise<T>,
+  options: UseQueryOptions = {}
+) {
+  const { enabled = true, staleTime } = options;
+  const hash = key ? queryCache.hashQueryKey(key) : null;
+  const [data, setData] = useState<T | undefined>(() =>
+    key ? queryCache.peekQuery<T>(key)?.data : undefined
+  );
+  const [isLoading, setIsLoading] = useState(enabled && !!key && data === undefined);
+  const [isFetching, setIsFetching] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+
+  // Latest key and fetcher, so the effects below only depend on the key hash
+  const keyRef = useRef(key);
+  const fetcherRef = useRef(fetcher);
+  keyRef.current = key;
+  fetcherRef.current = fetcher;
+
+  const revalidate = useCallback(async (force: boolean) => {
+    const currentKey = keyRef.current;
+    if (!currentKey || !enabled) return;
+
+    if (networkMonitor.getCurrentState() === false) {
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      setIsFetching(true);
+      const fresh = await queryCache.fetchQuery(currentKey, () => fetcherRef.current(), { staleTime, force });
+      if (keyRef.current === currentKey) {
+        setData(fresh);
+        setError(null);
+      }
+    } catch (fetchError) {
+      // Only the query name: the rest of the key holds patient ids
+      log.error(`❌ Error fetching query ${String(currentKey[0])}:`, fetchError);
+      if (keyRef.current === currentKey) {
+        setError(fetchError);
+      }
+    } finally {
+      setIsFetching(false);
+      setIsLoading(false);
+    }
+  }, [enabled, staleTime]);
+
+  useEffect(() => {
+    const currentKey = keyRef.current;
+    if (!currentKey || !enabled) {
+      setIsLoading(false);
+      return;
+    }
+
+    let isMounted = true;
+    const load = async () => {
+      const entry = await queryCache.getQuery<T>(currentKey);
+      if (!isMounted) return;
+      if (entry) {
+        setData(entry.data);
+        setIsLoading(false);
+      } else {
+        setData(undefined);
+        setIsLoading(true);
+      }
+      if (!entry || queryCache.isStale(entry, staleTime)) {
+        await revalidate(false);
+      }
+    };
+    load();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [hash, enabled, staleTime, revalidate]);
+
+  useEffect(() => {
+    if (!hash || !enabled) return;
+
+    return queryCache.subscribe((event, eventHash) => {
+      if (eventHash !== hash) return;
+      const currentKey = keyRef.current;
+      if (event === 'updated' && currentKey) {
+        const entry = queryCache.peekQuery<T>(currentKey);
+        if (entry) {
+          setData(entry.data);
+        }
+      } else if (event === 'invalidated') {
+        revalidate(true);
+      } else if (event === 'removed') {
+        setData(undefined);
+      }
+    });
+  }, [hash, enabled, revalidate]);
+
+  const refetch = useCallback(() => revalidate(true), [revalidate]);
+  const revalidateIfStale = useCallback(() => revalidate(false), [revalidate]);
+
+  return { data, isLoading, isFetching, error, refetch, revalidate: revalidateIfStale };
+}
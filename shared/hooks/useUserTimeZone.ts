@@ -0,0 +1,17 @@
+import { useState, useEffect } from 'react';
+import { getUserTimeZone, subscribeToTimeZoneChange } from '../utils/timezone';
+
+/**
+ * Current profile timezone (device timezone when unset)
+ * Re-renders the caller whenever the user picks another timezone
+ */
+export function useUserTimeZone(): string {
+  const [timeZone, setTimeZone] = useState<string>(getUserTimeZone());
+
+  useEffect(() => {
+    setTimeZone(getUserTimeZone());
+    return subscribeToTimeZoneChange(setTimeZone);
+  }, []);
+
+  return timeZone;
+}
@@ -0,0 +1,331 @@
+import {
+  applyReconcilePlan,
+  cancelOrphanedNotifications,
+  cleanupLegacyReminders,
+} from '../reminderExecutor';
+import { createReminderStore, REMINDER_STORE_KEYS } from '../reminderStore';
+import { buildFingerprint, planFullReconcile } from '../../utils/reminderPlanner';
+import { IOS_NOTIFICATION_WINDOW } from '../../constants/reminderWindow';
+import {
+  KeyValueStorage,
+  LocalReminder,
+  PendingNotification,
+  ReminderSchedulerAdapter,
+  StoredReminderV2,
+} from '../../types/reminderSync.types';
+
+const NOW = new Date('2026-03-02T08:00:00.000Z');
+const HOUR = 60 * 60 * 1000;
+
+function makeReminder(reminderId: string, hoursFromNow: number, overrides: Partial<LocalReminder> = {}): LocalReminder {
+  return {
+    id: reminderId,
+    reminderId,
+    prescriptionId: `rx-${reminderId}`,
+    medicationName: 'Doliprane',
+    dosage: '1 comprimé',
+    scheduledFor: new Date(NOW.getTime() + hoursFromNow * HOUR).toISOString(),
+    patientId: 'patient-1',
+    ...overrides,
+  };
+}
+
+function createFakeStorage(initial: Record<string, string> = {}): KeyValueStorage & { data: Map<string, string> } {
+  const data = new Map(Object.entries(initial));
+  return {
+    data,
+    getItem: async key => data.get(key) ?? null,
+    setItem: async (key, value) => {
+      data.set(key, value);
+    },
+  };
+}
+
+/** Notification center and alarm manager of a fake device */
+function createFakeScheduler(options: { nativeAlarms?: boolean; pending?: PendingNotification[] } = {}) {
+  const pending: PendingNotification[] = [...(options.pending ?? [])];
+  const cancelledAlarms: string[] = [];
+  const failingReminders = new Set<string>();
+  let nextId = 1;
+
+  const scheduler: ReminderSchedulerAdapter = {
+    nativeAlarms: options.nativeAlarms ?? false,
+    scheduleReminder: jest.fn(async (reminder: LocalReminder, _voicePath: string | null, { iosRepeatCount }) => {
+      if (failingReminders.has(reminder.reminderId)) {
+        throw new Error('scheduling failed');
+      }
+      const notificationIds = Array.from({ length: iosRepeatCount ?? 1 }, () => {
+        const identifier = `notif-${nextId++}`;
+        pending.push({ identifier, reminderId: reminder.reminderId, type: 'medication_reminder' });
+        return identifier;
+      });
+      return { platform: 'expo' as const, notificationIds, scheduledAtMs: new Date(reminder.scheduledFor).getTime() };
+    }),
+    cancelAlarm: jest.fn(async (alarmId: string) => {
+      cancelledAlarms.push(alarmId);
+    }),
+    cancelNotification: jest.fn(async (notificationId: string) => {
+      const index = pending.findIndex(notification => notification.identifier === notificationId);
+      if (index >= 0) {
+        pending.splice(index, 1);
+      }
+    }),
+    getPendingNotifications: jest.fn(async () => [...pending]),
+    ensureVoice: jest.fn(async () => ({ path: null, downloaded: false })),
+  };
+
+  return { scheduler, pending, cancelledAlarms, failingReminders };
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('reminder store', () => {
+  const legacy = {
+    r1: { notificationId: 'notif-1', medicationName: 'Doliprane', dosage: '1 comprimé' },
+    r2: { notificationId: 'notif-2', medicationName: 'Ventoline', dosage: '2 bouffées' },
+  };
+
+  it('migrates V1 reminders to V2 records once', async () => {
+    const storage = createFakeStorage({ [REMINDER_STORE_KEYS.REMINDERS_V1]: JSON.stringify(legacy) });
+    const store = createReminderStore(storage, { nativeAlarms: false });
+
+    const migrated = await store.loadRemindersV2();
+
+    expect(Object.keys(migrated)).toEqual(['r1', 'r2']);
+    expect(migrated.r1.schedule.notificationIds).toEqual(['notif-1']);
+    expect(storage.data.get(REMINDER_STORE_KEYS.MIGRATION_V1_DONE)).toBe('true');
+    expect(JSON.parse(storage.data.get(REMINDER_STORE_KEYS.REMINDERS_V2) as string)).toEqual(migrated);
+
+    // V1 entries written afterwards (legacy code paths) are not migrated again
+    await store.persistRemindersV1({ ...legacy, r3: { notificationId: 'notif-3', medicationName: '', dosage: '' } });
+    expect(Object.keys(await store.loadRemindersV2())).toEqual(['r1', 'r2']);
+  });
+
+  it('migrates again from V1 when the V2 records are unreadable', async () => {
+    const storage = createFakeStorage({
+      [REMINDER_STORE_KEYS.REMINDERS_V1]: JSON.stringify(legacy),
+      [REMINDER_STORE_KEYS.REMINDERS_V2]: '{not json',
+    });
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const migrated = await createReminderStore(storage, { nativeAlarms: true }).loadRemindersV2();
+
+    expect(migrated.r2.schedule).toMatchObject({ platform: 'android_native', alarmId: 'r2' });
+  });
+
+  it('starts empty without any stored reminders', async () => {
+    const store = createReminderStore(createFakeStorage(), { nativeAlarms: false });
+    expect(await store.loadRemindersV2()).toEqual({});
+  });
+});
+
+describe('applyReconcilePlan', () => {
+  it('schedules, updates and cancels through the adapter', async () => {
+    const { scheduler, pending } = createFakeScheduler();
+    const changed = makeReminder('changed', 3);
+    const existing: StoredReminderV2 = {
+      reminderId: 'changed',
+      prescriptionId: changed.prescriptionId,
+      patientId: changed.patientId,
+      scheduledFor: changed.scheduledFor,
+      medicationName: changed.medicationName,
+      dosage: changed.dosage,
+      schedule: { platform: 'expo', notificationIds: ['old-1'], scheduledAtMs: 0 },
+      fingerprint: buildFingerprint(changed),
+      lastSyncedAt: NOW.toISOString(),
+    };
+    const stale: StoredReminderV2 = { ...existing, reminderId: 'stale', schedule: { ...existing.schedule, notificationIds: ['old-2'] } };
+    pending.push(
+      { identifier: 'old-1', reminderId: 'changed', type: 'medication_reminder' },
+      { identifier: 'old-2', reminderId: 'stale', type: 'medication_reminder' }
+    );
+    const updatedReminder = { ...changed, dosage: '2 comprimés' };
+
+    const result = await applyReconcilePlan(
+      {
+        operations: [
+          { type: 'cancel', record: stale, reason: 'stale' },
+          { type: 'update', reminder: updatedReminder, existing },
+          { type: 'schedule', reminder: makeReminder('new', 4) },
+        ],
+        deferredReminders: 0,
+      },
+      { changed: existing, stale },
+      scheduler
+    );
+
+    expect(result).toMatchObject({ scheduled: 1, updated: 1, removed: 1, audioDownloaded: 0 });
+    expect(Object.keys(result.local).sort()).toEqual(['changed', 'new']);
+    expect(result.local.changed.dosage).toBe('2 comprimés');
+    expect(result.local.changed.fingerprint).toBe(buildFingerprint(updatedReminder));
+    expect(pending.map(notification => notification.identifier)).not.toContain('old-1');
+    expect(pending.map(notification => notification.identifier)).not.toContain('old-2');
+  });
+
+  it('keeps the previous schedule when rescheduling fails', async () => {
+    const { scheduler, pending, failingReminders } = createFakeScheduler();
+    const reminder = makeReminder('r1', 2);
+    const existing: StoredReminderV2 = {
+      reminderId: 'r1',
+      prescriptionId: reminder.prescriptionId,
+      patientId: reminder.patientId,
+      scheduledFor: reminder.scheduledFor,
+      medicationName: reminder.medicationName,
+      dosage: reminder.dosage,
+      schedule: { platform: 'expo', notificationIds: ['old-1'], scheduledAtMs: 0 },
+      fingerprint: 'legacy',
+      lastSyncedAt: NOW.toISOString(),
+    };
+    pending.push({ identifier: 'old-1', reminderId: 'r1', type: 'medication_reminder' });
+    failingReminders.add('r1');
+
+    const result = await applyReconcilePlan(
+      { operations: [{ type: 'update', reminder, existing }], deferredReminders: 0 },
+      { r1: existing },
+      scheduler
+    );
+
+    expect(result.updated).toBe(0);
+    expect(result.local.r1).toBe(existing);
+    expect(pending).toHaveLength(1);
+  });
+
+  it('cancels the native alarm of a removed reminder on Android', async () => {
+    const { scheduler, cancelledAlarms } = createFakeScheduler({ nativeAlarms: true });
+    const record: StoredReminderV2 = {
+      reminderId: 'r1',
+      prescriptionId: 'rx',
+      patientId: 'patient-1',
+      scheduledFor: NOW.toISOString(),
+      medicationName: 'Doliprane',
+      dosage: '1 comprimé',
+      schedule: { platform: 'android_native', alarmId: 'alarm-r1', scheduledAtMs: 0 },
+      fingerprint: 'f',
+      lastSyncedAt: NOW.toISOString(),
+    };
+
+    const result = await applyReconcilePlan(
+      { operations: [{ type: 'cancel', record, reason: 'stale' }], deferredReminders: 0 },
+      { r1: record },
+      scheduler
+    );
+
+    expect(cancelledAlarms).toEqual(['alarm-r1']);
+    expect(result.local).toEqual({});
+  });
+
+  it('keeps the iOS window within the notification limit across reconciles', async () => {
+    const { scheduler, pending } = createFakeScheduler({
+      pending: [{ identifier: 'test', reminderId: null, type: 'test_critical_alert' }],
+    });
+    const remote = Array.from({ length: 60 }, (_, index) => makeReminder(`r${index}`, 1 + index * 4));
+
+    let local: Record<string, StoredReminderV2> = {};
+    for (const hoursLater of [0, 13, 30]) {
+      const now = new Date(NOW.getTime() + hoursLater * HOUR);
+      const upcoming = remote.filter(reminder => new Date(reminder.scheduledFor).getTime() > now.getTime() - HOUR);
+      // Alerts of doses that have passed have fired
+      for (const notification of [...pending]) {
+        const dose = remote.find(reminder => reminder.reminderId === notification.reminderId);
+        if (dose && new Date(dose.scheduledFor).getTime() <= now.getTime()) {
+          pending.splice(pending.indexOf(notification), 1);
+        }
+      }
+
+      const plan = planFullReconcile({
+        remote: upcoming,
+        local,
+        platform: 'ios',
+        pendingNotifications: await scheduler.getPendingNotifications(),
+        now,
+      });
+      const result = await applyReconcilePlan(plan, local, scheduler);
+      await cancelOrphanedNotifications(new Set(upcoming.map(reminder => reminder.reminderId)), result.local, scheduler);
+      local = result.local;
+
+      expect(pending.length).toBeLessThanOrEqual(IOS_NOTIFICATION_WINDOW.MAX_PENDING);
+      expect(pending.length).toBeGreaterThan(IOS_NOTIFICATION_WINDOW.MAX_PENDING - IOS_NOTIFICATION_WINDOW.MAX_REPEATS);
+      // The window moves forward: the next dose is always scheduled
+      const nextDose = upcoming.find(reminder => new Date(reminder.scheduledFor).getTime() > now.getTime());
+      expect(local[nextDose!.reminderId]).toBeDefined();
+    }
+  });
+});
+
+describe('cancelOrphanedNotifications', () => {
+  it('cancels the notifications no stored schedule accounts for', async () => {
+    const { scheduler, pending } = createFakeScheduler({
+      pending: [
+        { identifier: 'kept', reminderId: 'r1', type: 'medication_reminder' },
+        { identifier: 'orphan', reminderId: 'gone', type: 'medication_reminder' },
+        { identifier: 'other', reminderId: null, type: 'test_critical_alert' },
+      ],
+    });
+    const reminder = makeReminder('r1', 2);
+    const local: Record<string, StoredReminderV2> = {
+      r1: {
+        reminderId: 'r1',
+        prescriptionId: reminder.prescriptionId,
+        patientId: reminder.patientId,
+        scheduledFor: reminder.scheduledFor,
+        medicationName: reminder.medicationName,
+        dosage: reminder.dosage,
+        schedule: { platform: 'expo', notificationIds: ['kept'], scheduledAtMs: 0 },
+        fingerprint: buildFingerprint(reminder),
+        lastSyncedAt: NOW.toISOString(),
+      },
+    };
+
+    const cancelled = await cancelOrphanedNotifications(new Set(['r1']), local, scheduler);
+
+    expect(cancelled).toBe(1);
+    expect(pending.map(notification => notification.identifier)).toEqual(['kept', 'other']);
+  });
+
+  it('reports nothing cancelled when pending notifications cannot be read', async () => {
+    const { scheduler } = createFakeScheduler();
+    (scheduler.getPendingNotifications as jest.Mock).mockRejectedValueOnce(new Error('unavailable'));
+
+    expect(await cancelOrphanedNotifications(new Set(), {}, scheduler)).toBe(0);
+  });
+});
+
+describe('cleanupLegacyReminders', () => {
+  it('cancels and forgets V1 entries the server dropped', async () => {
+    const storage = createFakeStorage({
+      [REMINDER_STORE_KEYS.REMINDERS_V1]: JSON.stringify({
+        r1: { notificationId: 'legacy-1', medicationName: '', dosage: '' },
+        r2: { notificationId: 'legacy-2', medicationName: '', dosage: '' },
+      }),
+    });
+    const store = createReminderStore(storage, { nativeAlarms: true });
+    const { scheduler, cancelledAlarms } = createFakeScheduler({ nativeAlarms: true });
+    const local: Record<string, StoredReminderV2> = {
+      r1: {
+        reminderId: 'r1',
+        prescriptionId: 'rx',
+        patientId: 'patient-1',
+        scheduledFor: NOW.toISOString(),
+        medicationName: '',
+        dosage: '',
+        schedule: { platform: 'expo', notificationIds: ['legacy-1'], scheduledAtMs: 0 },
+        fingerprint: 'f',
+        lastSyncedAt: NOW.toISOString(),
+      },
+    };
+
+    const cleaned = await cleanupLegacyReminders(new Set(['r1']), local, store, scheduler);
+
+    expect(cleaned).toBe(1);
+    expect(scheduler.cancelNotification).toHaveBeenCalledWith('legacy-2');
+    expect(cancelledAlarms).toEqual(['legacy-2']);
+    expect(Object.keys(await store.loadRemindersV1())).toEqual(['r1']);
+  });
+});
@@ -1,4 +1,8 @@
 import { NativeModules, NativeEventEmitter, PermissionsAndroid, Platform } from 'react-native';
+import { DEFAULT_SNOOZE_POLICY } from '../constants/medications';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('alarms');
 
 const { MedicationAlarmModule } = NativeModules;
 
@@ -26,6 +30,9 @@ export interface ScheduleAlarmParams {
   audioPath?: string | null;
   reminderId: string;
   patientId: string;
+  // Snooze policy of the dose; the native alarm offers no snooze once none remain
+  snoozeMinutes?: number;
+  snoozesRemaining?: number;
 }
 
 /**
@@ -47,17 +54,18 @@ class AlarmService {
    */
   async scheduleAlarm(params: ScheduleAlarmParams): Promise<{ success: boolean; alarmId: string }> {
     if (!this.isAvailable()) {
-      console.warn('⚠️ Alarm service not available on this platform');
+      log.warn('⚠️ Alarm service not available on this platform');
       return { success: false, alarmId: params.alarmId };
     }
 
     try {
       const triggerTimeMillis = params.triggerTime.getTime();
 
-      console.log(`⏰ Scheduling native alarm: ${params.medicationName} at ${params.triggerTime.toLocaleString()}`);
+      log.info(`⏰ Scheduling native alarm ${params.alarmId} at ${params.triggerTime.toISOString()}`);
 
       // Native module signature:
-      // scheduleAlarm(reminderId, triggerTimeMs, medicationName, dosage, instructions, patientId, audioPath)
+      // scheduleAlarm(reminderId, triggerTimeMs, medicationName, dosage, instructions, patientId, audioPath,
+      //   snoozeMinutes, snoozesRemaining)
       const result = await MedicationAlarmModule.scheduleAlarm(
         params.alarmId,
         triggerTimeMillis,
@@ -65,13 +73,15 @@ class AlarmService {
         params.dosage,
         params.instructions || '',
         params.patientId || '',
-        params.audioPath || null
+        params.audioPath || null,
+        params.snoozeMinutes ?? DEFAULT_SNOOZE_POLICY.durationMinutes,
+        Math.max(0, params.snoozesRemaining ?? DEFAULT_SNOOZE_POLICY.maxSnoozes)
       );
 
-      console.log('✅ Native alarm scheduled:', result);
+      log.info('✅ Native alarm scheduled:', result);
       return { success: result, alarmId: params.alarmId };
     } catch (error) {
-      console.error('❌ Failed to schedule native alarm:', error);
+      log.error('❌ Failed to schedule native alarm:', error);
       throw error;
     }
   }
@@ -81,17 +91,17 @@ class AlarmService {
    */
   async testAlarm(medicationName: string = 'Test Medication', dosage: string = '500mg'): Promise<boolean> {
     if (!this.isAvailable()) {
-      console.warn('⚠️ Alarm service not available on this platform');
+      log.warn('⚠️ Alarm service not available on this platform');
       return false;
     }
 
     try {
-      console.log(`🧪 Testing alarm for: ${medicationName}`);
+      log.info('🧪 Testing alarm');
       const result = await MedicationAlarmModule.testAlarm(medicationName, dosage);
-      console.log('✅ Test alarm triggered:', result);
+      log.info('✅ Test alarm triggered:', result);
       return result;
     } catch (error) {
-      console.error('❌ Failed to trigger test alarm:', error);
+      log.error('❌ Failed to trigger test alarm:', error);
       throw error;
     }
   }
@@ -108,7 +118,7 @@ class AlarmService {
       const result = await MedicationAlarmModule.openExactAlarmSettings();
       return result;
     } catch (error) {
-      console.error('❌ Failed to open alarm settings:', error);
+      log.error('❌ Failed to open alarm settings:', error);
       return false;
     }
   }
@@ -123,10 +133,10 @@ class AlarmService {
 
     try {
       const result = await MedicationAlarmModule.cancelAlarm(alarmId);
-      console.log(`✅ Alarm cancelled: ${alarmId}`);
+      log.info(`✅ Alarm cancelled: ${alarmId}`);
       return result;
     } catch (error) {
-      console.error('❌ Failed to cancel alarm:', error);
+      log.error('❌ Failed to cancel alarm:', error);
       throw error;
     }
   }
@@ -141,10 +151,10 @@ class AlarmService {
 
     try {
       const result = await MedicationAlarmModule.stopAlarm();
-      console.log('✅ Alarm stopped');
+      log.info('✅ Alarm stopped');
       return result;
     } catch (error) {
-      console.error('❌ Failed to stop alarm:', error);
+      log.error('❌ Failed to stop alarm:', error);
       throw error;
     }
   }
@@ -159,16 +169,16 @@ class AlarmService {
 
     try {
       const result = await MedicationAlarmModule.confirmMedication();
-      console.log('✅ Medication confirmed');
+      log.info('✅ Medication confirmed');
       return result;
     } catch (error) {
-      console.error('❌ Failed to confirm medication:', error);
+      log.error('❌ Failed to confirm medication:', error);
       throw error;
     }
   }
 
   /**
-   * Snooze the alarm for 5 minutes
+   * Stop the ringing alarm; the native screen schedules the snooze itself
    */
   async snoozeAlarm(): Promise<boolean> {
     if (!this.isAvailable()) {
@@ -177,10 +187,10 @@ class AlarmService {
 
     try {
       const result = await MedicationAlarmModule.snoozeAlarm();
-      console.log('✅ Alarm snoozed for 5 minutes');
+      log.info('✅ Alarm snoozed');
       return result;
     } catch (error) {
-      console.error('❌ Failed to snooze alarm:', error);
+      log.error('❌ Failed to snooze alarm:', error);
       throw error;
     }
   }
@@ -196,7 +206,7 @@ class AlarmService {
     try {
       return await MedicationAlarmModule.isAlarmActive();
     } catch (error) {
-      console.error('❌ Failed to check alarm status:', error);
+      log.error('❌ Failed to check alarm status:', error);
       return false;
     }
   }
@@ -212,7 +222,7 @@ class AlarmService {
     try {
       return await MedicationAlarmModule.getCurrentAlarmData();
     } catch (error) {
-      console.error('❌ Failed to get alarm data:', error);
+      log.error('❌ Failed to get alarm data:', error);
       return null;
     }
   }
@@ -228,7 +238,7 @@ class AlarmService {
     try {
       return await MedicationAlarmModule.canScheduleExactAlarms();
     } catch (error) {
-      console.error('❌ Failed to check exact alarm permission:', error);
+      log.error('❌ Failed to check exact alarm permission:', error);
       return false;
     }
   }
@@ -240,7 +250,7 @@ class AlarmService {
     try {
       return await MedicationAlarmModule.canDrawOverlays();
     } catch (error) {
-      console.error('❌ Failed to check overlay permission:', error);
+      log.error('❌ Failed to check overlay permission:', error);
       return false;
     }
   }
@@ -252,7 +262,7 @@ class AlarmService {
     try {
       return await MedicationAlarmModule.openOverlaySettings();
     } catch (error) {
-      console.error('❌ Failed to open overlay settings:', error);
+      log.error('❌ Failed to open overlay settings:', error);
       return false;
     }
   }
@@ -264,7 +274,7 @@ class AlarmService {
     try {
       return await MedicationAlarmModule.isIgnoringBatteryOptimizations();
     } catch (error) {
-      console.error('❌ Failed to check battery optimization status:', error);
+      log.error('❌ Failed to check battery optimization status:', error);
       return false;
     }
   }
@@ -276,7 +286,7 @@ class AlarmService {
     try {
       return await MedicationAlarmModule.requestIgnoreBatteryOptimizations();
     } catch (error) {
-      console.error('❌ Failed to request ignore battery optimizations:', error);
+      log.error('❌ Failed to request ignore battery optimizations:', error);
       return false;
     }
   }
@@ -293,7 +303,7 @@ class AlarmService {
         );
       }
     } catch (error) {
-      console.error('❌ Failed to request notification permission:', error);
+      log.error('❌ Failed to request notification permission:', error);
     }
 
     try {
@@ -302,7 +312,7 @@ class AlarmService {
         await this.openExactAlarmSettings();
       }
     } catch (error) {
-      console.error('❌ Failed to request exact alarm permission:', error);
+      log.error('❌ Failed to request exact alarm permission:', error);
     }
 
     try {
@@ -311,7 +321,7 @@ class AlarmService {
         await this.openOverlaySettings();
       }
     } catch (error) {
-      console.error('❌ Failed to request overlay permission:', error);
+      log.error('❌ Failed to request overlay permission:', error);
     }
 
     try {
@@ -320,7 +330,7 @@ class AlarmService {
         await this.requestIgnoreBatteryOptimizations();
       }
     } catch (error) {
-      console.error('❌ Failed to request battery optimization exemption:', error);
+      log.error('❌ Failed to request battery optimization exemption:', error);
     }
   }
 
@@ -328,17 +338,17 @@ class AlarmService {
    * Get pending confirmations made from native alarm UI
    * These are confirmations made when the app was killed/background
    */
-  async getPendingConfirmations(): Promise<{ reminderId: string; timestamp: number }[]> {
+  async getPendingConfirmations(): Promise<{ reminderId: string; timestamp: number; idempotencyKey?: string }[]> {
     if (!this.isAvailable()) {
       return [];
     }
 
     try {
       const confirmations = await MedicationAlarmModule.getPendingConfirmations();
-      console.log(`📥 Got ${confirmations.length} pending confirmations from native`);
+      log.info(`📥 Got ${confirmations.length} pending confirmations from native`);
       return confirmations;
     } catch (error) {
-      console.error('❌ Failed to get pending confirmations:', error);
+      log.error('❌ Failed to get pending confirmations:', error);
       return [];
     }
   }
@@ -353,10 +363,42 @@ class AlarmService {
 
     try {
       await MedicationAlarmModule.clearPendingConfirmations();
-      console.log('🧹 Cleared pending confirmations');
+      log.info('🧹 Cleared pending confirmations');
+      return true;
+    } catch (error) {
+      log.error('❌ Failed to clear pending confirmations:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Doses marked missed from the native alarm once their snoozes were used up
+   */
+  async getPendingMissedDoses(): Promise<{ reminderId: string; timestamp: number }[]> {
+    if (!this.isAvailable()) {
+      return [];
+    }
+
+    try {
+      const missedDoses = await MedicationAlarmModule.getPendingMissedDoses();
+      log.info(`📥 Got ${missedDoses.length} pending missed doses from native`);
+      return missedDoses;
+    } catch (error) {
+      log.error('❌ Failed to get pending missed doses:', error);
+      return [];
+    }
+  }
+
+  async clearPendingMissedDoses(): Promise<boolean> {
+    if (!this.isAvailable()) {
+      return false;
+    }
+
+    try {
+      await MedicationAlarmModule.clearPendingMissedDoses();
       return true;
     } catch (error) {
-      console.error('❌ Failed to clear pending confirmations:', error);
+      log.error('❌ Failed to clear pending missed doses:', error);
       return false;
     }
   }
@@ -1,6 +1,9 @@
 import Constants from 'expo-constants';
 import { request } from './client';
 import { AuthResponse, LoginCredentials, RegisterData } from '../../types/auth.types';
+import { createLogger } from '../../utils/logger';
+
+const log = createLogger('auth');
 
 export async function login(credentials: LoginCredentials) {
   let pushToken = null;
@@ -15,7 +18,7 @@ export async function login(credentials: LoginCredentials) {
       false;
 
     if (!isDevice) {
-      console.log('WARN Skipping push token (not a physical device)');
+      log.info('Skipping push token (not a physical device)');
     } else {
       const existingPermissions = await (Notifications as any).getPermissionsAsync();
       let status = existingPermissions?.status;
@@ -33,16 +36,16 @@ export async function login(credentials: LoginCredentials) {
             projectId,
           });
           pushToken = expoToken.data;
-          console.log('OK Real push token generated for login:', pushToken?.substring(0, 40) + '...');
+          log.info('Push token generated for login');
         } catch (tokenError) {
-          console.log('WARN Failed to get push token:', tokenError);
+          log.warn('Failed to get push token:', tokenError);
         }
       } else {
-        console.log('WARN Push permission not granted');
+        log.info('Push permission not granted');
       }
     }
   } catch (error) {
-    console.log('WARN Push token generation failed:', error);
+    log.warn('Push token generation failed:', error);
   }
 
   const loginData: any = { 
@@ -51,12 +54,9 @@ export async function login(credentials: LoginCredentials) {
   };
   if (pushToken) {
     loginData.pushToken = pushToken;
-    console.log(
-      'Sending push token with login:',
-      pushToken.substring(0, 30) + '...'
-    );
+    log.info('Sending push token with login');
   } else {
-    console.log('No push token available to send with login');
+    log.info('No push token available to send with login');
   }
 
   return request<AuthResponse>('/auth/login', {
@@ -72,6 +72,13 @@ export async function register(userData: RegisterData) {
   });
 }
 
+export async function refreshSession(refreshToken: string) {
+  return request<AuthResponse>('/auth/refresh', {
+    method: 'POST',
+    body: JSON.stringify({ refreshToken }),
+  });
+}
+
 export async function requestPasswordReset(emailOrPhone: string) {
   return request('/auth/send-verification-code', {
     method: 'POST',
@@ -1,5 +1,9 @@
 import { request } from './client';
-import { Patient } from '../../types';
+import { callEndpoint, ENDPOINTS } from './endpoints';
+import { Patient, PrescriptionCreatePayload, PrescriptionUpdatePayload } from '../../types';
+import { MissedDoseAlert } from '../../types/escalation.types';
+import { IF_MATCH_HEADER } from '../../utils/conflicts';
+import { createIdempotencyKey, IDEMPOTENCY_HEADER } from '../../utils/idempotency';
 
 export async function getDoctorPatients(token: string) {
   return request<Patient[]>(`/medecin/patients`, {
@@ -9,23 +13,24 @@ export async function getDoctorPatients(token: string) {
 }
 
 export async function getDoctorDashboard(token: string) {
-  return request(`/medecin/dashboard`, {
-    method: 'GET',
-    headers: { 'Authorization': `Bearer ${token}` },
-  });
+  return callEndpoint(ENDPOINTS.getDoctorDashboard, { token });
 }
 
 export async function getPatientDetails(token: string, patientId: string, userType?: 'medecin' | 'tuteur') {
   // Use the appropriate endpoint based on user type
-  // Both endpoints should work, but we'll try tutor first, then medecin if needed
-  const endpoint = userType === 'medecin' 
-    ? `/medecin/patients/${patientId}/profile`
-    : `/tutor/patients/${patientId}/profile`;
-  
-  return request(endpoint, {
-    method: 'GET',
-    headers: { 'Authorization': `Bearer ${token}` },
-  });
+  const endpoint = userType === 'medecin'
+    ? ENDPOINTS.getDoctorPatientDetails
+    : ENDPOINTS.getTutorPatientDetails;
+
+  return callEndpoint(endpoint, { token, params: { patientId } });
+}
+
+export async function getPatientDeviceHealth(token: string, patientId: string, userType?: 'medecin' | 'tuteur') {
+  const endpoint = userType === 'medecin'
+    ? ENDPOINTS.getDoctorPatientDeviceHealth
+    : ENDPOINTS.getTutorPatientDeviceHealth;
+
+  return callEndpoint(endpoint, { token, params: { patientId } });
 }
 
 export async function deletePatient(token: string, patientId: string) {
@@ -38,26 +43,13 @@ export async function deletePatient(token: string, patientId: string) {
 export async function createPrescription(
   token: string,
   patientId: string,
-  prescriptionData: {
-    medicationName: string;
-    medicationGenericName?: string;
-    medicationDosage?: string;
-    medicationForm?: string;
-    medicationDescription?: string;
-    customDosage?: string;
-    instructions?: string;
-    schedules: Array<{ time: string; days: number[] }>;
-    voiceMessageId?: string | null;
-    isChronic?: boolean;
-    endDate?: string;
-    scheduleType?: 'daily' | 'weekly' | 'interval' | 'monthly' | 'custom';
-    intervalHours?: number;
-    repeatWeeks?: number;
-  }
+  prescriptionData: PrescriptionCreatePayload,
+  // The same on every replay of a queued creation, so the server creates it once
+  idempotencyKey: string = createIdempotencyKey('prescription')
 ) {
   return request(`/tutor/patients/${patientId}/prescriptions`, {
     method: 'POST',
-    headers: { 'Authorization': `Bearer ${token}` },
+    headers: { 'Authorization': `Bearer ${token}`, [IDEMPOTENCY_HEADER]: idempotencyKey },
     body: JSON.stringify({ patientId, ...prescriptionData }),
   });
 }
@@ -65,22 +57,16 @@ export async function createPrescription(
 export async function updatePrescription(
   token: string,
   prescriptionId: string,
-  prescriptionData: {
-    medicationName?: string;
-    customDosage?: string;
-    instructions?: string;
-    schedules?: Array<{ time: string; days: number[] }>;
-    voiceMessageId?: string | null;
-    isChronic?: boolean;
-    endDate?: string;
-    scheduleType?: 'daily' | 'weekly' | 'interval' | 'monthly' | 'custom';
-    intervalHours?: number;
-    repeatWeeks?: number;
-  }
+  prescriptionData: PrescriptionUpdatePayload,
+  // Version the edit is based on; the server answers 409/412 when it has a newer one
+  ifMatch?: string | null
 ) {
   return request(`/tutor/prescriptions/${prescriptionId}`, {
     method: 'PUT',
-    headers: { 'Authorization': `Bearer ${token}` },
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      ...(ifMatch ? { [IF_MATCH_HEADER]: ifMatch } : {}),
+    },
     body: JSON.stringify(prescriptionData),
   });
 }
@@ -107,12 +93,36 @@ export async function getDoctorPatientMedications(token: string, patientId: stri
 }
 
 export async function getPatientAdherenceHistory(token: string, patientId: string, daysBack: number = 30) {
-  return request(`/tutor/patients/${patientId}/adherence-history?days=${daysBack}`, {
+  return callEndpoint(ENDPOINTS.getPatientAdherenceHistory, {
+    token,
+    params: { patientId },
+    query: { days: daysBack },
+  });
+}
+
+// Doctors and tutors each read the alerts of their own patients
+function getMissedDoseAlertsPath(userType?: 'medecin' | 'tuteur') {
+  return userType === 'medecin' ? '/medecin/alerts/missed-doses' : '/tutor/alerts/missed-doses';
+}
+
+export async function getMissedDoseAlerts(
+  token: string,
+  status: 'open' | 'all' = 'open',
+  userType?: 'medecin' | 'tuteur'
+) {
+  return request<{ alerts: MissedDoseAlert[] }>(`${getMissedDoseAlertsPath(userType)}?status=${status}`, {
     method: 'GET',
     headers: { 'Authorization': `Bearer ${token}` },
   });
 }
 
+export async function acknowledgeMissedDoseAlert(token: string, alertId: string, userType?: 'medecin' | 'tuteur') {
+  return request<MissedDoseAlert>(`${getMissedDoseAlertsPath(userType)}/${alertId}/acknowledge`, {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${token}` },
+  });
+}
+
 export async function deleteVoiceMessage(token: string, messageId: string) {
   return request(`/tutor/voice-messages/${messageId}`, {
     method: 'DELETE',
@@ -122,7 +132,8 @@ export async function deleteVoiceMessage(token: string, messageId: string) {
 
 export async function uploadVoiceMessage(
   token: string,
-  payload: { fileBase64: string; fileName?: string; mimeType?: string }
+  payload: { fileBase64: string; fileName?: string; mimeType?: string },
+  idempotencyKey: string = createIdempotencyKey('voice_upload')
 ) {
   return request<{
     fileUrl: string;
@@ -134,7 +145,7 @@ export async function uploadVoiceMessage(
     audioFormat?: string;
   }>('/tutor/voice-messages/upload', {
     method: 'POST',
-    headers: { 'Authorization': `Bearer ${token}` },
+    headers: { 'Authorization': `Bearer ${token}`, [IDEMPOTENCY_HEADER]: idempotencyKey },
     body: JSON.stringify(payload),
   });
 }
@@ -150,29 +161,28 @@ export async function createVoiceMessage(
     audioChecksum?: string;
     audioVersion?: number;
     audioFormat?: string;
-  }
+  },
+  idempotencyKey: string = createIdempotencyKey('voice_message')
 ) {
   return request<{ id: string }>('/tutor/voice-messages', {
     method: 'POST',
-    headers: { 'Authorization': `Bearer ${token}` },
+    headers: { 'Authorization': `Bearer ${token}`, [IDEMPOTENCY_HEADER]: idempotencyKey },
     body: JSON.stringify(payload),
   });
 }
 
 export async function getPatientVoiceMessages(token: string, patientId: string) {
-  return request(`/tutor/patients/${patientId}/voice-messages`, {
-    method: 'GET',
-    headers: { 'Authorization': `Bearer ${token}` },
-  });
+  return callEndpoint(ENDPOINTS.getPatientVoiceMessages, { token, params: { patientId } });
 }
 
 export async function sendPatientInvitation(
   token: string,
-  invitationData: { firstName: string; lastName: string; phoneNumber: string }
+  invitationData: { firstName: string; lastName: string; phoneNumber: string },
+  idempotencyKey: string = createIdempotencyKey('invite')
 ) {
   return request('/tutor/patients/invite', {
     method: 'POST',
-    headers: { 'Authorization': `Bearer ${token}` },
+    headers: { 'Authorization': `Bearer ${token}`, [IDEMPOTENCY_HEADER]: idempotencyKey },
     body: JSON.stringify(invitationData),
   });
 }
@@ -1,19 +1,187 @@
 import { getApiConfig } from '../../../config/api';
 import { ApiResponse } from '../../../shared/types';
+import { expireSession, getAccessToken, refreshAccessToken } from './session';
+import { IDEMPOTENCY_HEADER } from '../../utils/idempotency';
+import {
+  AbortedError,
+  ApiError,
+  AuthError,
+  createHttpError,
+  NetworkError,
+  ParseError,
+  TimeoutError,
+} from './errors';
+import { createLogger } from '../../utils/logger';
+
+const log = createLogger('api');
 
 const API_CONFIG = getApiConfig();
 
-export async function request<T>(endpoint: string, options: RequestInit = {}): Promise<ApiResponse<T>> {
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+const MAX_RETRY_AFTER_MS = 30000;
+
+export interface RequestOptions extends RequestInit {
+  // Attach the session token; defaults to true when the caller passes a Bearer header
+  auth?: boolean;
+}
+
+/**
+ * Only replay requests the server can safely see twice: reads, and writes that
+ * carry an idempotency key
+ */
+function isRetryable(options: RequestInit): boolean {
+  const method = (options.method || 'GET').toUpperCase();
+  if (method === 'GET' || method === 'HEAD') {
+    return true;
+  }
+  return !!(options.headers as Record<string, string> | undefined)?.[IDEMPOTENCY_HEADER];
+}
+
+function isTransientError(error: unknown): boolean {
+  if (error instanceof TimeoutError || error instanceof NetworkError) {
+    return true;
+  }
+  return error instanceof ApiError && RETRYABLE_STATUSES.includes(error.status ?? 0);
+}
+
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  const delay = Number.isFinite(seconds) ? seconds * 1000 : new Date(value).getTime() - Date.now();
+  return Number.isFinite(delay) && delay >= 0 ? Math.min(delay, MAX_RETRY_AFTER_MS) : undefined;
+}
+
+/**
+ * Retry-After when the server sent one, otherwise exponential backoff with jitter
+ */
+function getRetryDelay(error: unknown, attempt: number): number {
+  if (error instanceof ApiError && typeof error.retryAfterMs === 'number') {
+    return error.retryAfterMs;
+  }
+  const backoff = API_CONFIG.RETRY_DELAY * 2 ** attempt;
+  return Math.round(backoff / 2 + Math.random() * (backoff / 2));
+}
+
+function waitForRetry(delayMs: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortedError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AbortedError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delayMs);
+    signal?.addEventListener('abort', onAbort);
+  });
+}
+
+async function sendWithRetry<T>(endpoint: string, options: RequestInit): Promise<ApiResponse<T>> {
+  const maxRetries = isRetryable(options) ? API_CONFIG.MAX_RETRIES : 0;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await sendRequest<T>(endpoint, options);
+    } catch (error) {
+      if (attempt >= maxRetries || !isTransientError(error)) {
+        throw error;
+      }
+      const delay = getRetryDelay(error, attempt);
+      log.warn(`🔁 Retrying ${endpoint.split('?')[0]} in ${delay}ms (${attempt + 1}/${maxRetries})`);
+      await waitForRetry(delay, options.signal);
+    }
+  }
+}
+
+function getBearerToken(headers?: HeadersInit): string | null {
+  const authorization = (headers as Record<string, string> | undefined)?.Authorization;
+  return authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : null;
+}
+
+function withBearer(options: RequestInit, token: string): RequestInit {
+  return {
+    ...options,
+    headers: { ...(options.headers as Record<string, string>), 'Authorization': `Bearer ${token}` },
+  };
+}
+
+function isUnauthorized(error: unknown): boolean {
+  return error instanceof AuthError && error.status === 401;
+}
+
+function buildSessionExpiredError(cause: unknown): AuthError {
+  return new AuthError({ status: 401, sessionExpired: true, cause });
+}
+
+/**
+ * Authenticated requests use the latest session token (callers may hold a token that
+ * was refreshed since), refresh it once on 401 and log out when that is not possible.
+ */
+export async function request<T>(endpoint: string, options: RequestOptions = {}): Promise<ApiResponse<T>> {
+  const { auth, ...init } = options;
+  const callerToken = getBearerToken(init.headers);
+  if (!(auth ?? !!callerToken)) {
+    return sendWithRetry<T>(endpoint, init);
+  }
+
+  const token = (await getAccessToken()) || callerToken;
+  if (!token) {
+    await expireSession();
+    throw buildSessionExpiredError(null);
+  }
+
+  try {
+    return await sendWithRetry<T>(endpoint, withBearer(init, token));
+  } catch (error) {
+    if (!isUnauthorized(error)) {
+      throw error;
+    }
+
+    const refreshedToken = await refreshAccessToken();
+    if (!refreshedToken) {
+      await expireSession();
+      throw buildSessionExpiredError(error);
+    }
+
+    try {
+      return await sendWithRetry<T>(endpoint, withBearer(init, refreshedToken));
+    } catch (retryError) {
+      if (isUnauthorized(retryError)) {
+        await expireSession();
+        throw buildSessionExpiredError(retryError);
+      }
+      throw retryError;
+    }
+  }
+}
+
+async function sendRequest<T>(endpoint: string, options: RequestInit = {}): Promise<ApiResponse<T>> {
   const url = `${API_CONFIG.BASE_URL}${endpoint}`;
-  console.log(`📡 API Request: ${options.method || 'GET'} ${url}`);
+  // The path without its query string: enough to follow requests, nothing that identifies the patient
+  const path = endpoint.split('?')[0];
+  log.debug(`📡 API Request: ${options.method || 'GET'} ${path}`);
 
   const defaultHeaders = {
     'Content-Type': 'application/json',
     ...options.headers,
   };
 
+  // Screens pass their own signal to cancel on unmount; the timeout uses a separate controller
+  const externalSignal = options.signal;
+  if (externalSignal?.aborted) {
+    throw new AbortedError();
+  }
+  const controller = new AbortController();
+  const onExternalAbort = () => controller.abort();
+  externalSignal?.addEventListener('abort', onExternalAbort);
+
   try {
-    const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), API_CONFIG.TIMEOUT);
 
     const response = await fetch(url, {
@@ -23,7 +191,7 @@ export async function request<T>(endpoint: string, options: RequestInit = {}): P
     });
 
     clearTimeout(timeoutId);
-    console.log(`✅ API Response: ${response.status} ${response.statusText}`);
+    log.debug(`✅ API Response: ${response.status} ${options.method || 'GET'} ${path}`);
 
     // Try to parse JSON response
     let data: any = {};
@@ -38,7 +206,7 @@ export async function request<T>(endpoint: string, options: RequestInit = {}): P
           try {
             data = JSON.parse(text);
           } catch (parseError) {
-            console.warn('Failed to parse JSON response:', parseError);
+            log.warn('Failed to parse JSON response:', parseError);
             data = { 
               message: text || `HTTP error! status: ${response.status}`,
               errors: [`Invalid JSON response: ${text.substring(0, 100)}`]
@@ -51,7 +219,7 @@ export async function request<T>(endpoint: string, options: RequestInit = {}): P
         data = { message: `HTTP error! status: ${response.status}` };
       }
     } catch (readError) {
-      console.warn('Failed to read response:', readError);
+      log.warn('Failed to read response:', readError);
       data = { 
         message: `HTTP error! status: ${response.status}`,
         errors: [`Failed to read response: ${readError}`]
@@ -71,76 +239,48 @@ export async function request<T>(endpoint: string, options: RequestInit = {}): P
         
         if (validationMessages.length > 0) {
           errorMessage = validationMessages.join('. ');
-        } else if (!errorMessage) {
-          errorMessage = `HTTP error! status: ${response.status}`;
         }
-      } else if (!errorMessage) {
-        errorMessage = `HTTP error! status: ${response.status}`;
       }
       
-      const detailedError = new Error(errorMessage);
-      (detailedError as any).response = { 
-        data: data || {}, 
-        status: response.status,
-        statusText: response.statusText
-      };
-      (detailedError as any).errors = data?.errors || [];
-      (detailedError as any).status = response.status;
-      
-      console.error('API Error Response:', {
+      log.error(`API Error Response (${path}):`, {
         status: response.status,
         statusText: response.statusText,
         message: errorMessage,
         errors: data?.errors,
       });
       
-      throw detailedError;
+      throw createHttpError(response.status, {
+        data: data || {},
+        statusText: response.statusText,
+        // Placeholder bodies built above are not worth showing to the user
+        serverMessage: errorMessage && !String(errorMessage).startsWith('HTTP error!') ? errorMessage : undefined,
+        retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+      });
     }
 
     return data;
   } catch (error: any) {
-    console.error(`❌ API Error (${endpoint}):`, error);
+    log.error(`❌ API Error (${path}):`, error);
+
+    if (error instanceof ApiError) {
+      throw error;
+    }
     
     if (error.name === 'AbortError') {
-      const timeoutError = new Error('La requête a expiré. Vérifiez votre connexion internet et réessayez.');
-      (timeoutError as any).isTimeout = true;
-      throw timeoutError;
+      throw externalSignal?.aborted ? new AbortedError({ cause: error }) : new TimeoutError({ cause: error });
     }
 
     if (error.name === 'TypeError' && (error.message.includes('fetch') || error.message.includes('Network request failed'))) {
-      const networkError = new Error('Erreur de connexion. Vérifiez que votre serveur backend est accessible et que vous êtes connecté à internet.');
-      (networkError as any).isNetworkError = true;
-      throw networkError;
-    }
-
-    if (error.response?.status === 500 || error.status === 500) {
-      const serverError = new Error('Erreur serveur. Le serveur rencontre un problème technique. Veuillez réessayer plus tard.');
-      (serverError as any).isServerError = true;
-      (serverError as any).status = 500;
-      throw serverError;
-    }
-
-    if (error.response?.status === 503 || error.status === 503) {
-      const serviceError = new Error('Service temporairement indisponible. Veuillez réessayer plus tard.');
-      (serviceError as any).isServiceError = true;
-      (serviceError as any).status = 503;
-      throw serviceError;
-    }
-
-    if (error.response) {
-      throw error;
+      throw new NetworkError({ cause: error });
     }
 
     if (error.message && (error.message.includes('JSON') || error.message.includes('parse'))) {
-      const jsonError = new Error('Erreur de format de réponse. Le serveur a renvoyé une réponse invalide.');
-      (jsonError as any).isParseError = true;
-      (jsonError as any).originalError = error;
-      throw jsonError;
+      throw new ParseError({ cause: error });
     }
 
-    const wrappedError = new Error(error.message || 'Une erreur réseau est survenue');
-    (wrappedError as any).originalError = error;
-    throw wrappedError;
+    throw new NetworkError({ cause: error });
+  } finally {
+    externalSignal?.removeEventListener('abort', onExternalAbort);
   }
 }
 
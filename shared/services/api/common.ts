@@ -1,4 +1,5 @@
 import { request } from './client';
+import { IF_MATCH_HEADER } from '../../utils/conflicts';
 
 export async function getUserProfile(token: string) {
   return request('/user/profile', {
@@ -7,10 +8,13 @@ export async function getUserProfile(token: string) {
   });
 }
 
-export async function updateUserProfile(token: string, profileData: any) {
+export async function updateUserProfile(token: string, profileData: any, ifMatch?: string | null) {
   return request('/user/profile', {
     method: 'PUT',
-    headers: { 'Authorization': `Bearer ${token}` },
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      ...(ifMatch ? { [IF_MATCH_HEADER]: ifMatch } : {}),
+    },
     body: JSON.stringify(profileData),
   });
 }
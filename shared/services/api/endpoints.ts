@@ -0,0 +1,243 @@
+import { request } from './client';
+import { SchemaError } from './errors';
+import * as s from './schema';
+import { ApiResponse, LocalReminder, PrescriptionSchedule, VoiceMessage } from '../../types';
+import { AdherenceRecord } from '../../types/adherence.types';
+import { DeviceHeartbeat, DevicePermissions } from '../../types/deviceHealth.types';
+import {
+  DoctorDashboardData,
+  HttpMethod,
+  PatientAdherenceHistoryData,
+  PatientDetailsData,
+  PatientPrescription,
+  PatientProfileData,
+  PatientProfileSummary,
+  PatientVoiceMessagesData,
+  ReminderChangesData,
+  UpcomingRemindersData,
+} from '../../types/api.types';
+import { createLogger } from '../../utils/logger';
+
+const log = createLogger('api');
+
+/**
+ * Endpoint registry
+ * Each endpoint declares its method, path template and response schema. Responses are
+ * checked before they reach the screens, so a backend shape change fails here with a
+ * SchemaError naming the offending field instead of crashing a render.
+ */
+
+type PathParamNames<P extends string> = P extends `${string}:${infer Param}/${infer Rest}`
+  ? Param | PathParamNames<`/${Rest}`>
+  : P extends `${string}:${infer Param}`
+    ? Param
+    : never;
+
+export interface EndpointDefinition<P extends string, TResponse, TBody = undefined> {
+  method: HttpMethod;
+  // Path template with `:name` placeholders, e.g. '/tutor/patients/:patientId/profile'
+  path: P;
+  response: s.Schema<TResponse>;
+  body?: s.Schema<TBody>;
+}
+
+export type EndpointResponse<E> = E extends EndpointDefinition<any, infer R, any> ? R : never;
+
+type EndpointCall<P extends string, TBody> = {
+  token: string;
+  query?: Record<string, string | number | undefined>;
+  signal?: AbortSignal;
+} & ([PathParamNames<P>] extends [never] ? { params?: undefined } : { params: Record<PathParamNames<P>, string> })
+  & (TBody extends undefined ? { body?: undefined } : { body: TBody });
+
+function defineEndpoint<P extends string, TResponse, TBody = undefined>(
+  definition: EndpointDefinition<P, TResponse, TBody>
+): EndpointDefinition<P, TResponse, TBody> {
+  return definition;
+}
+
+// ========== Schemas ==========
+
+const adherenceRecordSchema = s.object<AdherenceRecord>({
+  id: s.string(),
+  reminderId: s.string(),
+  prescriptionId: s.string(),
+  medicationName: s.string(),
+  scheduledFor: s.string(),
+  status: s.string(),
+  confirmedAt: s.optional(s.nullable(s.string())),
+});
+
+const voiceMessageSchema = s.object<VoiceMessage>({
+  id: s.string(),
+  fileName: s.string(),
+  fileUrl: s.string(),
+  durationSeconds: s.number(),
+  isActive: s.boolean(),
+  createdAt: s.string(),
+});
+
+const patientSummarySchema = s.object<PatientProfileSummary>({
+  id: s.string(),
+  firstName: s.string(),
+  lastName: s.string(),
+  email: s.optional(s.nullable(s.string())),
+  phoneNumber: s.optional(s.nullable(s.string())),
+  timezone: s.optional(s.nullable(s.string())),
+});
+
+const prescriptionScheduleSchema = s.object<PrescriptionSchedule>({
+  time: s.string(),
+  days: s.array(s.number()),
+});
+
+const patientPrescriptionSchema = s.object<PatientPrescription>({
+  id: s.string(),
+  medication: s.optional(s.nullable(s.object<NonNullable<PatientPrescription['medication']>>({
+    id: s.string(),
+    name: s.string(),
+  }))),
+  schedules: s.optional(s.array(prescriptionScheduleSchema)),
+  voiceMessage: s.optional(s.nullable(s.object<NonNullable<PatientPrescription['voiceMessage']>>({
+    id: s.string(),
+    fileUrl: s.string(),
+  }))),
+});
+
+const patientProfileSchema = s.object<PatientProfileData>({
+  patient: patientSummarySchema,
+  prescriptions: s.optional(s.array(patientPrescriptionSchema)),
+  reminders: s.optional(s.array(s.unknown())),
+});
+
+const upcomingReminderSchema = s.object<LocalReminder>({
+  id: s.string(),
+  reminderId: s.string(),
+  prescriptionId: s.string(),
+  medicationName: s.string(),
+  scheduledFor: s.string(),
+  voiceUrl: s.optional(s.nullable(s.string())),
+});
+
+const deviceHeartbeatSchema = s.object<DeviceHeartbeat>({
+  lastSyncAt: s.nullable(s.string()),
+  scheduledAlarms: s.number(),
+  permissions: s.object<DevicePermissions>({
+    notifications: s.boolean(),
+    exactAlarms: s.boolean(),
+    overlays: s.boolean(),
+    batteryOptimizations: s.boolean(),
+  }),
+  appVersion: s.nullable(s.string()),
+  platform: s.string(),
+  osVersion: s.string(),
+  reportedAt: s.string(),
+});
+
+// ========== Endpoints ==========
+
+export const ENDPOINTS = {
+  getDoctorDashboard: defineEndpoint({
+    method: 'GET',
+    path: '/medecin/dashboard',
+    response: s.object<DoctorDashboardData>({
+      upcomingAppointments: s.optional(s.array(s.unknown())),
+      medicationAlerts: s.optional(s.array(s.unknown())),
+    }),
+  }),
+  getDoctorPatientDetails: defineEndpoint({
+    method: 'GET',
+    path: '/medecin/patients/:patientId/profile',
+    response: s.union<PatientDetailsData, PatientDetailsData>(patientProfileSchema, patientSummarySchema),
+  }),
+  getTutorPatientDetails: defineEndpoint({
+    method: 'GET',
+    path: '/tutor/patients/:patientId/profile',
+    response: s.union<PatientDetailsData, PatientDetailsData>(patientProfileSchema, patientSummarySchema),
+  }),
+  getPatientAdherenceHistory: defineEndpoint({
+    method: 'GET',
+    path: '/tutor/patients/:patientId/adherence-history',
+    response: s.object<PatientAdherenceHistoryData>({
+      reminders: s.optional(s.array(adherenceRecordSchema)),
+      recentHistory: s.optional(s.array(adherenceRecordSchema)),
+    }),
+  }),
+  // null until the patient app sends its first heartbeat
+  getDoctorPatientDeviceHealth: defineEndpoint({
+    method: 'GET',
+    path: '/medecin/patients/:patientId/device-health',
+    response: s.nullable(deviceHeartbeatSchema),
+  }),
+  getTutorPatientDeviceHealth: defineEndpoint({
+    method: 'GET',
+    path: '/tutor/patients/:patientId/device-health',
+    response: s.nullable(deviceHeartbeatSchema),
+  }),
+  getPatientVoiceMessages: defineEndpoint({
+    method: 'GET',
+    path: '/tutor/patients/:patientId/voice-messages',
+    response: s.array<PatientVoiceMessagesData[number]>(voiceMessageSchema),
+  }),
+  getUpcomingReminders: defineEndpoint({
+    method: 'GET',
+    path: '/patient/reminders/upcoming',
+    response: s.array<UpcomingRemindersData[number]>(upcomingReminderSchema),
+  }),
+  getReminderChanges: defineEndpoint({
+    method: 'GET',
+    path: '/patient/check-updates',
+    response: s.object<ReminderChangesData>({
+      hasUpdates: s.boolean(),
+      lastModified: s.optional(s.nullable(s.string())),
+      changed: s.optional(s.array(upcomingReminderSchema)),
+      cancelled: s.optional(s.array(s.string())),
+      serverTime: s.optional(s.string()),
+      fullResyncRequired: s.optional(s.boolean()),
+    }),
+  }),
+};
+
+function buildPath(template: string, params?: Record<string, string>, query?: Record<string, string | number | undefined>): string {
+  const path = template.replace(/:([A-Za-z]+)/g, (_, name: string) => encodeURIComponent(params?.[name] ?? ''));
+  const search = Object.entries(query || {})
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+    .join('&');
+  return search ? `${path}?${search}` : path;
+}
+
+/**
+ * Call a registered endpoint and check `data` against its response schema
+ */
+export async function callEndpoint<P extends string, TResponse, TBody = undefined>(
+  endpoint: EndpointDefinition<P, TResponse, TBody>,
+  call: EndpointCall<P, TBody>
+): Promise<ApiResponse<TResponse>> {
+  const path = buildPath(endpoint.path, call.params as Record<string, string> | undefined, call.query);
+
+  if (endpoint.body && call.body !== undefined) {
+    const bodyIssues = s.validate(endpoint.body, call.body, 'body');
+    if (bodyIssues.length) {
+      log.error(`❌ Invalid request body for ${endpoint.method} ${endpoint.path}:`, bodyIssues);
+      throw new SchemaError(endpoint.path, bodyIssues);
+    }
+  }
+
+  const result = await request<TResponse>(path, {
+    method: endpoint.method,
+    headers: { 'Authorization': `Bearer ${call.token}` },
+    body: call.body !== undefined ? JSON.stringify(call.body) : undefined,
+    signal: call.signal,
+  });
+
+  if (result.success && result.data !== undefined) {
+    const issues = s.validate(endpoint.response, result.data);
+    if (issues.length) {
+      log.error(`❌ Unexpected response shape for ${endpoint.method} ${endpoint.path}:`, issues);
+      throw new SchemaError(endpoint.path, issues);
+    }
+  }
+
+  return result;
+}
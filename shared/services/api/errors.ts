@@ -0,0 +1,241 @@
+import i18n from '../../../i18n';
+import { SchemaIssue } from './schema';
+
+/**
+ * Errors thrown by the API client.
+ * Each subclass has a fixed `kind` so callers can switch on it, and a user-facing
+ * message resolved from the `errors.*` i18n keys in the current language.
+ */
+
+export type ApiErrorKind =
+  | 'timeout'
+  | 'network'
+  | 'auth'
+  | 'validation'
+  | 'server'
+  | 'parse'
+  | 'schema'
+  | 'conflict'
+  | 'http'
+  | 'aborted';
+
+type ApiErrorOptions = {
+  status?: number;
+  // Message sent by the backend, shown instead of the generic text when present
+  serverMessage?: string;
+  data?: any;
+  statusText?: string;
+  retryAfterMs?: number;
+  cause?: unknown;
+};
+
+export abstract class ApiError extends Error {
+  abstract readonly kind: ApiErrorKind;
+  readonly messageKey: string;
+  readonly status?: number;
+  readonly serverMessage?: string;
+  readonly retryAfterMs?: number;
+  readonly cause?: unknown;
+  // Raw response, kept for extractErrorMessage and older callers
+  readonly response?: { data: any; status: number; statusText?: string };
+  readonly errors: any[];
+
+  constructor(messageKey: string, options: ApiErrorOptions = {}) {
+    super(options.serverMessage || i18n.t(messageKey));
+    this.name = new.target.name;
+    this.messageKey = messageKey;
+    this.status = options.status;
+    this.serverMessage = options.serverMessage;
+    this.retryAfterMs = options.retryAfterMs;
+    this.cause = options.cause;
+    this.errors = Array.isArray(options.data?.errors) ? options.data.errors : [];
+    if (options.status !== undefined) {
+      this.response = { data: options.data || {}, status: options.status, statusText: options.statusText };
+    }
+    // Keep instanceof working when compiled down to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+export class TimeoutError extends ApiError {
+  readonly kind = 'timeout' as const;
+
+  constructor(options: ApiErrorOptions = {}) {
+    super('errors.timeout', options);
+  }
+}
+
+export class NetworkError extends ApiError {
+  readonly kind = 'network' as const;
+
+  constructor(options: ApiErrorOptions = {}) {
+    super('errors.network', options);
+  }
+}
+
+export class AuthError extends ApiError {
+  readonly kind = 'auth' as const;
+  // True once the refresh failed and the user was logged out
+  readonly sessionExpired: boolean;
+
+  constructor(options: ApiErrorOptions & { sessionExpired?: boolean } = {}) {
+    super(getAuthMessageKey(options), {
+      ...options,
+      // The generic text is clearer than whatever the server says about an expired token
+      serverMessage: options.sessionExpired ? undefined : options.serverMessage,
+    });
+    this.sessionExpired = !!options.sessionExpired;
+  }
+}
+
+export class ValidationError extends ApiError {
+  readonly kind = 'validation' as const;
+  // Messages keyed by form field, when the backend names the field
+  readonly fieldErrors: Record<string, string>;
+
+  constructor(options: ApiErrorOptions & { fieldErrors?: Record<string, string> } = {}) {
+    super('errors.validation', options);
+    this.fieldErrors = options.fieldErrors || {};
+  }
+}
+
+export class ServerError extends ApiError {
+  readonly kind = 'server' as const;
+
+  constructor(options: ApiErrorOptions = {}) {
+    super(options.status === 503 ? 'errors.serviceUnavailable' : 'errors.server', {
+      ...options,
+      // 5xx bodies are stack traces or proxy pages, never user-facing text
+      serverMessage: undefined,
+    });
+  }
+}
+
+export class ParseError extends ApiError {
+  readonly kind = 'parse' as const;
+
+  constructor(options: ApiErrorOptions = {}) {
+    super('errors.parse', options);
+  }
+}
+
+/**
+ * A 2xx response whose body does not match the endpoint's declared schema
+ */
+export class SchemaError extends ApiError {
+  readonly kind = 'schema' as const;
+  readonly endpoint: string;
+  readonly issues: SchemaIssue[];
+
+  constructor(endpoint: string, issues: SchemaIssue[], options: ApiErrorOptions = {}) {
+    super('errors.schema', options);
+    this.endpoint = endpoint;
+    this.issues = issues;
+  }
+}
+
+/**
+ * 409/412: the record changed on the server since the version the request was based on
+ */
+export class ConflictError extends ApiError {
+  readonly kind = 'conflict' as const;
+  // Current server record, when the backend sends it along with the rejection
+  readonly current?: Record<string, unknown>;
+
+  constructor(options: ApiErrorOptions = {}) {
+    super('errors.conflict', options);
+    const current = options.data?.current ?? options.data?.data;
+    this.current = current && typeof current === 'object' ? current : undefined;
+  }
+}
+
+/**
+ * Any other non-2xx answer (404, 429…)
+ */
+export class HttpError extends ApiError {
+  readonly kind = 'http' as const;
+
+  constructor(options: ApiErrorOptions = {}) {
+    super(getHttpMessageKey(options.status), options);
+  }
+}
+
+export class AbortedError extends ApiError {
+  readonly kind = 'aborted' as const;
+
+  constructor(options: ApiErrorOptions = {}) {
+    super('errors.aborted', options);
+  }
+}
+
+export type AnyApiError =
+  | TimeoutError
+  | NetworkError
+  | AuthError
+  | ValidationError
+  | ServerError
+  | ParseError
+  | SchemaError
+  | ConflictError
+  | HttpError
+  | AbortedError;
+
+function getAuthMessageKey(options: ApiErrorOptions & { sessionExpired?: boolean }): string {
+  if (options.sessionExpired) {
+    return 'errors.sessionExpired';
+  }
+  return options.status === 403 ? 'errors.forbidden' : 'errors.unauthorized';
+}
+
+function getHttpMessageKey(status?: number): string {
+  switch (status) {
+    case 404:
+      return 'errors.notFound';
+    case 429:
+      return 'errors.tooManyRequests';
+    default:
+      return 'errors.unknown';
+  }
+}
+
+/**
+ * express-validator style errors ({ path | param | field, msg | message }) keyed by field
+ */
+export function toFieldErrors(errors: any[]): Record<string, string> {
+  const fieldErrors: Record<string, string> = {};
+  errors.forEach(error => {
+    const field = error?.path || error?.param || error?.field;
+    const message = error?.msg || error?.message;
+    if (typeof field === 'string' && typeof message === 'string' && !fieldErrors[field]) {
+      fieldErrors[field] = message;
+    }
+  });
+  return fieldErrors;
+}
+
+/**
+ * Error for a non-2xx response, picked from the HTTP status
+ */
+export function createHttpError(status: number, options: ApiErrorOptions = {}): AnyApiError {
+  const errorOptions = { ...options, status };
+  if (status === 401 || status === 403) {
+    return new AuthError(errorOptions);
+  }
+  if (status === 400 || status === 422) {
+    return new ValidationError({
+      ...errorOptions,
+      fieldErrors: toFieldErrors(Array.isArray(options.data?.errors) ? options.data.errors : []),
+    });
+  }
+  if (status === 409 || status === 412) {
+    return new ConflictError(errorOptions);
+  }
+  if (status >= 500) {
+    return new ServerError(errorOptions);
+  }
+  return new HttpError(errorOptions);
+}
+
+export function isApiError(error: unknown): error is AnyApiError {
+  return error instanceof ApiError;
+}
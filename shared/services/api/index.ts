@@ -4,6 +4,9 @@ export * from './auth';
 export * from './caregiver';
 export * from './patient';
 export * from './common';
+export * from './session';
+export * from './errors';
+export * from './endpoints';
 
 // Create default export apiService for compatibility
 import * as client from './client';
@@ -19,6 +22,7 @@ const apiService = {
   // Auth functions
   login: auth.login,
   register: auth.register,
+  refreshSession: auth.refreshSession,
   requestPasswordReset: auth.requestPasswordReset,
   verifyResetCode: auth.verifyResetCode,
   resetPassword: auth.resetPassword,
@@ -29,6 +33,7 @@ const apiService = {
   getDoctorPatients: caregiver.getDoctorPatients,
   getDoctorDashboard: caregiver.getDoctorDashboard,
   getPatientDetails: caregiver.getPatientDetails,
+  getPatientDeviceHealth: caregiver.getPatientDeviceHealth,
   deletePatient: caregiver.deletePatient,
   createPrescription: caregiver.createPrescription,
   updatePrescription: caregiver.updatePrescription,
@@ -38,6 +43,8 @@ const apiService = {
   createVoiceMessage: caregiver.createVoiceMessage,
   getPatientVoiceMessages: caregiver.getPatientVoiceMessages,
   sendPatientInvitation: caregiver.sendPatientInvitation,
+  getMissedDoseAlerts: caregiver.getMissedDoseAlerts,
+  acknowledgeMissedDoseAlert: caregiver.acknowledgeMissedDoseAlert,
 
   // Common functions
   getUserProfile: common.getUserProfile,
@@ -47,8 +54,13 @@ const apiService = {
   getPatientMedicationsByDate: patient.getPatientMedicationsByDate,
   confirmMedicationTaken: patient.confirmMedicationTaken,
   snoozeMedicationReminder: patient.snoozeMedicationReminder,
+  getAdherenceHistory: patient.getAdherenceHistory,
+  reportMissedDoses: patient.reportMissedDoses,
   getUpcomingReminders: patient.getUpcomingReminders,
   checkForUpdates: patient.checkForUpdates,
+  getReminderChanges: patient.getReminderChanges,
+  acknowledgePrescriptionSync: patient.acknowledgePrescriptionSync,
+  reportDeviceHeartbeat: patient.reportDeviceHeartbeat,
   syncOfflineActions: patient.syncOfflineActions,
 };
 
@@ -1,36 +1,101 @@
 import { request } from './client';
+import { callEndpoint, ENDPOINTS } from './endpoints';
 import { Medication } from '../../types';
+import { AdherenceRecord } from '../../types/adherence.types';
+import { MissedDoseReport } from '../../types/escalation.types';
+import { DeviceHeartbeat } from '../../types/deviceHealth.types';
+import { createIdempotencyKey, IDEMPOTENCY_HEADER } from '../../utils/idempotency';
 
-export async function getPatientMedicationsByDate(token: string, date: string) {
+export async function getPatientMedicationsByDate(token: string, date: string, signal?: AbortSignal) {
   return request<{ medications: Medication[]; total: number; taken: number; adherenceRate: number }>(
     `/patient/medications/by-date?date=${encodeURIComponent(date)}`,
     {
       method: 'GET',
       headers: { 'Authorization': `Bearer ${token}` },
+      signal,
     }
   );
 }
 
-export async function confirmMedicationTaken(token: string, reminderIds: string[]) {
+export async function confirmMedicationTaken(
+  token: string,
+  reminderIds: string[],
+  // Key of the user action (see getDoseActionKey), so a replayed confirmation counts once
+  idempotencyKey: string
+) {
   return request('/patient/reminders/confirm', {
     method: 'POST',
-    headers: { 'Authorization': `Bearer ${token}` },
+    headers: { 'Authorization': `Bearer ${token}`, [IDEMPOTENCY_HEADER]: idempotencyKey },
     body: JSON.stringify({ reminderIds }),
   });
 }
 
-export async function snoozeMedicationReminder(token: string, reminderIds: string[]) {
+export async function snoozeMedicationReminder(
+  token: string,
+  reminderIds: string[],
+  idempotencyKey: string
+) {
   return request('/patient/reminders/snooze', {
     method: 'POST',
-    headers: { 'Authorization': `Bearer ${token}` },
+    headers: { 'Authorization': `Bearer ${token}`, [IDEMPOTENCY_HEADER]: idempotencyKey },
     body: JSON.stringify({ reminderIds }),
   });
 }
 
-export async function getUpcomingReminders(token: string, daysAhead: number = 30) {
-  return request(`/patient/reminders/upcoming?days=${daysAhead}`, {
+/**
+ * Tell the caregiver side that prescription changes reached this device
+ */
+export async function acknowledgePrescriptionSync(
+  token: string,
+  acks: Array<{ changeId: string; syncedAt: string }>
+) {
+  return request('/patient/prescriptions/sync-ack', {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${token}` },
+    body: JSON.stringify({ acks }),
+  });
+}
+
+export async function reportDeviceHeartbeat(token: string, heartbeat: DeviceHeartbeat) {
+  return request('/patient/device-heartbeat', {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${token}` },
+    body: JSON.stringify(heartbeat),
+  });
+}
+
+export async function getAdherenceHistory(token: string, daysBack: number = 90, signal?: AbortSignal) {
+  return request<{ reminders: AdherenceRecord[] }>(`/patient/adherence-history?days=${daysBack}`, {
     method: 'GET',
     headers: { 'Authorization': `Bearer ${token}` },
+    signal,
+  });
+}
+
+export async function reportMissedDoses(
+  token: string,
+  doses: MissedDoseReport[],
+  // Covers the client's own retries of this send; the server dedupes doses by reminderId
+  idempotencyKey: string = createIdempotencyKey('missed_report')
+) {
+  return request<{ alerted: number }>('/patient/reminders/missed', {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${token}`, [IDEMPOTENCY_HEADER]: idempotencyKey },
+    body: JSON.stringify({ doses }),
+  });
+}
+
+export async function getUpcomingReminders(token: string, daysAhead: number = 30) {
+  return callEndpoint(ENDPOINTS.getUpcomingReminders, { token, query: { days: daysAhead } });
+}
+
+/**
+ * Reminders added, changed or cancelled since `lastSync`, for an incremental reconcile
+ */
+export async function getReminderChanges(token: string, lastSync: string, daysAhead: number = 30) {
+  return callEndpoint(ENDPOINTS.getReminderChanges, {
+    token,
+    query: { lastSync, includeChanges: 'true', days: daysAhead },
   });
 }
 
@@ -47,11 +112,23 @@ export async function checkForUpdates(token: string, lastSyncTime?: string) {
 
 export async function syncOfflineActions(
   token: string,
-  actions: Array<{ id: string; type: 'confirm' | 'snooze'; reminderId: string; timestamp: string }>
+  actions: Array<{
+    id: string;
+    type: 'confirm' | 'snooze' | 'missed';
+    reminderId: string;
+    timestamp: string;
+    // Key the action was created with, the same on every replay
+    idempotencyKey: string;
+    // Apply even though the reminder already has another outcome on the server
+    override?: boolean;
+  }>,
+  // Fresh on every send, so an override or a retry of part of a batch is applied; the
+  // server dedupes each action on its own key in the body
+  idempotencyKey: string = createIdempotencyKey('sync')
 ) {
   return request('/notifications/sync-offline-actions', {
     method: 'POST',
-    headers: { 'Authorization': `Bearer ${token}` },
+    headers: { 'Authorization': `Bearer ${token}`, [IDEMPOTENCY_HEADER]: idempotencyKey },
     body: JSON.stringify({ actions }),
   });
 }
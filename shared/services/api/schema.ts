@@ -0,0 +1,134 @@
+/**
+ * Minimal runtime schemas for API responses.
+ * A schema checks the fields the app relies on and is typed as the domain type it
+ * describes; fields it does not list are passed through unchecked.
+ */
+
+export type SchemaIssue = {
+  // Location in the payload, e.g. "data.patient.firstName" or "data[3].id"
+  path: string;
+  expected: string;
+  received: string;
+};
+
+export interface Schema<T> {
+  readonly expected: string;
+  // Records one issue per mismatch found under `path`
+  check(value: unknown, path: string, issues: SchemaIssue[]): void;
+  // Type-only marker, never set at runtime
+  readonly __type?: T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function primitive<T>(expected: string, test: (value: unknown) => boolean): Schema<T> {
+  return {
+    expected,
+    check(value, path, issues) {
+      if (!test(value)) {
+        issues.push({ path, expected, received: describe(value) });
+      }
+    },
+  };
+}
+
+export const string = () => primitive<string>('string', value => typeof value === 'string');
+
+export const number = () =>
+  primitive<number>('number', value => typeof value === 'number' && !Number.isNaN(value));
+
+export const boolean = () => primitive<boolean>('boolean', value => typeof value === 'boolean');
+
+export const unknown = () => primitive<unknown>('unknown', () => true);
+
+export function literal<T extends string>(...values: T[]): Schema<T> {
+  return primitive<T>(values.map(value => `"${value}"`).join(' | '), value =>
+    values.includes(value as T)
+  );
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    expected: `${schema.expected} | undefined`,
+    check(value, path, issues) {
+      if (value !== undefined) {
+        schema.check(value, path, issues);
+      }
+    },
+  };
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    expected: `${schema.expected} | null`,
+    check(value, path, issues) {
+      if (value !== null) {
+        schema.check(value, path, issues);
+      }
+    },
+  };
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    expected: `${item.expected}[]`,
+    check(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push({ path, expected: `${item.expected}[]`, received: describe(value) });
+        return;
+      }
+      value.forEach((entry, index) => item.check(entry, `${path}[${index}]`, issues));
+    },
+  };
+}
+
+/**
+ * Object schema typed as `T`. Listed fields are checked, the others are left as sent.
+ */
+export function object<T extends object>(shape: { [K in keyof T]?: Schema<T[K]> }): Schema<T> {
+  return {
+    expected: 'object',
+    check(value, path, issues) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, expected: 'object', received: describe(value) });
+        return;
+      }
+      const record = value as Record<string, unknown>;
+      (Object.keys(shape) as Array<keyof T & string>).forEach(key => {
+        shape[key]?.check(record[key], `${path}.${key}`, issues);
+      });
+    },
+  };
+}
+
+/**
+ * First matching schema wins; issues of the closest candidate are reported
+ */
+export function union<A, B>(first: Schema<A>, second: Schema<B>): Schema<A | B> {
+  return {
+    expected: `${first.expected} | ${second.expected}`,
+    check(value, path, issues) {
+      const firstIssues: SchemaIssue[] = [];
+      first.check(value, path, firstIssues);
+      if (!firstIssues.length) return;
+
+      const secondIssues: SchemaIssue[] = [];
+      second.check(value, path, secondIssues);
+      if (!secondIssues.length) return;
+
+      issues.push(...(firstIssues.length <= secondIssues.length ? firstIssues : secondIssues));
+    },
+  };
+}
+
+export function validate<T>(schema: Schema<T>, value: unknown, path: string = 'data'): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  schema.check(value, path, issues);
+  return issues;
+}
@@ -0,0 +1,150 @@
+import { deleteSecret, getEncryptedItem, getSecret, removeEncryptedItem, setEncryptedItem, setSecret } from '../secureStorage';
+import { createLogger } from '../../utils/logger';
+
+/**
+ * Auth session.
+ * Owns the access/refresh token pair used by the API client, kept in the secure store,
+ * and the signed-in user's profile, kept encrypted. Screens go through getAccessToken
+ * and getCurrentUser rather than reading storage.
+ */
+
+const log = createLogger('session');
+
+const USER_DATA_KEY = 'userData';
+
+type SessionExpiredListener = () => void;
+
+let cachedAccessToken: string | null = null;
+let refreshPromise: Promise<string | null> | null = null;
+let isExpiring = false;
+let expiredListeners: SessionExpiredListener[] = [];
+
+export async function getAccessToken(): Promise<string | null> {
+  if (cachedAccessToken) {
+    return cachedAccessToken;
+  }
+  try {
+    cachedAccessToken = await getSecret('ACCESS_TOKEN');
+  } catch (error) {
+    log.error('❌ Error reading access token:', error);
+  }
+  return cachedAccessToken;
+}
+
+/**
+ * Store the tokens returned by login or refresh
+ */
+export async function saveSession(accessToken: string, refreshToken?: string | null): Promise<void> {
+  cachedAccessToken = accessToken;
+  isExpiring = false;
+  await setSecret('ACCESS_TOKEN', accessToken);
+  if (refreshToken) {
+    await setSecret('REFRESH_TOKEN', refreshToken);
+  }
+}
+
+export async function getCurrentUser<T = any>(): Promise<T | null> {
+  try {
+    const stored = await getEncryptedItem(USER_DATA_KEY);
+    return stored ? (JSON.parse(stored) as T) : null;
+  } catch (error) {
+    log.error('❌ Error reading user data:', error);
+    return null;
+  }
+}
+
+export async function saveCurrentUser(user: unknown): Promise<void> {
+  await setEncryptedItem(USER_DATA_KEY, JSON.stringify(user));
+}
+
+export async function clearSession(): Promise<void> {
+  cachedAccessToken = null;
+  try {
+    await deleteSecret('ACCESS_TOKEN');
+    await deleteSecret('REFRESH_TOKEN');
+    await removeEncryptedItem(USER_DATA_KEY);
+  } catch (error) {
+    log.error('❌ Error clearing session tokens:', error);
+  }
+}
+
+async function runRefresh(): Promise<string | null> {
+  const refreshToken = await getSecret('REFRESH_TOKEN');
+  if (!refreshToken) {
+    return null;
+  }
+
+  try {
+    const { refreshSession } = await import('./auth');
+    const result = await refreshSession(refreshToken);
+    const accessToken = result.token || result.data?.token;
+    if (!result.success || !accessToken) {
+      return null;
+    }
+
+    await saveSession(accessToken, result.refreshToken || result.data?.refreshToken);
+    log.info('🔑 Access token refreshed');
+    return accessToken;
+  } catch (error) {
+    log.error('❌ Error refreshing access token:', error);
+    return null;
+  }
+}
+
+/**
+ * Exchange the refresh token for a new access token.
+ * Concurrent callers share one refresh so the refresh token is only used once.
+ */
+export function refreshAccessToken(): Promise<string | null> {
+  if (!refreshPromise) {
+    refreshPromise = runRefresh().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+}
+
+/**
+ * Log out after an unrecoverable 401. Pending offline actions are kept so they
+ * can still be synced after the next login.
+ */
+export async function expireSession(): Promise<void> {
+  if (isExpiring) {
+    return;
+  }
+  isExpiring = true;
+  log.warn('⚠️ Session expired, logging out');
+
+  try {
+    const { performLogout } = await import('../../utils/logout');
+    await performLogout(
+      () => expiredListeners.forEach(listener => listener()),
+      { sessionExpired: true }
+    );
+  } catch (error) {
+    log.error('❌ Error logging out after session expiry:', error);
+  } finally {
+    cachedAccessToken = null;
+  }
+}
+
+/**
+ * Called once the session expired and local data was cleared; used to route to login
+ */
+export function onSessionExpired(listener: SessionExpiredListener): () => void {
+  expiredListeners.push(listener);
+  return () => {
+    expiredListeners = expiredListeners.filter(existing => existing !== listener);
+  };
+}
+
+export const sessionService = {
+  getAccessToken,
+  saveSession,
+  getCurrentUser,
+  saveCurrentUser,
+  clearSession,
+  refreshAccessToken,
+  expireSession,
+  onSessionExpired,
+};
@@ -0,0 +1,94 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
+import Constants from 'expo-constants';
+import { reportDeviceHeartbeat } from './api/patient';
+import { getPermissionStatus } from './permissionService';
+import { DEVICE_HEALTH } from '../constants/deviceHealth';
+import { DeviceHeartbeat } from '../types/deviceHealth.types';
+import { createLogger } from '../utils/logger';
+
+/**
+ * Device Heartbeat Service (functional)
+ * Reports the state of the patient device after each reminder reconcile so caregivers can
+ * tell whether alarms will actually ring: last sync, scheduled alarm count, permissions,
+ * app version and platform. Unchanged heartbeats are throttled to save mobile data.
+ */
+
+const log = createLogger('heartbeat');
+
+const LAST_HEARTBEAT_KEY = '@device_heartbeat_last';
+
+type SentHeartbeat = {
+  signature: string;
+  sentAt: number;
+};
+
+
+// What makes a heartbeat worth sending before the minimum interval: everything but the times
+function getSignature(heartbeat: DeviceHeartbeat): string {
+  const { lastSyncAt, reportedAt, ...state } = heartbeat;
+  return JSON.stringify(state);
+}
+
+
+export async function buildHeartbeat(sync: { lastSyncAt: string | null; scheduledAlarms: number }): Promise<DeviceHeartbeat> {
+  const { allGranted, ...permissions } = await getPermissionStatus();
+  return {
+    lastSyncAt: sync.lastSyncAt,
+    scheduledAlarms: sync.scheduledAlarms,
+    permissions,
+    appVersion: Constants.expoConfig?.version ?? null,
+    platform: Platform.OS,
+    osVersion: String(Platform.Version),
+    reportedAt: new Date().toISOString(),
+  };
+}
+
+
+/**
+ * Send a heartbeat after a reconcile. Never throws: a missing heartbeat only shows up
+ * as "not synced" on the caregiver side.
+ */
+export async function reportHeartbeat(
+  token: string,
+  sync: { lastSyncAt: string | null; scheduledAlarms: number }
+): Promise<boolean> {
+  try {
+    const heartbeat = await buildHeartbeat(sync);
+    const signature = getSignature(heartbeat);
+
+    const stored = await AsyncStorage.getItem(LAST_HEARTBEAT_KEY);
+    const last: SentHeartbeat | null = stored ? JSON.parse(stored) : null;
+    if (
+      last &&
+      last.signature === signature &&
+      Date.now() - last.sentAt < DEVICE_HEALTH.HEARTBEAT_MIN_INTERVAL_MS
+    ) {
+      return false;
+    }
+
+    await reportDeviceHeartbeat(token, heartbeat);
+    await AsyncStorage.setItem(LAST_HEARTBEAT_KEY, JSON.stringify({ signature, sentAt: Date.now() }));
+    log.info(`💓 Device heartbeat sent (${heartbeat.scheduledAlarms} alarms scheduled)`);
+    return true;
+  } catch (error) {
+    log.error('❌ Error sending device heartbeat:', error);
+    return false;
+  }
+}
+
+
+export async function clearAll(): Promise<void> {
+  try {
+    await AsyncStorage.removeItem(LAST_HEARTBEAT_KEY);
+  } catch (error) {
+    log.error('❌ Error clearing device heartbeat state:', error);
+  }
+}
+
+
+export const deviceHeartbeatService = {
+  buildHeartbeat,
+  reportHeartbeat,
+  clearAll,
+};
@@ -0,0 +1,236 @@
+import apiService from './api';
+import { networkMonitor } from './networkMonitor';
+import { offlineQueueService } from './offlineQueueService';
+import { encryptedStorage } from './secureStorage';
+import { EscalationPolicy, MissedDoseReport } from '../types/escalation.types';
+import { createLogger } from '../utils/logger';
+
+/**
+ * Escalation Service (functional)
+ * Watches reminders whose prescription has an escalation policy and reports doses that are
+ * still unconfirmed once the policy delay has passed, so the backend can alert caregivers
+ */
+
+const log = createLogger('escalation');
+
+const WATCHLIST_KEY = '@escalation_watchlist';
+const CONFIRMATIONS_KEY = '@medication_confirmations';
+const MINUTE_MS = 60 * 1000;
+// Keep reported or expired entries around long enough to avoid re-reporting after a reconcile
+const WATCH_RETENTION_MS = 48 * 60 * MINUTE_MS;
+
+type WatchedReminder = {
+  reminderId: string;
+  prescriptionId: string;
+  medicationName: string;
+  scheduledFor: string;
+  delayMinutes: number;
+  reportedAt?: string;
+};
+
+type EscalatableReminder = {
+  reminderId: string;
+  prescriptionId: string;
+  medicationName: string;
+  scheduledFor: string;
+  escalation?: EscalationPolicy | null;
+};
+
+let isReporting = false;
+
+
+async function loadWatchlist(): Promise<Record<string, WatchedReminder>> {
+  try {
+    const stored = await encryptedStorage.getItem(WATCHLIST_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    log.error('❌ Error reading escalation watchlist:', error);
+    return {};
+  }
+}
+
+
+async function persistWatchlist(watchlist: Record<string, WatchedReminder>): Promise<void> {
+  await encryptedStorage.setItem(WATCHLIST_KEY, JSON.stringify(watchlist));
+}
+
+
+function isExpired(entry: WatchedReminder, now: number): boolean {
+  return new Date(entry.scheduledFor).getTime() + WATCH_RETENTION_MS < now;
+}
+
+
+/**
+ * Reminder IDs confirmed on this device, including confirmations still waiting in the offline queue
+ */
+async function getLocallyConfirmedIds(): Promise<Set<string>> {
+  const confirmed = new Set<string>();
+
+  try {
+    const stored = await encryptedStorage.getItem(CONFIRMATIONS_KEY);
+    const confirmations = stored ? (JSON.parse(stored) as Array<{ reminderId: string }>) : [];
+    confirmations.forEach(entry => entry.reminderId && confirmed.add(entry.reminderId));
+  } catch (error) {
+    log.error('❌ Error reading local confirmations:', error);
+  }
+
+  const queue = await offlineQueueService.getQueue();
+  queue
+    .filter(action => action.type === 'confirm')
+    .forEach(action => confirmed.add(action.reminderId));
+
+  return confirmed;
+}
+
+
+/**
+ * Start watching reminders with an enabled escalation policy. Called with the remote reminder
+ * list on every reconcile; entries already reported keep their report timestamp.
+ */
+export async function trackReminders(reminders: EscalatableReminder[]): Promise<void> {
+  try {
+    const watchlist = await loadWatchlist();
+    const now = Date.now();
+
+    reminders.forEach(reminder => {
+      const policy = reminder.escalation;
+      const existing = watchlist[reminder.reminderId];
+
+      if (!policy?.enabled || !policy.notify?.length) {
+        // Policy switched off by the caregiver: stop watching doses not yet reported
+        if (existing && !existing.reportedAt) {
+          delete watchlist[reminder.reminderId];
+        }
+        return;
+      }
+
+      watchlist[reminder.reminderId] = {
+        reminderId: reminder.reminderId,
+        prescriptionId: reminder.prescriptionId,
+        medicationName: reminder.medicationName,
+        scheduledFor: reminder.scheduledFor,
+        delayMinutes: policy.delayMinutes,
+        reportedAt: existing?.reportedAt,
+      };
+    });
+
+    Object.keys(watchlist).forEach(reminderId => {
+      if (isExpired(watchlist[reminderId], now)) {
+        delete watchlist[reminderId];
+      }
+    });
+
+    await persistWatchlist(watchlist);
+  } catch (error) {
+    log.error('❌ Error tracking reminders for escalation:', error);
+  }
+}
+
+
+/**
+ * Doses past their escalation delay that were neither confirmed on this device nor reported yet
+ */
+export async function getOverdueDoses(now: Date = new Date()): Promise<MissedDoseReport[]> {
+  const watchlist = await loadWatchlist();
+  const confirmedIds = await getLocallyConfirmedIds();
+  const nowMs = now.getTime();
+
+  return Object.values(watchlist)
+    .filter(entry => !entry.reportedAt && !confirmedIds.has(entry.reminderId) && !isExpired(entry, nowMs))
+    .filter(entry => new Date(entry.scheduledFor).getTime() + entry.delayMinutes * MINUTE_MS <= nowMs)
+    .map(entry => ({
+      reminderId: entry.reminderId,
+      prescriptionId: entry.prescriptionId,
+      medicationName: entry.medicationName,
+      scheduledFor: entry.scheduledFor,
+      minutesOverdue: Math.round((nowMs - new Date(entry.scheduledFor).getTime()) / MINUTE_MS),
+      detectedAt: now.toISOString(),
+    }));
+}
+
+
+/**
+ * Report overdue doses to the backend. Doses stay pending while offline and are sent on a later call.
+ */
+export async function reportOverdueDoses(token: string): Promise<{ success: boolean; reported: number }> {
+  if (isReporting) {
+    return { success: false, reported: 0 };
+  }
+
+  isReporting = true;
+
+  try {
+    const overdue = await getOverdueDoses();
+    if (overdue.length === 0) {
+      return { success: true, reported: 0 };
+    }
+
+    const online = await networkMonitor.isOnline();
+    if (!online) {
+      log.info(`📴 ${overdue.length} overdue dose(s) waiting for network to be reported`);
+      return { success: false, reported: 0 };
+    }
+
+    log.info(`🚨 Reporting ${overdue.length} overdue dose(s) to caregivers...`);
+    const result = await apiService.reportMissedDoses(token, overdue);
+    if (!result.success) {
+      log.error('❌ Failed to report overdue doses:', result.message);
+      return { success: false, reported: 0 };
+    }
+
+    const watchlist = await loadWatchlist();
+    const reportedAt = new Date().toISOString();
+    overdue.forEach(dose => {
+      if (watchlist[dose.reminderId]) {
+        watchlist[dose.reminderId].reportedAt = reportedAt;
+      }
+    });
+    await persistWatchlist(watchlist);
+
+    log.info(`✅ Reported ${overdue.length} overdue dose(s)`);
+    return { success: true, reported: overdue.length };
+  } catch (error) {
+    log.error('❌ Error reporting overdue doses:', error);
+    return { success: false, reported: 0 };
+  } finally {
+    isReporting = false;
+  }
+}
+
+
+/**
+ * Stop watching reminders the caregiver cancelled, so they are never reported as missed
+ */
+export async function untrackReminders(reminderIds: string[]): Promise<void> {
+  if (!reminderIds.length) {
+    return;
+  }
+
+  try {
+    const watchlist = await loadWatchlist();
+    reminderIds.forEach(reminderId => {
+      delete watchlist[reminderId];
+    });
+    await persistWatchlist(watchlist);
+  } catch (error) {
+    log.error('❌ Error untracking reminders for escalation:', error);
+  }
+}
+
+
+export async function clearAll(): Promise<void> {
+  try {
+    await encryptedStorage.removeItem(WATCHLIST_KEY);
+  } catch (error) {
+    log.error('❌ Error clearing escalation watchlist:', error);
+  }
+}
+
+
+export const escalationService = {
+  trackReminders,
+  untrackReminders,
+  getOverdueDoses,
+  reportOverdueDoses,
+  clearAll,
+};
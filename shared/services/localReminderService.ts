@@ -5,21 +5,53 @@ import { Platform } from 'react-native';
 import apiService from './api';
 import { alarmService } from './alarmService';
 import iOSAlarmService from './iOSAlarmService';
+import { escalationService } from './escalationService';
+import { snoozeService, SnoozeStatus } from './snoozeService';
+import { offlineQueueService } from './offlineQueueService';
+import { travelModeService } from './travelModeService';
+import { deviceHeartbeatService } from './deviceHeartbeatService';
+import { createReminderStore, REMINDER_STORE_KEYS } from './reminderStore';
+import { encryptedStorage } from './secureStorage';
+import {
+  applyReconcilePlan,
+  buildStoredRecord,
+  cancelOrphanedNotifications,
+  cancelRecordSchedule,
+  cleanupLegacyReminders,
+} from './reminderExecutor';
+import { ReminderChangesData } from '../types/api.types';
+import {
+  LocalReminder,
+  PendingNotification,
+  ReminderSchedulerAdapter,
+  ScheduleResult,
+  StoredReminderV1,
+  StoredReminderV2,
+} from '../types/reminderSync.types';
+import { ReminderSyncStatus } from '../types/reminderDiagnostics.types';
+import { IOS_NOTIFICATION_WINDOW } from '../constants/reminderWindow';
+import {
+  buildFingerprint,
+  buildLegacyRecord,
+  hashString,
+  planFullReconcile,
+  planReminderChanges,
+} from '../utils/reminderPlanner';
 import i18n from '../../i18n';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('reminders');
 
 const STORAGE_KEYS = {
-  REMINDERS_V1: '@medication_reminders',
-  REMINDERS_V2: '@medication_reminders_v2',
+  ...REMINDER_STORE_KEYS,
   LAST_SYNC: '@last_sync_time',
   VOICE_MESSAGES: '@voice_messages',
   SYNC_STATE: '@medication_reminder_sync_state',
-  MIGRATION_V1_DONE: '@medication_reminders_migration_v1_done',
 };
 
 const DEFAULT_RECONCILE_MIN_INTERVAL_MS = 15000;
-const IOS_MAX_PENDING_NOTIFICATIONS = 64;
-const IOS_REPEAT_COUNT = 10;
-const IOS_REPEAT_INTERVAL_MS = 60 * 1000;
+// Incremental syncs keep the 30-day window current; a daily full reconcile slides it forward
+const FULL_RECONCILE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
 const IOS_SOUND_BY_LANG: Record<string, string> = {
   ar: 'arabv.caf',
   en: 'englishv.caf',
@@ -37,100 +69,40 @@ const VOICE_MESSAGES_DIR = `${FileSystem.documentDirectory}voice-messages/`;
 // Use native alarm service for Android full-screen alarms
 const useNativeAlarms = Platform.OS === 'android' && alarmService.isAvailable();
 
-export interface LocalReminder {
-  id: string;
-  reminderId: string;
-  prescriptionId: string;
-  medicationName: string;
-  dosage: string;
-  instructions?: string;
-  imageUrl?: string;
-  scheduledFor: string;
-  patientId: string;
-  // Voice message fields from backend
-  voiceUrl?: string | null;
-  voiceFileName?: string | null;
-  voiceTitle?: string | null;
-  voiceDuration?: number;
-  voiceChecksum?: string | null;
-  voiceVersion?: number | null;
-  voiceFormat?: string | null;
-}
-
-type StoredReminderV1 = {
-  notificationId: string;
-  medicationName: string;
-  dosage: string;
-};
-
-type StoredReminderV2 = {
-  reminderId: string;
-  prescriptionId: string;
-  patientId: string;
-  scheduledFor: string;
-  medicationName: string;
-  dosage: string;
-  instructions?: string;
-  imageUrl?: string;
-  voice?: {
-    voiceUrl?: string | null;
-    voiceFileName?: string | null;
-    localPath?: string | null;
-    voiceChecksum?: string | null;
-    voiceVersion?: number | null;
-    voiceFormat?: string | null;
-  };
-  schedule: {
-    platform: 'android_native' | 'expo';
-    alarmId?: string;
-    notificationIds?: string[];
-    scheduledAtMs: number;
-  };
-  fingerprint: string;
-  lastSyncedAt: string;
-};
+export type { LocalReminder };
 
 type SyncState = {
   schemaVersion: number;
   lastSyncAt?: string;
   lastFullReconcileAt?: string;
+  // Upcoming reminders left out of the iOS notification window by the last full reconcile
+  deferredReminders?: number;
   inProgress: boolean;
 };
 
-type ScheduleResult = {
-  platform: 'android_native' | 'expo';
-  alarmId?: string;
-  notificationIds?: string[];
-  scheduledAtMs: number;
+export type ReminderCoverage = {
+  // Time of the last dose with an alarm or notification scheduled on the device
+  lastScheduledAt: string | null;
+  deferredCount: number;
 };
 
-let isReconciling = false;
+type ScheduleListener = () => void;
 
-function hashString(value: string): string {
-  let hash = 0;
-  for (let i = 0; i < value.length; i++) {
-    hash = (hash << 5) - hash + value.charCodeAt(i);
-    hash |= 0;
-  }
-  return `h${Math.abs(hash)}`;
-}
+type ReconcileResult = {
+  success: boolean;
+  remoteCount: number;
+  scheduled: number;
+  updated: number;
+  removed: number;
+  audioDownloaded: number;
+  cancelledNotifications: number;
+};
+
+let isReconciling = false;
+let scheduleListeners: ScheduleListener[] = [];
 
-function buildFingerprint(reminder: LocalReminder): string {
-  const payload = [
-    reminder.reminderId,
-    reminder.prescriptionId,
-    reminder.scheduledFor,
-    reminder.medicationName,
-    reminder.dosage,
-    reminder.instructions || '',
-    reminder.imageUrl || '',
-    reminder.voiceUrl || '',
-    reminder.voiceFileName || '',
-    reminder.voiceChecksum || '',
-    reminder.voiceVersion ?? '',
-    reminder.voiceFormat || '',
-  ].join('|');
-  return hashString(payload);
+function notifyScheduleListeners(): void {
+  scheduleListeners.forEach(listener => listener());
 }
 
 function normalizeVoiceFormat(format?: string | null): string | null {
@@ -177,13 +149,13 @@ async function resolveIOSNotificationSoundName(
 
   const extension = resolveVoiceExtension(reminder);
   if (extension !== 'caf') {
-    console.log(`iOS dynamic sound skipped (${extension}); using bundled fallback sound`);
+    log.info(`iOS dynamic sound skipped (${extension}); using bundled fallback sound`);
     return fallbackSound;
   }
 
   const soundsDir = getIOSLibrarySoundsDirectory();
   if (!soundsDir) {
-    console.warn('Unable to resolve iOS Library/Sounds directory; using bundled fallback sound');
+    log.warn('Unable to resolve iOS Library/Sounds directory; using bundled fallback sound');
     return fallbackSound;
   }
 
@@ -193,7 +165,7 @@ async function resolveIOSNotificationSoundName(
   try {
     const sourceInfo = await FileSystem.getInfoAsync(localAudioPath);
     if (!sourceInfo.exists) {
-      console.warn(`Dynamic voice file not found at ${localAudioPath}; using bundled fallback sound`);
+      log.warn(`Dynamic voice file not found at ${localAudioPath}; using bundled fallback sound`);
       return fallbackSound;
     }
 
@@ -208,12 +180,12 @@ async function resolveIOSNotificationSoundName(
         from: localAudioPath,
         to: destinationPath,
       });
-      console.log(`Prepared iOS dynamic notification sound: ${soundName}`);
+      log.info(`Prepared iOS dynamic notification sound: ${soundName}`);
     }
 
     return soundName;
   } catch (error) {
-    console.error('Failed to prepare iOS dynamic notification sound, using bundled fallback:', error);
+    log.error('Failed to prepare iOS dynamic notification sound, using bundled fallback:', error);
     return fallbackSound;
   }
 }
@@ -230,10 +202,11 @@ async function loadSyncState(): Promise<SyncState> {
         typeof parsed.schemaVersion === 'number' ? parsed.schemaVersion : 2,
       lastSyncAt: parsed.lastSyncAt,
       lastFullReconcileAt: parsed.lastFullReconcileAt,
+      deferredReminders: parsed.deferredReminders,
       inProgress: false,
     };
   } catch (error) {
-    console.error('Error loading sync state:', error);
+    log.error('Error loading sync state:', error);
     return { schemaVersion: 2, inProgress: false };
   }
 }
@@ -242,92 +215,13 @@ async function persistSyncState(state: SyncState): Promise<void> {
   try {
     await AsyncStorage.setItem(STORAGE_KEYS.SYNC_STATE, JSON.stringify(state));
   } catch (error) {
-    console.error('Error saving sync state:', error);
-  }
-}
-
-async function loadRemindersV1(): Promise<Record<string, StoredReminderV1>> {
-  const stored = await AsyncStorage.getItem(STORAGE_KEYS.REMINDERS_V1);
-  if (!stored) {
-    return {};
-  }
-
-  try {
-    return JSON.parse(stored) as Record<string, StoredReminderV1>;
-  } catch (error) {
-    console.warn('Failed to parse stored reminders v1, resetting state', error);
-    return {};
-  }
-}
-
-async function persistRemindersV1(reminders: Record<string, StoredReminderV1>): Promise<void> {
-  await AsyncStorage.setItem(STORAGE_KEYS.REMINDERS_V1, JSON.stringify(reminders));
-}
-
-function buildLegacyRecord(reminderId: string, legacy: StoredReminderV1): StoredReminderV2 {
-  const now = new Date().toISOString();
-  return {
-    reminderId,
-    prescriptionId: '',
-    patientId: '',
-    scheduledFor: '',
-    medicationName: legacy.medicationName || '',
-    dosage: legacy.dosage || '',
-    schedule: {
-      platform: useNativeAlarms ? 'android_native' : 'expo',
-      alarmId: useNativeAlarms ? reminderId : undefined,
-      notificationIds: legacy.notificationId ? [legacy.notificationId] : [],
-      scheduledAtMs: 0,
-    },
-    fingerprint: 'legacy',
-    lastSyncedAt: now,
-  };
-}
-
-async function migrateV1ToV2(): Promise<Record<string, StoredReminderV2>> {
-  try {
-    const migrationDone = await AsyncStorage.getItem(STORAGE_KEYS.MIGRATION_V1_DONE);
-    if (migrationDone === 'true') {
-      const stored = await AsyncStorage.getItem(STORAGE_KEYS.REMINDERS_V2);
-      if (stored) {
-        return JSON.parse(stored) as Record<string, StoredReminderV2>;
-      }
-      return {};
-    }
-
-    const legacy = await loadRemindersV1();
-    const migrated: Record<string, StoredReminderV2> = {};
-    Object.entries(legacy).forEach(([reminderId, entry]) => {
-      migrated[reminderId] = buildLegacyRecord(reminderId, entry);
-    });
-
-    await AsyncStorage.setItem(STORAGE_KEYS.REMINDERS_V2, JSON.stringify(migrated));
-    await AsyncStorage.setItem(STORAGE_KEYS.MIGRATION_V1_DONE, 'true');
-
-    return migrated;
-  } catch (error) {
-    console.error('Error migrating reminders v1 to v2:', error);
-    return {};
+    log.error('Error saving sync state:', error);
   }
 }
 
-async function loadRemindersV2(): Promise<Record<string, StoredReminderV2>> {
-  const stored = await AsyncStorage.getItem(STORAGE_KEYS.REMINDERS_V2);
-  if (!stored) {
-    return migrateV1ToV2();
-  }
-
-  try {
-    return JSON.parse(stored) as Record<string, StoredReminderV2>;
-  } catch (error) {
-    console.warn('Failed to parse stored reminders v2, resetting state', error);
-    return migrateV1ToV2();
-  }
-}
-
-async function persistRemindersV2(reminders: Record<string, StoredReminderV2>): Promise<void> {
-  await AsyncStorage.setItem(STORAGE_KEYS.REMINDERS_V2, JSON.stringify(reminders));
-}
+// Reminder records name the patient's medications and dose times: kept encrypted
+const reminderStore = createReminderStore(encryptedStorage, { nativeAlarms: useNativeAlarms });
+const { loadRemindersV1, persistRemindersV1, loadRemindersV2, persistRemindersV2 } = reminderStore;
 
 
 // Ensure voice messages directory exists
@@ -336,17 +230,17 @@ async function ensureVoiceMessagesDir(): Promise<void> {
     const dirInfo = await FileSystem.getInfoAsync(VOICE_MESSAGES_DIR);
     if (!dirInfo.exists) {
       await FileSystem.makeDirectoryAsync(VOICE_MESSAGES_DIR, { intermediates: true });
-      console.log('📁 Created voice messages directory');
+      log.info('📁 Created voice messages directory');
     }
   } catch (error) {
-    console.error('Error creating voice messages directory:', error);
+    log.error('Error creating voice messages directory:', error);
   }
 }
 
 // Download voice message audio file for offline use
 async function downloadVoiceMessageLegacy(reminder: LocalReminder): Promise<string | null> {
   if (!reminder.voiceUrl) {
-    console.log(`ℹ️ No voice URL for ${reminder.medicationName}`);
+    log.debug(`ℹ️ No voice URL for reminder ${reminder.reminderId}`);
     return null;
   }
 
@@ -361,27 +255,25 @@ async function downloadVoiceMessageLegacy(reminder: LocalReminder): Promise<stri
     // Check if already downloaded
     const fileInfo = await FileSystem.getInfoAsync(localPath);
     if (fileInfo.exists) {
-      console.log(`✅ Voice already cached: ${localFileName}`);
+      log.info(`✅ Voice already cached: ${localFileName}`);
       return localPath;
     }
 
-    console.log(`⬇️ Downloading voice for ${reminder.medicationName}...`);
-    console.log(`   URL: ${reminder.voiceUrl}`);
-    console.log(`   Local: ${localPath}`);
+    log.info(`⬇️ Downloading voice for reminder ${reminder.reminderId}...`);
 
     const downloadResult = await FileSystem.downloadAsync(reminder.voiceUrl, localPath);
 
     if (downloadResult.status === 200) {
-      console.log(`✅ Voice downloaded: ${localFileName}`);
+      log.info(`✅ Voice downloaded: ${localFileName}`);
       // Save the local path for this prescription
       await saveVoiceMessagePath(reminder.prescriptionId, localPath);
       return localPath;
     } else {
-      console.error(`❌ Failed to download voice: HTTP ${downloadResult.status}`);
+      log.error(`❌ Failed to download voice: HTTP ${downloadResult.status}`);
       return null;
     }
   } catch (error) {
-    console.error(`❌ Error downloading voice for ${reminder.medicationName}:`, error);
+    log.error(`❌ Error downloading voice for reminder ${reminder.reminderId}:`, error);
     return null;
   }
 }
@@ -391,7 +283,7 @@ async function downloadVoiceMessage(
   options?: { force?: boolean; existingPath?: string | null }
 ): Promise<{ path: string | null; downloaded: boolean }> {
   if (!reminder.voiceUrl) {
-    console.log(`No voice URL for ${reminder.medicationName}`);
+    log.debug(`No voice URL for reminder ${reminder.reminderId}`);
     return { path: null, downloaded: false };
   }
 
@@ -404,7 +296,7 @@ async function downloadVoiceMessage(
 
     const fileInfo = await FileSystem.getInfoAsync(localPath);
     if (fileInfo.exists && !options?.force) {
-      console.log(`Voice already cached: ${localFileName}`);
+      log.info(`Voice already cached: ${localFileName}`);
       return { path: localPath, downloaded: false };
     }
 
@@ -416,26 +308,24 @@ async function downloadVoiceMessage(
           await FileSystem.deleteAsync(toDelete, { idempotent: true });
         }
       } catch (error) {
-        console.warn('Failed to delete previous voice file:', error);
+        log.warn('Failed to delete previous voice file:', error);
       }
     }
 
-    console.log(`Downloading voice for ${reminder.medicationName}...`);
-    console.log(`  URL: ${reminder.voiceUrl}`);
-    console.log(`  Local: ${localPath}`);
+    log.info(`Downloading voice for reminder ${reminder.reminderId}...`);
 
     const downloadResult = await FileSystem.downloadAsync(reminder.voiceUrl, localPath);
 
     if (downloadResult.status === 200) {
-      console.log(`Voice downloaded: ${localFileName}`);
+      log.info(`Voice downloaded: ${localFileName}`);
       await saveVoiceMessagePath(reminder.prescriptionId, localPath);
       return { path: localPath, downloaded: true };
     }
 
-    console.error(`Failed to download voice: HTTP ${downloadResult.status}`);
+    log.error(`Failed to download voice: HTTP ${downloadResult.status}`);
     return { path: null, downloaded: false };
   } catch (error) {
-    console.error(`Error downloading voice for ${reminder.medicationName}:`, error);
+    log.error(`Error downloading voice for reminder ${reminder.reminderId}:`, error);
     return { path: null, downloaded: false };
   }
 }
@@ -447,13 +337,13 @@ async function ensureVoiceMessage(
   if (!reminder.voiceUrl) {
     if (existing?.voice?.localPath) {
       try {
-        console.log(`Removing cached voice for prescription ${existing.prescriptionId || 'unknown'}`);
+        log.info(`Removing cached voice for prescription ${existing.prescriptionId || 'unknown'}`);
         const info = await FileSystem.getInfoAsync(existing.voice.localPath);
         if (info.exists) {
           await FileSystem.deleteAsync(existing.voice.localPath, { idempotent: true });
         }
       } catch (error) {
-        console.warn('Failed to remove unused voice file:', error);
+        log.warn('Failed to remove unused voice file:', error);
       }
     }
     if (existing?.prescriptionId) {
@@ -471,7 +361,7 @@ async function ensureVoiceMessage(
     (existingVoice?.voiceFormat || null) === (reminder.voiceFormat || null);
 
   if (!voiceMatches && existingVoice?.localPath) {
-    console.log(`Voice changed for reminder ${reminder.reminderId}, refreshing cache`);
+    log.info(`Voice changed for reminder ${reminder.reminderId}, refreshing cache`);
   }
 
   const result = await downloadVoiceMessage(reminder, {
@@ -489,157 +379,13 @@ async function ensureVoiceMessage(
   return result;
 }
 
-function buildStoredRecord(
-  reminder: LocalReminder,
-  schedule: ScheduleResult,
-  fingerprint: string,
-  voicePath: string | null
-): StoredReminderV2 {
-  return {
-    reminderId: reminder.reminderId,
-    prescriptionId: reminder.prescriptionId,
-    patientId: reminder.patientId,
-    scheduledFor: reminder.scheduledFor,
-    medicationName: reminder.medicationName,
-    dosage: reminder.dosage,
-    instructions: reminder.instructions,
-    imageUrl: reminder.imageUrl,
-    voice: {
-      voiceUrl: reminder.voiceUrl || null,
-      voiceFileName: reminder.voiceFileName || null,
-      localPath: voicePath || null,
-      voiceChecksum: reminder.voiceChecksum || null,
-      voiceVersion: reminder.voiceVersion || null,
-      voiceFormat: reminder.voiceFormat || null,
-    },
-    schedule,
-    fingerprint,
-    lastSyncedAt: new Date().toISOString(),
-  };
-}
-
-async function cancelStoredSchedule(record: StoredReminderV2): Promise<void> {
-  const alarmId = record.schedule.alarmId || record.reminderId;
-  if (useNativeAlarms && alarmId) {
-    try {
-      await alarmService.cancelAlarm(alarmId);
-    } catch (error) {
-      console.error('Error cancelling native alarm:', error);
-    }
-  }
-
-  const notificationIds = record.schedule.notificationIds || [];
-  for (const notificationId of notificationIds) {
-    if (!notificationId) continue;
-    try {
-      await Notifications.cancelScheduledNotificationAsync(notificationId);
-    } catch (error) {
-      console.warn('Error cancelling scheduled notification:', error);
-    }
-  }
-}
-
-async function cancelOrphanedNotifications(
-  remoteIds: Set<string>,
-  localMap: Record<string, StoredReminderV2>
-): Promise<number> {
-  try {
-    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
-    let cancelled = 0;
-    for (const request of scheduled) {
-      const data = (request.content?.data || {}) as { reminderId?: string; type?: string };
-      const reminderId = data.reminderId;
-      if (!reminderId) continue;
-      if (data.type && data.type !== 'medication_reminder') continue;
-
-      const local = localMap[reminderId];
-      const allowedIds = new Set(local?.schedule.notificationIds || []);
-
-      if (!remoteIds.has(reminderId)) {
-        await Notifications.cancelScheduledNotificationAsync(request.identifier);
-        cancelled++;
-        continue;
-      }
-
-      if (!local || local.schedule.platform === 'android_native') {
-        await Notifications.cancelScheduledNotificationAsync(request.identifier);
-        cancelled++;
-        continue;
-      }
-
-      if (!allowedIds.has(request.identifier)) {
-        await Notifications.cancelScheduledNotificationAsync(request.identifier);
-        cancelled++;
-      }
-    }
-    return cancelled;
-  } catch (error) {
-    console.error('Error cancelling orphaned notifications:', error);
-    return 0;
-  }
-}
-
-async function cleanupLegacyReminders(
-  remoteIds: Set<string>,
-  localMap: Record<string, StoredReminderV2>
-): Promise<number> {
-  const legacy = await loadRemindersV1();
-  let cleaned = 0;
-
-  for (const [reminderId, legacyRecord] of Object.entries(legacy)) {
-    const record = localMap[reminderId];
-    const allowedIds = new Set<string>();
-
-    if (record?.schedule?.platform === 'android_native') {
-      allowedIds.add(record.schedule.alarmId || reminderId);
-    }
-
-    if (record?.schedule?.notificationIds) {
-      for (const id of record.schedule.notificationIds) {
-        if (id) {
-          allowedIds.add(id);
-        }
-      }
-    }
-
-    const legacyId = legacyRecord.notificationId;
-    const isRemoteMissing = !remoteIds.has(reminderId);
-    const isDuplicate = legacyId && !allowedIds.has(legacyId);
-
-    if (isRemoteMissing || isDuplicate) {
-      const reason = isRemoteMissing ? 'missing_remote' : 'duplicate_local';
-      console.log(`Cleaning legacy reminder ${reminderId} (${reason})`);
-      try {
-        if (legacyId) {
-          await Notifications.cancelScheduledNotificationAsync(legacyId);
-        }
-      } catch (error) {
-        console.warn('Error cancelling legacy notification:', error);
-      }
-
-      if (useNativeAlarms && legacyId) {
-        try {
-          await alarmService.cancelAlarm(legacyId);
-        } catch (error) {
-          console.warn('Error cancelling legacy alarm:', error);
-        }
-      }
-
-      delete legacy[reminderId];
-      cleaned++;
-    }
-  }
-
-  if (cleaned > 0) {
-    await persistRemindersV1(legacy);
-  }
-
-  return cleaned;
+function cancelStoredSchedule(record: StoredReminderV2): Promise<void> {
+  return cancelRecordSchedule(record, platformScheduler);
 }
 
 async function cleanupVoiceCache(reminders: Record<string, StoredReminderV2>): Promise<number> {
   try {
-    const stored = await AsyncStorage.getItem(STORAGE_KEYS.VOICE_MESSAGES);
+    const stored = await encryptedStorage.getItem(STORAGE_KEYS.VOICE_MESSAGES);
     if (!stored) {
       return 0;
     }
@@ -655,14 +401,14 @@ async function cleanupVoiceCache(reminders: Record<string, StoredReminderV2>): P
     let removed = 0;
     for (const [prescriptionId, localPath] of Object.entries(voiceMessages)) {
       if (!usedPrescriptions.has(prescriptionId)) {
-        console.log(`Removing unused voice cache for prescription ${prescriptionId}`);
+        log.info(`Removing unused voice cache for prescription ${prescriptionId}`);
         try {
           const info = await FileSystem.getInfoAsync(localPath);
           if (info.exists) {
             await FileSystem.deleteAsync(localPath, { idempotent: true });
           }
         } catch (error) {
-          console.warn('Error deleting unused voice file:', error);
+          log.warn('Error deleting unused voice file:', error);
         }
         delete voiceMessages[prescriptionId];
         removed++;
@@ -670,24 +416,24 @@ async function cleanupVoiceCache(reminders: Record<string, StoredReminderV2>): P
     }
 
     if (removed > 0) {
-      await AsyncStorage.setItem(STORAGE_KEYS.VOICE_MESSAGES, JSON.stringify(voiceMessages));
+      await encryptedStorage.setItem(STORAGE_KEYS.VOICE_MESSAGES, JSON.stringify(voiceMessages));
     }
 
     return removed;
   } catch (error) {
-    console.error('Error cleaning voice cache:', error);
+    log.error('Error cleaning voice cache:', error);
     return 0;
   }
 }
 
 async function downloadAndScheduleRemindersLegacy(token: string): Promise<{ success: boolean; scheduled: number; audioDownloaded: number }> {
   try {
-    console.log('🔄 Starting reminder sync...');
+    log.info('🔄 Starting reminder sync...');
 
     const response = await apiService.getUpcomingReminders(token);
-    const reminders = (response.data as LocalReminder[]) || [];
+    const reminders = await travelModeService.reanchorReminders((response.data as LocalReminder[]) || []);
 
-    console.log(`✅ Fetched ${reminders.length} upcoming reminders`);
+    log.info(`✅ Fetched ${reminders.length} upcoming reminders`);
 
     let audioDownloaded = 0;
 
@@ -704,36 +450,155 @@ async function downloadAndScheduleRemindersLegacy(token: string): Promise<{ succ
         // Then schedule the reminder
         await scheduleReminderLegacy(reminder);
       } catch (error) {
-        console.error(`❌ Error scheduling reminder ${reminder.reminderId}:`, error);
+        log.error(`❌ Error scheduling reminder ${reminder.reminderId}:`, error);
       }
     }
 
     await AsyncStorage.setItem(STORAGE_KEYS.LAST_SYNC, new Date().toISOString());
 
-    console.log(`📊 Sync complete: ${reminders.length} reminders, ${audioDownloaded} audio files`);
+    log.info(`📊 Sync complete: ${reminders.length} reminders, ${audioDownloaded} audio files`);
 
     return { success: true, scheduled: reminders.length, audioDownloaded };
   } catch (error) {
-    console.error('❌ Error downloading and scheduling reminders:', error);
+    log.error('❌ Error downloading and scheduling reminders:', error);
     throw error;
   }
 }
 
+/**
+ * Tell the caregivers what this reconcile left scheduled on the device
+ */
+async function reportReconcileHeartbeat(token: string): Promise<void> {
+  const reminders = await loadRemindersV2();
+  const now = Date.now();
+  const scheduledAlarms = Object.values(reminders).filter(
+    record => new Date(record.scheduledFor).getTime() > now
+  ).length;
+  const { lastSyncAt } = await loadSyncState();
+  await deviceHeartbeatService.reportHeartbeat(token, { lastSyncAt: lastSyncAt ?? null, scheduledAlarms });
+}
+
+/**
+ * Whether the stored reminders are recent enough to be patched with the changes since the last sync
+ */
+function canSyncIncrementally(syncState: SyncState): boolean {
+  if (syncState.schemaVersion !== 2 || !syncState.lastSyncAt || !syncState.lastFullReconcileAt) {
+    return false;
+  }
+  // A truncated iOS window slides forward only when rebuilt from every upcoming reminder
+  if (Platform.OS === 'ios' && (syncState.deferredReminders ?? 0) > 0) {
+    return false;
+  }
+  const lastFullAt = new Date(syncState.lastFullReconcileAt).getTime();
+  const age = Date.now() - lastFullAt;
+  return !Number.isNaN(lastFullAt) && age >= 0 && age < FULL_RECONCILE_MAX_AGE_MS;
+}
+
+/**
+ * Incremental reconcile: fetch only the reminders added, changed or cancelled since the last
+ * sync and apply them to the stored map by fingerprint. Returns null when the changes cannot
+ * be trusted to be complete (server gap, old backend, iOS notification budget), so the caller
+ * falls back to a full reconcile.
+ */
+async function syncReminderChanges(
+  token: string,
+  daysAhead: number,
+  syncState: SyncState
+): Promise<ReconcileResult | null> {
+  const requestedAt = new Date().toISOString();
+  let changes: ReminderChangesData | undefined;
+  try {
+    const response = await apiService.getReminderChanges(token, syncState.lastSyncAt as string, daysAhead);
+    changes = response.success ? response.data : undefined;
+  } catch (error) {
+    log.warn('Reminder changes unavailable:', error);
+    return null;
+  }
+
+  if (!changes || changes.fullResyncRequired) {
+    return null;
+  }
+  // A backend without change lists only says that something changed
+  if (changes.hasUpdates && !changes.changed && !changes.cancelled) {
+    return null;
+  }
+
+  const cancelledIds = changes.cancelled || [];
+  const changed = (await travelModeService.reanchorReminders((changes.changed as LocalReminder[]) || []))
+    .filter(reminder => !cancelledIds.includes(reminder.reminderId));
+
+  const localMap = await loadRemindersV2();
+  let pendingNotifications: PendingNotification[] = [];
+  if (Platform.OS === 'ios') {
+    try {
+      pendingNotifications = await platformScheduler.getPendingNotifications();
+    } catch (error) {
+      log.error('Failed to read iOS scheduled notifications:', error);
+      return null;
+    }
+  }
+  log.info(
+    `Incremental reminder sync: changed=${changed.length}, cancelled=${cancelledIds.length}, local=${Object.keys(localMap).length}`
+  );
+
+  const plan = planReminderChanges({
+    changed,
+    cancelledIds,
+    local: localMap,
+    platform: Platform.OS,
+    pendingNotifications,
+    now: new Date(),
+  });
+  if (!plan) {
+    return null;
+  }
+
+  const { local, scheduled, updated, removed, audioDownloaded } = await applyReconcilePlan(
+    plan,
+    localMap,
+    platformScheduler
+  );
+
+  await escalationService.trackReminders(changed);
+  await escalationService.untrackReminders(cancelledIds);
+  await cleanupVoiceCache(local);
+
+  await persistRemindersV2(local);
+  const syncedAt = changes.serverTime || requestedAt;
+  await AsyncStorage.setItem(STORAGE_KEYS.LAST_SYNC, syncedAt);
+  await persistSyncState({
+    schemaVersion: 2,
+    lastSyncAt: syncedAt,
+    lastFullReconcileAt: syncState.lastFullReconcileAt,
+    deferredReminders: syncState.deferredReminders,
+    inProgress: false,
+  });
+  notifyScheduleListeners();
+
+  log.info(`Incremental sync complete: added=${scheduled}, updated=${updated}, removed=${removed}`);
+
+  return {
+    success: true,
+    remoteCount: Object.keys(local).length,
+    scheduled,
+    updated,
+    removed,
+    audioDownloaded,
+    cancelledNotifications: 0,
+  };
+}
+
+/**
+ * Bring the scheduled alarms in line with the server. Uses the changes since the last sync
+ * when possible, otherwise (or with `full`) rebuilds from the whole upcoming window.
+ */
 export async function reconcileReminders(
   token: string,
   daysAhead: number = 30,
-  options?: { force?: boolean; minIntervalMs?: number }
-): Promise<{
-  success: boolean;
-  remoteCount: number;
-  scheduled: number;
-  updated: number;
-  removed: number;
-  audioDownloaded: number;
-  cancelledNotifications: number;
-}> {
+  options?: { force?: boolean; full?: boolean; minIntervalMs?: number }
+): Promise<ReconcileResult> {
   if (isReconciling) {
-    console.log('Reminder reconcile already in progress, skipping');
+    log.info('Reminder reconcile already in progress, skipping');
     return {
       success: false,
       remoteCount: 0,
@@ -748,11 +613,12 @@ export async function reconcileReminders(
   isReconciling = true;
   const syncState = await loadSyncState();
   const minIntervalMs = options?.minIntervalMs ?? DEFAULT_RECONCILE_MIN_INTERVAL_MS;
-  if (!options?.force && syncState.lastFullReconcileAt) {
-    const lastRunAt = new Date(syncState.lastFullReconcileAt).getTime();
+  const lastRun = syncState.lastSyncAt || syncState.lastFullReconcileAt;
+  if (!options?.force && lastRun) {
+    const lastRunAt = new Date(lastRun).getTime();
     const elapsed = Date.now() - lastRunAt;
     if (!Number.isNaN(lastRunAt) && elapsed >= 0 && elapsed < minIntervalMs) {
-      console.log(`Reminder reconcile skipped (last run ${elapsed}ms ago)`);
+      log.info(`Reminder reconcile skipped (last run ${elapsed}ms ago)`);
       isReconciling = false;
       return {
         success: true,
@@ -769,10 +635,22 @@ export async function reconcileReminders(
   await persistSyncState({ ...syncState, inProgress: true });
 
   try {
-    console.log('Starting reminder reconcile sync...');
+    if (!options?.full && canSyncIncrementally(syncState)) {
+      const incremental = await syncReminderChanges(token, daysAhead, syncState);
+      if (incremental) {
+        await reportReconcileHeartbeat(token);
+        return incremental;
+      }
+      log.info('Incremental reminder sync not possible, falling back to full reconcile');
+    }
+
+    log.info('Starting reminder reconcile sync...');
 
+    // Changes made while this runs are picked up by the next incremental sync
+    const requestedAt = new Date().toISOString();
     const response = await apiService.getUpcomingReminders(token, daysAhead);
-    const reminders = (response.data as LocalReminder[]) || [];
+    // Server times are planned in the home zone; move them while the patient travels
+    const reminders = await travelModeService.reanchorReminders((response.data as LocalReminder[]) || []);
     const remoteCount = reminders.length;
     const orderedReminders = [...reminders].sort((a, b) => {
       const aTime = new Date(a.scheduledFor).getTime();
@@ -780,179 +658,59 @@ export async function reconcileReminders(
       return aTime - bTime;
     });
 
+    await escalationService.trackReminders(orderedReminders);
+
     const localMap = await loadRemindersV2();
-    console.log(`Reconcile snapshot: remote=${remoteCount}, local=${Object.keys(localMap).length}`);
+    log.info(`Reconcile snapshot: remote=${remoteCount}, local=${Object.keys(localMap).length}`);
     const remoteIds = new Set(orderedReminders.map(reminder => reminder.reminderId));
-    const voiceByPrescription = new Map<string, StoredReminderV2>();
-    let iosRemainingSlots = IOS_MAX_PENDING_NOTIFICATIONS;
-    let iosRemainingCandidates = 0;
-    const iosScheduledReminderIds = new Set<string>();
-    const iosCandidateIds = new Set<string>();
-
-    for (const record of Object.values(localMap)) {
-      if (!record.prescriptionId) continue;
-      if (record.voice?.voiceUrl || record.voice?.voiceFileName || record.voice?.localPath) {
-        voiceByPrescription.set(record.prescriptionId, record);
-      }
-    }
 
+    let pendingNotifications: PendingNotification[] = [];
     if (Platform.OS === 'ios') {
       try {
-        const scheduledNotifications = await Notifications.getAllScheduledNotificationsAsync();
-        iosRemainingSlots = Math.max(
-          0,
-          IOS_MAX_PENDING_NOTIFICATIONS - scheduledNotifications.length
-        );
-        for (const notification of scheduledNotifications) {
-          const data = notification?.content?.data as any;
-          const reminderId = data?.reminderId;
-          if (reminderId) {
-            iosScheduledReminderIds.add(String(reminderId));
-          }
-        }
-        console.log(
-          `iOS pending notifications: ${scheduledNotifications.length}/${IOS_MAX_PENDING_NOTIFICATIONS}`
+        pendingNotifications = await platformScheduler.getPendingNotifications();
+        log.info(
+          `iOS pending notifications: ${pendingNotifications.length}/${IOS_NOTIFICATION_WINDOW.MAX_PENDING}`
         );
       } catch (error) {
-        console.error('Failed to read iOS scheduled notifications:', error);
-        iosRemainingSlots = IOS_MAX_PENDING_NOTIFICATIONS;
+        log.error('Failed to read iOS scheduled notifications:', error);
       }
-
-      for (const reminder of orderedReminders) {
-        const reminderId = reminder.reminderId;
-        const existing = localMap[reminderId];
-        const fingerprint = buildFingerprint(reminder);
-        const needsSchedule =
-          !existing ||
-          existing.fingerprint !== fingerprint ||
-          !iosScheduledReminderIds.has(reminderId);
-        if (needsSchedule) {
-          iosCandidateIds.add(reminderId);
-        }
-      }
-      iosRemainingCandidates = iosCandidateIds.size;
     }
 
-    let scheduled = 0;
-    let updated = 0;
-    let removed = 0;
-    let audioDownloaded = 0;
-
-    for (const reminderId of Object.keys(localMap)) {
-      if (!remoteIds.has(reminderId)) {
-        console.log(`Removing stale reminder ${reminderId}`);
-        await cancelStoredSchedule(localMap[reminderId]);
-        delete localMap[reminderId];
-        removed++;
-      }
+    const plan = planFullReconcile({
+      remote: orderedReminders,
+      local: localMap,
+      platform: Platform.OS,
+      pendingNotifications,
+      now: new Date(),
+    });
+    if (plan.deferredReminders > 0) {
+      log.info(`iOS notification window full: ${plan.deferredReminders} reminder(s) deferred`);
     }
 
-    let iosCapacityLogged = false;
-
-    for (const remote of orderedReminders) {
-      const reminderId = remote.reminderId;
-      const fingerprint = buildFingerprint(remote);
-      const existing = localMap[reminderId];
-      const needsUpdate = !!existing && existing.fingerprint !== fingerprint;
-      const needsReschedule =
-        Platform.OS === 'ios' &&
-        !!existing &&
-        existing.fingerprint === fingerprint &&
-        !iosScheduledReminderIds.has(reminderId);
-      const isNew = !existing;
-
-      if (!isNew && !needsUpdate && !needsReschedule) {
-        continue;
-      }
-
-      if (Platform.OS === 'ios' && iosRemainingSlots <= 0) {
-        if (!iosCapacityLogged) {
-          console.warn('iOS notification limit reached; skipping additional reminders');
-          iosCapacityLogged = true;
-        }
-        continue;
-      }
-
-      let iosRepeatCount: number | undefined;
-      if (Platform.OS === 'ios') {
-        if (iosRemainingCandidates <= 0 || iosRemainingSlots < iosRemainingCandidates) {
-          iosRepeatCount = 1;
-        } else {
-          iosRepeatCount = Math.min(
-            IOS_REPEAT_COUNT,
-            Math.max(1, Math.floor(iosRemainingSlots / iosRemainingCandidates))
-          );
-        }
-      }
-
-      try {
-        const cachedVoice =
-          remote.voiceUrl && remote.prescriptionId
-            ? voiceByPrescription.get(remote.prescriptionId)
-            : undefined;
-        const voiceResult = await ensureVoiceMessage(remote, existing || cachedVoice);
-        if (voiceResult.downloaded) {
-          audioDownloaded++;
-        }
-
-        if (isNew) {
-          console.log(`Scheduling new reminder ${reminderId}`);
-        } else if (needsUpdate) {
-          console.log(`Updating reminder ${reminderId}`);
-        } else {
-          console.log(`Rescheduling missing reminder ${reminderId}`);
-        }
-
-        const schedule = await scheduleReminderInternal(remote, voiceResult.path, {
-          iosRepeatCount,
-          skipIOSCapacityCheck: Platform.OS === 'ios',
-        });
-
-        if (existing) {
-          await cancelStoredSchedule(existing);
-        }
-
-        const record = buildStoredRecord(remote, schedule, fingerprint, voiceResult.path);
-        localMap[reminderId] = record;
-        if (record.prescriptionId) {
-          voiceByPrescription.set(record.prescriptionId, record);
-        }
-
-        if (isNew) {
-          scheduled++;
-        } else {
-          updated++;
-        }
-
-        if (Platform.OS === 'ios') {
-          iosRemainingSlots = Math.max(
-            0,
-            iosRemainingSlots - (schedule.notificationIds?.length ?? 0)
-          );
-          if (iosRemainingCandidates > 0) {
-            iosRemainingCandidates -= 1;
-          }
-        }
-      } catch (error) {
-        console.error(`Error scheduling reminder ${reminderId}:`, error);
-      }
-    }
+    const { local, scheduled, updated, removed, audioDownloaded } = await applyReconcilePlan(
+      plan,
+      localMap,
+      platformScheduler
+    );
 
-    const cancelledNotifications = await cancelOrphanedNotifications(remoteIds, localMap);
-    const cleanedLegacy = await cleanupLegacyReminders(remoteIds, localMap);
-    const cleanedVoiceCache = await cleanupVoiceCache(localMap);
+    const cancelledNotifications = await cancelOrphanedNotifications(remoteIds, local, platformScheduler);
+    const cleanedLegacy = await cleanupLegacyReminders(remoteIds, local, reminderStore, platformScheduler);
+    const cleanedVoiceCache = await cleanupVoiceCache(local);
 
-    await persistRemindersV2(localMap);
-    const now = new Date().toISOString();
-    await AsyncStorage.setItem(STORAGE_KEYS.LAST_SYNC, now);
+    await persistRemindersV2(local);
+    await AsyncStorage.setItem(STORAGE_KEYS.LAST_SYNC, requestedAt);
     await persistSyncState({
       schemaVersion: 2,
-      lastSyncAt: now,
-      lastFullReconcileAt: now,
+      lastSyncAt: requestedAt,
+      lastFullReconcileAt: requestedAt,
+      deferredReminders: plan.deferredReminders,
       inProgress: false,
     });
+    notifyScheduleListeners();
+
+    await reportReconcileHeartbeat(token);
 
-    console.log(
+    log.info(
       `Reconcile complete: remote=${remoteCount}, added=${scheduled}, updated=${updated}, removed=${removed}, cancelledNotifications=${cancelledNotifications}, cleanedLegacy=${cleanedLegacy}, cleanedVoiceCache=${cleanedVoiceCache}`
     );
 
@@ -966,7 +724,7 @@ export async function reconcileReminders(
       cancelledNotifications,
     };
   } catch (error) {
-    console.error('Error during reminder reconcile:', error);
+    log.error('Error during reminder reconcile:', error);
     await persistSyncState({ ...syncState, inProgress: false });
     return {
       success: false,
@@ -997,13 +755,20 @@ export async function downloadAndScheduleReminders(
 async function scheduleReminderInternal(
   reminder: LocalReminder,
   audioPath: string | null,
-  options?: { alarmIdOverride?: string; iosRepeatCount?: number; skipIOSCapacityCheck?: boolean }
+  options?: {
+    alarmIdOverride?: string;
+    iosRepeatCount?: number;
+    skipIOSCapacityCheck?: boolean;
+    // Snoozes left after the one being scheduled, when it is a snooze
+    snoozesRemaining?: number;
+  }
 ): Promise<ScheduleResult> {
   const scheduledDate = new Date(reminder.scheduledFor);
   const alarmId = options?.alarmIdOverride || reminder.reminderId;
 
   if (useNativeAlarms) {
     try {
+      const snooze = await snoozeService.getSnoozeStatus(reminder.reminderId, reminder.snooze);
       const result = await alarmService.scheduleAlarm({
         alarmId,
         triggerTime: scheduledDate,
@@ -1013,6 +778,8 @@ async function scheduleReminderInternal(
         reminderId: reminder.reminderId,
         patientId: reminder.patientId,
         audioPath: audioPath,
+        snoozeMinutes: snooze.policy.durationMinutes,
+        snoozesRemaining: options?.snoozesRemaining ?? snooze.remaining,
       });
 
       if (result.success) {
@@ -1023,7 +790,7 @@ async function scheduleReminderInternal(
         };
       }
     } catch (error) {
-      console.error('Failed to schedule native alarm, falling back:', error);
+      log.error('Failed to schedule native alarm, falling back:', error);
     }
   }
 
@@ -1034,10 +801,10 @@ async function scheduleReminderInternal(
     let baseTime = scheduledDate.getTime();
     if (baseTime <= now + 3000) {
       baseTime = now + 5000;
-      console.log('iOS reminder time is in the past or too soon; scheduling immediate alert');
+      log.info('iOS reminder time is in the past or too soon; scheduling immediate alert');
     }
 
-    let repeatCount = options?.iosRepeatCount ?? IOS_REPEAT_COUNT;
+    let repeatCount = options?.iosRepeatCount ?? IOS_NOTIFICATION_WINDOW.MAX_REPEATS;
     if (repeatCount <= 0) {
       throw new Error('iOS repeat count is zero; skipping reminder scheduling');
     }
@@ -1045,24 +812,24 @@ async function scheduleReminderInternal(
     if (!options?.skipIOSCapacityCheck) {
       try {
         const pending = await Notifications.getAllScheduledNotificationsAsync();
-        const availableSlots = IOS_MAX_PENDING_NOTIFICATIONS - pending.length;
+        const availableSlots = IOS_NOTIFICATION_WINDOW.MAX_PENDING - pending.length;
         if (availableSlots <= 0) {
-          console.warn('iOS notification limit reached; skipping reminder scheduling');
+          log.warn('iOS notification limit reached; skipping reminder scheduling');
           throw new Error('iOS notification limit reached');
         }
         if (repeatCount > availableSlots) {
-          console.log(
+          log.info(
             `iOS repeat count capped from ${repeatCount} to ${availableSlots} to fit pending limit`
           );
           repeatCount = availableSlots;
         }
       } catch (error) {
-        console.error('Failed to check iOS notification capacity:', error);
+        log.error('Failed to check iOS notification capacity:', error);
       }
     }
 
     for (let index = 0; index < repeatCount; index += 1) {
-      const triggerDate = new Date(baseTime + index * IOS_REPEAT_INTERVAL_MS);
+      const triggerDate = new Date(baseTime + index * IOS_NOTIFICATION_WINDOW.REPEAT_INTERVAL_MS);
       try {
         const notificationId = await iOSAlarmService.scheduleMedicationReminder({
           reminderId: reminder.reminderId,
@@ -1079,7 +846,7 @@ async function scheduleReminderInternal(
           notificationIds.push(notificationId);
         }
       } catch (error) {
-        console.error('Failed to schedule iOS reminder notification:', error);
+        log.error('Failed to schedule iOS reminder notification:', error);
       }
     }
 
@@ -1121,9 +888,37 @@ async function scheduleReminderInternal(
   };
 }
 
+function toPendingNotification(request: Notifications.NotificationRequest): PendingNotification {
+  const data = (request.content?.data || {}) as { reminderId?: unknown; type?: unknown };
+  return {
+    identifier: request.identifier,
+    reminderId: data.reminderId ? String(data.reminderId) : null,
+    type: typeof data.type === 'string' ? data.type : null,
+  };
+}
+
+// Alarms, notifications and voice cache of this device, as the reminder executor sees them
+const platformScheduler: ReminderSchedulerAdapter = {
+  nativeAlarms: useNativeAlarms,
+  scheduleReminder: (reminder, voicePath, options) =>
+    scheduleReminderInternal(reminder, voicePath, {
+      iosRepeatCount: options.iosRepeatCount,
+      skipIOSCapacityCheck: Platform.OS === 'ios',
+    }),
+  cancelAlarm: async alarmId => {
+    await alarmService.cancelAlarm(alarmId);
+  },
+  cancelNotification: notificationId => Notifications.cancelScheduledNotificationAsync(notificationId),
+  getPendingNotifications: async () => {
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    return scheduled.map(toPendingNotification);
+  },
+  ensureVoice: ensureVoiceMessage,
+};
+
 async function scheduleReminderLegacy(reminder: LocalReminder): Promise<string> {
   const scheduledDate = new Date(reminder.scheduledFor);
-  console.log(`⏰ Scheduling reminder for ${reminder.medicationName} at ${scheduledDate.toLocaleString()}`);
+  log.info(`⏰ Scheduling reminder ${reminder.reminderId} at ${scheduledDate.toISOString()}`);
 
   // On Android, use native alarm service for full-screen alarm
   if (useNativeAlarms) {
@@ -1131,9 +926,10 @@ async function scheduleReminderLegacy(reminder: LocalReminder): Promise<string>
       // Get the audio path for this reminder (voice message from doctor)
       const audioPath = await getVoiceMessagePath(reminder.prescriptionId);
       if (audioPath) {
-        console.log(`🎵 Voice message found for ${reminder.medicationName}: ${audioPath}`);
+        log.info(`🎵 Voice message found for reminder ${reminder.reminderId}`);
       }
 
+      const snooze = await snoozeService.getSnoozeStatus(reminder.reminderId, reminder.snooze);
       const result = await alarmService.scheduleAlarm({
         alarmId: reminder.reminderId,
         triggerTime: scheduledDate,
@@ -1143,6 +939,8 @@ async function scheduleReminderLegacy(reminder: LocalReminder): Promise<string>
         reminderId: reminder.reminderId,
         patientId: reminder.patientId,
         audioPath: audioPath,
+        snoozeMinutes: snooze.policy.durationMinutes,
+        snoozesRemaining: snooze.remaining,
       });
 
       await saveReminder(reminder.reminderId, {
@@ -1151,10 +949,10 @@ async function scheduleReminderLegacy(reminder: LocalReminder): Promise<string>
         dosage: reminder.dosage,
       });
 
-      console.log(`✅ Reminder scheduled via native alarm: ${result.alarmId}`);
+      log.info(`✅ Reminder scheduled via native alarm: ${result.alarmId}`);
       return result.alarmId;
     } catch (error) {
-      console.error('❌ Failed to schedule native alarm, falling back to expo-notifications:', error);
+      log.error('❌ Failed to schedule native alarm, falling back to expo-notifications:', error);
       // Fall through to notification-based scheduling
     }
   }
@@ -1186,7 +984,7 @@ async function scheduleReminderLegacy(reminder: LocalReminder): Promise<string>
     dosage: reminder.dosage,
   });
 
-  console.log(`✅ Reminder scheduled via Expo notifications, ID: ${notificationId}`);
+  log.info(`✅ Reminder scheduled via Expo notifications, ID: ${notificationId}`);
   return notificationId;
 }
 
@@ -1214,14 +1012,14 @@ export async function scheduleReminder(reminder: LocalReminder): Promise<string>
 // Helper function to get voice message path for a prescription
 async function getVoiceMessagePath(prescriptionId: string): Promise<string | null> {
   try {
-    const stored = await AsyncStorage.getItem(STORAGE_KEYS.VOICE_MESSAGES);
+    const stored = await encryptedStorage.getItem(STORAGE_KEYS.VOICE_MESSAGES);
     if (stored) {
       const voiceMessages = JSON.parse(stored);
       return voiceMessages[prescriptionId] || null;
     }
     return null;
   } catch (error) {
-    console.error('Error getting voice message path:', error);
+    log.error('Error getting voice message path:', error);
     return null;
   }
 }
@@ -1229,42 +1027,42 @@ async function getVoiceMessagePath(prescriptionId: string): Promise<string | nul
 // Save voice message path for a prescription
 export async function saveVoiceMessagePath(prescriptionId: string, localPath: string): Promise<void> {
   try {
-    const stored = await AsyncStorage.getItem(STORAGE_KEYS.VOICE_MESSAGES);
+    const stored = await encryptedStorage.getItem(STORAGE_KEYS.VOICE_MESSAGES);
     const voiceMessages = stored ? JSON.parse(stored) : {};
     voiceMessages[prescriptionId] = localPath;
-    await AsyncStorage.setItem(STORAGE_KEYS.VOICE_MESSAGES, JSON.stringify(voiceMessages));
-    console.log(`✅ Voice message path saved for prescription ${prescriptionId}`);
+    await encryptedStorage.setItem(STORAGE_KEYS.VOICE_MESSAGES, JSON.stringify(voiceMessages));
+    log.info(`✅ Voice message path saved for prescription ${prescriptionId}`);
   } catch (error) {
-    console.error('Error saving voice message path:', error);
+    log.error('Error saving voice message path:', error);
   }
 }
 
 async function removeVoiceMessagePath(prescriptionId: string): Promise<void> {
   try {
-    const stored = await AsyncStorage.getItem(STORAGE_KEYS.VOICE_MESSAGES);
+    const stored = await encryptedStorage.getItem(STORAGE_KEYS.VOICE_MESSAGES);
     if (!stored) return;
     const voiceMessages = JSON.parse(stored) as Record<string, string>;
     if (voiceMessages[prescriptionId]) {
       delete voiceMessages[prescriptionId];
-      await AsyncStorage.setItem(STORAGE_KEYS.VOICE_MESSAGES, JSON.stringify(voiceMessages));
+      await encryptedStorage.setItem(STORAGE_KEYS.VOICE_MESSAGES, JSON.stringify(voiceMessages));
     }
   } catch (error) {
-    console.error('Error removing voice message path:', error);
+    log.error('Error removing voice message path:', error);
   }
 }
 
 export async function checkForUpdates(token: string): Promise<{ hasUpdates: boolean; lastModified: string | null }> {
   try {
-    console.log('🔄 Checking for updates...');
+    log.info('🔄 Checking for updates...');
 
     const response = await apiService.getUpcomingReminders(token);
     const reminders = (response.data as LocalReminder[]) || [];
 
-    console.log(`✅ Found ${reminders.length} reminders`);
+    log.info(`✅ Found ${reminders.length} reminders`);
 
     return { hasUpdates: reminders.length > 0, lastModified: new Date().toISOString() };
   } catch (error) {
-    console.error('❌ Error checking for updates:', error);
+    log.error('❌ Error checking for updates:', error);
     return { hasUpdates: false, lastModified: null };
   }
 }
@@ -1274,11 +1072,42 @@ export async function getLastSyncTime(): Promise<string | null> {
   try {
     return await AsyncStorage.getItem(STORAGE_KEYS.LAST_SYNC);
   } catch (error) {
-    console.error('Error getting last sync time:', error);
+    log.error('Error getting last sync time:', error);
     return null;
   }
 }
 
+
+/**
+ * How far ahead the device can alert the patient without syncing again
+ */
+export async function getReminderCoverage(): Promise<ReminderCoverage> {
+  const reminders = await loadRemindersV2();
+  const now = Date.now();
+  let lastScheduledAtMs = 0;
+  for (const record of Object.values(reminders)) {
+    const at = new Date(record.scheduledFor).getTime();
+    if (at > now && at > lastScheduledAtMs) {
+      lastScheduledAtMs = at;
+    }
+  }
+  const { deferredReminders } = await loadSyncState();
+  return {
+    lastScheduledAt: lastScheduledAtMs ? new Date(lastScheduledAtMs).toISOString() : null,
+    deferredCount: deferredReminders ?? 0,
+  };
+}
+
+
+export function addScheduleListener(listener: ScheduleListener): void {
+  scheduleListeners.push(listener);
+}
+
+
+export function removeScheduleListener(listener: ScheduleListener): void {
+  scheduleListeners = scheduleListeners.filter(existing => existing !== listener);
+}
+
 export async function cancelPendingNotifications(reminderId: string): Promise<void> {
   try {
     const reminders = await loadRemindersV2();
@@ -1303,16 +1132,16 @@ export async function cancelPendingNotifications(reminderId: string): Promise<vo
       try {
         await Notifications.cancelScheduledNotificationAsync(legacyStored.notificationId);
       } catch (error) {
-        console.warn('Error cancelling legacy notification:', error);
+        log.warn('Error cancelling legacy notification:', error);
       }
     }
   } catch (error) {
-    console.error('Error cancelling pending notifications:', error);
+    log.error('Error cancelling pending notifications:', error);
   }
 }
 
 export async function confirmReminderLocally(reminderId: string): Promise<void> {
-  console.log(`✅ Confirming reminder locally: ${reminderId}`);
+  log.info(`✅ Confirming reminder locally: ${reminderId}`);
 
   const reminders = await loadRemindersV2();
   const stored = reminders[reminderId];
@@ -1329,7 +1158,9 @@ export async function confirmReminderLocally(reminderId: string): Promise<void>
     await persistRemindersV1(legacyReminders);
   }
 
-  const confirmations = await AsyncStorage.getItem('@medication_confirmations').then(value => value || '[]');
+  await snoozeService.clearSnoozeCount(reminderId);
+
+  const confirmations = await encryptedStorage.getItem('@medication_confirmations').then(value => value || '[]');
   const list = JSON.parse(confirmations) as Array<{ reminderId: string; confirmedAt: string }>;
   const alreadyConfirmed = list.some(entry => entry.reminderId === reminderId);
   if (!alreadyConfirmed) {
@@ -1337,89 +1168,167 @@ export async function confirmReminderLocally(reminderId: string): Promise<void>
       reminderId,
       confirmedAt: new Date().toISOString(),
     });
-    await AsyncStorage.setItem('@medication_confirmations', JSON.stringify(list));
+    await encryptedStorage.setItem('@medication_confirmations', JSON.stringify(list));
   }
 }
 
 
-async function snoozeReminderLocallyLegacy(reminderId: string): Promise<void> {
-  console.log(`⏰ Snoozing reminder locally: ${reminderId}`);
+export type SnoozeResult = {
+  snoozed: boolean;
+  missed: boolean;
+  remaining: number;
+  snoozeUntil?: string;
+};
 
-  const reminders = await loadReminders();
+/**
+ * Mark a dose as missed on this device: stop its alarm, forget it locally and queue the
+ * missed action for the backend. Used once the snooze budget of a dose is exhausted.
+ */
+export async function markReminderMissedLocally(reminderId: string): Promise<void> {
+  log.info(`❌ Marking reminder as missed locally: ${reminderId}`);
+
+  const reminders = await loadRemindersV2();
   const stored = reminders[reminderId];
 
   if (stored) {
-    // Cancel current alarm/notification
-    if (useNativeAlarms) {
-      try {
-        await alarmService.cancelAlarm(reminderId);
-      } catch (error) {
-        console.error('Error cancelling native alarm:', error);
-      }
+    await cancelStoredSchedule(stored);
+    delete reminders[reminderId];
+    await persistRemindersV2(reminders);
+  }
+
+  const legacyReminders = await loadRemindersV1();
+  const legacyStored = legacyReminders[reminderId];
+  if (legacyStored) {
+    try {
+      await Notifications.cancelScheduledNotificationAsync(legacyStored.notificationId);
+    } catch (error) {
+      log.warn('Error cancelling legacy notification:', error);
     }
-    await Notifications.cancelScheduledNotificationAsync(stored.notificationId);
+    delete legacyReminders[reminderId];
+    await persistRemindersV1(legacyReminders);
+  }
 
-    // Schedule snooze for 5 minutes
-    const snoozeTime = new Date(Date.now() + 5 * 60 * 1000);
+  await snoozeService.clearSnoozeCount(reminderId);
 
-    if (useNativeAlarms) {
-      try {
-        const snoozeAlarmId = `${reminderId}_snooze_${Date.now()}`;
-        await alarmService.scheduleAlarm({
-          alarmId: snoozeAlarmId,
-          triggerTime: snoozeTime,
-          medicationName: stored.medicationName,
-          dosage: stored.dosage,
-          instructions: 'Rappel (Snooze)',
-          reminderId: reminderId,
-          patientId: '',
-        });
+  try {
+    await offlineQueueService.addAction('missed', reminderId);
+  } catch (error) {
+    log.error('Error queueing missed action:', error);
+  }
+}
 
-        reminders[reminderId] = {
-          notificationId: snoozeAlarmId,
-          medicationName: stored.medicationName,
-          dosage: stored.dosage,
-        };
 
-        await persistReminders(reminders);
-        console.log(`✅ Snooze alarm scheduled for 5 minutes`);
-        return;
-      } catch (error) {
-        console.error('Error scheduling snooze alarm, falling back to notification:', error);
-      }
+async function snoozeReminderLocallyLegacy(reminderId: string, durationMinutes?: number): Promise<SnoozeResult> {
+  log.info(`⏰ Snoozing reminder locally: ${reminderId}`);
+
+  const reminders = await loadRemindersV1();
+  const stored = reminders[reminderId];
+
+  if (!stored) {
+    return { snoozed: false, missed: false, remaining: 0 };
+  }
+
+  const status = await snoozeService.getSnoozeStatus(reminderId);
+  if (status.remaining <= 0) {
+    log.info(`Snooze limit reached for ${reminderId} (${status.count}/${status.policy.maxSnoozes})`);
+    await markReminderMissedLocally(reminderId);
+    return { snoozed: false, missed: true, remaining: 0 };
+  }
+
+  const snoozeMinutes = durationMinutes ?? status.policy.durationMinutes;
+
+  // Cancel current alarm/notification
+  if (useNativeAlarms) {
+    try {
+      await alarmService.cancelAlarm(reminderId);
+    } catch (error) {
+      log.error('Error cancelling native alarm:', error);
     }
+  }
+  await Notifications.cancelScheduledNotificationAsync(stored.notificationId);
+
+  const snoozeTime = new Date(Date.now() + snoozeMinutes * 60 * 1000);
+  await snoozeService.incrementSnoozeCount(reminderId);
+  const result: SnoozeResult = {
+    snoozed: true,
+    missed: false,
+    remaining: status.remaining - 1,
+    snoozeUntil: snoozeTime.toISOString(),
+  };
 
-    // Fallback: Use expo-notifications
-    const notificationId = await Notifications.scheduleNotificationAsync({
-      content: {
-        title: '⏰ Rappel Médicament (Snooze)',
-        body: `Rappel dans 5 minutes pour ${stored.medicationName}`,
-        data: {
-          type: 'medication_reminder',
-          reminderId,
-          medicationName: stored.medicationName,
-          dosage: stored.dosage,
-          reminderTime: snoozeTime.toISOString(),
-        },
-        sound: 'default',
-        priority: Notifications.AndroidNotificationPriority.MAX,
-      },
-      trigger: { type: 'date', date: snoozeTime } as any,
-    });
+  if (useNativeAlarms) {
+    try {
+      const snoozeAlarmId = `${reminderId}_snooze_${Date.now()}`;
+      await alarmService.scheduleAlarm({
+        alarmId: snoozeAlarmId,
+        triggerTime: snoozeTime,
+        medicationName: stored.medicationName,
+        dosage: stored.dosage,
+        instructions: i18n.t('dashboard.patient.snoozeInstructions'),
+        reminderId: reminderId,
+        patientId: '',
+        snoozeMinutes,
+        snoozesRemaining: result.remaining,
+      });
 
-    reminders[reminderId] = {
-      notificationId,
-      medicationName: stored.medicationName,
-      dosage: stored.dosage,
-    };
+      reminders[reminderId] = {
+        notificationId: snoozeAlarmId,
+        medicationName: stored.medicationName,
+        dosage: stored.dosage,
+      };
 
-    await persistReminders(reminders);
+      await persistRemindersV1(reminders);
+      log.info(`✅ Snooze alarm scheduled for ${snoozeMinutes} minutes`);
+      return result;
+    } catch (error) {
+      log.error('Error scheduling snooze alarm, falling back to notification:', error);
+    }
   }
+
+  // Fallback: Use expo-notifications
+  const notificationId = await Notifications.scheduleNotificationAsync({
+    content: {
+      title: i18n.t('dashboard.patient.snoozeTitle'),
+      body: i18n.t('dashboard.patient.snoozeBody', { minutes: snoozeMinutes, medication: stored.medicationName }),
+      data: {
+        type: 'medication_reminder',
+        reminderId,
+        medicationName: stored.medicationName,
+        dosage: stored.dosage,
+        reminderTime: snoozeTime.toISOString(),
+      },
+      sound: 'default',
+      priority: Notifications.AndroidNotificationPriority.MAX,
+    },
+    trigger: { type: 'date', date: snoozeTime } as any,
+  });
+
+  reminders[reminderId] = {
+    notificationId,
+    medicationName: stored.medicationName,
+    dosage: stored.dosage,
+  };
+
+  await persistRemindersV1(reminders);
+  return result;
 }
 
 
-export async function snoozeReminderLocally(reminderId: string): Promise<void> {
-  console.log(`Snoozing reminder locally: ${reminderId}`);
+/**
+ * Snooze budget of a stored reminder, using its prescription policy or the patient default
+ */
+export async function getReminderSnoozeStatus(reminderId: string): Promise<SnoozeStatus> {
+  const reminders = await loadRemindersV2();
+  return snoozeService.getSnoozeStatus(reminderId, reminders[reminderId]?.snoozePolicy);
+}
+
+
+/**
+ * Reschedule a ringing reminder `durationMinutes` from now (policy duration by default).
+ * Once the dose has used all its snoozes it is marked as missed instead.
+ */
+export async function snoozeReminderLocally(reminderId: string, durationMinutes?: number): Promise<SnoozeResult> {
+  log.info(`Snoozing reminder locally: ${reminderId}`);
 
   const reminders = await loadRemindersV2();
   let stored = reminders[reminderId];
@@ -1428,17 +1337,25 @@ export async function snoozeReminderLocally(reminderId: string): Promise<void> {
     const legacyReminders = await loadRemindersV1();
     const legacyStored = legacyReminders[reminderId];
     if (legacyStored) {
-      stored = buildLegacyRecord(reminderId, legacyStored);
+      stored = buildLegacyRecord(reminderId, legacyStored, useNativeAlarms);
     }
   }
 
   if (!stored) {
-    return;
+    return { snoozed: false, missed: false, remaining: 0 };
+  }
+
+  const status = await snoozeService.getSnoozeStatus(reminderId, stored.snoozePolicy);
+  if (status.remaining <= 0) {
+    log.info(`Snooze limit reached for ${reminderId} (${status.count}/${status.policy.maxSnoozes})`);
+    await markReminderMissedLocally(reminderId);
+    return { snoozed: false, missed: true, remaining: 0 };
   }
 
   await cancelStoredSchedule(stored);
 
-  const snoozeTime = new Date(Date.now() + 5 * 60 * 1000);
+  const snoozeMinutes = durationMinutes ?? status.policy.durationMinutes;
+  const snoozeTime = new Date(Date.now() + snoozeMinutes * 60 * 1000);
   const snoozeReminder: LocalReminder = {
     id: reminderId,
     reminderId,
@@ -1456,12 +1373,14 @@ export async function snoozeReminderLocally(reminderId: string): Promise<void> {
     voiceFormat: stored.voice?.voiceFormat || null,
     voiceTitle: undefined,
     voiceDuration: undefined,
+    snooze: stored.snoozePolicy,
   };
 
   const voiceResult = await ensureVoiceMessage(snoozeReminder, stored);
   const snoozeAlarmId = `${reminderId}_snooze_${Date.now()}`;
   const schedule = await scheduleReminderInternal(snoozeReminder, voiceResult.path, {
     alarmIdOverride: snoozeAlarmId,
+    snoozesRemaining: status.remaining - 1,
   });
 
   reminders[reminderId] = {
@@ -1470,6 +1389,7 @@ export async function snoozeReminderLocally(reminderId: string): Promise<void> {
     lastSyncedAt: new Date().toISOString(),
   };
   await persistRemindersV2(reminders);
+  await snoozeService.incrementSnoozeCount(reminderId);
 
   const legacyReminders = await loadRemindersV1();
   if (legacyReminders[reminderId]) {
@@ -1482,10 +1402,18 @@ export async function snoozeReminderLocally(reminderId: string): Promise<void> {
     };
     await persistRemindersV1(legacyReminders);
   }
+
+  log.info(`Reminder ${reminderId} snoozed for ${snoozeMinutes} minutes (${status.remaining - 1} left)`);
+  return {
+    snoozed: true,
+    missed: false,
+    remaining: status.remaining - 1,
+    snoozeUntil: snoozeTime.toISOString(),
+  };
 }
 
 export async function clearAllLocalReminders(): Promise<void> {
-  console.log('Clearing all local reminders...');
+  log.info('Clearing all local reminders...');
 
   try {
     const remindersV2 = await loadRemindersV2();
@@ -1510,36 +1438,36 @@ export async function clearAllLocalReminders(): Promise<void> {
         try {
           await alarmService.cancelAlarm(alarmId);
         } catch (error) {
-          console.error('Error cancelling native alarm:', error);
+          log.error('Error cancelling native alarm:', error);
         }
       }
 
       try {
         await alarmService.stopAlarm();
       } catch (error) {
-        console.error('Error stopping active alarm:', error);
+        log.error('Error stopping active alarm:', error);
       }
 
       try {
         await alarmService.clearPendingConfirmations();
       } catch (error) {
-        console.error('Error clearing pending confirmations:', error);
+        log.error('Error clearing pending confirmations:', error);
       }
     }
   } catch (error) {
-    console.error('Error clearing native alarms:', error);
+    log.error('Error clearing native alarms:', error);
   }
 
   try {
     await Notifications.cancelAllScheduledNotificationsAsync();
   } catch (error) {
-    console.error('Error cancelling scheduled notifications:', error);
+    log.error('Error cancelling scheduled notifications:', error);
   }
 
   try {
     await Notifications.dismissAllNotificationsAsync();
   } catch (error) {
-    console.error('Error dismissing notifications:', error);
+    log.error('Error dismissing notifications:', error);
   }
 
   try {
@@ -1554,7 +1482,7 @@ export async function clearAllLocalReminders(): Promise<void> {
       '@patient_dashboard_refresh',
     ]);
   } catch (error) {
-    console.error('Error clearing reminder storage:', error);
+    log.error('Error clearing reminder storage:', error);
   }
 
   try {
@@ -1563,10 +1491,10 @@ export async function clearAllLocalReminders(): Promise<void> {
       await FileSystem.deleteAsync(VOICE_MESSAGES_DIR, { idempotent: true });
     }
   } catch (error) {
-    console.error('Error clearing voice message cache:', error);
+    log.error('Error clearing voice message cache:', error);
   }
 
-  console.log('All local reminders cleared');
+  log.info('All local reminders cleared');
 }
 
 
@@ -1574,40 +1502,46 @@ export async function getAllScheduledNotifications(): Promise<Notifications.Noti
   try {
     return await Notifications.getAllScheduledNotificationsAsync();
   } catch (error) {
-    console.error('❌ Error getting scheduled notifications:', error);
+    log.error('❌ Error getting scheduled notifications:', error);
     return [];
   }
 }
 
 
-export function isAvailable(): boolean {
-  return true;
+export async function getPendingReminderNotifications(): Promise<PendingNotification[]> {
+  const scheduled = await getAllScheduledNotifications();
+  return scheduled.map(toPendingNotification);
 }
 
 
+/**
+ * Stored schedule records, for diagnostics
+ */
+export async function getStoredReminders(): Promise<Record<string, StoredReminderV2>> {
+  return loadRemindersV2();
+}
 
-async function loadReminders(): Promise<Record<string, StoredReminderV1>> {
-  const stored = await AsyncStorage.getItem(STORAGE_KEYS.REMINDERS_V1);
-  if (!stored) {
-    return {};
-  }
 
-  try {
-    return JSON.parse(stored) as Record<string, StoredReminderV1>;
-  } catch (error) {
-    console.warn('⚠️ Failed to parse stored reminders, resetting state', error);
-    return {};
-  }
+export async function getSyncStatus(): Promise<ReminderSyncStatus> {
+  const syncState = await loadSyncState();
+  return {
+    lastSyncAt: syncState.lastSyncAt || null,
+    lastFullReconcileAt: syncState.lastFullReconcileAt || null,
+    deferredReminders: syncState.deferredReminders ?? 0,
+  };
 }
 
-async function persistReminders(reminders: Record<string, StoredReminderV1>): Promise<void> {
-  await AsyncStorage.setItem(STORAGE_KEYS.REMINDERS_V1, JSON.stringify(reminders));
+
+export function isAvailable(): boolean {
+  return true;
 }
 
+
+
 async function saveReminder(reminderId: string, reminder: StoredReminderV1): Promise<void> {
-  const reminders = await loadReminders();
+  const reminders = await loadRemindersV1();
   reminders[reminderId] = reminder;
-  await persistReminders(reminders);
+  await persistRemindersV1(reminders);
 }
 
 
@@ -1617,11 +1551,19 @@ const localReminderServiceCompat = {
   scheduleReminder,
   checkForUpdates,
   getLastSyncTime,
+  getReminderCoverage,
+  addScheduleListener,
+  removeScheduleListener,
   cancelPendingNotifications,
   confirmReminderLocally,
   snoozeReminderLocally,
+  getReminderSnoozeStatus,
+  markReminderMissedLocally,
   clearAllLocalReminders,
   getAllScheduledNotifications,
+  getPendingReminderNotifications,
+  getStoredReminders,
+  getSyncStatus,
   isAvailable,
   saveVoiceMessagePath,
 };
@@ -0,0 +1,125 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform, Share } from 'react-native';
+import Constants from 'expo-constants';
+import {
+  addLogListener,
+  clearLogEntries,
+  createLogger,
+  getLogEntries,
+  restoreLogEntries,
+} from '../utils/logger';
+import { LOGGING } from '../constants/logging';
+import { LogEntry } from '../types/logging.types';
+
+/**
+ * Log Service (functional)
+ * Keeps the logger's ring buffer on the device across restarts and exports it when the
+ * patient sends logs to support. Entries are redacted by the logger before they get here.
+ */
+
+const LOG_BUFFER_KEY = '@app_log_buffer';
+
+const log = createLogger('logs');
+
+let initialized = false;
+// Save failures are logged once per streak: the entry itself schedules another save
+let saveFailing = false;
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+
+export async function flushLogs(): Promise<void> {
+  if (persistTimer) {
+    clearTimeout(persistTimer);
+    persistTimer = null;
+  }
+  try {
+    await AsyncStorage.setItem(LOG_BUFFER_KEY, JSON.stringify(getLogEntries()));
+    saveFailing = false;
+  } catch (error) {
+    if (!saveFailing) {
+      saveFailing = true;
+      log.error('❌ Error saving log buffer:', error);
+    }
+  }
+}
+
+
+function schedulePersist(): void {
+  if (persistTimer) return;
+  persistTimer = setTimeout(() => {
+    persistTimer = null;
+    flushLogs();
+  }, LOGGING.PERSIST_DELAY_MS);
+}
+
+
+/**
+ * Restore the entries of earlier sessions and persist new ones as they are written
+ */
+export async function initLogPersistence(): Promise<void> {
+  if (initialized) return;
+  initialized = true;
+
+  try {
+    const stored = await AsyncStorage.getItem(LOG_BUFFER_KEY);
+    if (stored) {
+      restoreLogEntries(JSON.parse(stored) as LogEntry[]);
+    }
+  } catch (error) {
+    log.error('❌ Error restoring log buffer:', error);
+  }
+
+  addLogListener(schedulePersist);
+}
+
+
+function formatEntry(entry: LogEntry): string {
+  return `${entry.at} ${entry.level.toUpperCase()} [${entry.tag}] ${entry.message}`;
+}
+
+
+export function formatLogs(entries: LogEntry[] = getLogEntries()): string {
+  const header = [
+    `App ${Constants.expoConfig?.version ?? 'unknown'}`,
+    `${Platform.OS} ${String(Platform.Version)}`,
+    `Exported ${new Date().toISOString()}`,
+  ].join(' · ');
+  return [header, '', ...entries.map(formatEntry)].join('\n');
+}
+
+
+/**
+ * Hand the log buffer to the share sheet so the patient can send it to support
+ */
+export async function exportLogs(title: string): Promise<boolean> {
+  try {
+    log.info(`Exporting ${getLogEntries().length} log entries`);
+    await flushLogs();
+    const result = await Share.share({ title, message: formatLogs() });
+    return result.action === Share.sharedAction;
+  } catch (error) {
+    log.error('❌ Error exporting logs:', error);
+    return false;
+  }
+}
+
+
+export async function clearLogs(): Promise<void> {
+  clearLogEntries();
+  try {
+    await AsyncStorage.removeItem(LOG_BUFFER_KEY);
+  } catch (error) {
+    log.error('❌ Error clearing log buffer:', error);
+  }
+}
+
+
+export const logService = {
+  initLogPersistence,
+  flushLogs,
+  formatLogs,
+  exportLogs,
+  clearLogs,
+};
+
+export default logService;
@@ -0,0 +1,801 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system/legacy';
+import apiService from './api';
+import { ApiError, AuthError, ConflictError, NetworkError, TimeoutError } from './api/errors';
+import { getCurrentUser } from './api/session';
+import { networkMonitor } from './networkMonitor';
+import { encryptedStorage } from './secureStorage';
+import { queryCache } from './queryCache';
+import { QueryKey, QUERY_KEYS } from '../constants/queries';
+import { ApiResponse } from '../types';
+import { createIdempotencyKey } from '../utils/idempotency';
+import {
+  AnyQueuedMutation,
+  ConflictResolution,
+  MutationConflict,
+  MutationPayloads,
+  MutationResult,
+  MutationType,
+  QueuedMutation,
+} from '../types/outbox.types';
+import {
+  applyServerChanges,
+  findFieldConflicts,
+  getRecordVersion,
+  mergeConflictChoices,
+  pickFields,
+  toPrescriptionFields,
+} from '../utils/conflicts';
+import { createLogger } from '../utils/logger';
+
+/**
+ * Mutation Outbox (functional)
+ * Caregiver and profile writes made offline are queued here and replayed in order once
+ * the device is back online. Dose actions (confirm/snooze/missed) keep their own batch
+ * queue in offlineQueueService.
+ *
+ * A payload can point at the result of an earlier mutation with an outbox reference
+ * (see toOutboxRef), e.g. a prescription using a voice message recorded offline; the
+ * referenced mutation then has to succeed first.
+ *
+ * Edits of versioned records carry the version they were made on. Before one is
+ * replayed the server record is read again: changes to other fields are merged in,
+ * changes to the same fields park the mutation as a 'conflict' until the caregiver
+ * resolves it (patients' own profile edits keep the local value).
+ *
+ * Every mutation carries an idempotency key, sent on the first attempt and on each
+ * replay, so a creation whose response was lost to a timeout is not made twice.
+ * Mutations that keep failing stay in the outbox as 'failed' until the caregiver
+ * retries or discards them.
+ */
+
+const log = createLogger('outbox');
+
+const OUTBOX_KEY = '@mutation_outbox';
+const RESULTS_KEY = '@mutation_outbox_results';
+const OUTBOX_FILES_DIR = `${FileSystem.documentDirectory}outbox/`;
+const OUTBOX_REF_PREFIX = 'outbox:';
+const MAX_RETRY_COUNT = 3;
+
+type ResolveRef = <T extends string | null | undefined>(value: T) => T;
+
+type VersionedPayload = { baseVersion?: string | null; baseData?: Record<string, unknown> };
+
+type Versioning<K extends MutationType> = {
+  // Server record in the shape of the edit, null when it no longer exists
+  fetchCurrent(token: string, payload: MutationPayloads[K], resolveRef: ResolveRef): Promise<Record<string, unknown> | null>;
+  getChanges(payload: MutationPayloads[K]): Record<string, unknown>;
+  withChanges(payload: MutationPayloads[K], changes: Record<string, unknown>): MutationPayloads[K];
+};
+
+type MutationHandler<K extends MutationType> = {
+  run(token: string, payload: MutationPayloads[K], resolveRef: ResolveRef, idempotencyKey: string): Promise<MutationResult>;
+  // Queries whose data the mutation changes
+  invalidates(payload: MutationPayloads[K]): QueryKey[];
+  // Called when the mutation is queued, to make the payload survive until it is sent
+  prepare?(payload: MutationPayloads[K], mutationId: string): Promise<MutationPayloads[K]>;
+  // Called once the mutation left the outbox, sent or dropped
+  cleanup?(payload: MutationPayloads[K]): Promise<void>;
+  versioning?: Versioning<K>;
+};
+
+type OutboxListener = (mutations: AnyQueuedMutation[]) => void;
+
+let listeners: OutboxListener[] = [];
+let queueLock: Promise<unknown> = Promise.resolve();
+let isFlushing = false;
+
+
+/**
+ * A request the server answered with `success: false`. Like ApiError it keeps the
+ * i18n key of its generic message, so the outbox stores it untranslated.
+ */
+class RejectedMutationError extends Error {
+  readonly messageKey: string;
+  readonly serverMessage?: string;
+
+  constructor(messageKey: string, serverMessage?: string) {
+    super(serverMessage || messageKey);
+    this.name = 'RejectedMutationError';
+    this.messageKey = messageKey;
+    this.serverMessage = serverMessage;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+
+function unwrap(result: ApiResponse<any>, fallbackKey: string): ApiResponse<any> {
+  if (!result.success) {
+    throw new RejectedMutationError(fallbackKey, result.message);
+  }
+  return result;
+}
+
+
+/**
+ * A patient's prescriptions as the signed-in caregiver sees them
+ */
+async function fetchPatientPrescriptions(token: string, patientId: string): Promise<Record<string, any>[]> {
+  const userType = (await getCurrentUser())?.userType;
+
+  if (userType === 'tuteur') {
+    const details = unwrap(await apiService.getPatientDetails(token, patientId, 'tuteur'), 'syncConflicts.errors.patientNotFound');
+    return Array.isArray(details.data?.prescriptions) ? details.data.prescriptions : [];
+  }
+  const medications = unwrap(await apiService.getPatientMedications(token, patientId), 'syncConflicts.errors.patientNotFound');
+  return Array.isArray(medications.data) ? medications.data : [];
+}
+
+
+const HANDLERS: { [K in MutationType]: MutationHandler<K> } = {
+  createPrescription: {
+    async run(token, { patientId, prescriptionData }, resolveRef, idempotencyKey) {
+      const result = unwrap(
+        await apiService.createPrescription(
+          token,
+          patientId,
+          {
+            ...prescriptionData,
+            voiceMessageId: resolveRef(prescriptionData.voiceMessageId),
+          },
+          idempotencyKey
+        ),
+        'syncConflicts.errors.createPrescription'
+      );
+      return { id: (result.data as { id?: string } | undefined)?.id };
+    },
+    invalidates: ({ patientId }) => [QUERY_KEYS.patient(patientId), QUERY_KEYS.doctorPatients()],
+  },
+  updatePrescription: {
+    async run(token, { prescriptionId, prescriptionData, baseVersion }, resolveRef) {
+      unwrap(
+        await apiService.updatePrescription(
+          token,
+          resolveRef(prescriptionId),
+          {
+            ...prescriptionData,
+            voiceMessageId: resolveRef(prescriptionData.voiceMessageId),
+          },
+          baseVersion
+        ),
+        'syncConflicts.errors.updatePrescription'
+      );
+      return {};
+    },
+    invalidates: ({ patientId }) => [QUERY_KEYS.patient(patientId)],
+    versioning: {
+      async fetchCurrent(token, { patientId, prescriptionId }, resolveRef) {
+        const prescriptions = await fetchPatientPrescriptions(token, patientId);
+        const current = prescriptions.find(item => item.id === resolveRef(prescriptionId));
+        return current ? { ...toPrescriptionFields(current) } : null;
+      },
+      getChanges: ({ prescriptionData }) => ({ ...prescriptionData }),
+      withChanges: (payload, changes) => ({ ...payload, prescriptionData: changes }),
+    },
+  },
+  deletePrescription: {
+    async run(token, { prescriptionId }, resolveRef) {
+      unwrap(
+        await apiService.deletePrescription(token, resolveRef(prescriptionId)),
+        'syncConflicts.errors.deletePrescription'
+      );
+      return {};
+    },
+    invalidates: ({ patientId }) => [QUERY_KEYS.patient(patientId), QUERY_KEYS.doctorPatients()],
+  },
+  updateProfile: {
+    async run(token, { profileData, baseVersion }) {
+      unwrap(await apiService.updateUserProfile(token, profileData, baseVersion), 'syncConflicts.errors.updateProfile');
+      return {};
+    },
+    invalidates: () => [QUERY_KEYS.profiles()],
+    versioning: {
+      async fetchCurrent(token) {
+        const profile = unwrap(await apiService.getUserProfile(token), 'syncConflicts.errors.profileUnavailable');
+        return profile.data && typeof profile.data === 'object' ? profile.data : null;
+      },
+      getChanges: ({ profileData }) => profileData,
+      withChanges: (payload, changes) => ({ ...payload, profileData: changes }),
+    },
+  },
+  uploadVoiceMessage: {
+    async run(token, payload, _resolveRef, idempotencyKey) {
+      const fileBase64 = await FileSystem.readAsStringAsync(payload.fileUri, {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+      const upload = unwrap(
+        await apiService.uploadVoiceMessage(token, {
+          fileBase64,
+          fileName: payload.fileName,
+          mimeType: payload.mimeType,
+        }, `${idempotencyKey}_upload`),
+        'syncConflicts.errors.uploadVoiceMessage'
+      );
+      const created = unwrap(
+        await apiService.createVoiceMessage(token, {
+          patientId: payload.patientId,
+          fileUrl: upload.data.fileUrl,
+          fileName: payload.fileName,
+          title: payload.title,
+          durationSeconds: payload.durationSeconds,
+        }, idempotencyKey),
+        'syncConflicts.errors.createVoiceMessage'
+      );
+      return { id: created.data?.id };
+    },
+    invalidates: ({ patientId }) => [QUERY_KEYS.patientVoiceMessages(patientId)],
+    async prepare(payload, mutationId) {
+      // Recordings live in the cache directory, which the OS may purge before we are online
+      await FileSystem.makeDirectoryAsync(OUTBOX_FILES_DIR, { intermediates: true }).catch(() => {});
+      const fileUri = `${OUTBOX_FILES_DIR}${mutationId}_${payload.fileName}`;
+      await FileSystem.copyAsync({ from: payload.fileUri, to: fileUri });
+      return { ...payload, fileUri };
+    },
+    async cleanup({ fileUri }) {
+      if (fileUri.startsWith(OUTBOX_FILES_DIR)) {
+        await FileSystem.deleteAsync(fileUri, { idempotent: true });
+      }
+    },
+  },
+  invitePatient: {
+    async run(token, payload, _resolveRef, idempotencyKey) {
+      unwrap(
+        await apiService.sendPatientInvitation(token, payload, idempotencyKey),
+        'syncConflicts.errors.invitePatient'
+      );
+      return {};
+    },
+    invalidates: () => [QUERY_KEYS.doctorPatients()],
+  },
+};
+
+
+/**
+ * Placeholder for the server id a queued mutation will produce
+ */
+export function toOutboxRef(mutationId: string): string {
+  return `${OUTBOX_REF_PREFIX}${mutationId}`;
+}
+
+
+export function isOutboxRef(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(OUTBOX_REF_PREFIX);
+}
+
+
+function findReferences(payload: unknown): string[] {
+  const ids = new Set<string>();
+  const pattern = /"outbox:([^"]+)"/g;
+  let match: RegExpExecArray | null;
+  const json = JSON.stringify(payload);
+  while ((match = pattern.exec(json))) {
+    ids.add(match[1]);
+  }
+  return Array.from(ids);
+}
+
+
+async function loadQueue(): Promise<AnyQueuedMutation[]> {
+  try {
+    const stored = await encryptedStorage.getItem(OUTBOX_KEY);
+    return stored ? (JSON.parse(stored) as AnyQueuedMutation[]) : [];
+  } catch (error) {
+    log.error('❌ Error reading mutation outbox:', error);
+    return [];
+  }
+}
+
+
+async function loadResults(): Promise<Record<string, MutationResult>> {
+  try {
+    const stored = await encryptedStorage.getItem(RESULTS_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    log.error('❌ Error reading mutation results:', error);
+    return {};
+  }
+}
+
+
+/**
+ * Read-modify-write of the stored queue, serialized so a mutation queued while the
+ * outbox flushes is not lost
+ */
+function updateQueue(
+  mutator: (queue: AnyQueuedMutation[]) => AnyQueuedMutation[]
+): Promise<AnyQueuedMutation[]> {
+  const next = queueLock.then(async () => {
+    const queue = mutator(await loadQueue());
+    await encryptedStorage.setItem(OUTBOX_KEY, JSON.stringify(queue));
+    listeners.forEach(listener => listener(queue));
+    return queue;
+  });
+  queueLock = next.catch(() => undefined);
+  return next;
+}
+
+
+/**
+ * @param idempotencyKey - Key a first attempt was already sent with, if any
+ */
+export async function enqueueMutation<K extends MutationType>(
+  type: K,
+  payload: MutationPayloads[K],
+  idempotencyKey: string = createIdempotencyKey(type)
+): Promise<QueuedMutation<K>> {
+  const id = `${type}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  const handler = HANDLERS[type] as MutationHandler<K>;
+  const preparedPayload = handler.prepare ? await handler.prepare(payload, id) : payload;
+
+  const mutation: QueuedMutation<K> = {
+    id,
+    type,
+    payload: preparedPayload,
+    dependsOn: findReferences(preparedPayload),
+    idempotencyKey,
+    status: 'pending',
+    createdAt: new Date().toISOString(),
+    retryCount: 0,
+  };
+
+  await updateQueue(queue => [...queue, mutation as unknown as AnyQueuedMutation]);
+  log.info(`📝 Queued ${type} mutation (${id})`);
+  return mutation;
+}
+
+
+export async function getPendingMutations(): Promise<AnyQueuedMutation[]> {
+  const queue = await loadQueue();
+  return queue.filter(mutation => mutation.status === 'pending');
+}
+
+
+export async function getPendingMutationCount(): Promise<number> {
+  return (await getPendingMutations()).length;
+}
+
+
+export async function getConflicts(): Promise<AnyQueuedMutation[]> {
+  const queue = await loadQueue();
+  return queue.filter(mutation => mutation.status === 'conflict');
+}
+
+
+export async function getFailedMutations(): Promise<AnyQueuedMutation[]> {
+  const queue = await loadQueue();
+  return queue.filter(mutation => mutation.status === 'failed');
+}
+
+
+/**
+ * The failed mutation and those that failed because they depend on it, directly or not
+ */
+function withFailedDependents(queue: AnyQueuedMutation[], mutationId: string): Set<string> {
+  const ids = new Set([mutationId]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const mutation of queue) {
+      if (
+        mutation.status === 'failed' &&
+        !ids.has(mutation.id) &&
+        mutation.dependsOn.some(id => ids.has(id))
+      ) {
+        ids.add(mutation.id);
+        added = true;
+      }
+    }
+  }
+  return ids;
+}
+
+
+/**
+ * Queue a failed mutation again with a fresh retry budget, along with the mutations
+ * that were waiting on it (flush afterwards to send them)
+ */
+export async function retryMutation(mutationId: string): Promise<void> {
+  await updateQueue(queue => {
+    const ids = withFailedDependents(queue, mutationId);
+    return queue.map(existing =>
+      ids.has(existing.id) && existing.status === 'failed'
+        ? { ...existing, status: 'pending', retryCount: 0, lastError: undefined, lastErrorMessage: undefined }
+        : existing
+    );
+  });
+  log.info(`🔁 Queued ${mutationId} again`);
+}
+
+
+/**
+ * Drop a failed mutation, along with the mutations that can no longer be sent without it
+ */
+export async function discardMutation(mutationId: string): Promise<void> {
+  const queue = await loadQueue();
+  const ids = withFailedDependents(queue, mutationId);
+  const discarded = queue.filter(existing => ids.has(existing.id) && existing.status === 'failed');
+  if (!discarded.length) {
+    log.warn(`⚠️ No failed mutation to discard for ${mutationId}`);
+    return;
+  }
+
+  await updateQueue(current => current.filter(existing => !discarded.some(dropped => dropped.id === existing.id)));
+  await Promise.all(discarded.map(cleanupMutation));
+  log.info(`🗑️ Discarded ${discarded.length} failed mutation(s)`);
+}
+
+
+/**
+ * Settle a conflicting edit. 'keep-server' drops it; 'keep-local' and per-field choices
+ * rebase it on the server version and queue it again (flush afterwards to send it).
+ */
+export async function resolveConflict(mutationId: string, resolution: ConflictResolution): Promise<void> {
+  const queue = await loadQueue();
+  const mutation = queue.find(existing => existing.id === mutationId && existing.status === 'conflict');
+  const versioning = mutation ? HANDLERS[mutation.type].versioning as Versioning<MutationType> | undefined : undefined;
+  if (!mutation?.conflict || !versioning) {
+    log.warn(`⚠️ No conflict to resolve for mutation ${mutationId}`);
+    return;
+  }
+  const { conflict } = mutation;
+
+  if (resolution === 'keep-server') {
+    // Later mutations may wait on this one; an update has no result they could need
+    const results = await loadResults();
+    await encryptedStorage.setItem(RESULTS_KEY, JSON.stringify({ ...results, [mutation.id]: {} }));
+    await updateQueue(current => current.filter(existing => existing.id !== mutationId));
+    await cleanupMutation(mutation);
+    const handler = HANDLERS[mutation.type] as MutationHandler<MutationType>;
+    await Promise.all(handler.invalidates(mutation.payload).map(key => queryCache.invalidateQueries(key)));
+    log.info(`🔀 Kept the server version for ${mutation.type} (${mutationId})`);
+    return;
+  }
+
+  const payload = mutation.payload as AnyQueuedMutation['payload'] & VersionedPayload;
+  const merged = mergeConflictChoices(
+    applyServerChanges(payload.baseData || {}, versioning.getChanges(payload), conflict.serverData),
+    conflict.fields,
+    resolution === 'keep-local' ? {} : resolution
+  );
+  const resolvedPayload = {
+    ...versioning.withChanges(payload, merged),
+    baseVersion: conflict.serverVersion,
+    baseData: conflict.serverData,
+  };
+
+  await updateQueue(current => current.map(existing =>
+    existing.id === mutationId
+      ? { ...existing, payload: resolvedPayload, status: 'pending', conflict: undefined, retryCount: 0 } as AnyQueuedMutation
+      : existing
+  ));
+  log.info(`🔀 Resolved ${mutation.type} (${mutationId}), queued again`);
+}
+
+
+/**
+ * Still offline or logged out: stop the flush and keep the retry budget
+ */
+function isInterruption(error: unknown): boolean {
+  return (
+    error instanceof NetworkError ||
+    error instanceof TimeoutError ||
+    (error instanceof AuthError && error.sessionExpired)
+  );
+}
+
+
+/**
+ * Client errors other than timeouts and rate limits will fail the same way on replay
+ */
+/**
+ * What the caregiver sees for a failed send: the server's own message when it sent
+ * one, otherwise the i18n key of a generic message, translated when rendered
+ */
+function describeFailure(error: unknown): Pick<AnyQueuedMutation, 'lastError' | 'lastErrorMessage'> {
+  if (error instanceof ApiError || error instanceof RejectedMutationError) {
+    return { lastError: error.messageKey, lastErrorMessage: error.serverMessage };
+  }
+  return { lastError: 'errors.unknown', lastErrorMessage: undefined };
+}
+
+
+function isPermanentFailure(error: unknown): boolean {
+  return (
+    error instanceof ApiError &&
+    typeof error.status === 'number' &&
+    error.status >= 400 &&
+    error.status < 500 &&
+    error.status !== 408 &&
+    error.status !== 429
+  );
+}
+
+
+async function runHandler<K extends MutationType>(
+  token: string,
+  type: K,
+  payload: MutationPayloads[K],
+  resolveRef: ResolveRef,
+  idempotencyKey: string
+): Promise<MutationResult> {
+  const handler = HANDLERS[type] as MutationHandler<K>;
+  const result = await handler.run(token, payload, resolveRef, idempotencyKey);
+  await Promise.all(handler.invalidates(payload).map(key => queryCache.invalidateQueries(key)));
+  return result;
+}
+
+
+/**
+ * Compare a versioned edit with the current server record. Returns the payload to send,
+ * rebased on the server version when the changes merge, or the conflict to resolve.
+ */
+async function checkForConflict(
+  token: string,
+  mutation: AnyQueuedMutation,
+  resolveRef: ResolveRef,
+  options: { keepLocal: boolean; current?: Record<string, unknown> }
+): Promise<{ payload: AnyQueuedMutation['payload'] } | { conflict: MutationConflict }> {
+  const versioning = HANDLERS[mutation.type].versioning as Versioning<MutationType> | undefined;
+  const payload = mutation.payload as AnyQueuedMutation['payload'] & VersionedPayload;
+  if (!versioning || !payload.baseVersion) {
+    return { payload };
+  }
+
+  const current = options.current ?? await versioning.fetchCurrent(token, payload, resolveRef);
+  // Gone from the server: the request itself reports that
+  if (!current) {
+    return { payload };
+  }
+  const serverVersion = getRecordVersion(current);
+  if (!serverVersion || serverVersion === payload.baseVersion) {
+    return { payload };
+  }
+
+  const base = payload.baseData || {};
+  const changes = versioning.getChanges(payload);
+  const serverData = pickFields(current, Object.keys(changes));
+  const fields = findFieldConflicts(base, changes, current);
+  if (fields.length && !options.keepLocal) {
+    log.info(`  ⚠️ ${mutation.type} (${mutation.id}) conflicts on ${fields.map(f => f.field).join(', ')}`);
+    return { conflict: { serverVersion, serverData, fields, detectedAt: new Date().toISOString() } };
+  }
+
+  return {
+    payload: {
+      ...versioning.withChanges(payload, applyServerChanges(base, changes, current)),
+      baseVersion: serverVersion,
+      baseData: serverData,
+    } as AnyQueuedMutation['payload'],
+  };
+}
+
+
+/**
+ * Patients only edit their own preferences; the latest choice on their device wins
+ */
+async function shouldKeepLocalEdits(): Promise<boolean> {
+  try {
+    return (await getCurrentUser())?.userType === 'patient';
+  } catch {
+    return false;
+  }
+}
+
+
+async function cleanupMutation(mutation: AnyQueuedMutation): Promise<void> {
+  const handler = HANDLERS[mutation.type] as MutationHandler<MutationType>;
+  try {
+    await handler.cleanup?.(mutation.payload);
+  } catch (error) {
+    log.error(`❌ Error cleaning up ${mutation.type} mutation:`, error);
+  }
+}
+
+
+/**
+ * Replay pending mutations in the order they were made
+ */
+export async function flushOutbox(token: string): Promise<{ sentCount: number; failedCount: number }> {
+  if (isFlushing) {
+    return { sentCount: 0, failedCount: 0 };
+  }
+  isFlushing = true;
+
+  let sentCount = 0;
+  let failedCount = 0;
+
+  try {
+    const queue = await loadQueue();
+    const pending = queue
+      .filter(mutation => mutation.status === 'pending')
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    if (!pending.length) {
+      return { sentCount, failedCount };
+    }
+
+    log.info(`📤 Flushing ${pending.length} queued mutations...`);
+    const results = await loadResults();
+    const keepLocal = await shouldKeepLocalEdits();
+    const failedIds = new Set(queue.filter(mutation => mutation.status === 'failed').map(mutation => mutation.id));
+
+    const resolveRef: ResolveRef = value => {
+      if (!isOutboxRef(value)) return value;
+      const resolved = results[value.slice(OUTBOX_REF_PREFIX.length)]?.id;
+      return (resolved ?? value) as typeof value;
+    };
+
+    for (const mutation of pending) {
+      const unresolved = mutation.dependsOn.filter(id => !results[id]);
+      if (unresolved.some(id => failedIds.has(id))) {
+        failedIds.add(mutation.id);
+        failedCount++;
+        await updateQueue(queue => queue.map(existing =>
+          existing.id === mutation.id
+            ? { ...existing, status: 'failed', lastError: 'syncConflicts.errors.dependencyFailed', lastErrorMessage: undefined }
+            : existing
+        ));
+        continue;
+      }
+      // Its dependency was not sent in this pass; try again on the next flush
+      if (unresolved.length) {
+        continue;
+      }
+
+      const markConflict = async (conflict: MutationConflict) => {
+        await updateQueue(queue => queue.map(existing =>
+          existing.id === mutation.id ? { ...existing, status: 'conflict', conflict } : existing
+        ));
+      };
+
+      try {
+        const checked = await checkForConflict(token, mutation, resolveRef, { keepLocal });
+        if ('conflict' in checked) {
+          await markConflict(checked.conflict);
+          continue;
+        }
+
+        // Mutations queued before keys were stored fall back to their id, also stable
+        const idempotencyKey = mutation.idempotencyKey ?? mutation.id;
+        const result = await runHandler(token, mutation.type, checked.payload, resolveRef, idempotencyKey);
+        results[mutation.id] = result;
+        await encryptedStorage.setItem(RESULTS_KEY, JSON.stringify(results));
+        await updateQueue(queue => queue.filter(existing => existing.id !== mutation.id));
+        await cleanupMutation(mutation);
+        sentCount++;
+        log.info(`  ✅ Sent ${mutation.type} (${mutation.id})`);
+      } catch (error: any) {
+        if (isInterruption(error)) {
+          log.info('  ⏸️ Outbox flush interrupted, will resume when back online');
+          break;
+        }
+
+        // The server saw a newer version than we read just before; compare against it
+        if (error instanceof ConflictError) {
+          try {
+            const checked = await checkForConflict(token, mutation, resolveRef, { keepLocal, current: error.current });
+            if ('conflict' in checked) {
+              await markConflict(checked.conflict);
+              continue;
+            }
+            // Merged cleanly: send the rebased edit on the next flush. A record the server
+            // keeps rejecting uses up the retry budget and fails below like any other error.
+            if (mutation.retryCount + 1 < MAX_RETRY_COUNT) {
+              await updateQueue(queue => queue.map(existing =>
+                existing.id === mutation.id
+                  ? { ...existing, payload: checked.payload, retryCount: existing.retryCount + 1 } as AnyQueuedMutation
+                  : existing
+              ));
+              continue;
+            }
+          } catch (checkError) {
+            log.error(`  ❌ Error checking ${mutation.type} (${mutation.id}) for conflicts:`, checkError);
+          }
+        }
+
+        const retryCount = mutation.retryCount + 1;
+        const failed = isPermanentFailure(error) || retryCount >= MAX_RETRY_COUNT;
+        failedCount++;
+        if (failed) {
+          failedIds.add(mutation.id);
+        }
+        log.error(`  ❌ Failed to send ${mutation.type} (${mutation.id}):`, error);
+        await updateQueue(queue => queue.map(existing =>
+          existing.id === mutation.id
+            ? { ...existing, retryCount, status: failed ? 'failed' : 'pending', ...describeFailure(error) }
+            : existing
+        ));
+      }
+    }
+
+    // Results are only needed while a queued mutation still references them
+    const remaining = await loadQueue();
+    const referenced = new Set(remaining.flatMap(mutation => mutation.dependsOn));
+    const prunedResults = Object.fromEntries(
+      Object.entries(results).filter(([id]) => referenced.has(id))
+    );
+    await encryptedStorage.setItem(RESULTS_KEY, JSON.stringify(prunedResults));
+
+    log.info(`✅ Outbox flush done: ${sentCount} sent, ${failedCount} failed`);
+    return { sentCount, failedCount };
+  } catch (error) {
+    log.error('❌ Error flushing mutation outbox:', error);
+    return { sentCount, failedCount };
+  } finally {
+    isFlushing = false;
+  }
+}
+
+
+/**
+ * Send the mutation now when online, queue it when offline or when the request could not
+ * reach the server. Other errors are thrown as usual. A queued mutation keeps the key of
+ * the first attempt, in case that request did reach the server.
+ */
+export async function runOrEnqueue<K extends MutationType>(
+  token: string,
+  type: K,
+  payload: MutationPayloads[K]
+): Promise<{ queued: false; result: MutationResult } | { queued: true; mutation: QueuedMutation<K> }> {
+  const isOffline = networkMonitor.getCurrentState() === false;
+  // References to queued mutations can only be resolved by the outbox itself
+  const hasReferences = findReferences(payload).length > 0;
+  const idempotencyKey = createIdempotencyKey(type);
+
+  if (!isOffline && !hasReferences) {
+    try {
+      const result = await runHandler(token, type, payload, value => value, idempotencyKey);
+      return { queued: false, result };
+    } catch (error) {
+      if (!(error instanceof NetworkError || error instanceof TimeoutError)) {
+        throw error;
+      }
+    }
+  }
+
+  const mutation = await enqueueMutation(type, payload, idempotencyKey);
+  if (!isOffline && hasReferences) {
+    flushOutbox(token);
+  }
+  return { queued: true, mutation };
+}
+
+
+export function addListener(listener: OutboxListener): void {
+  listeners.push(listener);
+}
+
+
+export function removeListener(listener: OutboxListener): void {
+  listeners = listeners.filter(existing => existing !== listener);
+}
+
+
+export async function clearAll(): Promise<void> {
+  try {
+    const queue = await loadQueue();
+    await Promise.all(queue.map(cleanupMutation));
+    await AsyncStorage.multiRemove([OUTBOX_KEY, RESULTS_KEY]);
+    listeners.forEach(listener => listener([]));
+  } catch (error) {
+    log.error('❌ Error clearing mutation outbox:', error);
+  }
+}
+
+
+export const mutationOutbox = {
+  toOutboxRef,
+  isOutboxRef,
+  enqueueMutation,
+  getPendingMutations,
+  getPendingMutationCount,
+  getConflicts,
+  resolveConflict,
+  getFailedMutations,
+  retryMutation,
+  discardMutation,
+  flushOutbox,
+  runOrEnqueue,
+  addListener,
+  removeListener,
+  clearAll,
+};
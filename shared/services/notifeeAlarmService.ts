@@ -1,4 +1,7 @@
 import { Platform, Linking } from 'react-native';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('alarms');
 
 // Safely import notifee - it may not be available in Expo Go
 let notifee: any = null;
@@ -19,7 +22,7 @@ try {
   TimestampTrigger = notifeeModule.TimestampTrigger;
   EventType = notifeeModule.EventType;
 } catch (error) {
-  console.warn('⚠️ Notifee not available (expected in Expo Go):', error);
+  log.warn('⚠️ Notifee not available (expected in Expo Go):', error);
 }
 
 const ALARM_CHANNEL_ID = 'medication-alarm';
@@ -61,9 +64,9 @@ class NotifeeAlarmService {
       });
 
       this.initialized = true;
-      console.log('✅ Notifee alarm channel created');
+      log.info('✅ Notifee alarm channel created');
     } catch (error) {
-      console.error('❌ Failed to create notifee channel:', error);
+      log.error('❌ Failed to create notifee channel:', error);
     }
   }
 
@@ -144,10 +147,10 @@ class NotifeeAlarmService {
         trigger,
       );
 
-      console.log(`✅ Notifee alarm scheduled: ${params.medicationName} at ${params.triggerTime.toLocaleString()}`);
+      log.info(`✅ Notifee alarm scheduled: ${params.alarmId} at ${params.triggerTime.toISOString()}`);
       return { success: true, alarmId: params.alarmId };
     } catch (error) {
-      console.error('❌ Failed to schedule notifee alarm:', error);
+      log.error('❌ Failed to schedule notifee alarm:', error);
       return { success: false, alarmId: params.alarmId };
     }
   }
@@ -159,9 +162,9 @@ class NotifeeAlarmService {
     if (!this.isAvailable() || !notifee) return;
     try {
       await notifee.cancelNotification(alarmId);
-      console.log(`✅ Alarm cancelled: ${alarmId}`);
+      log.info(`✅ Alarm cancelled: ${alarmId}`);
     } catch (error) {
-      console.error('❌ Failed to cancel alarm:', error);
+      log.error('❌ Failed to cancel alarm:', error);
     }
   }
 
@@ -223,9 +226,9 @@ class NotifeeAlarmService {
           patientId: params.patientId,
         },
       });
-      console.log(`✅ Notifee alarm displayed: ${params.medicationName}`);
+      log.info(`✅ Notifee alarm displayed: ${params.alarmId}`);
     } catch (error) {
-      console.error('❌ Failed to display notifee alarm:', error);
+      log.error('❌ Failed to display notifee alarm:', error);
     }
   }
 
@@ -236,9 +239,9 @@ class NotifeeAlarmService {
     if (!this.isAvailable() || !notifee) return;
     try {
       await notifee.cancelAllNotifications();
-      console.log('✅ All alarms cancelled');
+      log.info('✅ All alarms cancelled');
     } catch (error) {
-      console.error('❌ Failed to cancel all alarms:', error);
+      log.error('❌ Failed to cancel all alarms:', error);
     }
   }
 
@@ -251,7 +254,7 @@ class NotifeeAlarmService {
       const triggers = await notifee.getTriggerNotificationIds();
       return triggers;
     } catch (error) {
-      console.error('❌ Failed to get pending alarms:', error);
+      log.error('❌ Failed to get pending alarms:', error);
       return [];
     }
   }
@@ -270,7 +273,7 @@ class NotifeeAlarmService {
       }
       return true;
     } catch (error) {
-      console.error('❌ Failed to check alarm permission:', error);
+      log.error('❌ Failed to check alarm permission:', error);
       return false;
     }
   }
@@ -2,6 +2,9 @@ import * as Notifications from "expo-notifications";
 import * as Device from "expo-device";
 import { Platform } from "react-native";
 import Constants from "expo-constants";
+import { createLogger } from "../utils/logger";
+
+const log = createLogger("notifications");
 
 // ============================================
 // CRITICAL ALERTS CONFIGURATION (iOS)
@@ -13,14 +16,25 @@ export const CRITICAL_ALERTS_ENABLED = false;
 // Configure notification behavior for iOS and Android
 Notifications.setNotificationHandler({
   handleNotification: async (notification) => {
-    console.log(
+    log.info(
       "🔔 Unified notification handler called:",
-      notification.request.content.title
+      notification.request.identifier
     );
 
+    // Data-only sync hints are handled silently
+    if (notification.request.content.data?.type === "prescriptions_changed") {
+      return {
+        shouldShowAlert: false,
+        shouldShowBanner: false,
+        shouldShowList: false,
+        shouldPlaySound: false,
+        shouldSetBadge: false,
+      };
+    }
+
     // Check if this is a medication reminder
     if (notification.request.content.data?.type === "medication_reminder") {
-      console.log("💊 Medication reminder detected in handler");
+      log.info("💊 Medication reminder detected in handler");
       return {
         shouldShowAlert: true,
         shouldShowBanner: true,
@@ -76,11 +90,11 @@ export class NotificationService {
    */
   async initialize(): Promise<string | null> {
     try {
-      console.log("🔔 Initializing notification service...");
+      log.info("🔔 Initializing notification service...");
 
       // Check if device supports notifications
       if (!Device.isDevice) {
-        console.warn("⚠️ Push notifications only work on physical devices");
+        log.warn("⚠️ Push notifications only work on physical devices");
         return null;
       }
 
@@ -90,7 +104,7 @@ export class NotificationService {
       let finalStatus = existingStatus;
 
       if (existingStatus !== "granted") {
-        console.log("📱 Requesting notification permissions...");
+        log.info("📱 Requesting notification permissions...");
         const { status } = await Notifications.requestPermissionsAsync({
           ios: {
             allowAlert: true,
@@ -106,11 +120,11 @@ export class NotificationService {
       }
 
       if (finalStatus !== "granted") {
-        console.warn("❌ Failed to get push notification permissions");
+        log.warn("❌ Failed to get push notification permissions");
         return null;
       }
 
-      console.log("✅ Notification permissions granted");
+      log.info("✅ Notification permissions granted");
 
       await this.setupIOSCategories();
 
@@ -125,13 +139,13 @@ export class NotificationService {
         });
 
         this.expoPushToken = token.data;
-        console.log(
+        log.info(
           "📱 Expo push token obtained:",
           this.expoPushToken.substring(0, 30) + "..."
         );
       } catch (tokenError: any) {
-        console.warn("⚠️ Failed to get Expo push token:", tokenError.message);
-        console.log(
+        log.warn("⚠️ Failed to get Expo push token:", tokenError.message);
+        log.info(
           "📱 Continuing without push token (local notifications only)"
         );
         return null;
@@ -144,7 +158,7 @@ export class NotificationService {
 
       return this.expoPushToken;
     } catch (error) {
-      console.error("❌ Error initializing notifications:", error);
+      log.error("❌ Error initializing notifications:", error);
       return null;
     }
   }
@@ -171,9 +185,9 @@ export class NotificationService {
           },
         },
       ]);
-      console.log("iOS notification categories configured");
+      log.info("iOS notification categories configured");
     } catch (error) {
-      console.error("Error setting up iOS notification categories:", error);
+      log.error("Error setting up iOS notification categories:", error);
     }
   }
 
@@ -230,11 +244,11 @@ export class NotificationService {
         enableLights: true,
       });
 
-      console.log(
+      log.info(
         "✅ Android notification channels configured with FULL-SCREEN INTENT support"
       );
     } catch (error) {
-      console.error("❌ Error setting up Android channels:", error);
+      log.error("❌ Error setting up Android channels:", error);
     }
   }
 
@@ -242,17 +256,17 @@ export class NotificationService {
    * Perform a lightweight background notification check without modal handling
    */
   async handleBackgroundNotificationCheck() {
-    console.log("🔄 Performing background notification check (modal disabled)");
+    log.info("🔄 Performing background notification check (modal disabled)");
 
     try {
       const presentedNotifications =
         await Notifications.getPresentedNotificationsAsync();
-      console.log(
+      log.info(
         "📋 Presented notifications (informational only):",
         presentedNotifications.length
       );
     } catch (error) {
-      console.error("❌ Error in background notification check:", error);
+      log.error("❌ Error in background notification check:", error);
     }
   }
 
@@ -260,7 +274,7 @@ export class NotificationService {
    * Clean up notification service state
    */
   cleanup() {
-    console.log("🧹 Notification service cleanup");
+    log.info("🧹 Notification service cleanup");
   }
 
   /**
@@ -281,7 +295,7 @@ export class NotificationService {
     voicePath?: string
   ): Promise<string> {
     try {
-      console.log("💊 Scheduling medication reminder:", {
+      log.info("💊 Scheduling medication reminder:", {
         reminderId,
         medicationName,
         dosage,
@@ -316,10 +330,10 @@ export class NotificationService {
         } as any,
       });
 
-      console.log(`✅ Medication reminder scheduled, ID: ${notificationId}`);
+      log.info(`✅ Medication reminder scheduled, ID: ${notificationId}`);
       return notificationId;
     } catch (error) {
-      console.error("❌ Error scheduling medication reminder:", error);
+      log.error("❌ Error scheduling medication reminder:", error);
       throw error;
     }
   }
@@ -350,7 +364,7 @@ export class NotificationService {
       } as any,
     });
 
-    console.log(
+    log.info(
       `🧪 Test notification scheduled for ${seconds} seconds, ID: ${notificationId}`
     );
     return notificationId;
@@ -361,7 +375,7 @@ export class NotificationService {
    */
   async cancelNotification(notificationId: string): Promise<void> {
     await Notifications.cancelScheduledNotificationAsync(notificationId);
-    console.log(`❌ Cancelled notification: ${notificationId}`);
+    log.info(`❌ Cancelled notification: ${notificationId}`);
   }
 
   /**
@@ -369,7 +383,7 @@ export class NotificationService {
    */
   async cancelAllNotifications(): Promise<void> {
     await Notifications.cancelAllScheduledNotificationsAsync();
-    console.log("❌ Cancelled all scheduled notifications");
+    log.info("❌ Cancelled all scheduled notifications");
   }
 
   /**
@@ -412,7 +426,7 @@ export class NotificationService {
         !notification.request ||
         !notification.request.content
       ) {
-        console.log("⚠️ Invalid notification structure:", notification);
+        log.info("⚠️ Invalid notification structure");
         return null;
       }
 
@@ -434,7 +448,7 @@ export class NotificationService {
         medications: data.medications as any[] | undefined,
       };
     } catch (error) {
-      console.error("❌ Error parsing medication notification:", error);
+      log.error("❌ Error parsing medication notification:", error);
       return null;
     }
   }
@@ -448,10 +462,7 @@ export class NotificationService {
     try {
       // Check if notification request has the expected structure
       if (!notificationRequest || !notificationRequest.content) {
-        console.log(
-          "⚠️ Invalid notification request structure:",
-          notificationRequest
-        );
+        log.info("⚠️ Invalid notification request structure");
         return null;
       }
 
@@ -473,7 +484,7 @@ export class NotificationService {
         medications: data.medications as any[] | undefined,
       };
     } catch (error) {
-      console.error(
+      log.error(
         "❌ Error parsing medication notification from request:",
         error
       );
@@ -506,7 +517,7 @@ export class NotificationService {
    */
   async dismissAllNotifications(): Promise<void> {
     await Notifications.dismissAllNotificationsAsync();
-    console.log("🗑️ All notifications dismissed");
+    log.info("🗑️ All notifications dismissed");
   }
 
 
@@ -1,28 +1,70 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import apiService from './api';
+import { ApiError, AuthError } from './api/errors';
+import { encryptedStorage } from './secureStorage';
+import { OfflineActionSyncResult } from '../types';
+import { OFFLINE_QUEUE_RETRY } from '../constants/offlineQueue';
+import { collapseDoseActions, resolveDoseActionConflict } from '../utils/conflicts';
+import { getDoseActionKey } from '../utils/idempotency';
+import { createLogger } from '../utils/logger';
 
 export interface QueuedAction {
   id: string;
-  type: 'confirm' | 'snooze';
+  type: 'confirm' | 'snooze' | 'missed';
   reminderId: string;
   timestamp: string;
   synced: boolean;
   retryCount: number;
+  // Set when the user acted; missing on actions queued by older app versions
+  idempotencyKey?: string;
+  override?: boolean;
+  // Backoff: the action is not sent again before this time
+  nextAttemptAt?: string;
+  lastError?: string;
 }
 
+// 'rejected': the server refused the action; 'maxRetries': it kept failing
+export type DeadLetterReason = 'rejected' | 'maxRetries';
+
+/** An action that could not be synced, kept until the user retries or discards it */
+export interface DeadLetterAction extends QueuedAction {
+  reason: DeadLetterReason;
+  failedAt: string;
+}
+
+type QueueListener = () => void;
+
 /**
  * Offline Queue Service (functional)
- * Manages offline actions (confirm/snooze) and syncs them when online
+ * Manages offline actions (confirm/snooze/missed) and syncs them when online.
+ * When actions disagree on a dose, confirm wins over missed, and missed over snooze,
+ * both in the queue and against what the server already recorded.
+ *
+ * Failed actions back off exponentially. Actions the server rejects, or that keep
+ * failing, move to a dead-letter list instead of being dropped, so no confirmation
+ * is lost without the user deciding so.
  */
 
+const log = createLogger('offlineQueue');
+
 const QUEUE_KEY = '@medication_action_queue';
-const MAX_RETRY_COUNT = 3;
+const DEAD_LETTER_KEY = '@medication_action_dead_letter';
 let isSyncing = false;
+let listeners: QueueListener[] = [];
 
 
-export async function addAction(type: 'confirm' | 'snooze', reminderId: string): Promise<void> {
+function notifyListeners(): void {
+  listeners.forEach(listener => listener());
+}
+
+
+export async function addAction(
+  type: QueuedAction['type'],
+  reminderId: string,
+  idempotencyKey?: string
+): Promise<void> {
   try {
-    console.log(`📝 Adding ${type} action to queue for reminder:`, reminderId);
+    log.info(`📝 Adding ${type} action to queue for reminder:`, reminderId);
 
     const action: QueuedAction = {
       id: `${type}_${reminderId}_${Date.now()}`,
@@ -31,6 +73,7 @@ export async function addAction(type: 'confirm' | 'snooze', reminderId: string):
       timestamp: new Date().toISOString(),
       synced: false,
       retryCount: 0,
+      idempotencyKey: await getDoseActionKey(type, reminderId, idempotencyKey),
     };
 
     const queue = await getQueue();
@@ -38,15 +81,25 @@ export async function addAction(type: 'confirm' | 'snooze', reminderId: string):
       existing => !existing.synced && existing.type === type && existing.reminderId === reminderId
     );
     if (duplicate) {
-      console.log(`Already queued ${type} action for reminder ${reminderId}, skipping duplicate`);
+      log.info(`Already queued ${type} action for reminder ${reminderId}, skipping duplicate`);
+      return;
+    }
+
+    const pending = queue.filter(existing => !existing.synced);
+    const collapsed = collapseDoseActions([...pending, action]);
+    if (!collapsed.includes(action)) {
+      log.info(`A stronger action is already queued for reminder ${reminderId}, skipping ${type}`);
       return;
     }
-    queue.push(action);
-    await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+    if (collapsed.length <= pending.length) {
+      log.info(`🔀 ${type} replaces the weaker actions queued for reminder ${reminderId}`);
+    }
+    await encryptedStorage.setItem(QUEUE_KEY, JSON.stringify(collapsed));
+    notifyListeners();
 
-    console.log(`✅ Action added to queue. Queue size: ${queue.length}`);
+    log.info(`✅ Action added to queue. Queue size: ${collapsed.length}`);
   } catch (error) {
-    console.error('❌ Error adding action to queue:', error);
+    log.error('❌ Error adding action to queue:', error);
     throw error;
   }
 }
@@ -54,11 +107,11 @@ export async function addAction(type: 'confirm' | 'snooze', reminderId: string):
 
 export async function getQueue(): Promise<QueuedAction[]> {
   try {
-    const queueJson = await AsyncStorage.getItem(QUEUE_KEY);
+    const queueJson = await encryptedStorage.getItem(QUEUE_KEY);
     if (!queueJson) return [];
     return JSON.parse(queueJson);
   } catch (error) {
-    console.error('❌ Error reading queue:', error);
+    log.error('❌ Error reading queue:', error);
     return [];
   }
 }
@@ -69,42 +122,107 @@ export async function getPendingCount(): Promise<number> {
     const queue = await getQueue();
     return queue.filter(action => !action.synced).length;
   } catch (error) {
-    console.error('❌ Error getting pending count:', error);
+    log.error('❌ Error getting pending count:', error);
     return 0;
   }
 }
 
 
-export async function syncQueue(token: string): Promise<{
+/**
+ * Wait before the next attempt: Retry-After when the server sent one, otherwise
+ * exponential backoff with jitter, capped
+ */
+function getBackoffDelay(retryCount: number, error?: unknown): number {
+  if (error instanceof ApiError && typeof error.retryAfterMs === 'number') {
+    return error.retryAfterMs;
+  }
+  const delay = Math.min(
+    OFFLINE_QUEUE_RETRY.BASE_DELAY_MS * 2 ** Math.max(0, retryCount - 1),
+    OFFLINE_QUEUE_RETRY.MAX_DELAY_MS
+  );
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+
+/**
+ * Whether a rejected batch would fail the same way on replay. Network trouble, server
+ * errors, timeouts and rate limits are worth retrying; other client errors are not.
+ */
+function isPermanentBatchFailure(error: unknown): boolean {
+  if (error instanceof AuthError) {
+    return !error.sessionExpired && error.status === 403;
+  }
+  return (
+    error instanceof ApiError &&
+    typeof error.status === 'number' &&
+    error.status >= 400 &&
+    error.status < 500 &&
+    error.status !== 408 &&
+    error.status !== 429
+  );
+}
+
+
+function isDue(action: QueuedAction, now: number): boolean {
+  return !action.nextAttemptAt || new Date(action.nextAttemptAt).getTime() <= now;
+}
+
+
+export async function syncQueue(token: string, options: { force?: boolean } = {}): Promise<{
   success: boolean;
   syncedCount: number;
   failedCount: number;
 }> {
   if (isSyncing) {
-    console.log('⚠️ Sync already in progress, skipping');
+    log.info('⚠️ Sync already in progress, skipping');
     return { success: false, syncedCount: 0, failedCount: 0 };
   }
 
   isSyncing = true;
 
   try {
-    console.log('🔄 Starting queue sync...');
+    log.info('🔄 Starting queue sync...');
 
     const queue = await getQueue();
-    const unsyncedActions = queue.filter(action => !action.synced);
+    const now = Date.now();
+    // Actions still backing off wait for their turn, unless the user asked to sync now
+    const unsyncedActions = queue.filter(action => !action.synced && (options.force || isDue(action, now)));
 
     if (unsyncedActions.length === 0) {
-      console.log('✅ No actions to sync');
+      log.info('✅ No actions due to sync');
       return { success: true, syncedCount: 0, failedCount: 0 };
     }
 
-    console.log(`📤 Syncing ${unsyncedActions.length} actions...`);
+    log.info(`📤 Syncing ${unsyncedActions.length} actions...`);
 
     let syncedCount = 0;
     let failedCount = 0;
+    const deadLetters: DeadLetterAction[] = [];
+
+    const moveToDeadLetter = (action: QueuedAction, reason: DeadLetterReason, lastError?: string) => {
+      action.synced = true;
+      deadLetters.push({
+        ...action,
+        synced: false,
+        reason,
+        lastError: lastError ?? action.lastError,
+        failedAt: new Date().toISOString(),
+      });
+      log.info(`  ☠️ Moved ${action.type} for ${action.reminderId} to the dead-letter list (${reason})`);
+    };
+
+    const scheduleRetry = (action: QueuedAction, lastError: string, error?: unknown) => {
+      action.retryCount++;
+      action.lastError = lastError;
+      if (action.retryCount >= OFFLINE_QUEUE_RETRY.MAX_ATTEMPTS) {
+        moveToDeadLetter(action, 'maxRetries');
+        return;
+      }
+      action.nextAttemptAt = new Date(Date.now() + getBackoffDelay(action.retryCount, error)).toISOString();
+    };
 
     try {
-      console.log(`  Batch syncing ${unsyncedActions.length} actions to backend...`);
+      log.info(`  Batch syncing ${unsyncedActions.length} actions to backend...`);
 
       const result = await apiService.syncOfflineActions(
         token,
@@ -113,55 +231,92 @@ export async function syncQueue(token: string): Promise<{
           type: a.type,
           reminderId: a.reminderId,
           timestamp: a.timestamp,
+          idempotencyKey: a.idempotencyKey || a.id,
+          ...(a.override ? { override: true } : {}),
         }))
       );
 
       // Fix: handle when result.data may not have 'results', and fix lint error
       const resultsArray = Array.isArray((result.data as any)?.results) ? (result.data as any).results : [];
       if (result.success && resultsArray.length > 0) {
-        resultsArray.forEach((syncResult: any) => {
+        resultsArray.forEach((syncResult: OfflineActionSyncResult) => {
           const action = unsyncedActions.find(a => a.id === syncResult.id);
           if (action) {
+            const resolution = !syncResult.success && syncResult.serverStatus && !action.override
+              ? resolveDoseActionConflict(action.type, syncResult.serverStatus)
+              : null;
+
             if (syncResult.success) {
               action.synced = true;
               syncedCount++;
-              console.log(`  ✅ Synced ${action.type} action: ${action.reminderId}`);
+              log.info(`  ✅ Synced ${action.type} action: ${action.reminderId}`);
+            } else if (resolution === 'applied' || resolution === 'drop') {
+              // The server already has this outcome, or a stronger one
+              action.synced = true;
+              log.info(`  🔀 Dropped ${action.type} for ${action.reminderId}: already ${syncResult.serverStatus} on the server`);
+            } else if (resolution === 'override') {
+              action.override = true;
+              failedCount++;
+              log.info(`  🔀 ${action.type} for ${action.reminderId} wins over ${syncResult.serverStatus}, resending`);
+            } else if (syncResult.retryable === false) {
+              failedCount++;
+              moveToDeadLetter(action, 'rejected', syncResult.error);
             } else {
-              action.retryCount++;
-              if (action.retryCount >= MAX_RETRY_COUNT) {
-                action.synced = true; // drop after max retries
-                console.log(`  ⚠️ Max retries exceeded for ${action.id}`);
-              }
               failedCount++;
-              console.log(`  ❌ Failed to sync ${action.type}: ${syncResult.error}`);
+              scheduleRetry(action, syncResult.error || 'Unknown error');
+              log.info(`  ❌ Failed to sync ${action.type}: ${syncResult.error}`);
             }
           }
         });
+
+        // Left out of the response: keep them and try again later
+        unsyncedActions
+          .filter(action => !resultsArray.some((syncResult: OfflineActionSyncResult) => syncResult.id === action.id))
+          .forEach(action => {
+            failedCount++;
+            scheduleRetry(action, 'No result returned for this action');
+          });
       } else {
-        console.error('  ❌ Batch sync failed');
-        unsyncedActions.forEach(action => {
-          action.retryCount++;
-          if (action.retryCount >= MAX_RETRY_COUNT) {
-            action.synced = true;
-          }
-        });
+        log.error('  ❌ Batch sync failed');
+        unsyncedActions.forEach(action => scheduleRetry(action, result.message || 'Batch sync failed'));
         failedCount = unsyncedActions.length;
       }
     } catch (batchError) {
-      console.error('  ❌ Error in batch sync:', batchError);
-      unsyncedActions.forEach(action => {
-        action.retryCount++;
-        if (action.retryCount >= MAX_RETRY_COUNT) {
-          action.synced = true;
-        }
-      });
+      log.error('  ❌ Error in batch sync:', batchError);
+      // An expired session is not the actions' fault: keep their retry budget for the next login
+      if (batchError instanceof AuthError && batchError.sessionExpired) {
+        return { success: false, syncedCount: 0, failedCount: unsyncedActions.length };
+      }
+      const message = batchError instanceof Error ? batchError.message : String(batchError);
+      if (isPermanentBatchFailure(batchError)) {
+        unsyncedActions.forEach(action => moveToDeadLetter(action, 'rejected', message));
+      } else {
+        unsyncedActions.forEach(action => scheduleRetry(action, message, batchError));
+      }
       failedCount = unsyncedActions.length;
     }
 
-    const updatedQueue = queue.filter(action => !action.synced);
-    await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(updatedQueue));
+    // The queue may have changed while the batch was in flight: actions added, replaced
+    // by a stronger one, or cleared on logout. Apply the outcome of the sent actions to
+    // the queue as it is now, by id, and leave everything else as it was written.
+    const sentById = new Map(unsyncedActions.map(action => [action.id, action]));
+    const latestQueue = await getQueue();
+    const updatedQueue = latestQueue
+      .map(action => sentById.get(action.id) ?? action)
+      .filter(action => !action.synced);
+    await encryptedStorage.setItem(QUEUE_KEY, JSON.stringify(updatedQueue));
+
+    // Only dead-letter actions still queued; the others were superseded or cleared meanwhile
+    const keptDeadLetters = deadLetters.filter(deadLetter =>
+      latestQueue.some(action => action.id === deadLetter.id)
+    );
+    if (keptDeadLetters.length > 0) {
+      const existingDeadLetters = await getDeadLetters();
+      await encryptedStorage.setItem(DEAD_LETTER_KEY, JSON.stringify([...existingDeadLetters, ...keptDeadLetters]));
+    }
+    notifyListeners();
 
-    console.log(`✅ Sync completed: ${syncedCount} synced, ${failedCount} failed, ${updatedQueue.length} remaining`);
+    log.info(`✅ Sync completed: ${syncedCount} synced, ${failedCount} failed, ${keptDeadLetters.length} dead-lettered, ${updatedQueue.length} remaining`);
 
     return {
       success: failedCount === 0,
@@ -169,7 +324,7 @@ export async function syncQueue(token: string): Promise<{
       failedCount,
     };
   } catch (error) {
-    console.error('❌ Error syncing queue:', error);
+    log.error('❌ Error syncing queue:', error);
     return { success: false, syncedCount: 0, failedCount: 0 };
   } finally {
     isSyncing = false;
@@ -177,24 +332,99 @@ export async function syncQueue(token: string): Promise<{
 }
 
 
+export async function getDeadLetters(): Promise<DeadLetterAction[]> {
+  try {
+    const stored = await encryptedStorage.getItem(DEAD_LETTER_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    log.error('❌ Error reading dead-letter list:', error);
+    return [];
+  }
+}
+
+
+export async function getDeadLetterCount(): Promise<number> {
+  return (await getDeadLetters()).length;
+}
+
+
+/**
+ * Put a dead-lettered action back in the queue with a fresh retry budget. Call
+ * syncQueue with `force` afterwards to send it right away.
+ */
+export async function retryDeadLetter(actionId: string): Promise<void> {
+  try {
+    const deadLetters = await getDeadLetters();
+    const deadLetter = deadLetters.find(action => action.id === actionId);
+    if (!deadLetter) {
+      return;
+    }
+
+    const { reason, failedAt, ...action } = deadLetter;
+    const queue = await getQueue();
+    queue.push({ ...action, synced: false, retryCount: 0, nextAttemptAt: undefined });
+    await encryptedStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+    await encryptedStorage.setItem(
+      DEAD_LETTER_KEY,
+      JSON.stringify(deadLetters.filter(existing => existing.id !== actionId))
+    );
+    notifyListeners();
+    log.info(`🔁 Re-queued dead-lettered ${action.type} for reminder ${action.reminderId}`);
+  } catch (error) {
+    log.error('❌ Error retrying dead-lettered action:', error);
+    throw error;
+  }
+}
+
+
+/**
+ * Give up on a dead-lettered action for good; only on an explicit user decision
+ */
+export async function discardDeadLetter(actionId: string): Promise<void> {
+  try {
+    const deadLetters = await getDeadLetters();
+    await encryptedStorage.setItem(
+      DEAD_LETTER_KEY,
+      JSON.stringify(deadLetters.filter(existing => existing.id !== actionId))
+    );
+    notifyListeners();
+    log.info(`🗑️ Discarded dead-lettered action ${actionId}`);
+  } catch (error) {
+    log.error('❌ Error discarding dead-lettered action:', error);
+    throw error;
+  }
+}
+
+
+export function addListener(listener: QueueListener): void {
+  listeners.push(listener);
+}
+
+
+export function removeListener(listener: QueueListener): void {
+  listeners = listeners.filter(existing => existing !== listener);
+}
+
+
 export async function clearSynced(): Promise<void> {
   try {
     const queue = await getQueue();
     const unsynced = queue.filter(action => !action.synced);
-    await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(unsynced));
-    console.log(`🧹 Cleared synced actions. ${unsynced.length} actions remaining`);
+    await encryptedStorage.setItem(QUEUE_KEY, JSON.stringify(unsynced));
+    log.info(`🧹 Cleared synced actions. ${unsynced.length} actions remaining`);
   } catch (error) {
-    console.error('❌ Error clearing synced actions:', error);
+    log.error('❌ Error clearing synced actions:', error);
   }
 }
 
 
 export async function clearAll(): Promise<void> {
   try {
-    await AsyncStorage.removeItem(QUEUE_KEY);
-    console.log('🧹 Queue cleared completely');
+    await AsyncStorage.multiRemove([QUEUE_KEY, DEAD_LETTER_KEY]);
+    notifyListeners();
+    log.info('🧹 Queue cleared completely');
   } catch (error) {
-    console.error('❌ Error clearing queue:', error);
+    log.error('❌ Error clearing queue:', error);
   }
 }
 
@@ -204,6 +434,12 @@ export const offlineQueueService = {
   getQueue,
   getPendingCount,
   syncQueue,
+  getDeadLetters,
+  getDeadLetterCount,
+  retryDeadLetter,
+  discardDeadLetter,
+  addListener,
+  removeListener,
   clearSynced,
   clearAll,
 };
@@ -0,0 +1,218 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import * as TaskManager from 'expo-task-manager';
+import localReminderService from './localReminderService';
+import { acknowledgePrescriptionSync } from './api/patient';
+import { getAccessToken, getCurrentUser } from './api/session';
+import { PrescriptionsChangedHint } from '../types';
+import { createLogger } from '../utils/logger';
+
+/**
+ * Prescription Sync Service (functional)
+ * Handles the data-only push the backend sends when a caregiver changes a prescription:
+ * the patient device reconciles its reminders right away instead of waiting for the next
+ * foreground or network trigger, then acknowledges the change so the caregiver app can
+ * show when it reached the device. Acknowledgements that cannot be sent (offline, sync
+ * failure) are kept and sent after the next successful reconcile.
+ */
+
+const log = createLogger('prescriptionSync');
+
+export const PRESCRIPTIONS_CHANGED_PUSH_TYPE = 'prescriptions_changed';
+export const BACKGROUND_PUSH_TASK = 'prescription-sync-push';
+
+const PENDING_HINTS_KEY = '@prescription_sync_pending';
+const HANDLED_HINTS_KEY = '@prescription_sync_handled';
+// Change IDs remembered to ignore the same push delivered to the foreground and background handlers
+const MAX_HANDLED_HINTS = 50;
+
+type PendingHint = PrescriptionsChangedHint & {
+  receivedAt: string;
+  // Set by the first successful reconcile after the push arrived
+  syncedAt?: string;
+};
+
+
+/**
+ * Read a "prescriptions changed" hint from a push payload. FCM delivers data values as
+ * strings, and the background task receives them wrapped (`dataString` or `body`).
+ */
+export function parsePrescriptionsChangedHint(payload: unknown): PrescriptionsChangedHint | null {
+  let data: any = payload;
+  try {
+    if (typeof data?.dataString === 'string') {
+      data = JSON.parse(data.dataString);
+    } else if (typeof data?.body === 'string') {
+      data = JSON.parse(data.body);
+    } else if (data?.body && typeof data.body === 'object') {
+      data = data.body;
+    }
+  } catch (error) {
+    log.warn('⚠️ Unreadable push payload:', error);
+    return null;
+  }
+
+  if (data?.type !== PRESCRIPTIONS_CHANGED_PUSH_TYPE || !data.changeId) {
+    return null;
+  }
+  return {
+    changeId: String(data.changeId),
+    changedAt: typeof data.changedAt === 'string' ? data.changedAt : undefined,
+  };
+}
+
+
+async function loadPendingHints(): Promise<PendingHint[]> {
+  try {
+    const stored = await AsyncStorage.getItem(PENDING_HINTS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    log.error('❌ Error reading pending prescription sync hints:', error);
+    return [];
+  }
+}
+
+
+async function loadHandledIds(): Promise<string[]> {
+  try {
+    const stored = await AsyncStorage.getItem(HANDLED_HINTS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    log.error('❌ Error reading handled prescription sync hints:', error);
+    return [];
+  }
+}
+
+
+async function isPatientSession(): Promise<boolean> {
+  try {
+    return (await getCurrentUser())?.userType === 'patient';
+  } catch {
+    return false;
+  }
+}
+
+
+/**
+ * Send the acknowledgements settled by the last reminder sync: hints received before
+ * that sync fetched its data are applied on the device.
+ */
+export async function acknowledgeSyncedHints(token: string): Promise<void> {
+  const pending = await loadPendingHints();
+  const lastSync = await localReminderService.getLastSyncTime();
+  if (!pending.length || !lastSync) {
+    return;
+  }
+
+  const now = new Date().toISOString();
+  const updated = pending.map(hint =>
+    !hint.syncedAt && new Date(hint.receivedAt).getTime() <= new Date(lastSync).getTime()
+      ? { ...hint, syncedAt: now }
+      : hint
+  );
+  const synced = updated.filter(hint => hint.syncedAt);
+  await AsyncStorage.setItem(PENDING_HINTS_KEY, JSON.stringify(updated));
+  if (!synced.length) {
+    return;
+  }
+
+  try {
+    await acknowledgePrescriptionSync(
+      token,
+      synced.map(hint => ({ changeId: hint.changeId, syncedAt: hint.syncedAt as string }))
+    );
+    const ackedIds = new Set(synced.map(hint => hint.changeId));
+    const remaining = (await loadPendingHints()).filter(hint => !ackedIds.has(hint.changeId));
+    await AsyncStorage.setItem(PENDING_HINTS_KEY, JSON.stringify(remaining));
+    log.info(`✅ Acknowledged ${synced.length} prescription change(s) to the caregiver`);
+  } catch (error) {
+    log.error('❌ Error acknowledging prescription sync, will retry:', error);
+  }
+}
+
+
+/**
+ * Handle a push payload. Returns false when it is not a "prescriptions changed" hint.
+ */
+export async function handlePrescriptionsChangedPush(payload: unknown, source: string): Promise<boolean> {
+  const hint = parsePrescriptionsChangedHint(payload);
+  if (!hint) {
+    return false;
+  }
+
+  try {
+    const handledIds = await loadHandledIds();
+    if (handledIds.includes(hint.changeId)) {
+      log.info(`Prescription change ${hint.changeId} already handled, skipping (${source})`);
+      return true;
+    }
+    await AsyncStorage.setItem(
+      HANDLED_HINTS_KEY,
+      JSON.stringify([...handledIds, hint.changeId].slice(-MAX_HANDLED_HINTS))
+    );
+
+    const pending = await loadPendingHints();
+    await AsyncStorage.setItem(
+      PENDING_HINTS_KEY,
+      JSON.stringify([...pending, { ...hint, receivedAt: new Date().toISOString() }])
+    );
+
+    const token = await getAccessToken();
+    if (!token || !(await isPatientSession())) {
+      return true;
+    }
+
+    log.info(`💊 Prescriptions changed (${source}), reconciling reminders`);
+    const result = await localReminderService.reconcileReminders(token, undefined, { force: true });
+    if (result.success) {
+      await acknowledgeSyncedHints(token);
+    }
+  } catch (error) {
+    log.error('❌ Error handling prescription change push:', error);
+  }
+  return true;
+}
+
+
+/**
+ * Let data-only pushes wake the app in the background. The task itself is defined when
+ * this module loads, as TaskManager requires.
+ */
+export async function registerBackgroundPushTask(): Promise<void> {
+  try {
+    if (!(await TaskManager.isTaskRegisteredAsync(BACKGROUND_PUSH_TASK))) {
+      await Notifications.registerTaskAsync(BACKGROUND_PUSH_TASK);
+      log.info('✅ Background push task registered');
+    }
+  } catch (error) {
+    log.error('❌ Error registering background push task:', error);
+  }
+}
+
+
+export async function clearAll(): Promise<void> {
+  try {
+    await AsyncStorage.multiRemove([PENDING_HINTS_KEY, HANDLED_HINTS_KEY]);
+  } catch (error) {
+    log.error('❌ Error clearing prescription sync state:', error);
+  }
+}
+
+
+TaskManager.defineTask<Notifications.NotificationTaskPayload>(BACKGROUND_PUSH_TASK, async ({ data, error }) => {
+  if (error) {
+    log.error('❌ Background push task error:', error);
+    return;
+  }
+  const payload = data && 'data' in data ? data.data : data;
+  await handlePrescriptionsChangedPush(payload, 'background');
+});
+
+
+export const prescriptionSyncService = {
+  parsePrescriptionsChangedHint,
+  handlePrescriptionsChangedPush,
+  acknowledgeSyncedHints,
+  registerBackgroundPushTask,
+  clearAll,
+};
@@ -0,0 +1,336 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { encryptedStorage } from './secureStorage';
+import { QueryKey, QUERY_STALE_TIMES } from '../constants/queries';
+import { createLogger } from '../utils/logger';
+
+/**
+ * Query Cache (functional)
+ * Stale-while-revalidate cache shared by the caregiver and patient screens. Entries
+ * live in memory and are persisted encrypted to AsyncStorage, so a screen renders the last
+ * known data instantly (also offline) and refreshes it in the background.
+ */
+
+const log = createLogger('queryCache');
+
+const STORAGE_PREFIX = '@query_cache:';
+
+export type QueryEntry<T> = {
+  data: T;
+  updatedAt: number;
+  // Set by invalidateQueries; the next read refetches whatever the age
+  invalidated?: boolean;
+};
+
+export type QueryEvent = 'updated' | 'invalidated' | 'removed';
+
+type QueryListener = (event: QueryEvent, hash: string) => void;
+
+export type FetchQueryOptions = {
+  staleTime?: number;
+  // Refetch even when the cached entry is fresh
+  force?: boolean;
+};
+
+const memory = new Map<string, QueryEntry<unknown>>();
+const inFlight = new Map<string, Promise<unknown>>();
+let listeners: QueryListener[] = [];
+// Bumped by clearAll (logout, account switch); results of reads and fetches started
+// under an earlier generation belong to the previous account and are dropped
+let generation = 0;
+
+
+export function hashQueryKey(key: QueryKey): string {
+  return key.map(part => String(part)).join(':');
+}
+
+
+function matchesPrefix(hash: string, prefix: QueryKey): boolean {
+  const prefixHash = hashQueryKey(prefix);
+  return hash === prefixHash || hash.startsWith(`${prefixHash}:`);
+}
+
+
+function notify(event: QueryEvent, hash: string): void {
+  listeners.forEach(listener => listener(event, hash));
+}
+
+
+export function isStale(entry: QueryEntry<unknown>, staleTime: number = QUERY_STALE_TIMES.DEFAULT): boolean {
+  return !!entry.invalidated || Date.now() - entry.updatedAt > staleTime;
+}
+
+
+/**
+ * Entry already held in memory, without touching storage (for the first render)
+ */
+export function peekQuery<T>(key: QueryKey): QueryEntry<T> | null {
+  return (memory.get(hashQueryKey(key)) as QueryEntry<T> | undefined) || null;
+}
+
+
+export async function getQuery<T>(key: QueryKey): Promise<QueryEntry<T> | null> {
+  const hash = hashQueryKey(key);
+  const startedIn = generation;
+  const cached = memory.get(hash) as QueryEntry<T> | undefined;
+  if (cached) {
+    return cached;
+  }
+
+  try {
+    const stored = await encryptedStorage.getItem(`${STORAGE_PREFIX}${hash}`);
+    if (!stored) {
+      return null;
+    }
+    const entry = JSON.parse(stored) as QueryEntry<T>;
+    if (startedIn !== generation) {
+      return null;
+    }
+    // A write may have landed while storage was read
+    if (!memory.has(hash)) {
+      memory.set(hash, entry);
+    }
+    return memory.get(hash) as QueryEntry<T>;
+  } catch (error) {
+    log.error('❌ Error reading query cache:', error);
+    return null;
+  }
+}
+
+
+export async function getQueryData<T>(key: QueryKey): Promise<T | null> {
+  const entry = await getQuery<T>(key);
+  return entry ? entry.data : null;
+}
+
+
+async function writeEntry<T>(hash: string, data: T, startedIn: number = generation): Promise<void> {
+  if (startedIn !== generation) {
+    return;
+  }
+  const entry: QueryEntry<T> = { data, updatedAt: Date.now() };
+  memory.set(hash, entry);
+  notify('updated', hash);
+
+  try {
+    await encryptedStorage.setItem(`${STORAGE_PREFIX}${hash}`, JSON.stringify(entry));
+    // Cleared while the entry was being written: clearAll may have run before the write landed
+    if (startedIn !== generation) {
+      await encryptedStorage.removeItem(`${STORAGE_PREFIX}${hash}`);
+    }
+  } catch (error) {
+    log.error('❌ Error saving query cache:', error);
+  }
+}
+
+
+export async function setQueryData<T>(key: QueryKey, data: T): Promise<void> {
+  await writeEntry(hashQueryKey(key), data);
+}
+
+
+async function findHashes(prefix: QueryKey): Promise<Set<string>> {
+  const keys = await AsyncStorage.getAllKeys();
+  const hashes = new Set(
+    keys
+      .filter(key => key.startsWith(STORAGE_PREFIX))
+      .map(key => key.slice(STORAGE_PREFIX.length))
+      .filter(hash => matchesPrefix(hash, prefix))
+  );
+  memory.forEach((_, hash) => {
+    if (matchesPrefix(hash, prefix)) {
+      hashes.add(hash);
+    }
+  });
+  return hashes;
+}
+
+
+/**
+ * Data of every cached entry under `prefix`
+ */
+export async function getQueriesData<T>(prefix: QueryKey): Promise<T[]> {
+  try {
+    const hashes = await findHashes(prefix);
+    const entries = await Promise.all(
+      Array.from(hashes).map(hash => getQuery<T>(hash.split(':')))
+    );
+    return entries.filter((entry): entry is QueryEntry<T> => !!entry).map(entry => entry.data);
+  } catch (error) {
+    log.error('❌ Error reading cached queries:', error);
+    return [];
+  }
+}
+
+
+/**
+ * Rewrite every cached entry under `prefix`, e.g. to apply a local change to all days.
+ * Returning null from `updater` leaves the entry untouched.
+ */
+export async function updateQueriesData<T>(prefix: QueryKey, updater: (data: T) => T | null): Promise<void> {
+  const startedIn = generation;
+  try {
+    const hashes = await findHashes(prefix);
+
+    for (const hash of hashes) {
+      let entry = memory.get(hash) as QueryEntry<T> | undefined;
+      if (!entry) {
+        const stored = await encryptedStorage.getItem(`${STORAGE_PREFIX}${hash}`);
+        entry = stored ? (JSON.parse(stored) as QueryEntry<T>) : undefined;
+      }
+      const updated = entry ? updater(entry.data) : null;
+      if (updated !== null) {
+        await writeEntry(hash, updated, startedIn);
+      }
+    }
+  } catch (error) {
+    log.error('❌ Error updating cached queries:', error);
+  }
+}
+
+
+/**
+ * Cached data when fresh, otherwise fetch and store it. Concurrent calls for the same
+ * key share one request.
+ */
+export async function fetchQuery<T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  options: FetchQueryOptions = {}
+): Promise<T> {
+  const hash = hashQueryKey(key);
+
+  if (!options.force) {
+    const entry = await getQuery<T>(key);
+    if (entry && !isStale(entry, options.staleTime)) {
+      return entry.data;
+    }
+  }
+
+  const pending = inFlight.get(hash) as Promise<T> | undefined;
+  if (pending) {
+    return pending;
+  }
+
+  const startedIn = generation;
+  const run = async (): Promise<T> => {
+    try {
+      const data = await fetcher();
+      await writeEntry(hash, data, startedIn);
+      return data;
+    } finally {
+      // After a clearAll the map may already hold a request of the next generation
+      if (inFlight.get(hash) === promise) {
+        inFlight.delete(hash);
+      }
+    }
+  };
+  const promise = run();
+  inFlight.set(hash, promise);
+  return promise;
+}
+
+
+/**
+ * Mark every entry under `prefix` as stale; mounted queries refetch right away.
+ * Call after a mutation that changes what those queries return.
+ */
+export async function invalidateQueries(prefix: QueryKey): Promise<void> {
+  const hashes = new Set<string>();
+  memory.forEach((entry, hash) => {
+    if (matchesPrefix(hash, prefix)) {
+      memory.set(hash, { ...entry, invalidated: true });
+      hashes.add(hash);
+    }
+  });
+
+  try {
+    const keys = await AsyncStorage.getAllKeys();
+    const storedHashes = keys
+      .filter(key => key.startsWith(STORAGE_PREFIX))
+      .map(key => key.slice(STORAGE_PREFIX.length))
+      .filter(hash => matchesPrefix(hash, prefix) && !memory.has(hash));
+    // Not loaded in this session; dropping them is the cheapest way to force a refetch
+    if (storedHashes.length > 0) {
+      await AsyncStorage.multiRemove(storedHashes.map(hash => `${STORAGE_PREFIX}${hash}`));
+    }
+    await Promise.all(
+      Array.from(hashes).map(hash =>
+        encryptedStorage.setItem(`${STORAGE_PREFIX}${hash}`, JSON.stringify(memory.get(hash)))
+      )
+    );
+  } catch (error) {
+    log.error('❌ Error invalidating query cache:', error);
+  }
+
+  hashes.forEach(hash => notify('invalidated', hash));
+}
+
+
+export async function removeQueries(prefix: QueryKey): Promise<void> {
+  const hashes: string[] = [];
+  memory.forEach((_, hash) => {
+    if (matchesPrefix(hash, prefix)) {
+      hashes.push(hash);
+    }
+  });
+  hashes.forEach(hash => memory.delete(hash));
+
+  try {
+    const keys = await AsyncStorage.getAllKeys();
+    const cacheKeys = keys.filter(
+      key => key.startsWith(STORAGE_PREFIX) && matchesPrefix(key.slice(STORAGE_PREFIX.length), prefix)
+    );
+    if (cacheKeys.length > 0) {
+      await AsyncStorage.multiRemove(cacheKeys);
+    }
+  } catch (error) {
+    log.error('❌ Error removing cached queries:', error);
+  }
+
+  hashes.forEach(hash => notify('removed', hash));
+}
+
+
+export function subscribe(listener: QueryListener): () => void {
+  listeners.push(listener);
+  return () => {
+    listeners = listeners.filter(existing => existing !== listener);
+  };
+}
+
+
+export async function clearAll(): Promise<void> {
+  const hashes = Array.from(memory.keys());
+  generation++;
+  memory.clear();
+  inFlight.clear();
+
+  try {
+    const keys = await AsyncStorage.getAllKeys();
+    const cacheKeys = keys.filter(key => key.startsWith(STORAGE_PREFIX));
+    if (cacheKeys.length > 0) {
+      await AsyncStorage.multiRemove(cacheKeys);
+    }
+  } catch (error) {
+    log.error('❌ Error clearing query cache:', error);
+  }
+
+  hashes.forEach(hash => notify('removed', hash));
+}
+
+
+export const queryCache = {
+  hashQueryKey,
+  isStale,
+  peekQuery,
+  getQuery,
+  getQueryData,
+  setQueryData,
+  getQueriesData,
+  updateQueriesData,
+  fetchQuery,
+  invalidateQueries,
+  removeQueries,
+  subscribe,
+  clearAll,
+};
@@ -0,0 +1,137 @@
+import * as Notifications from 'expo-notifications';
+import * as FileSystem from 'expo-file-system/legacy';
+import { Platform, Share } from 'react-native';
+import localReminderService from './localReminderService';
+import { alarmService } from './alarmService';
+import iOSAlarmService from './iOSAlarmService';
+import notifeeAlarmService from './notifeeAlarmService';
+import { deviceHeartbeatService } from './deviceHeartbeatService';
+import { diagnoseReminders } from '../utils/reminderDiagnostics';
+import { ReminderDiagnosticsReport } from '../types/reminderDiagnostics.types';
+import { createLogger } from '../utils/logger';
+
+/**
+ * Reminder Diagnostics Service (functional)
+ * Support tooling for "the alarm didn't ring": compares the stored reminder records with
+ * the notifications, alarms and voice files actually on the device, and lets support
+ * force a reconcile, fire a test alarm and receive the report.
+ */
+
+const log = createLogger('diagnostics');
+
+
+async function getVoiceFiles(paths: string[]): Promise<Record<string, boolean>> {
+  const voiceFiles: Record<string, boolean> = {};
+  for (const path of paths) {
+    try {
+      voiceFiles[path] = (await FileSystem.getInfoAsync(path)).exists;
+    } catch (error) {
+      log.warn('⚠️ Unable to check voice file:', error);
+      voiceFiles[path] = false;
+    }
+  }
+  return voiceFiles;
+}
+
+
+export async function collectDiagnostics(): Promise<ReminderDiagnosticsReport> {
+  const [records, sync, pendingNotifications, pendingAlarms] = await Promise.all([
+    localReminderService.getStoredReminders(),
+    localReminderService.getSyncStatus(),
+    localReminderService.getPendingReminderNotifications(),
+    notifeeAlarmService.getPendingAlarms(),
+  ]);
+
+  const voicePaths = Object.values(records)
+    .map(record => record.voice?.localPath)
+    .filter((path): path is string => !!path);
+  const voiceFiles = await getVoiceFiles([...new Set(voicePaths)]);
+
+  const result = diagnoseReminders({ records, pendingNotifications, pendingAlarms, voiceFiles });
+  const now = Date.now();
+  const device = await deviceHeartbeatService.buildHeartbeat({
+    lastSyncAt: sync.lastSyncAt,
+    scheduledAlarms: Object.values(records).filter(record => new Date(record.scheduledFor).getTime() > now).length,
+  });
+
+  return {
+    generatedAt: new Date().toISOString(),
+    device,
+    sync,
+    pendingNotificationCount: pendingNotifications.length,
+    ...result,
+  };
+}
+
+
+/**
+ * Rebuild the whole schedule from the server, ignoring the minimum interval
+ */
+export async function forceReconcile(token: string): Promise<boolean> {
+  try {
+    const result = await localReminderService.reconcileReminders(token, 30, { force: true, full: true });
+    return result.success;
+  } catch (error) {
+    log.error('❌ Error forcing reminder reconcile:', error);
+    return false;
+  }
+}
+
+
+/**
+ * Ring the alarm the way a dose would: the native full-screen alarm on Android, a
+ * critical alert on iOS, a plain notification otherwise
+ */
+export async function fireTestAlarm(label: { medicationName: string; dosage: string }): Promise<boolean> {
+  try {
+    if (alarmService.isAvailable()) {
+      return await alarmService.testAlarm(label.medicationName, label.dosage);
+    }
+    if (Platform.OS === 'ios') {
+      return !!(await iOSAlarmService.sendTestCriticalAlert());
+    }
+    await Notifications.scheduleNotificationAsync({
+      content: {
+        title: label.medicationName,
+        body: label.dosage,
+        data: { type: 'test_alarm' },
+        sound: 'default',
+      },
+      trigger: null,
+    });
+    return true;
+  } catch (error) {
+    log.error('❌ Error firing test alarm:', error);
+    return false;
+  }
+}
+
+
+export function formatDiagnosticsReport(report: ReminderDiagnosticsReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+
+/**
+ * Hand the report to the share sheet so the patient can send it to support
+ */
+export async function exportReport(report: ReminderDiagnosticsReport, title: string): Promise<boolean> {
+  try {
+    const result = await Share.share({ title, message: formatDiagnosticsReport(report) });
+    return result.action === Share.sharedAction;
+  } catch (error) {
+    log.error('❌ Error exporting diagnostics report:', error);
+    return false;
+  }
+}
+
+
+export const reminderDiagnosticsService = {
+  collectDiagnostics,
+  forceReconcile,
+  fireTestAlarm,
+  formatDiagnosticsReport,
+  exportReport,
+};
+
+export default reminderDiagnosticsService;
@@ -0,0 +1,229 @@
+import { buildFingerprint, planLegacyCleanup, planOrphanedNotifications } from '../utils/reminderPlanner';
+import { ReminderStore } from './reminderStore';
+import {
+  LocalReminder,
+  ReconcilePlan,
+  ReminderSchedulerAdapter,
+  ScheduleResult,
+  StoredReminderV2,
+} from '../types/reminderSync.types';
+import { createLogger } from '../utils/logger';
+
+/**
+ * Reminder Executor (functional)
+ * Applies a reconcile plan through the platform adapter: voice downloads, alarm and
+ * notification scheduling, cancellations, and the records that describe the result.
+ */
+
+const log = createLogger('reminders');
+
+export type ExecutionResult = {
+  // Stored records after the plan, to be persisted by the caller
+  local: Record<string, StoredReminderV2>;
+  scheduled: number;
+  updated: number;
+  removed: number;
+  audioDownloaded: number;
+};
+
+
+export function buildStoredRecord(
+  reminder: LocalReminder,
+  schedule: ScheduleResult,
+  fingerprint: string,
+  voicePath: string | null
+): StoredReminderV2 {
+  return {
+    reminderId: reminder.reminderId,
+    prescriptionId: reminder.prescriptionId,
+    patientId: reminder.patientId,
+    scheduledFor: reminder.scheduledFor,
+    medicationName: reminder.medicationName,
+    dosage: reminder.dosage,
+    instructions: reminder.instructions,
+    imageUrl: reminder.imageUrl,
+    snoozePolicy: reminder.snooze || null,
+    voice: {
+      voiceUrl: reminder.voiceUrl || null,
+      voiceFileName: reminder.voiceFileName || null,
+      localPath: voicePath || null,
+      voiceChecksum: reminder.voiceChecksum || null,
+      voiceVersion: reminder.voiceVersion || null,
+      voiceFormat: reminder.voiceFormat || null,
+    },
+    schedule,
+    fingerprint,
+    lastSyncedAt: new Date().toISOString(),
+  };
+}
+
+
+export async function cancelRecordSchedule(
+  record: StoredReminderV2,
+  adapter: ReminderSchedulerAdapter
+): Promise<void> {
+  const alarmId = record.schedule.alarmId || record.reminderId;
+  if (adapter.nativeAlarms && alarmId) {
+    try {
+      await adapter.cancelAlarm(alarmId);
+    } catch (error) {
+      log.error('Error cancelling native alarm:', error);
+    }
+  }
+
+  const notificationIds = record.schedule.notificationIds || [];
+  for (const notificationId of notificationIds) {
+    if (!notificationId) continue;
+    try {
+      await adapter.cancelNotification(notificationId);
+    } catch (error) {
+      log.warn('Error cancelling scheduled notification:', error);
+    }
+  }
+}
+
+
+/**
+ * Apply the plan to a copy of the stored records. A reminder that fails to schedule keeps
+ * its previous schedule, and the next reconcile tries again.
+ */
+export async function applyReconcilePlan(
+  plan: ReconcilePlan,
+  localMap: Record<string, StoredReminderV2>,
+  adapter: ReminderSchedulerAdapter
+): Promise<ExecutionResult> {
+  const local = { ...localMap };
+  let scheduled = 0;
+  let updated = 0;
+  let removed = 0;
+  let audioDownloaded = 0;
+
+  // Voice of another dose of the same prescription, reused instead of downloading again
+  const voiceByPrescription = new Map<string, StoredReminderV2>();
+  for (const record of Object.values(local)) {
+    if (!record.prescriptionId) continue;
+    if (record.voice?.voiceUrl || record.voice?.voiceFileName || record.voice?.localPath) {
+      voiceByPrescription.set(record.prescriptionId, record);
+    }
+  }
+
+  for (const operation of plan.operations) {
+    if (operation.type === 'cancel') {
+      const { record, reason } = operation;
+      log.info(
+        reason === 'outOfWindow'
+          ? `Reminder ${record.reminderId} moved out of the iOS notification window`
+          : `Removing ${reason} reminder ${record.reminderId}`
+      );
+      await cancelRecordSchedule(record, adapter);
+      delete local[record.reminderId];
+      if (reason !== 'outOfWindow') {
+        removed++;
+      }
+      continue;
+    }
+
+    const { reminder, iosRepeatCount } = operation;
+    const reminderId = reminder.reminderId;
+    const existing = operation.type === 'update' ? operation.existing : undefined;
+    const fingerprint = buildFingerprint(reminder);
+    try {
+      const cachedVoice =
+        reminder.voiceUrl && reminder.prescriptionId
+          ? voiceByPrescription.get(reminder.prescriptionId)
+          : undefined;
+      const voiceResult = await adapter.ensureVoice(reminder, existing || cachedVoice);
+      if (voiceResult.downloaded) {
+        audioDownloaded++;
+      }
+
+      if (!existing) {
+        log.info(`Scheduling new reminder ${reminderId}`);
+      } else if (existing.fingerprint !== fingerprint) {
+        log.info(`Updating reminder ${reminderId}`);
+      } else {
+        log.info(`Rescheduling reminder ${reminderId} with ${iosRepeatCount} alert(s)`);
+      }
+
+      const schedule = await adapter.scheduleReminder(reminder, voiceResult.path, { iosRepeatCount });
+
+      if (existing) {
+        await cancelRecordSchedule(existing, adapter);
+      }
+
+      const record = buildStoredRecord(reminder, schedule, fingerprint, voiceResult.path);
+      local[reminderId] = record;
+      if (record.prescriptionId) {
+        voiceByPrescription.set(record.prescriptionId, record);
+      }
+
+      if (existing) {
+        updated++;
+      } else {
+        scheduled++;
+      }
+    } catch (error) {
+      log.error(`Error scheduling reminder ${reminderId}:`, error);
+    }
+  }
+
+  return { local, scheduled, updated, removed, audioDownloaded };
+}
+
+
+export async function cancelOrphanedNotifications(
+  remoteIds: Set<string>,
+  localMap: Record<string, StoredReminderV2>,
+  adapter: ReminderSchedulerAdapter
+): Promise<number> {
+  try {
+    const orphaned = planOrphanedNotifications(remoteIds, localMap, await adapter.getPendingNotifications());
+    for (const notificationId of orphaned) {
+      await adapter.cancelNotification(notificationId);
+    }
+    return orphaned.length;
+  } catch (error) {
+    log.error('Error cancelling orphaned notifications:', error);
+    return 0;
+  }
+}
+
+
+export async function cleanupLegacyReminders(
+  remoteIds: Set<string>,
+  localMap: Record<string, StoredReminderV2>,
+  store: ReminderStore,
+  adapter: ReminderSchedulerAdapter
+): Promise<number> {
+  const legacy = await store.loadRemindersV1();
+  const toClean = planLegacyCleanup(remoteIds, localMap, legacy);
+
+  for (const reminderId of toClean) {
+    const legacyId = legacy[reminderId].notificationId;
+    const reason = remoteIds.has(reminderId) ? 'duplicate_local' : 'missing_remote';
+    log.info(`Cleaning legacy reminder ${reminderId} (${reason})`);
+    try {
+      if (legacyId) {
+        await adapter.cancelNotification(legacyId);
+      }
+    } catch (error) {
+      log.warn('Error cancelling legacy notification:', error);
+    }
+
+    if (adapter.nativeAlarms && legacyId) {
+      try {
+        await adapter.cancelAlarm(legacyId);
+      } catch (error) {
+        log.warn('Error cancelling legacy alarm:', error);
+      }
+    }
+
+    delete legacy[reminderId];
+  }
+
+  if (toClean.length > 0) {
+    await store.persistRemindersV1(legacy);
+  }
+
+  return toClean.length;
+}
@@ -0,0 +1,77 @@
+import * as BackgroundTask from 'expo-background-task';
+import * as TaskManager from 'expo-task-manager';
+import localReminderService from './localReminderService';
+import { prescriptionSyncService } from './prescriptionSyncService';
+import { escalationService } from './escalationService';
+import { getAccessToken, getCurrentUser } from './api/session';
+import { REMINDER_REFILL } from '../constants/reminderWindow';
+import { createLogger } from '../utils/logger';
+
+/**
+ * Reminder Refill Service (functional)
+ * Periodic background task that reconciles reminders while the app stays closed. On iOS
+ * only part of the upcoming doses fit in the notification budget, and this keeps the
+ * window moving forward as doses pass; elsewhere it keeps the schedule in step with the
+ * server between launches. It also reports overdue doses, so caregivers are alerted when
+ * the patient never opens the app.
+ */
+
+const log = createLogger('reminders');
+
+export const REMINDER_REFILL_TASK = 'reminder-window-refill';
+
+
+/**
+ * Reconcile the reminders of the signed-in patient and report the doses left unconfirmed.
+ * Returns whether the schedule is up to date.
+ */
+export async function refillReminders(source: string): Promise<boolean> {
+  try {
+    const token = await getAccessToken();
+    if (!token || (await getCurrentUser())?.userType !== 'patient') {
+      return true;
+    }
+
+    log.info(`🔁 Refilling reminder window (${source})`);
+    const result = await localReminderService.reconcileReminders(token);
+    if (result.success) {
+      await prescriptionSyncService.acknowledgeSyncedHints(token);
+    }
+    await escalationService.reportOverdueDoses(token);
+    return result.success;
+  } catch (error) {
+    log.error('❌ Error refilling reminders:', error);
+    return false;
+  }
+}
+
+
+export async function registerRefillTask(): Promise<void> {
+  try {
+    const status = await BackgroundTask.getStatusAsync();
+    if (status !== BackgroundTask.BackgroundTaskStatus.Available) {
+      log.info('⚠️ Background tasks restricted, reminders refill in the foreground only');
+      return;
+    }
+    if (!(await TaskManager.isTaskRegisteredAsync(REMINDER_REFILL_TASK))) {
+      await BackgroundTask.registerTaskAsync(REMINDER_REFILL_TASK, {
+        minimumInterval: REMINDER_REFILL.MINIMUM_INTERVAL_MINUTES,
+      });
+      log.info('✅ Reminder refill task registered');
+    }
+  } catch (error) {
+    log.error('❌ Error registering reminder refill task:', error);
+  }
+}
+
+
+TaskManager.defineTask(REMINDER_REFILL_TASK, async () => {
+  const success = await refillReminders('background');
+  return success ? BackgroundTask.BackgroundTaskResult.Success : BackgroundTask.BackgroundTaskResult.Failed;
+});
+
+
+export const reminderRefillService = {
+  refillReminders,
+  registerRefillTask,
+};
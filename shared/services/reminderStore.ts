@@ -0,0 +1,95 @@
+import { migrateRemindersV1 } from '../utils/reminderPlanner';
+import { KeyValueStorage, StoredReminderV1, StoredReminderV2 } from '../types/reminderSync.types';
+import { createLogger } from '../utils/logger';
+
+/**
+ * Reminder Store (functional)
+ * Stored schedule records, V1 (notification ID only) and V2 (full record). V1 entries are
+ * migrated to V2 the first time V2 records are read.
+ */
+
+const log = createLogger('reminders');
+
+export const REMINDER_STORE_KEYS = {
+  REMINDERS_V1: '@medication_reminders',
+  REMINDERS_V2: '@medication_reminders_v2',
+  MIGRATION_V1_DONE: '@medication_reminders_migration_v1_done',
+};
+
+export interface ReminderStore {
+  loadRemindersV1(): Promise<Record<string, StoredReminderV1>>;
+  persistRemindersV1(reminders: Record<string, StoredReminderV1>): Promise<void>;
+  loadRemindersV2(): Promise<Record<string, StoredReminderV2>>;
+  persistRemindersV2(reminders: Record<string, StoredReminderV2>): Promise<void>;
+}
+
+
+/**
+ * @param options.nativeAlarms - V1 reminders were scheduled as Android native alarms
+ */
+export function createReminderStore(storage: KeyValueStorage, options: { nativeAlarms: boolean }): ReminderStore {
+  async function loadRemindersV1(): Promise<Record<string, StoredReminderV1>> {
+    const stored = await storage.getItem(REMINDER_STORE_KEYS.REMINDERS_V1);
+    if (!stored) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(stored) as Record<string, StoredReminderV1>;
+    } catch (error) {
+      log.warn('Failed to parse stored reminders v1, resetting state', error);
+      return {};
+    }
+  }
+
+  async function persistRemindersV1(reminders: Record<string, StoredReminderV1>): Promise<void> {
+    await storage.setItem(REMINDER_STORE_KEYS.REMINDERS_V1, JSON.stringify(reminders));
+  }
+
+  async function migrateV1ToV2(): Promise<Record<string, StoredReminderV2>> {
+    try {
+      const migrationDone = await storage.getItem(REMINDER_STORE_KEYS.MIGRATION_V1_DONE);
+      if (migrationDone === 'true') {
+        const stored = await storage.getItem(REMINDER_STORE_KEYS.REMINDERS_V2);
+        if (stored) {
+          return JSON.parse(stored) as Record<string, StoredReminderV2>;
+        }
+        return {};
+      }
+
+      const migrated = migrateRemindersV1(await loadRemindersV1(), options.nativeAlarms);
+      await storage.setItem(REMINDER_STORE_KEYS.REMINDERS_V2, JSON.stringify(migrated));
+      await storage.setItem(REMINDER_STORE_KEYS.MIGRATION_V1_DONE, 'true');
+
+      return migrated;
+    } catch (error) {
+      log.error('Error migrating reminders v1 to v2:', error);
+      return {};
+    }
+  }
+
+  async function loadRemindersV2(): Promise<Record<string, StoredReminderV2>> {
+    const stored = await storage.getItem(REMINDER_STORE_KEYS.REMINDERS_V2);
+    if (!stored) {
+      return migrateV1ToV2();
+    }
+
+    try {
+      return JSON.parse(stored) as Record<string, StoredReminderV2>;
+    } catch (error) {
+      log.warn('Failed to parse stored reminders v2, resetting state', error);
+      return migrateV1ToV2();
+    }
+  }
+
+  async function persistRemindersV2(reminders: Record<string, StoredReminderV2>): Promise<void> {
+    await storage.setItem(REMINDER_STORE_KEYS.REMINDERS_V2, JSON.stringify(reminders));
+  }
+
+  return {
+    loadRemindersV1,
+    persistRemindersV1,
+    loadRemindersV2,
+    persistRemindersV2,
+  };
+}
@@ -0,0 +1,266 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import * as Crypto from 'expo-crypto';
+import { REMINDER_STORE_KEYS } from './reminderStore';
+import {
+  base64ToBytes,
+  bytesToBase64,
+  decryptValue,
+  encryptValue,
+  ENCRYPTION_KEY_BYTES,
+  ENCRYPTION_NONCE_BYTES,
+  isEncryptedValue,
+} from '../utils/encryption';
+import { createLogger } from '../utils/logger';
+import { KeyValueStorage } from '../types/reminderSync.types';
+
+/**
+ * Secure Storage (functional)
+ * Secrets (session tokens, saved password) live in the iOS Keychain / Android Keystore.
+ * Health and personal caches stay in AsyncStorage, encrypted with a random key that is
+ * itself kept in the keystore and never leaves the device. Values written in plain
+ * AsyncStorage by earlier versions are migrated the first time they are read, and all
+ * at once on startup.
+ */
+
+const log = createLogger('storage');
+
+// Keystore entry of each secret, with the AsyncStorage key earlier versions used
+export const SECRET_KEYS = {
+  ACCESS_TOKEN: { name: 'medicare.accessToken', legacyKey: 'userToken' },
+  REFRESH_TOKEN: { name: 'medicare.refreshToken', legacyKey: 'refreshToken' },
+  SAVED_PASSWORD: { name: 'medicare.savedPassword', legacyKey: '@medicare_saved_password' },
+} as const;
+
+export type SecretKey = keyof typeof SECRET_KEYS;
+
+const DATA_KEY_NAME = 'medicare.dataKey';
+// v2 added the dose queues, the outbox, the escalation watchlist and the voice message
+// cache to the encrypted entries
+const MIGRATION_DONE_KEY = '@secure_storage_migration_v2_done';
+const LEGACY_MIGRATION_DONE_KEYS = ['@secure_storage_migration_v1_done'];
+
+// AsyncStorage entries that hold health or personal data
+const ENCRYPTED_KEYS: string[] = [
+  'userData',
+  REMINDER_STORE_KEYS.REMINDERS_V1,
+  REMINDER_STORE_KEYS.REMINDERS_V2,
+  '@medication_confirmations',
+  '@medication_action_queue',
+  '@medication_action_dead_letter',
+  '@escalation_watchlist',
+  '@mutation_outbox',
+  '@mutation_outbox_results',
+  '@voice_messages',
+];
+const ENCRYPTED_KEY_PREFIXES = ['@query_cache:', '@patient_adherence_history:'];
+
+// Readable after the first unlock so background refills and alarm actions work on a locked
+// phone; excluded from backups, so nothing is restored onto another device
+const SECURE_STORE_OPTIONS: SecureStore.SecureStoreOptions = {
+  keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY,
+};
+
+let dataKeyPromise: Promise<Uint8Array> | null = null;
+// Pending write of each encrypted entry, so writes to one key never interleave
+const keyLocks = new Map<string, Promise<unknown>>();
+
+
+async function migrateSecret(key: SecretKey): Promise<string | null> {
+  const { name, legacyKey } = SECRET_KEYS[key];
+  const legacy = await AsyncStorage.getItem(legacyKey);
+  if (legacy === null) {
+    return null;
+  }
+  await SecureStore.setItemAsync(name, legacy, SECURE_STORE_OPTIONS);
+  await AsyncStorage.removeItem(legacyKey);
+  log.info(`Moved ${key} to the secure store`);
+  return legacy;
+}
+
+
+export async function getSecret(key: SecretKey): Promise<string | null> {
+  try {
+    const value = await SecureStore.getItemAsync(SECRET_KEYS[key].name, SECURE_STORE_OPTIONS);
+    return value ?? (await migrateSecret(key));
+  } catch (error) {
+    log.error(`❌ Error reading secret ${key}:`, error);
+    return null;
+  }
+}
+
+
+export async function setSecret(key: SecretKey, value: string): Promise<void> {
+  await SecureStore.setItemAsync(SECRET_KEYS[key].name, value, SECURE_STORE_OPTIONS);
+}
+
+
+export async function deleteSecret(key: SecretKey): Promise<void> {
+  const { name, legacyKey } = SECRET_KEYS[key];
+  try {
+    await SecureStore.deleteItemAsync(name, SECURE_STORE_OPTIONS);
+    // A copy from an earlier version may not have been migrated yet
+    await AsyncStorage.removeItem(legacyKey);
+  } catch (error) {
+    log.error(`❌ Error deleting secret ${key}:`, error);
+  }
+}
+
+
+async function loadDataKey(): Promise<Uint8Array> {
+  const stored = await SecureStore.getItemAsync(DATA_KEY_NAME, SECURE_STORE_OPTIONS);
+  if (stored) {
+    return base64ToBytes(stored);
+  }
+  const key = Crypto.getRandomBytes(ENCRYPTION_KEY_BYTES);
+  await SecureStore.setItemAsync(DATA_KEY_NAME, bytesToBase64(key), SECURE_STORE_OPTIONS);
+  log.info('🔐 Created device data key');
+  return key;
+}
+
+
+function getDataKey(): Promise<Uint8Array> {
+  if (!dataKeyPromise) {
+    dataKeyPromise = loadDataKey().catch(error => {
+      dataKeyPromise = null;
+      throw error;
+    });
+  }
+  return dataKeyPromise;
+}
+
+
+function withKeyLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+  const next = (keyLocks.get(key) ?? Promise.resolve()).then(task);
+  const settled = next.catch(() => undefined);
+  keyLocks.set(key, settled);
+  settled.then(() => {
+    if (keyLocks.get(key) === settled) {
+      keyLocks.delete(key);
+    }
+  });
+  return next;
+}
+
+
+async function writeEncrypted(key: string, value: string): Promise<void> {
+  const dataKey = await getDataKey();
+  const nonce = Crypto.getRandomBytes(ENCRYPTION_NONCE_BYTES);
+  await AsyncStorage.setItem(key, encryptValue(dataKey, nonce, value));
+}
+
+
+export function setEncryptedItem(key: string, value: string): Promise<void> {
+  return withKeyLock(key, () => writeEncrypted(key, value));
+}
+
+
+/**
+ * Encrypt a plain value from an earlier version where it is stored. Skipped when the
+ * entry changed since it was read, so a newer write is never replaced by the old value.
+ */
+async function encryptInPlace(key: string, plain: string): Promise<void> {
+  try {
+    await withKeyLock(key, async () => {
+      if ((await AsyncStorage.getItem(key)) === plain) {
+        await writeEncrypted(key, plain);
+      }
+    });
+  } catch (error) {
+    log.error(`❌ Error encrypting ${key}:`, error);
+  }
+}
+
+
+/**
+ * Read an encrypted entry. A plain value from an earlier version is returned and
+ * encrypted in place; a value the device key cannot open (restored from a backup of
+ * another device) is dropped, and the cache is rebuilt from the server.
+ */
+export async function getEncryptedItem(key: string): Promise<string | null> {
+  const stored = await AsyncStorage.getItem(key);
+  if (stored === null) {
+    return null;
+  }
+
+  if (!isEncryptedValue(stored)) {
+    await encryptInPlace(key, stored);
+    return stored;
+  }
+
+  let dataKey: Uint8Array;
+  try {
+    dataKey = await getDataKey();
+  } catch (error) {
+    // The keystore is unavailable, not the value unreadable: keep it for the next read
+    log.error(`❌ Error loading the data key to read ${key}:`, error);
+    return null;
+  }
+
+  try {
+    return decryptValue(dataKey, stored);
+  } catch (error) {
+    log.warn(`⚠️ Unreadable encrypted value for ${key}, dropping it`, error);
+    await AsyncStorage.removeItem(key);
+    return null;
+  }
+}
+
+
+export function removeEncryptedItem(key: string): Promise<void> {
+  return withKeyLock(key, () => AsyncStorage.removeItem(key));
+}
+
+
+function isEncryptedKey(key: string): boolean {
+  return ENCRYPTED_KEYS.includes(key) || ENCRYPTED_KEY_PREFIXES.some(prefix => key.startsWith(prefix));
+}
+
+
+/**
+ * Move the secrets and encrypt the caches left in plain AsyncStorage by earlier versions
+ */
+export async function migrateLegacyStorage(): Promise<void> {
+  try {
+    if ((await AsyncStorage.getItem(MIGRATION_DONE_KEY)) === 'true') {
+      return;
+    }
+
+    for (const key of Object.keys(SECRET_KEYS) as SecretKey[]) {
+      await getSecret(key);
+    }
+
+    const keys = await AsyncStorage.getAllKeys();
+    const cacheKeys = keys.filter(isEncryptedKey);
+    for (const key of cacheKeys) {
+      await getEncryptedItem(key);
+    }
+
+    await AsyncStorage.setItem(MIGRATION_DONE_KEY, 'true');
+    await AsyncStorage.multiRemove(LEGACY_MIGRATION_DONE_KEYS);
+    log.info(`✅ Storage migrated (${cacheKeys.length} cache entries encrypted)`);
+  } catch (error) {
+    log.error('❌ Error migrating storage:', error);
+  }
+}
+
+
+// Drop-in for AsyncStorage where the stored values are health or personal data
+export const encryptedStorage: KeyValueStorage & { removeItem(key: string): Promise<void> } = {
+  getItem: getEncryptedItem,
+  setItem: setEncryptedItem,
+  removeItem: removeEncryptedItem,
+};
+
+
+export const secureStorage = {
+  getSecret,
+  setSecret,
+  deleteSecret,
+  getEncryptedItem,
+  setEncryptedItem,
+  removeEncryptedItem,
+  migrateLegacyStorage,
+};
+
+export default secureStorage;
@@ -0,0 +1,155 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SnoozePolicy } from '../types';
+import { DEFAULT_SNOOZE_POLICY } from '../constants/medications';
+import { createLogger } from '../utils/logger';
+
+/**
+ * Snooze Service (functional)
+ * Keeps the patient's default snooze policy and how many times each dose has been snoozed.
+ * Counts live outside the reminder records so a reconcile that drops a past reminder
+ * does not reset the snooze budget of a dose still ringing.
+ */
+
+const log = createLogger('snooze');
+
+const PREFERENCES_KEY = '@snooze_preferences';
+const COUNTS_KEY = '@snooze_counts';
+// Counts older than this belong to doses that are long over
+const COUNT_RETENTION_MS = 48 * 60 * 60 * 1000;
+
+type SnoozeCount = {
+  count: number;
+  lastSnoozedAt: string;
+};
+
+export type SnoozeStatus = {
+  policy: SnoozePolicy;
+  count: number;
+  remaining: number;
+};
+
+
+function isValidPolicy(policy?: Partial<SnoozePolicy> | null): policy is SnoozePolicy {
+  return (
+    !!policy &&
+    Number.isFinite(policy.durationMinutes) &&
+    (policy.durationMinutes as number) > 0 &&
+    Number.isFinite(policy.maxSnoozes) &&
+    (policy.maxSnoozes as number) >= 0
+  );
+}
+
+
+async function loadCounts(): Promise<Record<string, SnoozeCount>> {
+  try {
+    const stored = await AsyncStorage.getItem(COUNTS_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    log.error('❌ Error reading snooze counts:', error);
+    return {};
+  }
+}
+
+
+async function persistCounts(counts: Record<string, SnoozeCount>): Promise<void> {
+  const now = Date.now();
+  Object.keys(counts).forEach(reminderId => {
+    if (new Date(counts[reminderId].lastSnoozedAt).getTime() + COUNT_RETENTION_MS < now) {
+      delete counts[reminderId];
+    }
+  });
+  await AsyncStorage.setItem(COUNTS_KEY, JSON.stringify(counts));
+}
+
+
+/**
+ * Patient-wide snooze policy chosen in the profile settings
+ */
+export async function getPatientSnoozePolicy(): Promise<SnoozePolicy> {
+  try {
+    const stored = await AsyncStorage.getItem(PREFERENCES_KEY);
+    const parsed = stored ? (JSON.parse(stored) as SnoozePolicy) : null;
+    return isValidPolicy(parsed) ? parsed : DEFAULT_SNOOZE_POLICY;
+  } catch (error) {
+    log.error('❌ Error reading snooze preferences:', error);
+    return DEFAULT_SNOOZE_POLICY;
+  }
+}
+
+
+export async function savePatientSnoozePolicy(policy: SnoozePolicy): Promise<void> {
+  if (!isValidPolicy(policy)) {
+    return;
+  }
+  await AsyncStorage.setItem(PREFERENCES_KEY, JSON.stringify(policy));
+}
+
+
+/**
+ * Prescription policy wins over the patient default
+ */
+export async function resolveSnoozePolicy(prescriptionPolicy?: SnoozePolicy | null): Promise<SnoozePolicy> {
+  if (isValidPolicy(prescriptionPolicy)) {
+    return prescriptionPolicy;
+  }
+  return getPatientSnoozePolicy();
+}
+
+
+export async function getSnoozeCount(reminderId: string): Promise<number> {
+  const counts = await loadCounts();
+  return counts[reminderId]?.count ?? 0;
+}
+
+
+export async function incrementSnoozeCount(reminderId: string): Promise<number> {
+  const counts = await loadCounts();
+  const count = (counts[reminderId]?.count ?? 0) + 1;
+  counts[reminderId] = { count, lastSnoozedAt: new Date().toISOString() };
+  await persistCounts(counts);
+  return count;
+}
+
+
+export async function clearSnoozeCount(reminderId: string): Promise<void> {
+  const counts = await loadCounts();
+  if (counts[reminderId]) {
+    delete counts[reminderId];
+    await persistCounts(counts);
+  }
+}
+
+
+export async function getSnoozeStatus(
+  reminderId: string,
+  prescriptionPolicy?: SnoozePolicy | null
+): Promise<SnoozeStatus> {
+  const policy = await resolveSnoozePolicy(prescriptionPolicy);
+  const count = await getSnoozeCount(reminderId);
+  return {
+    policy,
+    count,
+    remaining: Math.max(0, policy.maxSnoozes - count),
+  };
+}
+
+
+export async function clearAll(): Promise<void> {
+  try {
+    await AsyncStorage.multiRemove([PREFERENCES_KEY, COUNTS_KEY]);
+  } catch (error) {
+    log.error('❌ Error clearing snooze state:', error);
+  }
+}
+
+
+export const snoozeService = {
+  getPatientSnoozePolicy,
+  savePatientSnoozePolicy,
+  resolveSnoozePolicy,
+  getSnoozeCount,
+  incrementSnoozeCount,
+  clearSnoozeCount,
+  getSnoozeStatus,
+  clearAll,
+};
@@ -0,0 +1,248 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { TimeZonePolicy } from '../types';
+import { DEFAULT_TIME_ZONE_POLICY } from '../constants/medications';
+import {
+  getDeviceTimeZone,
+  getStoredUserTimeZone,
+  getTimeZoneOffsetMinutes,
+  getZonedParts,
+  isValidTimeZone,
+  notifyDeviceTimeZoneChange,
+  zonedTimeToUtc,
+} from '../utils/timezone';
+import { createLogger } from '../utils/logger';
+
+/**
+ * Travel Mode Service (functional)
+ * Detects when the device moves to another timezone and re-anchors reminder times.
+ * The backend plans doses in the home timezone; while travelling, reminders of
+ * prescriptions with the 'local' policy are moved to the same wall-clock time in
+ * the device timezone, 'absolute' ones keep firing at the same instant.
+ */
+
+const log = createLogger('travelMode');
+
+const LAST_DEVICE_ZONE_KEY = '@last_device_timezone';
+const TRAVEL_STATE_KEY = '@travel_mode_state';
+
+export type TimeZoneChange = {
+  fromTimeZone: string;
+  toTimeZone: string;
+  detectedAt: string;
+};
+
+export type TravelModeState = {
+  // Zone the backend schedules are expressed in
+  homeTimeZone: string;
+  currentTimeZone: string;
+  detectedAt: string;
+  // False once the device is back in the home zone
+  active: boolean;
+  // Filled by the reconcile that follows the change
+  movedCount: number;
+  keptCount: number;
+  dismissed: boolean;
+};
+
+type AnchorableReminder = {
+  scheduledFor: string;
+  timeZonePolicy?: TimeZonePolicy | null;
+};
+
+type TravelListener = (state: TravelModeState | null) => void;
+
+let listeners: TravelListener[] = [];
+
+
+async function loadState(): Promise<TravelModeState | null> {
+  try {
+    const stored = await AsyncStorage.getItem(TRAVEL_STATE_KEY);
+    return stored ? (JSON.parse(stored) as TravelModeState) : null;
+  } catch (error) {
+    log.error('❌ Error reading travel mode state:', error);
+    return null;
+  }
+}
+
+
+async function persistState(state: TravelModeState | null): Promise<void> {
+  if (state) {
+    await AsyncStorage.setItem(TRAVEL_STATE_KEY, JSON.stringify(state));
+  } else {
+    await AsyncStorage.removeItem(TRAVEL_STATE_KEY);
+  }
+  listeners.forEach(listener => listener(state));
+}
+
+
+/**
+ * Compare the device timezone with the one seen on the previous check.
+ * Returns the change when the device moved, so the caller can force a reconcile.
+ */
+export async function checkDeviceTimeZoneChange(): Promise<TimeZoneChange | null> {
+  const deviceTimeZone = getDeviceTimeZone();
+
+  try {
+    const lastSeen = await AsyncStorage.getItem(LAST_DEVICE_ZONE_KEY);
+    if (!isValidTimeZone(lastSeen)) {
+      await AsyncStorage.setItem(LAST_DEVICE_ZONE_KEY, deviceTimeZone);
+      return null;
+    }
+    if (lastSeen === deviceTimeZone) {
+      return null;
+    }
+
+    await AsyncStorage.setItem(LAST_DEVICE_ZONE_KEY, deviceTimeZone);
+
+    const previous = await loadState();
+    // Keep the original home zone across several hops of the same trip
+    const homeTimeZone = previous?.active
+      ? previous.homeTimeZone
+      : getStoredUserTimeZone() || lastSeen;
+    const change: TimeZoneChange = {
+      fromTimeZone: lastSeen,
+      toTimeZone: deviceTimeZone,
+      detectedAt: new Date().toISOString(),
+    };
+
+    await persistState({
+      homeTimeZone,
+      currentTimeZone: deviceTimeZone,
+      detectedAt: change.detectedAt,
+      active: deviceTimeZone !== homeTimeZone,
+      movedCount: 0,
+      keptCount: 0,
+      dismissed: false,
+    });
+    notifyDeviceTimeZoneChange();
+
+    return change;
+  } catch (error) {
+    log.error('❌ Error checking device timezone:', error);
+    return null;
+  }
+}
+
+
+/**
+ * Instant a reminder should fire at given the current trip. Same wall-clock time in the
+ * device zone for 'local' prescriptions, unchanged for 'absolute' ones.
+ */
+export function reanchorScheduledFor(
+  scheduledFor: string,
+  policy: TimeZonePolicy,
+  state: TravelModeState | null
+): string {
+  if (!state?.active || policy === 'absolute') {
+    return scheduledFor;
+  }
+
+  const instant = new Date(scheduledFor);
+  if (Number.isNaN(instant.getTime())) {
+    return scheduledFor;
+  }
+
+  const wallClock = getZonedParts(instant, state.homeTimeZone);
+  return zonedTimeToUtc(
+    wallClock.year,
+    wallClock.month,
+    wallClock.day,
+    wallClock.hour,
+    wallClock.minute,
+    state.currentTimeZone
+  ).toISOString();
+}
+
+
+/**
+ * Apply the active trip to reminders fetched from the backend and record what moved
+ */
+export async function reanchorReminders<T extends AnchorableReminder>(reminders: T[]): Promise<T[]> {
+  const state = await loadState();
+  if (!state?.active) {
+    return reminders;
+  }
+
+  let movedCount = 0;
+  let keptCount = 0;
+  const anchored = reminders.map(reminder => {
+    const policy = reminder.timeZonePolicy || DEFAULT_TIME_ZONE_POLICY;
+    const scheduledFor = reanchorScheduledFor(reminder.scheduledFor, policy, state);
+    if (scheduledFor !== reminder.scheduledFor) {
+      movedCount++;
+      return { ...reminder, scheduledFor };
+    }
+    keptCount++;
+    return reminder;
+  });
+
+  if (state.movedCount !== movedCount || state.keptCount !== keptCount) {
+    try {
+      await persistState({ ...state, movedCount, keptCount });
+    } catch (error) {
+      log.error('❌ Error saving travel mode summary:', error);
+    }
+  }
+
+  return anchored;
+}
+
+
+export async function getTravelState(): Promise<TravelModeState | null> {
+  return loadState();
+}
+
+
+/**
+ * Difference between the device and home offsets right now, in minutes
+ */
+export function getTravelOffsetMinutes(state: TravelModeState): number {
+  const now = new Date();
+  return (
+    getTimeZoneOffsetMinutes(now, state.currentTimeZone) -
+    getTimeZoneOffsetMinutes(now, state.homeTimeZone)
+  );
+}
+
+
+export async function dismissTravelNotice(): Promise<void> {
+  const state = await loadState();
+  if (!state) {
+    return;
+  }
+  // A finished trip has nothing left to apply once its notice is read
+  await persistState(state.active ? { ...state, dismissed: true } : null);
+}
+
+
+export function addListener(listener: TravelListener): void {
+  listeners.push(listener);
+}
+
+
+export function removeListener(listener: TravelListener): void {
+  listeners = listeners.filter(existing => existing !== listener);
+}
+
+
+export async function clearAll(): Promise<void> {
+  try {
+    await AsyncStorage.multiRemove([LAST_DEVICE_ZONE_KEY, TRAVEL_STATE_KEY]);
+    listeners.forEach(listener => listener(null));
+  } catch (error) {
+    log.error('❌ Error clearing travel mode state:', error);
+  }
+}
+
+
+export const travelModeService = {
+  checkDeviceTimeZoneChange,
+  reanchorScheduledFor,
+  reanchorReminders,
+  getTravelState,
+  getTravelOffsetMinutes,
+  dismissTravelNotice,
+  addListener,
+  removeListener,
+  clearAll,
+};
@@ -0,0 +1,86 @@
+/**
+ * Adherence analytics types
+ */
+
+/** Raw reminder outcome as returned by the adherence-history endpoints */
+export interface AdherenceRecord {
+  id: string;
+  reminderId: string;
+  prescriptionId: string;
+  medicationName: string;
+  dosage?: string;
+  scheduledFor: string;
+  status: string;
+  confirmedAt?: string | null;
+}
+
+export type AdherenceEventStatus = 'taken' | 'missed' | 'snoozed' | 'pending';
+
+export interface AdherenceEvent {
+  reminderId: string;
+  prescriptionId: string;
+  medicationName: string;
+  scheduledFor: string;
+  status: AdherenceEventStatus;
+  takenAt?: string | null;
+}
+
+export type TimeOfDay = 'morning' | 'afternoon' | 'evening' | 'night';
+
+export interface AdherenceSummary {
+  total: number;
+  taken: number;
+  missed: number;
+  snoozed: number;
+  pending: number;
+  rate: number;
+}
+
+export interface DailyAdherence extends AdherenceSummary {
+  date: string;
+}
+
+export interface WeeklyAdherence extends AdherenceSummary {
+  weekNumber: number;
+  weekStart: string;
+}
+
+export interface MedicationAdherence extends AdherenceSummary {
+  prescriptionId: string;
+  medicationName: string;
+  averageMinutesLate: number | null;
+}
+
+export interface TimeOfDayAdherence extends AdherenceSummary {
+  period: TimeOfDay;
+}
+
+export interface PunctualityStats {
+  measured: number;
+  onTime: number;
+  late: number;
+  onTimeRate: number;
+  averageMinutesLate: number | null;
+  medianMinutesLate: number | null;
+}
+
+export interface AdherenceStats {
+  overall: number;
+  last7Days: number;
+  last30Days: number;
+  currentStreak: number;
+  bestStreak: number;
+  totalMedications: number;
+  totalTaken: number;
+  totalMissed: number;
+}
+
+export interface AdherenceReport {
+  stats: AdherenceStats;
+  overall: AdherenceSummary;
+  daily: DailyAdherence[];
+  weekly: WeeklyAdherence[];
+  byMedication: MedicationAdherence[];
+  byTimeOfDay: TimeOfDayAdherence[];
+  punctuality: PunctualityStats;
+}
@@ -0,0 +1,80 @@
+/**
+ * Response payloads of the endpoints declared in shared/services/api/endpoints.ts
+ */
+
+import { LocalReminder, PrescriptionSchedule, VoiceMessage } from './index';
+import { AdherenceRecord } from './adherence.types';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface DoctorDashboardData {
+  upcomingAppointments?: any[];
+  medicationAlerts?: any[];
+  alerts?: {
+    missedMedications?: any[];
+  };
+}
+
+/** Patient as returned by the profile endpoints; contact fields may be empty */
+export interface PatientProfileSummary {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email?: string | null;
+  phoneNumber?: string | null;
+  timezone?: string | null;
+  lastVisit?: string | null;
+  medicationCount?: number;
+}
+
+export interface PatientPrescription {
+  id: string;
+  isActive?: boolean;
+  medication?: {
+    id: string;
+    name: string;
+    dosage?: string | null;
+  } | null;
+  schedules?: PrescriptionSchedule[];
+  voiceMessageId?: string | null;
+  voiceMessage?: {
+    id: string;
+    fileUrl: string;
+  } | null;
+  version?: number | null;
+  updatedAt?: string | null;
+  patientSyncedAt?: string | null;
+}
+
+/** Tutor endpoint shape; the doctor endpoint returns the patient object alone */
+export interface PatientProfileData {
+  patient: PatientProfileSummary;
+  prescriptions?: PatientPrescription[];
+  reminders?: unknown[];
+}
+
+export type PatientDetailsData = PatientProfileData | PatientProfileSummary;
+
+export interface PatientAdherenceHistoryData {
+  reminders?: AdherenceRecord[];
+  recentHistory?: AdherenceRecord[];
+}
+
+export type PatientVoiceMessagesData = VoiceMessage[];
+
+export type UpcomingRemindersData = LocalReminder[];
+
+/**
+ * `/patient/check-updates` with `includeChanges`: reminders changed since `lastSync`
+ */
+export interface ReminderChangesData {
+  hasUpdates: boolean;
+  lastModified?: string | null;
+  // Added or changed reminders inside the requested window
+  changed?: LocalReminder[];
+  // Reminder IDs cancelled or deleted since `lastSync`
+  cancelled?: string[];
+  serverTime?: string;
+  // The server no longer keeps changes that far back
+  fullResyncRequired?: boolean;
+}
@@ -21,12 +21,14 @@ export interface RegisterData {
 
 export interface AuthResponse {
   token: string;
+  refreshToken?: string;
   user: {
     id: string;
     email: string;
     firstName: string;
     lastName: string;
     userType: string;
+    timezone?: string;
   };
 }
 
@@ -0,0 +1,40 @@
+/**
+ * Patient device health types
+ */
+
+/** Permissions the alarms depend on; iOS reports the ones it has no equivalent for as granted */
+export interface DevicePermissions {
+  notifications: boolean;
+  exactAlarms: boolean;
+  overlays: boolean;
+  batteryOptimizations: boolean;
+}
+
+/** Sent by the patient app after each reminder reconcile, shown to caregivers */
+export interface DeviceHeartbeat {
+  lastSyncAt: string | null;
+  // Upcoming reminders with an alarm or notification scheduled on the device
+  scheduledAlarms: number;
+  permissions: DevicePermissions;
+  appVersion: string | null;
+  platform: string;
+  osVersion: string;
+  reportedAt: string;
+}
+
+export type DeviceHealthWarningCode =
+  | 'noHeartbeat'
+  | 'staleSync'
+  | 'notificationsDisabled'
+  | 'exactAlarmsDisabled'
+  | 'batteryOptimized'
+  | 'overlaysDisabled'
+  | 'noAlarmsScheduled';
+
+/** `critical` means doses can be missed without the patient being alerted */
+export interface DeviceHealthWarning {
+  code: DeviceHealthWarningCode;
+  severity: 'critical' | 'warning';
+  // Days since the last sync, for `staleSync`
+  days?: number;
+}
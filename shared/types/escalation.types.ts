@@ -0,0 +1,38 @@
+/**
+ * Missed-dose escalation types
+ */
+
+export type EscalationRecipient = 'tuteur' | 'medecin';
+
+/** Per-prescription rule: who to alert, and how long after `scheduledFor` an unconfirmed dose counts as missed */
+export interface EscalationPolicy {
+  enabled: boolean;
+  delayMinutes: number;
+  notify: EscalationRecipient[];
+}
+
+/** Sent by the patient app for each dose still unconfirmed once its escalation delay has passed */
+export interface MissedDoseReport {
+  reminderId: string;
+  prescriptionId: string;
+  medicationName: string;
+  scheduledFor: string;
+  minutesOverdue: number;
+  detectedAt: string;
+}
+
+export type MissedDoseAlertStatus = 'open' | 'acknowledged' | 'resolved';
+
+/** Alert shown to caregivers; `resolved` means the patient confirmed the dose after the alert fired */
+export interface MissedDoseAlert {
+  id: string;
+  patientId: string;
+  patientName: string;
+  prescriptionId: string;
+  reminderId: string;
+  medicationName: string;
+  scheduledFor: string;
+  reportedAt: string;
+  status: MissedDoseAlertStatus;
+  acknowledgedAt?: string | null;
+}
@@ -2,6 +2,8 @@
  * Centralized type definitions for the MediCare App
  */
 
+import { EscalationPolicy } from './escalation.types';
+
 // ========== User Types ==========
 export type UserType = 'patient' | 'tuteur' | 'medecin';
 
@@ -12,6 +14,7 @@ export interface User {
   lastName: string;
   userType: UserType;
   phoneNumber: string;
+  timezone?: string;
 }
 
 export interface UserProfile {
@@ -26,6 +29,10 @@ export interface UserProfile {
   createdAt: string;
   timezone?: string;
   language?: string;
+  snoozePolicy?: SnoozePolicy | null;
+  // Record version, sent back as If-Match when the profile is edited
+  version?: number;
+  updatedAt?: string;
 }
 
 // ========== Patient Types ==========
@@ -39,6 +46,7 @@ export interface Patient {
   medicationCount: number;
   age?: number;
   name?: string;
+  timezone?: string;
   createdAt?: Date;
   lastLogin?: Date | null;
   adherenceRate?: number;
@@ -62,6 +70,20 @@ export interface Medication {
   prescriptionId: string;
 }
 
+export type ScheduleType = 'daily' | 'weekly' | 'interval' | 'monthly' | 'custom';
+
+/** Snooze length, and how many snoozes a dose allows before it counts as missed */
+export interface SnoozePolicy {
+  durationMinutes: number;
+  maxSnoozes: number;
+}
+
+/**
+ * How a prescription's reminders follow a timezone change:
+ * 'local' keeps the wall-clock time, 'absolute' keeps the same instant
+ */
+export type TimeZonePolicy = 'local' | 'absolute';
+
 export interface MedicationDetail {
   id: string;
   name: string;
@@ -85,8 +107,13 @@ export interface MedicationDetail {
   };
   schedules?: PrescriptionSchedule[];
   isChronic?: boolean;
-  scheduleType?: 'daily' | 'weekly' | 'interval' | 'monthly' | 'custom';
+  scheduleType?: ScheduleType;
   intervalHours?: number;
+  monthDays?: number[];
+  customDates?: string[];
+  escalationPolicy?: EscalationPolicy | null;
+  snoozePolicy?: SnoozePolicy | null;
+  timeZonePolicy?: TimeZonePolicy;
 }
 
 export interface PrescriptionSchedule {
@@ -101,9 +128,47 @@ export interface PrescriptionData {
   instructions?: string;
   schedules?: PrescriptionSchedule[];
   isChronic?: boolean;
-  scheduleType?: 'daily' | 'weekly' | 'interval' | 'monthly' | 'custom';
+  scheduleType?: ScheduleType;
+  intervalHours?: number;
+  monthDays?: number[];
+  customDates?: string[];
+  repeatWeeks?: number;
+  escalationPolicy?: EscalationPolicy | null;
+  snoozePolicy?: SnoozePolicy | null;
+  timeZonePolicy?: TimeZonePolicy;
+  version?: number;
+  updatedAt?: string;
+  // When the patient device last applied this prescription; null until it does
+  patientSyncedAt?: string | null;
+}
+
+// ========== Prescription Payload Types ==========
+/** Fields the caregiver can change on an existing prescription */
+export interface PrescriptionUpdatePayload {
+  medicationName?: string;
+  customDosage?: string;
+  instructions?: string;
+  schedules?: PrescriptionSchedule[];
+  voiceMessageId?: string | null;
+  isChronic?: boolean;
+  endDate?: string;
+  scheduleType?: ScheduleType;
   intervalHours?: number;
+  monthDays?: number[];
+  customDates?: string[];
   repeatWeeks?: number;
+  escalationPolicy?: EscalationPolicy | null;
+  snoozePolicy?: SnoozePolicy | null;
+  timeZonePolicy?: TimeZonePolicy;
+}
+
+export interface PrescriptionCreatePayload extends PrescriptionUpdatePayload {
+  medicationName: string;
+  medicationGenericName?: string;
+  medicationDosage?: string;
+  medicationForm?: string;
+  medicationDescription?: string;
+  schedules: PrescriptionSchedule[];
 }
 
 // ========== Voice Message Types ==========
@@ -147,6 +212,7 @@ export interface ApiResponse<T> {
   message?: string;
   errors?: any[];
   token?: string;
+  refreshToken?: string;
   user?: User;
 }
 
@@ -179,13 +245,29 @@ export interface FeedbackModalState {
 // ========== Offline Queue Types ==========
 export interface QueuedAction {
   id: string;
-  type: 'confirm' | 'snooze';
+  type: 'confirm' | 'snooze' | 'missed';
   reminderId: string;
   timestamp: string;
   synced?: boolean;
   retryCount: number;
 }
 
+/** Per-action outcome of a batch sync; serverStatus is set when the reminder already changed */
+export interface OfflineActionSyncResult {
+  id: string;
+  success: boolean;
+  error?: string;
+  serverStatus?: string;
+  // false when retrying cannot help, e.g. the reminder no longer exists
+  retryable?: boolean;
+}
+
+/** Data-only push sent to the patient device when a caregiver changes a prescription */
+export interface PrescriptionsChangedHint {
+  changeId: string;
+  changedAt?: string;
+}
+
 // ========== Component Props Types ==========
 export interface FeatureCard {
   icon: keyof typeof import('@expo/vector-icons').Ionicons.glyphMap;
@@ -0,0 +1,23 @@
+/**
+ * App logging types
+ */
+
+import { LOG_LEVELS } from '../constants/logging';
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+/** One line of the on-device log buffer, already redacted */
+export interface LogEntry {
+  at: string;
+  level: LogLevel;
+  // Subsystem that wrote the entry, e.g. `api` or `reminders`
+  tag: string;
+  message: string;
+}
+
+export interface Logger {
+  debug(message: string, ...details: unknown[]): void;
+  info(message: string, ...details: unknown[]): void;
+  warn(message: string, ...details: unknown[]): void;
+  error(message: string, ...details: unknown[]): void;
+}
@@ -2,7 +2,7 @@
  * Medication and prescription-related types
  */
 
-import { PrescriptionData, PrescriptionSchedule, VoiceMessage } from './index';
+import { PrescriptionData, PrescriptionSchedule, ScheduleType, VoiceMessage } from './index';
 
 export interface MedicationOption {
   id: string;
@@ -18,9 +18,11 @@ export interface PrescriptionFormData extends PrescriptionData {
 }
 
 export interface ScheduleConfig {
-  scheduleType: 'daily' | 'weekly' | 'interval' | 'monthly' | 'custom';
+  scheduleType: ScheduleType;
   schedules?: PrescriptionSchedule[];
   intervalHours?: number;
+  monthDays?: number[];
+  customDates?: string[];
   repeatWeeks?: number;
 }
 
@@ -0,0 +1,97 @@
+/**
+ * Offline mutation outbox types
+ */
+
+import { PrescriptionCreatePayload, PrescriptionUpdatePayload } from './index';
+
+/** Payload of each mutation the outbox can replay, keyed by mutation type */
+export interface MutationPayloads {
+  createPrescription: {
+    patientId: string;
+    prescriptionData: PrescriptionCreatePayload;
+  };
+  updatePrescription: {
+    patientId: string;
+    prescriptionId: string;
+    prescriptionData: PrescriptionUpdatePayload;
+    // Server version the edit was made on, and the edited fields as they were then
+    baseVersion?: string | null;
+    baseData?: Partial<PrescriptionUpdatePayload>;
+  };
+  deletePrescription: {
+    patientId: string;
+    prescriptionId: string;
+  };
+  updateProfile: {
+    profileData: Record<string, unknown>;
+    baseVersion?: string | null;
+    baseData?: Record<string, unknown>;
+  };
+  uploadVoiceMessage: {
+    patientId: string;
+    // Copy of the recording kept in the app's document directory until it is sent
+    fileUri: string;
+    fileName: string;
+    mimeType: string;
+    title?: string;
+    durationSeconds: number;
+  };
+  invitePatient: {
+    firstName: string;
+    lastName: string;
+    phoneNumber: string;
+  };
+}
+
+export type MutationType = keyof MutationPayloads;
+
+// 'conflict': the server record changed since the edit and needs a decision
+export type MutationStatus = 'pending' | 'failed' | 'conflict';
+
+/** A field both the queued edit and someone else changed */
+export interface FieldConflict {
+  field: string;
+  base: unknown;
+  local: unknown;
+  server: unknown;
+}
+
+export interface MutationConflict {
+  serverVersion: string | null;
+  // Server values of the edited fields, the new base once the conflict is resolved
+  serverData: Record<string, unknown>;
+  fields: FieldConflict[];
+  detectedAt: string;
+}
+
+export type ConflictChoice = 'local' | 'server';
+
+/** Keep the queued edit, keep the server record, or pick a side per conflicting field */
+export type ConflictResolution = 'keep-local' | 'keep-server' | Record<string, ConflictChoice>;
+
+export interface QueuedMutation<K extends MutationType = MutationType> {
+  id: string;
+  type: K;
+  payload: MutationPayloads[K];
+  // Mutations that must succeed first; filled from the outbox references in the payload
+  dependsOn: string[];
+  // Sent with every attempt so the server applies the mutation once; absent on
+  // mutations queued by earlier versions
+  idempotencyKey?: string;
+  status: MutationStatus;
+  createdAt: string;
+  retryCount: number;
+  // i18n key of the last failure, translated when shown
+  lastError?: string;
+  // Message the server sent with the last failure, shown instead when present
+  lastErrorMessage?: string;
+  conflict?: MutationConflict;
+}
+
+/** What a replayed mutation produced, e.g. the server id of an uploaded voice message */
+export interface MutationResult {
+  id?: string;
+}
+
+/** Queued mutation narrowed on `type`, so `payload` follows the type */
+export type AnyQueuedMutation = { [K in MutationType]: QueuedMutation<K> }[MutationType];
@@ -21,7 +21,8 @@ export interface DateItem {
   isToday: boolean;
 }
 
-
-
-
-
+/** One day of the patient's medication list, as kept in the query cache */
+export interface CachedMedicationDay {
+  meds: Medication[];
+  stats: DashboardStats;
+}
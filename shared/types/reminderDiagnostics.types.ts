@@ -0,0 +1,49 @@
+/**
+ * Reminder diagnostics types
+ */
+
+import { DeviceHeartbeat } from './deviceHealth.types';
+import { PendingNotification, StoredReminderV2 } from './reminderSync.types';
+
+/**
+ * `missing`: the record points to a voice file that is gone; `notDownloaded`: the reminder
+ * has a voice message but no local copy, so the default sound plays
+ */
+export type VoiceCacheState = 'none' | 'cached' | 'missing' | 'notDownloaded';
+
+/**
+ * Android native alarms cannot be listed, so they are `unverified` unless Notifee
+ * reports a trigger for them
+ */
+export type AlarmState = 'none' | 'pending' | 'unverified';
+
+export type ReminderIssueCode = 'notificationsMissing' | 'voiceMissing' | 'legacyRecord';
+
+export interface ReminderRecordDiagnostics {
+  record: StoredReminderV2;
+  // Notification IDs of the record still pending on the device, and the ones that are not
+  pendingNotificationIds: string[];
+  missingNotificationIds: string[];
+  alarm: AlarmState;
+  voice: VoiceCacheState;
+  issues: ReminderIssueCode[];
+}
+
+export interface ReminderSyncStatus {
+  lastSyncAt: string | null;
+  lastFullReconcileAt: string | null;
+  deferredReminders: number;
+}
+
+/** Everything support needs to explain why an alarm did not ring */
+export interface ReminderDiagnosticsReport {
+  generatedAt: string;
+  device: DeviceHeartbeat;
+  sync: ReminderSyncStatus;
+  pendingNotificationCount: number;
+  records: ReminderRecordDiagnostics[];
+  // Medication notifications no stored record accounts for
+  untrackedNotifications: PendingNotification[];
+  // Notifee triggers no stored record accounts for
+  untrackedAlarms: string[];
+}
@@ -0,0 +1,134 @@
+/**
+ * Reminder reconcile types: upcoming reminders, their stored schedule records and the
+ * plan that brings the device schedule in line with the server
+ */
+
+import { EscalationPolicy } from './escalation.types';
+import { SnoozePolicy, TimeZonePolicy } from './index';
+
+export interface LocalReminder {
+  id: string;
+  reminderId: string;
+  prescriptionId: string;
+  medicationName: string;
+  dosage: string;
+  instructions?: string;
+  imageUrl?: string;
+  scheduledFor: string;
+  patientId: string;
+  // Voice message fields from backend
+  voiceUrl?: string | null;
+  voiceFileName?: string | null;
+  voiceTitle?: string | null;
+  voiceDuration?: number;
+  voiceChecksum?: string | null;
+  voiceVersion?: number | null;
+  voiceFormat?: string | null;
+  // Caregiver escalation policy of the prescription, when one is configured
+  escalation?: EscalationPolicy | null;
+  // Prescription snooze policy; the patient setting applies when missing
+  snooze?: SnoozePolicy | null;
+  // How the dose time follows the patient across timezones
+  timeZonePolicy?: TimeZonePolicy | null;
+}
+
+export type StoredReminderV1 = {
+  notificationId: string;
+  medicationName: string;
+  dosage: string;
+};
+
+export type StoredReminderV2 = {
+  reminderId: string;
+  prescriptionId: string;
+  patientId: string;
+  scheduledFor: string;
+  medicationName: string;
+  dosage: string;
+  instructions?: string;
+  imageUrl?: string;
+  snoozePolicy?: SnoozePolicy | null;
+  voice?: {
+    voiceUrl?: string | null;
+    voiceFileName?: string | null;
+    localPath?: string | null;
+    voiceChecksum?: string | null;
+    voiceVersion?: number | null;
+    voiceFormat?: string | null;
+  };
+  schedule: {
+    platform: 'android_native' | 'expo';
+    alarmId?: string;
+    notificationIds?: string[];
+    scheduledAtMs: number;
+  };
+  fingerprint: string;
+  lastSyncedAt: string;
+};
+
+export type ScheduleResult = StoredReminderV2['schedule'];
+
+/** A local notification waiting to fire, as far as reconciling is concerned */
+export interface PendingNotification {
+  identifier: string;
+  reminderId: string | null;
+  type: string | null;
+}
+
+/**
+ * One step of a reconcile plan. `update` replaces the schedule of a stored reminder: its
+ * content changed, or (iOS) it gets a different number of alerts.
+ */
+export type ReconcileOperation =
+  | { type: 'cancel'; record: StoredReminderV2; reason: 'stale' | 'cancelled' | 'past' | 'outOfWindow' }
+  | { type: 'schedule'; reminder: LocalReminder; iosRepeatCount?: number }
+  | { type: 'update'; reminder: LocalReminder; existing: StoredReminderV2; iosRepeatCount?: number };
+
+export interface ReconcilePlan {
+  // Cancellations first, then schedules in dose order
+  operations: ReconcileOperation[];
+  // Upcoming reminders left out of the iOS notification window
+  deferredReminders: number;
+}
+
+export interface ReconcileInput {
+  remote: LocalReminder[];
+  local: Record<string, StoredReminderV2>;
+  platform: string;
+  // Notifications pending on iOS; the budget of the window is what they leave free
+  pendingNotifications: PendingNotification[];
+  now: Date;
+}
+
+export interface ReminderChangesInput {
+  changed: LocalReminder[];
+  cancelledIds: string[];
+  local: Record<string, StoredReminderV2>;
+  platform: string;
+  pendingNotifications: PendingNotification[];
+  now: Date;
+}
+
+/** Platform side of the executor: alarms, notifications and the voice cache */
+export interface ReminderSchedulerAdapter {
+  // Android full-screen alarms are in use; their alarm IDs are cancelled with the schedule
+  nativeAlarms: boolean;
+  scheduleReminder(
+    reminder: LocalReminder,
+    voicePath: string | null,
+    options: { iosRepeatCount?: number }
+  ): Promise<ScheduleResult>;
+  cancelAlarm(alarmId: string): Promise<void>;
+  cancelNotification(notificationId: string): Promise<void>;
+  getPendingNotifications(): Promise<PendingNotification[]>;
+  ensureVoice(
+    reminder: LocalReminder,
+    existing?: StoredReminderV2
+  ): Promise<{ path: string | null; downloaded: boolean }>;
+}
+
+/** The part of AsyncStorage the reminder store needs */
+export interface KeyValueStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+}
@@ -0,0 +1,45 @@
+import { buildAdherenceReport, formatDayKey, getTimeOfDay } from '../adherence';
+import { AdherenceEvent } from '../../types/adherence.types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const event = (scheduledFor: string, status: AdherenceEvent['status']): AdherenceEvent => ({
+  reminderId: scheduledFor,
+  prescriptionId: 'p1',
+  medicationName: 'Metformine',
+  scheduledFor,
+  status,
+  takenAt: null,
+});
+
+describe('formatDayKey / getTimeOfDay', () => {
+  it('reads the calendar day and hour in the given timezone', () => {
+    const date = new Date('2026-03-01T23:30:00.000Z');
+    expect(formatDayKey(date, 'UTC')).toBe('2026-03-01');
+    expect(formatDayKey(date, 'Africa/Tunis')).toBe('2026-03-02');
+    expect(formatDayKey(date, 'America/New_York')).toBe('2026-03-01');
+    expect(getTimeOfDay(date, 'UTC')).toBe('night');
+    expect(getTimeOfDay(date, 'America/New_York')).toBe('evening');
+  });
+});
+
+describe('buildAdherenceReport', () => {
+  it('groups days and weeks in the report timezone', () => {
+    const events = [
+      event('2026-03-01T23:30:00.000Z', 'taken'),
+      event('2026-03-02T07:00:00.000Z', 'missed'),
+    ];
+    const now = new Date('2026-03-03T12:00:00.000Z');
+
+    const tunis = buildAdherenceReport(events, { now, weeks: 2, timeZone: 'Africa/Tunis' });
+    expect(tunis.daily.map(day => day.date)).toEqual(['2026-03-02']);
+    expect(tunis.weekly.map(week => week.weekStart)).toEqual(['2026-02-23', '2026-03-02']);
+    expect(tunis.weekly[1].total).toBe(2);
+
+    const newYork = buildAdherenceReport(events, { now, weeks: 2, timeZone: 'America/New_York' });
+    expect(newYork.daily.map(day => day.date)).toEqual(['2026-03-02', '2026-03-01']);
+    expect(newYork.weekly.map(week => week.total)).toEqual([1, 1]);
+  });
+});
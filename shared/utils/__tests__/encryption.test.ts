@@ -0,0 +1,55 @@
+import {
+  base64ToBytes,
+  bytesToBase64,
+  decryptValue,
+  encryptValue,
+  ENCRYPTION_KEY_BYTES,
+  ENCRYPTION_NONCE_BYTES,
+  isEncryptedValue,
+} from '../encryption';
+
+const key = new Uint8Array(ENCRYPTION_KEY_BYTES).fill(7);
+const nonce = new Uint8Array(ENCRYPTION_NONCE_BYTES).fill(3);
+
+describe('base64', () => {
+  it('round-trips bytes', () => {
+    const bytes = new Uint8Array([0, 1, 127, 128, 255]);
+    expect(base64ToBytes(bytesToBase64(bytes))).toEqual(bytes);
+  });
+});
+
+describe('encryptValue', () => {
+  it('round-trips text with the same key', () => {
+    const value = JSON.stringify({ medicationName: 'Doliprane 1000 mg', note: 'après le repas ☀️' });
+    const encrypted = encryptValue(key, nonce, value);
+
+    expect(isEncryptedValue(encrypted)).toBe(true);
+    expect(encrypted).not.toContain('Doliprane');
+    expect(decryptValue(key, encrypted)).toBe(value);
+  });
+
+  it('tells encrypted values from values written before encryption', () => {
+    expect(isEncryptedValue('{"userType":"patient"}')).toBe(false);
+  });
+});
+
+describe('decryptValue', () => {
+  it('rejects another key', () => {
+    const encrypted = encryptValue(key, nonce, 'secret');
+    const otherKey = new Uint8Array(ENCRYPTION_KEY_BYTES).fill(9);
+    expect(() => decryptValue(otherKey, encrypted)).toThrow();
+  });
+
+  it('rejects a tampered value', () => {
+    const encrypted = encryptValue(key, nonce, 'secret');
+    const [prefix, version, nonceText, ciphertext] = encrypted.split(':');
+    const bytes = base64ToBytes(ciphertext);
+    bytes[0] ^= 1;
+    const tampered = [prefix, version, nonceText, bytesToBase64(bytes)].join(':');
+    expect(() => decryptValue(key, tampered)).toThrow();
+  });
+
+  it('rejects a malformed value', () => {
+    expect(() => decryptValue(key, 'enc:v1:')).toThrow('Malformed encrypted value');
+  });
+});
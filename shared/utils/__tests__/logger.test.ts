@@ -0,0 +1,109 @@
+import { redactText, redactValue } from '../redact';
+import {
+  addLogListener,
+  clearLogEntries,
+  createLogger,
+  getLogEntries,
+  removeLogListener,
+  restoreLogEntries,
+} from '../logger';
+import { LOGGING } from '../../constants/logging';
+
+describe('redactText', () => {
+  it('removes tokens', () => {
+    expect(redactText('Authorization: Bearer abc.def-123')).toBe('Authorization: Bearer [redacted]');
+    expect(redactText('token eyJhbGciOiJIUzI1NiJ9.eyJzdWIiOiIxIn0.sig_part')).toBe('token [redacted]');
+    expect(redactText('push ExponentPushToken[xxxxxxxxxxxxxxxxxxxxxx]')).toBe('push ExpoPushToken[[redacted]]');
+    expect(redactText(`device ${'a1'.repeat(32)}`)).toBe('device [redacted]');
+  });
+
+  it('removes emails and phone numbers', () => {
+    expect(redactText('login for patient@example.com')).toBe('login for [redacted]');
+    expect(redactText('call +216 20 123 456 now')).toBe('call [redacted] now');
+    expect(redactText('numbers 20123456 and 06 12 34 56 78')).toBe('numbers [redacted] and [redacted]');
+  });
+
+  it('drops query strings of URLs', () => {
+    expect(redactText('GET https://api.example.com/voice.m4a?sig=abc&exp=1')).toBe(
+      'GET https://api.example.com/voice.m4a?[redacted]'
+    );
+  });
+
+  it('keeps dates, durations and identifiers readable', () => {
+    const text = 'Reminder 3f2a9c1e-0b7d-4e55-9a61-2c8d5e7f1a90 at 2026-03-02T08:00:00.000Z in 15000ms (3/5)';
+    expect(redactText(text)).toBe(text);
+  });
+});
+
+describe('redactValue', () => {
+  it('masks sensitive fields of objects and keeps the rest', () => {
+    const value = { status: 401, medicationName: 'Doliprane', user: { phoneNumber: '20123456', id: 'u1' } };
+    expect(JSON.parse(redactValue(value))).toEqual({
+      status: 401,
+      medicationName: '[redacted]',
+      user: { phoneNumber: '[redacted]', id: 'u1' },
+    });
+  });
+
+  it('keeps the name and redacted message of errors', () => {
+    expect(redactValue(new TypeError('no user patient@example.com'))).toBe('TypeError: no user [redacted]');
+  });
+
+  it('handles circular objects', () => {
+    const value: Record<string, unknown> = { id: 'a' };
+    value.self = value;
+    expect(JSON.parse(redactValue(value))).toEqual({ id: 'a', self: '[circular]' });
+  });
+});
+
+describe('createLogger', () => {
+  beforeEach(() => {
+    clearLogEntries();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('buffers redacted entries with their level and tag', () => {
+    const log = createLogger('auth');
+    log.info('Login for', 'patient@example.com');
+    log.error('Login failed:', new Error('Bearer abc123'));
+
+    expect(getLogEntries()).toEqual([
+      expect.objectContaining({ level: 'info', tag: 'auth', message: 'Login for [redacted]' }),
+      expect.objectContaining({ level: 'error', tag: 'auth', message: 'Login failed: Error: Bearer [redacted]' }),
+    ]);
+    expect(console.error).toHaveBeenCalledWith('[auth] Login failed: Error: Bearer [redacted]');
+  });
+
+  it('keeps debug entries out of the buffer', () => {
+    createLogger('api').debug('GET /patients');
+    expect(getLogEntries()).toEqual([]);
+  });
+
+  it('keeps the most recent entries when the buffer is full', () => {
+    const log = createLogger('reminders');
+    for (let index = 0; index < LOGGING.BUFFER_SIZE + 5; index++) {
+      log.info(`entry ${index}`);
+    }
+
+    const entries = getLogEntries();
+    expect(entries).toHaveLength(LOGGING.BUFFER_SIZE);
+    expect(entries[0].message).toBe('entry 5');
+  });
+
+  it('puts restored entries before the ones of this session and notifies listeners', () => {
+    const listener = jest.fn();
+    addLogListener(listener);
+    createLogger('app').info('started');
+    removeLogListener(listener);
+    restoreLogEntries([{ at: '2026-03-01T08:00:00.000Z', level: 'warn', tag: 'app', message: 'earlier' }]);
+
+    expect(getLogEntries().map(entry => entry.message)).toEqual(['earlier', 'started']);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,120 @@
+import { diagnoseReminders } from '../reminderDiagnostics';
+import { StoredReminderV2 } from '../../types/reminderSync.types';
+
+const NOW = new Date('2026-03-02T08:00:00.000Z');
+const HOUR = 60 * 60 * 1000;
+
+function makeRecord(
+  reminderId: string,
+  hoursFromNow: number,
+  overrides: Partial<StoredReminderV2> = {}
+): StoredReminderV2 {
+  const scheduledFor = new Date(NOW.getTime() + hoursFromNow * HOUR).toISOString();
+  return {
+    reminderId,
+    prescriptionId: `rx-${reminderId}`,
+    patientId: 'patient-1',
+    scheduledFor,
+    medicationName: 'Doliprane',
+    dosage: '1 comprimé',
+    schedule: { platform: 'expo', notificationIds: [`${reminderId}-n1`], scheduledAtMs: new Date(scheduledFor).getTime() },
+    fingerprint: `f-${reminderId}`,
+    lastSyncedAt: NOW.toISOString(),
+    ...overrides,
+  };
+}
+
+describe('diagnoseReminders', () => {
+  it('sorts records by dose time and splits pending from missing notifications', () => {
+    const later = makeRecord('later', 5, {
+      schedule: { platform: 'expo', notificationIds: ['later-n1', 'later-n2'], scheduledAtMs: 0 },
+    });
+    const sooner = makeRecord('sooner', 2);
+
+    const { records } = diagnoseReminders({
+      records: { later, sooner },
+      pendingNotifications: [
+        { identifier: 'sooner-n1', reminderId: 'sooner', type: 'medication_reminder' },
+        { identifier: 'later-n2', reminderId: 'later', type: 'medication_reminder' },
+      ],
+      pendingAlarms: [],
+      voiceFiles: {},
+      now: NOW,
+    });
+
+    expect(records.map(entry => entry.record.reminderId)).toEqual(['sooner', 'later']);
+    expect(records[0].issues).toEqual([]);
+    expect(records[1].pendingNotificationIds).toEqual(['later-n2']);
+    expect(records[1].missingNotificationIds).toEqual(['later-n1']);
+    expect(records[1].issues).toEqual(['notificationsMissing']);
+  });
+
+  it('does not flag the fired notifications of past doses', () => {
+    const { records } = diagnoseReminders({
+      records: { past: makeRecord('past', -2) },
+      pendingNotifications: [],
+      pendingAlarms: [],
+      voiceFiles: {},
+      now: NOW,
+    });
+
+    expect(records[0].missingNotificationIds).toEqual(['past-n1']);
+    expect(records[0].issues).toEqual([]);
+  });
+
+  it('reports native alarms as unverified unless Notifee has a trigger for them', () => {
+    const native = (reminderId: string) =>
+      makeRecord(reminderId, 3, { schedule: { platform: 'android_native', alarmId: reminderId, scheduledAtMs: 0 } });
+
+    const { records, untrackedAlarms } = diagnoseReminders({
+      records: { a: native('a'), b: native('b') },
+      pendingNotifications: [],
+      pendingAlarms: ['a', 'leftover'],
+      voiceFiles: {},
+      now: NOW,
+    });
+
+    expect(records.map(entry => entry.alarm)).toEqual(['pending', 'unverified']);
+    expect(untrackedAlarms).toEqual(['leftover']);
+  });
+
+  it('reads the voice cache state and flags missing files and legacy records', () => {
+    const voice = { voiceUrl: 'https://example.com/v.m4a', voiceFileName: 'v.m4a', voiceChecksum: null, voiceVersion: null, voiceFormat: null };
+    const { records } = diagnoseReminders({
+      records: {
+        cached: makeRecord('cached', 1, { voice: { ...voice, localPath: '/voice/cached.m4a' } }),
+        gone: makeRecord('gone', 2, { voice: { ...voice, localPath: '/voice/gone.m4a' } }),
+        remote: makeRecord('remote', 3, { voice: { ...voice, localPath: null } }),
+        legacy: makeRecord('legacy', 4, { fingerprint: 'legacy' }),
+      },
+      pendingNotifications: ['cached', 'gone', 'remote', 'legacy'].map(id => ({
+        identifier: `${id}-n1`,
+        reminderId: id,
+        type: 'medication_reminder',
+      })),
+      pendingAlarms: [],
+      voiceFiles: { '/voice/cached.m4a': true, '/voice/gone.m4a': false },
+      now: NOW,
+    });
+
+    expect(records.map(entry => entry.voice)).toEqual(['cached', 'missing', 'notDownloaded', 'none']);
+    expect(records.map(entry => entry.issues)).toEqual([[], ['voiceMissing'], [], ['legacyRecord']]);
+  });
+
+  it('lists medication notifications no record accounts for', () => {
+    const { untrackedNotifications } = diagnoseReminders({
+      records: { r1: makeRecord('r1', 2) },
+      pendingNotifications: [
+        { identifier: 'r1-n1', reminderId: 'r1', type: 'medication_reminder' },
+        { identifier: 'stray', reminderId: 'gone', type: 'medication_reminder' },
+        { identifier: 'test', reminderId: null, type: 'test_critical_alert' },
+        { identifier: 'snooze', reminderId: 'r1', type: 'snooze_reminder' },
+      ],
+      pendingAlarms: [],
+      voiceFiles: {},
+      now: NOW,
+    });
+
+    expect(untrackedNotifications.map(notification => notification.identifier)).toEqual(['stray']);
+  });
+});
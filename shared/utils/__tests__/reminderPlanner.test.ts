@@ -0,0 +1,392 @@
+import {
+  buildFingerprint,
+  migrateRemindersV1,
+  planFullReconcile,
+  planLegacyCleanup,
+  planOrphanedNotifications,
+  planReminderChanges,
+} from '../reminderPlanner';
+import { IOS_NOTIFICATION_WINDOW } from '../../constants/reminderWindow';
+import {
+  LocalReminder,
+  PendingNotification,
+  ReconcileOperation,
+  StoredReminderV2,
+} from '../../types/reminderSync.types';
+
+const NOW = new Date('2026-03-02T08:00:00.000Z');
+const HOUR = 60 * 60 * 1000;
+
+function makeReminder(reminderId: string, hoursFromNow: number, overrides: Partial<LocalReminder> = {}): LocalReminder {
+  return {
+    id: reminderId,
+    reminderId,
+    prescriptionId: `rx-${reminderId}`,
+    medicationName: 'Doliprane',
+    dosage: '1 comprimé',
+    scheduledFor: new Date(NOW.getTime() + hoursFromNow * HOUR).toISOString(),
+    patientId: 'patient-1',
+    ...overrides,
+  };
+}
+
+function makeRecord(reminder: LocalReminder, notificationIds: string[] = [`${reminder.reminderId}-n1`]): StoredReminderV2 {
+  return {
+    reminderId: reminder.reminderId,
+    prescriptionId: reminder.prescriptionId,
+    patientId: reminder.patientId,
+    scheduledFor: reminder.scheduledFor,
+    medicationName: reminder.medicationName,
+    dosage: reminder.dosage,
+    schedule: { platform: 'expo', notificationIds, scheduledAtMs: new Date(reminder.scheduledFor).getTime() },
+    fingerprint: buildFingerprint(reminder),
+    lastSyncedAt: NOW.toISOString(),
+  };
+}
+
+function pendingFor(record: StoredReminderV2): PendingNotification[] {
+  return (record.schedule.notificationIds || []).map(identifier => ({
+    identifier,
+    reminderId: record.reminderId,
+    type: 'medication_reminder',
+  }));
+}
+
+function repeatsOf(operations: ReconcileOperation[]): Map<string, number> {
+  const repeats = new Map<string, number>();
+  for (const operation of operations) {
+    if (operation.type !== 'cancel') {
+      repeats.set(operation.reminder.reminderId, operation.iosRepeatCount ?? 0);
+    }
+  }
+  return repeats;
+}
+
+describe('buildFingerprint', () => {
+  it('changes with the dose content and keeps its value without a snooze policy', () => {
+    const reminder = makeReminder('r1', 2);
+    expect(buildFingerprint(reminder)).toBe(buildFingerprint({ ...reminder }));
+    expect(buildFingerprint({ ...reminder, dosage: '2 comprimés' })).not.toBe(buildFingerprint(reminder));
+    expect(buildFingerprint({ ...reminder, snooze: null })).toBe(buildFingerprint(reminder));
+    expect(buildFingerprint({ ...reminder, snooze: { durationMinutes: 10, maxSnoozes: 3 } })).not.toBe(
+      buildFingerprint(reminder)
+    );
+  });
+});
+
+describe('migrateRemindersV1', () => {
+  const legacy = {
+    r1: { notificationId: 'notif-1', medicationName: 'Doliprane', dosage: '1 comprimé' },
+    r2: { notificationId: '', medicationName: 'Ventoline', dosage: '2 bouffées' },
+  };
+
+  it('keeps the notification of each V1 reminder and marks it for rescheduling', () => {
+    const migrated = migrateRemindersV1(legacy, false, NOW);
+
+    expect(Object.keys(migrated)).toEqual(['r1', 'r2']);
+    expect(migrated.r1).toMatchObject({
+      reminderId: 'r1',
+      medicationName: 'Doliprane',
+      fingerprint: 'legacy',
+      schedule: { platform: 'expo', notificationIds: ['notif-1'], scheduledAtMs: 0 },
+      lastSyncedAt: NOW.toISOString(),
+    });
+    expect(migrated.r1.schedule.alarmId).toBeUndefined();
+    expect(migrated.r2.schedule.notificationIds).toEqual([]);
+  });
+
+  it('records the native alarm of each reminder on Android', () => {
+    const migrated = migrateRemindersV1(legacy, true, NOW);
+    expect(migrated.r1.schedule).toMatchObject({ platform: 'android_native', alarmId: 'r1' });
+  });
+
+  it('reschedules migrated reminders on the next reconcile', () => {
+    const local = migrateRemindersV1(legacy, false, NOW);
+    const plan = planFullReconcile({
+      remote: [makeReminder('r1', 2)],
+      local,
+      platform: 'android',
+      pendingNotifications: [],
+      now: NOW,
+    });
+
+    expect(plan.operations).toEqual([
+      { type: 'cancel', record: local.r2, reason: 'stale' },
+      expect.objectContaining({ type: 'update', existing: local.r1 }),
+    ]);
+  });
+});
+
+describe('planFullReconcile', () => {
+  it('schedules new reminders, updates changed ones and cancels the ones the server dropped', () => {
+    const unchanged = makeReminder('unchanged', 1);
+    const changed = makeReminder('changed', 3);
+    const dropped = makeReminder('dropped', 5);
+    const local = {
+      unchanged: makeRecord(unchanged),
+      changed: makeRecord(changed),
+      dropped: makeRecord(dropped),
+    };
+
+    const plan = planFullReconcile({
+      remote: [makeReminder('new', 4), { ...changed, dosage: '2 comprimés' }, unchanged],
+      local,
+      platform: 'android',
+      pendingNotifications: [],
+      now: NOW,
+    });
+
+    expect(plan.deferredReminders).toBe(0);
+    expect(plan.operations.map(operation => [operation.type, operation.type === 'cancel'
+      ? operation.record.reminderId
+      : operation.reminder.reminderId])).toEqual([
+      ['cancel', 'dropped'],
+      ['update', 'changed'],
+      ['schedule', 'new'],
+    ]);
+  });
+
+  it('gives every reminder a platform default number of alerts outside iOS', () => {
+    const plan = planFullReconcile({
+      remote: [makeReminder('r1', 1)],
+      local: {},
+      platform: 'android',
+      pendingNotifications: [],
+      now: NOW,
+    });
+    expect(plan.operations).toEqual([{ type: 'schedule', reminder: expect.any(Object), iosRepeatCount: undefined }]);
+  });
+
+  describe('iOS notification budget', () => {
+    it('spends the spare budget on the nearest doses when every dose fits', () => {
+      const remote = Array.from({ length: 20 }, (_, index) => makeReminder(`r${index}`, 2 + index * 4));
+
+      const plan = planFullReconcile({ remote, local: {}, platform: 'ios', pendingNotifications: [], now: NOW });
+      const repeats = repeatsOf(plan.operations);
+      const counts = remote.map(reminder => repeats.get(reminder.reminderId) ?? 0);
+
+      expect(plan.deferredReminders).toBe(0);
+      expect(counts.every(count => count >= 1)).toBe(true);
+      expect(counts.reduce((total, count) => total + count, 0)).toBe(IOS_NOTIFICATION_WINDOW.MAX_PENDING);
+      expect(counts[0]).toBe(IOS_NOTIFICATION_WINDOW.MAX_REPEATS);
+      expect(counts[counts.length - 1]).toBe(IOS_NOTIFICATION_WINDOW.FAR_REPEATS);
+    });
+
+    it('covers the nearest doses first and defers the rest when the budget runs out', () => {
+      // Six doses a day for ten days
+      const remote = Array.from({ length: 60 }, (_, index) => makeReminder(`r${index}`, 1 + index * 4));
+
+      const plan = planFullReconcile({ remote, local: {}, platform: 'ios', pendingNotifications: [], now: NOW });
+      const repeats = repeatsOf(plan.operations);
+      const counts = remote.map(reminder => repeats.get(reminder.reminderId) ?? 0);
+      const total = counts.reduce((sum, count) => sum + count, 0);
+
+      expect(total).toBe(IOS_NOTIFICATION_WINDOW.MAX_PENDING);
+      expect(plan.deferredReminders).toBe(remote.length - repeats.size);
+      expect(plan.deferredReminders).toBeGreaterThan(0);
+      // Within 12 hours, then within 48 hours, then one alert each
+      expect(counts.slice(0, 3)).toEqual([5, 5, 5]);
+      expect(counts[3]).toBe(3);
+      expect(counts[repeats.size - 1]).toBeLessThanOrEqual(IOS_NOTIFICATION_WINDOW.FAR_REPEATS);
+      // Scheduled doses are the nearest ones
+      expect(counts.slice(0, repeats.size).every(count => count > 0)).toBe(true);
+      expect(counts.slice(repeats.size).every(count => count === 0)).toBe(true);
+    });
+
+    it('leaves room for notifications that are not dose alerts', () => {
+      const remote = Array.from({ length: 60 }, (_, index) => makeReminder(`r${index}`, 1 + index * 4));
+      const otherPending: PendingNotification[] = Array.from({ length: 10 }, (_, index) => ({
+        identifier: `other-${index}`,
+        reminderId: null,
+        type: 'test_critical_alert',
+      }));
+
+      const plan = planFullReconcile({
+        remote,
+        local: {},
+        platform: 'ios',
+        pendingNotifications: otherPending,
+        now: NOW,
+      });
+      const total = Array.from(repeatsOf(plan.operations).values()).reduce((sum, count) => sum + count, 0);
+
+      expect(total).toBe(IOS_NOTIFICATION_WINDOW.MAX_PENDING - otherPending.length);
+    });
+
+    it('frees the slots of reminders pushed out of the window before scheduling', () => {
+      const far = makeReminder('far', 200);
+      const farRecord = makeRecord(far);
+      const near = Array.from({ length: 40 }, (_, index) => makeReminder(`near${index}`, 1 + index));
+
+      const plan = planFullReconcile({
+        remote: [...near, far],
+        local: { far: farRecord },
+        platform: 'ios',
+        pendingNotifications: pendingFor(farRecord),
+        now: NOW,
+      });
+
+      expect(plan.operations[0]).toEqual({ type: 'cancel', record: farRecord, reason: 'outOfWindow' });
+      expect(plan.operations.filter(operation => operation.type === 'cancel')).toHaveLength(1);
+      expect(repeatsOf(plan.operations).has('far')).toBe(false);
+      expect(plan.deferredReminders).toBeGreaterThan(0);
+    });
+
+    it('reschedules a stored reminder only when its planned alerts change', () => {
+      const reminder = makeReminder('r1', 30);
+      // Alone in the window, the dose gets the maximum number of alerts
+      const fullRecord = makeRecord(
+        reminder,
+        Array.from({ length: IOS_NOTIFICATION_WINDOW.MAX_REPEATS }, (_, index) => `n${index}`)
+      );
+      const singleRecord = makeRecord(reminder, ['n0']);
+
+      const kept = planFullReconcile({
+        remote: [reminder],
+        local: { r1: fullRecord },
+        platform: 'ios',
+        pendingNotifications: pendingFor(fullRecord),
+        now: NOW,
+      });
+      const grown = planFullReconcile({
+        remote: [reminder],
+        local: { r1: singleRecord },
+        platform: 'ios',
+        pendingNotifications: pendingFor(singleRecord),
+        now: NOW,
+      });
+
+      expect(kept.operations).toEqual([]);
+      expect(grown.operations).toEqual([
+        { type: 'update', reminder, existing: singleRecord, iosRepeatCount: IOS_NOTIFICATION_WINDOW.MAX_REPEATS },
+      ]);
+    });
+
+    it('does not alert again for a dose already due whose alerts have fired', () => {
+      const due = makeReminder('due', -1);
+
+      const plan = planFullReconcile({
+        remote: [due],
+        local: { due: makeRecord(due) },
+        platform: 'ios',
+        pendingNotifications: [],
+        now: NOW,
+      });
+
+      expect(plan.operations).toEqual([]);
+    });
+  });
+});
+
+describe('planReminderChanges', () => {
+  it('cancels cancelled and expired reminders and schedules the changed ones', () => {
+    const cancelled = makeReminder('cancelled', 5);
+    const expired = makeReminder('expired', -30);
+    const kept = makeReminder('kept', -2);
+    const local = {
+      cancelled: makeRecord(cancelled),
+      expired: makeRecord(expired),
+      kept: makeRecord(kept),
+    };
+
+    const plan = planReminderChanges({
+      changed: [makeReminder('added', 6), cancelled],
+      cancelledIds: ['cancelled'],
+      local,
+      platform: 'android',
+      pendingNotifications: [],
+      now: NOW,
+    });
+
+    expect(plan?.operations).toEqual([
+      { type: 'cancel', record: local.cancelled, reason: 'cancelled' },
+      { type: 'cancel', record: local.expired, reason: 'past' },
+      expect.objectContaining({ type: 'schedule', reminder: expect.objectContaining({ reminderId: 'added' }) }),
+    ]);
+  });
+
+  it('gives up when the changes do not fit the iOS budget', () => {
+    const full: PendingNotification[] = Array.from({ length: IOS_NOTIFICATION_WINDOW.MAX_PENDING }, (_, index) => ({
+      identifier: `n${index}`,
+      reminderId: `other${index}`,
+      type: 'medication_reminder',
+    }));
+
+    const plan = planReminderChanges({
+      changed: [makeReminder('added', 6)],
+      cancelledIds: [],
+      local: {},
+      platform: 'ios',
+      pendingNotifications: full,
+      now: NOW,
+    });
+
+    expect(plan).toBeNull();
+  });
+
+  it('counts the alerts of replaced reminders as free on iOS', () => {
+    const reminder = makeReminder('r1', 6);
+    const record = makeRecord(
+      reminder,
+      Array.from({ length: 4 }, (_, index) => `r1-${index}`)
+    );
+    const others: PendingNotification[] = Array.from({ length: IOS_NOTIFICATION_WINDOW.MAX_PENDING - 4 }, (_, index) => ({
+      identifier: `n${index}`,
+      reminderId: `other${index}`,
+      type: 'medication_reminder',
+    }));
+
+    const plan = planReminderChanges({
+      changed: [{ ...reminder, dosage: '2 comprimés' }],
+      cancelledIds: [],
+      local: { r1: record },
+      platform: 'ios',
+      pendingNotifications: [...others, ...pendingFor(record)],
+      now: NOW,
+    });
+
+    expect(plan?.operations).toEqual([expect.objectContaining({ type: 'update', iosRepeatCount: 4 })]);
+  });
+});
+
+describe('planOrphanedNotifications', () => {
+  it('cancels notifications that no stored schedule accounts for', () => {
+    const reminder = makeReminder('r1', 2);
+    const native = makeReminder('native', 3);
+    const local = {
+      r1: makeRecord(reminder, ['keep']),
+      native: { ...makeRecord(native, []), schedule: { platform: 'android_native' as const, alarmId: 'native', scheduledAtMs: 0 } },
+    };
+    const pending: PendingNotification[] = [
+      { identifier: 'keep', reminderId: 'r1', type: 'medication_reminder' },
+      { identifier: 'duplicate', reminderId: 'r1', type: 'medication_reminder' },
+      { identifier: 'gone', reminderId: 'removed', type: 'medication_reminder' },
+      { identifier: 'unknown', reminderId: 'not-stored', type: null },
+      { identifier: 'native-copy', reminderId: 'native', type: 'medication_reminder' },
+      { identifier: 'test', reminderId: 'removed', type: 'test_critical_alert' },
+      { identifier: 'no-reminder', reminderId: null, type: null },
+    ];
+
+    const orphaned = planOrphanedNotifications(new Set(['r1', 'native', 'not-stored']), local, pending);
+
+    expect(orphaned).toEqual(['duplicate', 'gone', 'unknown', 'native-copy']);
+  });
+});
+
+describe('planLegacyCleanup', () => {
+  it('cleans V1 entries the server dropped or the V2 schedule replaced', () => {
+    const reminder = makeReminder('r1', 2);
+    const nativeReminder = makeReminder('r3', 2);
+    const local = {
+      r1: makeRecord(reminder, ['current']),
+      r3: { ...makeRecord(nativeReminder, []), schedule: { platform: 'android_native' as const, alarmId: 'r3', scheduledAtMs: 0 } },
+    };
+    const legacy = {
+      r1: { notificationId: 'old', medicationName: '', dosage: '' },
+      r2: { notificationId: 'n2', medicationName: '', dosage: '' },
+      r3: { notificationId: 'r3', medicationName: '', dosage: '' },
+    };
+
+    expect(planLegacyCleanup(new Set(['r1', 'r3']), local, legacy)).toEqual(['r1', 'r2']);
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * Client-side adherence analytics
+ * Turns reminder outcomes into rates, streaks, punctuality and breakdowns so that
+ * patient and caregiver screens compute adherence the same way
+ */
+
+import {
+  AdherenceEvent,
+  AdherenceEventStatus,
+  AdherenceRecord,
+  AdherenceReport,
+  AdherenceStats,
+  AdherenceSummary,
+  DailyAdherence,
+  MedicationAdherence,
+  PunctualityStats,
+  TimeOfDay,
+  TimeOfDayAdherence,
+  WeeklyAdherence,
+} from '../../types/adherence.types';
+import { addDaysToDateKey, getUserTimeZone, getZonedDateKey, getZonedParts } from '../timezone';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+const DEFAULT_ON_TIME_THRESHOLD_MINUTES = 15;
+const DEFAULT_WEEKS = 4;
+const TIME_OF_DAY_ORDER: TimeOfDay[] = ['morning', 'afternoon', 'evening', 'night'];
+
+const STATUS_MAP: Record<string, AdherenceEventStatus> = {
+  taken: 'taken',
+  confirmed: 'taken',
+  manual_confirm: 'taken',
+  missed: 'missed',
+  snoozed: 'snoozed',
+};
+
+export interface AdherenceReportOptions {
+  now?: Date;
+  weeks?: number;
+  onTimeThresholdMinutes?: number;
+  // Calendar days and times of day are read in this timezone; defaults to the profile timezone
+  timeZone?: string;
+}
+
+/**
+ * Map a backend reminder status (confirmed, manual_confirm, sent, ...) to an adherence outcome
+ */
+export function normalizeAdherenceStatus(status: string | null | undefined): AdherenceEventStatus {
+  return (status && STATUS_MAP[status]) || 'pending';
+}
+
+/**
+ * Convert raw adherence-history records into typed adherence events
+ */
+export function toAdherenceEvents(records: Array<Partial<AdherenceRecord> & { takenAt?: string | null }>): AdherenceEvent[] {
+  return records
+    .filter(record => !!record.scheduledFor)
+    .map(record => ({
+      reminderId: String(record.reminderId || record.id || ''),
+      prescriptionId: String(record.prescriptionId || ''),
+      medicationName: record.medicationName || '',
+      scheduledFor: record.scheduledFor as string,
+      status: normalizeAdherenceStatus(record.status),
+      takenAt: record.confirmedAt || record.takenAt || null,
+    }));
+}
+
+/**
+ * Calendar date key (YYYY-MM-DD) in the given timezone, the profile timezone by default
+ */
+export function formatDayKey(date: Date, timeZone: string = getUserTimeZone()): string {
+  return getZonedDateKey(date, timeZone);
+}
+
+/**
+ * Time-of-day bucket for a dose: morning 05-12h, afternoon 12-17h, evening 17-21h, night 21-05h
+ */
+export function getTimeOfDay(date: Date, timeZone: string = getUserTimeZone()): TimeOfDay {
+  const { hour } = getZonedParts(date, timeZone);
+  if (hour >= 5 && hour < 12) return 'morning';
+  if (hour >= 12 && hour < 17) return 'afternoon';
+  if (hour >= 17 && hour < 21) return 'evening';
+  return 'night';
+}
+
+/**
+ * Adherence rate in percent over resolved doses (taken + missed); pending and snoozed doses are excluded
+ */
+export function computeAdherenceRate(taken: number, missed: number): number {
+  const due = taken + missed;
+  return due > 0 ? Math.round((taken / due) * 100) : 0;
+}
+
+/**
+ * Minutes between the scheduled time and confirmation, or null if the dose was not taken
+ */
+export function getMinutesLate(event: AdherenceEvent): number | null {
+  if (event.status !== 'taken' || !event.takenAt) return null;
+  const scheduled = new Date(event.scheduledFor).getTime();
+  const taken = new Date(event.takenAt).getTime();
+  if (Number.isNaN(scheduled) || Number.isNaN(taken)) return null;
+  return Math.max(0, Math.round((taken - scheduled) / MINUTE_MS));
+}
+
+export function summarizeEvents(events: AdherenceEvent[]): AdherenceSummary {
+  const summary = { total: 0, taken: 0, missed: 0, snoozed: 0, pending: 0, rate: 0 };
+  events.forEach(event => {
+    summary.total += 1;
+    summary[event.status] += 1;
+  });
+  summary.rate = computeAdherenceRate(summary.taken, summary.missed);
+  return summary;
+}
+
+function groupBy<K>(events: AdherenceEvent[], keyOf: (event: AdherenceEvent) => K): Map<K, AdherenceEvent[]> {
+  const groups = new Map<K, AdherenceEvent[]>();
+  events.forEach(event => {
+    const key = keyOf(event);
+    const group = groups.get(key);
+    if (group) {
+      group.push(event);
+    } else {
+      groups.set(key, [event]);
+    }
+  });
+  return groups;
+}
+
+function getWeekStartKey(date: Date, timeZone: string): string {
+  const dayKey = formatDayKey(date, timeZone);
+  const [year, month, day] = dayKey.split('-').map(Number);
+  // Weeks start on Monday, matching the WEEK_DAYS ordering used by prescriptions
+  const offset = (new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 6) % 7;
+  return addDaysToDateKey(dayKey, -offset);
+}
+
+function median(values: number[]): number | null {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2);
+}
+
+function average(values: number[]): number | null {
+  if (!values.length) return null;
+  return Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+}
+
+/**
+ * Daily breakdown, newest day first
+ */
+export function computeDailyAdherence(events: AdherenceEvent[], timeZone: string = getUserTimeZone()): DailyAdherence[] {
+  const groups = groupBy(events, event => formatDayKey(new Date(event.scheduledFor), timeZone));
+  return Array.from(groups.entries())
+    .map(([date, dayEvents]) => ({ date, ...summarizeEvents(dayEvents) }))
+    .sort((a, b) => b.date.localeCompare(a.date));
+}
+
+/**
+ * Weekly breakdown for the last `weeks` weeks, oldest first (week 1 is the oldest)
+ */
+export function computeWeeklyAdherence(
+  events: AdherenceEvent[],
+  weeks: number = DEFAULT_WEEKS,
+  now: Date = new Date(),
+  timeZone: string = getUserTimeZone()
+): WeeklyAdherence[] {
+  const currentWeekKey = getWeekStartKey(now, timeZone);
+  const groups = groupBy(events, event => getWeekStartKey(new Date(event.scheduledFor), timeZone));
+  const result: WeeklyAdherence[] = [];
+
+  for (let index = weeks - 1; index >= 0; index -= 1) {
+    const weekKey = addDaysToDateKey(currentWeekKey, -index * 7);
+    result.push({
+      weekNumber: weeks - index,
+      weekStart: weekKey,
+      ...summarizeEvents(groups.get(weekKey) || []),
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Per-prescription breakdown, lowest adherence first so problem medications surface at the top
+ */
+export function computeMedicationAdherence(events: AdherenceEvent[]): MedicationAdherence[] {
+  const groups = groupBy(events, event => event.prescriptionId || event.medicationName);
+  return Array.from(groups.values())
+    .map(medicationEvents => {
+      const minutesLate = medicationEvents
+        .map(getMinutesLate)
+        .filter((value): value is number => value !== null);
+      return {
+        prescriptionId: medicationEvents[0].prescriptionId,
+        medicationName: medicationEvents[0].medicationName,
+        ...summarizeEvents(medicationEvents),
+        averageMinutesLate: average(minutesLate),
+      };
+    })
+    .sort((a, b) => a.rate - b.rate || a.medicationName.localeCompare(b.medicationName));
+}
+
+export function computeTimeOfDayAdherence(events: AdherenceEvent[], timeZone: string = getUserTimeZone()): TimeOfDayAdherence[] {
+  const groups = groupBy(events, event => getTimeOfDay(new Date(event.scheduledFor), timeZone));
+  return TIME_OF_DAY_ORDER
+    .filter(period => groups.has(period))
+    .map(period => ({ period, ...summarizeEvents(groups.get(period) || []) }));
+}
+
+export function computePunctuality(
+  events: AdherenceEvent[],
+  onTimeThresholdMinutes: number = DEFAULT_ON_TIME_THRESHOLD_MINUTES
+): PunctualityStats {
+  const minutesLate = events
+    .map(getMinutesLate)
+    .filter((value): value is number => value !== null);
+  const onTime = minutesLate.filter(value => value <= onTimeThresholdMinutes).length;
+
+  return {
+    measured: minutesLate.length,
+    onTime,
+    late: minutesLate.length - onTime,
+    onTimeRate: minutesLate.length ? Math.round((onTime / minutesLate.length) * 100) : 0,
+    averageMinutesLate: average(minutesLate),
+    medianMinutesLate: median(minutesLate),
+  };
+}
+
+/**
+ * Current and best streak of fully-taken days.
+ * Expects days ordered newest first; a day that still has unresolved doses
+ * neither extends nor breaks a streak.
+ */
+export function computeStreaks(daily: DailyAdherence[]): { currentStreak: number; bestStreak: number } {
+  const isComplete = (day: DailyAdherence) => day.total > 0 && day.taken === day.total;
+
+  let currentStreak = 0;
+  for (const day of daily) {
+    if (day.missed > 0) break;
+    if (isComplete(day)) currentStreak += 1;
+  }
+
+  let bestStreak = 0;
+  let running = 0;
+  for (let index = daily.length - 1; index >= 0; index -= 1) {
+    const day = daily[index];
+    if (day.missed > 0) {
+      running = 0;
+    } else if (isComplete(day)) {
+      running += 1;
+      bestStreak = Math.max(bestStreak, running);
+    }
+  }
+
+  return { currentStreak, bestStreak };
+}
+
+function rateSince(events: AdherenceEvent[], since: number): number {
+  const windowEvents = events.filter(event => new Date(event.scheduledFor).getTime() >= since);
+  return summarizeEvents(windowEvents).rate;
+}
+
+/**
+ * Build the full adherence report. Doses scheduled in the future are ignored.
+ */
+export function buildAdherenceReport(events: AdherenceEvent[], options: AdherenceReportOptions = {}): AdherenceReport {
+  const now = options.now || new Date();
+  const timeZone = options.timeZone || getUserTimeZone();
+  const nowMs = now.getTime();
+  const pastEvents = events.filter(event => {
+    const time = new Date(event.scheduledFor).getTime();
+    return !Number.isNaN(time) && time <= nowMs;
+  });
+
+  const overall = summarizeEvents(pastEvents);
+  const daily = computeDailyAdherence(pastEvents, timeZone);
+  const stats: AdherenceStats = {
+    overall: overall.rate,
+    last7Days: rateSince(pastEvents, nowMs - 7 * DAY_MS),
+    last30Days: rateSince(pastEvents, nowMs - 30 * DAY_MS),
+    ...computeStreaks(daily),
+    totalMedications: overall.total,
+    totalTaken: overall.taken,
+    totalMissed: overall.missed,
+  };
+
+  return {
+    stats,
+    overall,
+    daily,
+    weekly: computeWeeklyAdherence(pastEvents, options.weeks, now, timeZone),
+    byMedication: computeMedicationAdherence(pastEvents),
+    byTimeOfDay: computeTimeOfDayAdherence(pastEvents, timeZone),
+    punctuality: computePunctuality(pastEvents, options.onTimeThresholdMinutes),
+  };
+}
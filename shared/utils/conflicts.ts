@@ -0,0 +1,174 @@
+/**
+ * Conflict detection helpers for offline edits replayed against newer server data
+ */
+
+import { PrescriptionUpdatePayload } from '../types';
+import { ConflictChoice, FieldConflict } from '../types/outbox.types';
+
+export const IF_MATCH_HEADER = 'If-Match';
+
+type DoseActionType = 'confirm' | 'snooze' | 'missed';
+
+// Which patient action wins when two disagree on the same dose: a confirmed dose stays taken
+const DOSE_ACTION_PRIORITY: Record<DoseActionType, number> = {
+  confirm: 3,
+  missed: 2,
+  snooze: 1,
+};
+
+// Reminder statuses reported by the backend, mapped to the action that produced them
+const SERVER_STATUS_ACTIONS: Record<string, DoseActionType> = {
+  taken: 'confirm',
+  confirmed: 'confirm',
+  missed: 'missed',
+  snoozed: 'snooze',
+};
+
+
+/**
+ * Version of a server record: the explicit version number when the backend sends one,
+ * otherwise its last update time
+ */
+export function getRecordVersion(record: unknown): string | null {
+  if (!record || typeof record !== 'object') {
+    return null;
+  }
+  const { version, updatedAt } = record as { version?: unknown; updatedAt?: unknown };
+  if (typeof version === 'number' || (typeof version === 'string' && version)) {
+    return String(version);
+  }
+  return typeof updatedAt === 'string' && updatedAt ? updatedAt : null;
+}
+
+
+export function pickFields<T extends object>(record: T, fields: string[]): Partial<T> {
+  const source = record as Record<string, unknown>;
+  return Object.fromEntries(
+    fields.filter(field => field in source).map(field => [field, source[field]])
+  ) as Partial<T>;
+}
+
+
+/**
+ * Version and current values of the fields an edit changes, to send along with it
+ */
+export function toVersionedEdit(record: object | null | undefined, changes: object): {
+  baseVersion: string | null;
+  baseData: Record<string, unknown>;
+} {
+  return {
+    baseVersion: getRecordVersion(record),
+    baseData: record ? pickFields(record as Record<string, unknown>, Object.keys(changes)) : {},
+  };
+}
+
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  // null and undefined both mean "not set" for the backend
+  if (a == null || b == null) {
+    return a == null && b == null;
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+
+/**
+ * Fields changed both locally and on the server since `base`, to different values.
+ * Fields only one side changed merge without asking (see applyServerChanges).
+ */
+export function findFieldConflicts(
+  base: Record<string, unknown>,
+  local: Record<string, unknown>,
+  server: Record<string, unknown>
+): FieldConflict[] {
+  return Object.keys(local)
+    .filter(field =>
+      !isSameValue(local[field], base[field]) &&
+      !isSameValue(server[field], base[field]) &&
+      !isSameValue(server[field], local[field])
+    )
+    .map(field => ({ field, base: base[field], local: local[field], server: server[field] }));
+}
+
+
+/**
+ * The local edit with the server value for every field the server changed and the
+ * local edit left alone, so replaying it does not revert someone else's change
+ */
+export function applyServerChanges<T extends Record<string, unknown>>(
+  base: Record<string, unknown>,
+  local: T,
+  server: Record<string, unknown>
+): T {
+  const merged: Record<string, unknown> = { ...local };
+  Object.keys(local).forEach(field => {
+    if (isSameValue(local[field], base[field]) && !isSameValue(server[field], base[field])) {
+      merged[field] = server[field];
+    }
+  });
+  return merged as T;
+}
+
+
+/**
+ * The local edit, with the server value for every conflicting field resolved to 'server'
+ */
+export function mergeConflictChoices<T extends Record<string, unknown>>(
+  local: T,
+  conflicts: FieldConflict[],
+  choices: Record<string, ConflictChoice>
+): T {
+  const merged: Record<string, unknown> = { ...local };
+  conflicts.forEach(conflict => {
+    if (choices[conflict.field] === 'server') {
+      merged[conflict.field] = conflict.server;
+    }
+  });
+  return merged as T;
+}
+
+
+/**
+ * Server prescription in the shape of an update payload, so fields compare one to one
+ */
+export function toPrescriptionFields(record: Record<string, any>): PrescriptionUpdatePayload {
+  return {
+    ...record,
+    medicationName: record.medication?.name ?? record.medicationName ?? record.name,
+  };
+}
+
+
+/**
+ * Drop queued dose actions that lose to another action queued for the same reminder
+ */
+export function collapseDoseActions<T extends { type: DoseActionType; reminderId: string }>(actions: T[]): T[] {
+  const strongest = new Map<string, number>();
+  actions.forEach(action => {
+    strongest.set(
+      action.reminderId,
+      Math.max(strongest.get(action.reminderId) ?? 0, DOSE_ACTION_PRIORITY[action.type])
+    );
+  });
+  return actions.filter(action => DOSE_ACTION_PRIORITY[action.type] >= (strongest.get(action.reminderId) ?? 0));
+}
+
+
+/**
+ * What to do with a dose action the server rejected because the reminder already has
+ * `serverStatus`: 'applied' when the server already holds the same outcome, 'override'
+ * when the local action wins, 'drop' when the server's does
+ */
+export function resolveDoseActionConflict(
+  type: DoseActionType,
+  serverStatus: string
+): 'applied' | 'override' | 'drop' | null {
+  const serverAction = SERVER_STATUS_ACTIONS[serverStatus];
+  if (!serverAction) {
+    return null;
+  }
+  if (serverAction === type) {
+    return 'applied';
+  }
+  return DOSE_ACTION_PRIORITY[type] > DOSE_ACTION_PRIORITY[serverAction] ? 'override' : 'drop';
+}
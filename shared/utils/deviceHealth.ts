@@ -0,0 +1,57 @@
+/**
+ * Caregiver-side reading of the patient device heartbeat
+ */
+
+import { DEVICE_HEALTH } from '../constants/deviceHealth';
+import { DeviceHealthWarning, DeviceHeartbeat } from '../types/deviceHealth.types';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+
+/**
+ * Problems that can stop the patient from being alerted, most severe first
+ */
+export function getDeviceHealthWarnings(
+  heartbeat: DeviceHeartbeat | null,
+  now: Date = new Date()
+): DeviceHealthWarning[] {
+  if (!heartbeat) {
+    return [{ code: 'noHeartbeat', severity: 'warning' }];
+  }
+
+  const warnings: DeviceHealthWarning[] = [];
+  const { permissions } = heartbeat;
+
+  if (!permissions.notifications) {
+    warnings.push({ code: 'notificationsDisabled', severity: 'critical' });
+  }
+  if (!permissions.exactAlarms) {
+    warnings.push({ code: 'exactAlarmsDisabled', severity: 'critical' });
+  }
+
+  // A heartbeat is sent after every sync, so the later of the two is the last sign of life
+  const lastSeen = Math.max(
+    heartbeat.lastSyncAt ? new Date(heartbeat.lastSyncAt).getTime() : 0,
+    new Date(heartbeat.reportedAt).getTime() || 0
+  );
+  const sinceSync = now.getTime() - lastSeen;
+  if (sinceSync >= DEVICE_HEALTH.STALE_SYNC_WARNING_MS) {
+    warnings.push({
+      code: 'staleSync',
+      severity: sinceSync >= DEVICE_HEALTH.STALE_SYNC_CRITICAL_MS ? 'critical' : 'warning',
+      days: Math.max(1, Math.floor(sinceSync / DAY)),
+    });
+  }
+
+  if (heartbeat.scheduledAlarms === 0) {
+    warnings.push({ code: 'noAlarmsScheduled', severity: 'warning' });
+  }
+  if (!permissions.batteryOptimizations) {
+    warnings.push({ code: 'batteryOptimized', severity: 'warning' });
+  }
+  if (!permissions.overlays) {
+    warnings.push({ code: 'overlaysDisabled', severity: 'warning' });
+  }
+
+  return warnings.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'critical' ? -1 : 1));
+}
@@ -0,0 +1,55 @@
+/**
+ * Authenticated encryption of cached values (XChaCha20-Poly1305). Callers supply the key
+ * and a random 24-byte nonce; the secure storage service owns both.
+ */
+
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import { bytesToUtf8, utf8ToBytes } from '@noble/ciphers/utils';
+
+// Marks an encrypted value, with the format version for future key or cipher changes
+const ENCRYPTED_PREFIX = 'enc:v1:';
+
+export const ENCRYPTION_KEY_BYTES = 32;
+export const ENCRYPTION_NONCE_BYTES = 24;
+
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+
+export function base64ToBytes(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+
+export function isEncryptedValue(value: string): boolean {
+  return value.startsWith(ENCRYPTED_PREFIX);
+}
+
+
+export function encryptValue(key: Uint8Array, nonce: Uint8Array, plaintext: string): string {
+  const ciphertext = xchacha20poly1305(key, nonce).encrypt(utf8ToBytes(plaintext));
+  return `${ENCRYPTED_PREFIX}${bytesToBase64(nonce)}:${bytesToBase64(ciphertext)}`;
+}
+
+
+/**
+ * Throws when the value was not encrypted with this key or was tampered with
+ */
+export function decryptValue(key: Uint8Array, value: string): string {
+  const [nonce, ciphertext] = value.slice(ENCRYPTED_PREFIX.length).split(':');
+  if (!nonce || !ciphertext) {
+    throw new Error('Malformed encrypted value');
+  }
+  return bytesToUtf8(xchacha20poly1305(key, base64ToBytes(nonce)).decrypt(base64ToBytes(ciphertext)));
+}
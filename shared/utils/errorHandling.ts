@@ -3,6 +3,14 @@
  * Extracts error messages from API errors in a consistent way
  */
 
+import {
+  ApiError as ApiClientError,
+  NetworkError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+} from '../services/api/errors';
+
 export interface ApiError {
   message?: string;
   errors?: Array<string | { msg?: string; message?: string; field?: string }>;
@@ -29,6 +37,11 @@ export function extractErrorMessage(error: any, fallback: string): string {
     return error;
   }
 
+  // Typed client errors already carry a localized or server-provided message
+  if (error instanceof ApiClientError && !(error instanceof ValidationError)) {
+    return error.message || fallback;
+  }
+
   // Try to get message from error object
   let errorMessage = error?.message || error?.error;
 
@@ -114,6 +127,9 @@ export function extractAllErrorMessages(error: any): string[] {
  * @returns true if it's a network error
  */
 export function isNetworkError(error: any): boolean {
+  if (error instanceof ApiClientError) {
+    return error instanceof NetworkError || error instanceof TimeoutError;
+  }
   return (
     error?.message?.includes('network') ||
     error?.message?.includes('Network') ||
@@ -128,11 +144,18 @@ export function isNetworkError(error: any): boolean {
  * @returns true if it's a server error
  */
 export function isServerError(error: any): boolean {
+  if (error instanceof ServerError) {
+    return true;
+  }
   const status = error?.status || error?.response?.status;
   return status >= 500 && status < 600;
 }
 
-
-
-
-
+/**
+ * Validation messages keyed by form field (empty when the error is not a validation error)
+ * @param error - The error object from API call
+ * @returns Map of field name to message
+ */
+export function getFieldErrors(error: any): Record<string, string> {
+  return error instanceof ValidationError ? error.fieldErrors : {};
+}
@@ -1,9 +1,10 @@
 /**
  * Time formatting utilities for consistent timezone handling across the app
- * All times are displayed in Africa/Tunis timezone to match backend formatting
+ * All times are displayed in the user's profile timezone (device timezone when unset)
  */
 
 import i18n from '../../../i18n';
+import { getUserTimeZone } from '../timezone';
 
 /**
  * Get locale based on current language, but force Western numerals (1,2,3)
@@ -15,28 +16,27 @@ function getLocaleWithWesternNumerals(): string {
 }
 
 /**
- * Format a date string or Date object to time string in Tunisia timezone
+ * Format a date string or Date object to time string in the user's timezone
  * @param dateString - ISO date string or Date object
  * @returns Formatted time string (HH:mm) with Western numerals
  */
 export function formatTime(dateString: string | Date): string {
-  // Backend stores time in UTC, we need to display in Tunisia timezone consistently
+  // Backend stores time in UTC, we display it in the user's timezone
   const date = typeof dateString === 'string' ? new Date(dateString) : dateString;
 
-  // IMPORTANT: Always use Tunisia timezone (Africa/Tunis) for consistent display
   // Force Western numerals (1,2,3) even in Arabic locale
   const locale = getLocaleWithWesternNumerals();
   return date.toLocaleTimeString(locale, {
     hour: '2-digit',
     minute: '2-digit',
     hour12: false,
-    timeZone: 'Africa/Tunis',
+    timeZone: getUserTimeZone(),
     numberingSystem: 'latn' // Force Western/Latin numerals
   });
 }
 
 /**
- * Format a date string or Date object to date string in Tunisia timezone
+ * Format a date string or Date object to date string in the user's timezone
  * @param dateString - ISO date string or Date object
  * @param options - Optional Intl.DateTimeFormatOptions
  * @returns Formatted date string with Western numerals
@@ -51,7 +51,7 @@ export function formatDate(
     day: 'numeric',
     month: 'long',
     year: 'numeric',
-    timeZone: 'Africa/Tunis',
+    timeZone: getUserTimeZone(),
     numberingSystem: 'latn' // Force Western/Latin numerals
   };
 
@@ -60,7 +60,7 @@ export function formatDate(
 }
 
 /**
- * Format a date string or Date object to date and time string in Tunisia timezone
+ * Format a date string or Date object to date and time string in the user's timezone
  * @param dateString - ISO date string or Date object
  * @param options - Optional Intl.DateTimeFormatOptions
  * @returns Formatted date and time string with Western numerals
@@ -77,7 +77,7 @@ export function formatDateTime(
     year: 'numeric',
     hour: '2-digit',
     minute: '2-digit',
-    timeZone: 'Africa/Tunis',
+    timeZone: getUserTimeZone(),
     numberingSystem: 'latn' // Force Western/Latin numerals
   };
 
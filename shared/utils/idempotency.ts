@@ -0,0 +1,74 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import { createLogger } from './logger';
+
+/**
+ * Client-generated keys that let the backend recognise a replayed request
+ */
+
+const log = createLogger('idempotency');
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+type DoseActionType = 'confirm' | 'snooze' | 'missed';
+
+const DOSE_ACTION_KEYS = '@dose_action_keys';
+// Long enough to cover an offline week and the dead-letter list
+const DOSE_ACTION_KEY_RETENTION_MS = 14 * 24 * 60 * 60 * 1000;
+
+type StoredDoseActionKeys = Record<string, { key: string; createdAt: number }>;
+
+// Serialises reads and writes so two entry points confirming at once agree on a key
+let keyStoreLock: Promise<unknown> = Promise.resolve();
+
+export function createIdempotencyKey(prefix: string = 'req'): string {
+  return `${prefix}_${Crypto.randomUUID()}`;
+}
+
+/**
+ * Key of a user action on a dose. A dose is confirmed (or missed) once, so every path
+ * reporting that outcome (alarm screen, lock-screen action, native alarm, offline queue)
+ * reuses the key recorded by the first one. Snoozes can repeat and keep their own key.
+ *
+ * @param proposedKey - Key already attached to the action, e.g. by the native alarm
+ */
+export function getDoseActionKey(
+  type: DoseActionType,
+  reminderId: string,
+  proposedKey?: string
+): Promise<string> {
+  if (type === 'snooze') {
+    return Promise.resolve(proposedKey || createIdempotencyKey(type));
+  }
+
+  const next = keyStoreLock.then(async () => {
+    const storeKey = `${type}:${reminderId}`;
+    try {
+      const stored = await AsyncStorage.getItem(DOSE_ACTION_KEYS);
+      const keys: StoredDoseActionKeys = stored ? JSON.parse(stored) : {};
+      if (keys[storeKey]) {
+        return keys[storeKey].key;
+      }
+
+      const now = Date.now();
+      const key = proposedKey || createIdempotencyKey(type);
+      const kept = Object.fromEntries(
+        Object.entries(keys).filter(([, entry]) => now - entry.createdAt < DOSE_ACTION_KEY_RETENTION_MS)
+      );
+      await AsyncStorage.setItem(
+        DOSE_ACTION_KEYS,
+        JSON.stringify({ ...kept, [storeKey]: { key, createdAt: now } })
+      );
+      return key;
+    } catch (error) {
+      log.error('❌ Error reading dose action keys:', error);
+      return proposedKey || createIdempotencyKey(type);
+    }
+  });
+  keyStoreLock = next.catch(() => undefined);
+  return next;
+}
+
+export async function clearDoseActionKeys(): Promise<void> {
+  await AsyncStorage.removeItem(DOSE_ACTION_KEYS);
+}
@@ -0,0 +1,93 @@
+/**
+ * App logger: levelled, tagged per subsystem and redacted before anything is written.
+ * Entries go to the device console (problems only in release builds) and to an in-memory
+ * ring buffer that the log service persists and exports for support.
+ */
+
+import { LOG_LEVELS, LOGGING } from '../constants/logging';
+import { LogEntry, Logger, LogLevel } from '../types/logging.types';
+import { redactValue } from './redact';
+
+type LogListener = (entry: LogEntry) => void;
+
+let buffer: LogEntry[] = [];
+let listeners: LogListener[] = [];
+
+
+function isAtLeast(level: LogLevel, minimum: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minimum);
+}
+
+
+function write(level: LogLevel, tag: string, message: string, details: unknown[]): void {
+  const toConsole = isAtLeast(level, LOGGING.CONSOLE_MIN_LEVEL);
+  const toBuffer = isAtLeast(level, LOGGING.BUFFER_MIN_LEVEL);
+  if (!toConsole && !toBuffer) {
+    return;
+  }
+
+  const text = [message, ...details].map(redactValue).join(' ');
+
+  if (toConsole) {
+    const line = `[${tag}] ${text}`;
+    if (level === 'error') {
+      console.error(line);
+    } else if (level === 'warn') {
+      console.warn(line);
+    } else {
+      console.log(line);
+    }
+  }
+
+  if (toBuffer) {
+    const entry: LogEntry = {
+      at: new Date().toISOString(),
+      level,
+      tag,
+      message: text.slice(0, LOGGING.MAX_MESSAGE_LENGTH),
+    };
+    buffer.push(entry);
+    if (buffer.length > LOGGING.BUFFER_SIZE) {
+      buffer = buffer.slice(-LOGGING.BUFFER_SIZE);
+    }
+    listeners.forEach(listener => listener(entry));
+  }
+}
+
+
+export function createLogger(tag: string): Logger {
+  return {
+    debug: (message, ...details) => write('debug', tag, message, details),
+    info: (message, ...details) => write('info', tag, message, details),
+    warn: (message, ...details) => write('warn', tag, message, details),
+    error: (message, ...details) => write('error', tag, message, details),
+  };
+}
+
+
+export function getLogEntries(): LogEntry[] {
+  return [...buffer];
+}
+
+
+/**
+ * Put back entries persisted by an earlier session, before the ones of this session
+ */
+export function restoreLogEntries(entries: LogEntry[]): void {
+  buffer = [...entries, ...buffer].slice(-LOGGING.BUFFER_SIZE);
+}
+
+
+export function clearLogEntries(): void {
+  buffer = [];
+}
+
+
+export function addLogListener(listener: LogListener): void {
+  listeners.push(listener);
+}
+
+
+export function removeLogListener(listener: LogListener): void {
+  listeners = listeners.filter(existing => existing !== listener);
+}
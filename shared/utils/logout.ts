@@ -1,22 +1,31 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { unregisterPushToken } from '../services/api/auth';
 import { notificationService } from '../services/notificationService';
-import { clearAllProfileCaches } from './profileCache';
+import { queryCache } from '../services/queryCache';
+import { clearSession, getAccessToken } from '../services/api/session';
+import { createLogger } from './logger';
 
-export async function performLogout(navigateToLogin: () => void): Promise<void> {
+const log = createLogger('logout');
+
+type LogoutOptions = {
+  // Forced logout after the server rejected the session: the token can no longer
+  // unregister the push token, and unsynced offline actions are kept for the next login
+  sessionExpired?: boolean;
+};
+
+export async function performLogout(navigateToLogin: () => void, options: LogoutOptions = {}): Promise<void> {
   let token: string | null = null;
 
   try {
-    token = await AsyncStorage.getItem('userToken');
+    token = await getAccessToken();
   } catch (error) {
-    console.error('Failed to read auth token for logout:', error);
+    log.error('Failed to read auth token for logout:', error);
   }
 
-  if (token) {
+  if (token && !options.sessionExpired) {
     try {
       await unregisterPushToken(token);
     } catch (error) {
-      console.error('Failed to unregister push token:', error);
+      log.error('Failed to unregister push token:', error);
     }
   }
 
@@ -24,36 +33,102 @@ export async function performLogout(navigateToLogin: () => void): Promise<void>
     const { default: localReminderService } = await import('../services/localReminderService');
     await localReminderService.clearAllLocalReminders();
   } catch (error) {
-    console.error('Failed to clear local reminders:', error);
+    log.error('Failed to clear local reminders:', error);
+  }
+
+  if (!options.sessionExpired) {
+    try {
+      const { offlineQueueService } = await import('../services/offlineQueueService');
+      await offlineQueueService.clearAll();
+    } catch (error) {
+      log.error('Failed to clear offline queue:', error);
+    }
+
+    try {
+      const { mutationOutbox } = await import('../services/mutationOutbox');
+      await mutationOutbox.clearAll();
+    } catch (error) {
+      log.error('Failed to clear mutation outbox:', error);
+    }
+
+    try {
+      const { clearDoseActionKeys } = await import('./idempotency');
+      await clearDoseActionKeys();
+    } catch (error) {
+      log.error('Failed to clear dose action keys:', error);
+    }
+
+    try {
+      const { logService } = await import('../services/logService');
+      await logService.clearLogs();
+    } catch (error) {
+      log.error('Failed to clear log buffer:', error);
+    }
+  }
+
+  try {
+    const { escalationService } = await import('../services/escalationService');
+    await escalationService.clearAll();
+  } catch (error) {
+    log.error('Failed to clear escalation watchlist:', error);
+  }
+
+  try {
+    const { snoozeService } = await import('../services/snoozeService');
+    await snoozeService.clearAll();
+  } catch (error) {
+    log.error('Failed to clear snooze state:', error);
+  }
+
+  try {
+    const { deviceHeartbeatService } = await import('../services/deviceHeartbeatService');
+    await deviceHeartbeatService.clearAll();
+  } catch (error) {
+    log.error('Failed to clear device heartbeat state:', error);
+  }
+
+  try {
+    const { prescriptionSyncService } = await import('../services/prescriptionSyncService');
+    await prescriptionSyncService.clearAll();
+  } catch (error) {
+    log.error('Failed to clear prescription sync state:', error);
+  }
+
+  try {
+    const { travelModeService } = await import('../services/travelModeService');
+    await travelModeService.clearAll();
+  } catch (error) {
+    log.error('Failed to clear travel mode state:', error);
   }
 
   try {
-    const { offlineQueueService } = await import('../services/offlineQueueService');
-    await offlineQueueService.clearAll();
+    const { setUserTimeZone } = await import('./timezone');
+    await setUserTimeZone(null);
   } catch (error) {
-    console.error('Failed to clear offline queue:', error);
+    log.error('Failed to clear user timezone:', error);
   }
 
   try {
     const { alarmService } = await import('../services/alarmService');
     alarmService.removeAllListeners();
   } catch (error) {
-    console.error('Failed to remove alarm listeners:', error);
+    log.error('Failed to remove alarm listeners:', error);
   }
 
   try {
     await notificationService.cancelAllNotifications();
     await notificationService.dismissAllNotifications();
   } catch (error) {
-    console.error('Failed to clear notifications:', error);
+    log.error('Failed to clear notifications:', error);
   }
 
   try {
-    await AsyncStorage.removeItem('userToken');
-    await AsyncStorage.removeItem('userData');
-    await clearAllProfileCaches();
+    // Also removes the stored user profile
+    await clearSession();
+    // Cached profiles, patient lists and medication days belong to this account
+    await queryCache.clearAll();
   } catch (error) {
-    console.error('Failed to clear auth storage:', error);
+    log.error('Failed to clear auth storage:', error);
   } finally {
     navigateToLogin();
   }
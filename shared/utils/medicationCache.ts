@@ -0,0 +1,63 @@
+import { DashboardStats, Medication } from '../types';
+import { CachedMedicationDay } from '../types/patient.types';
+import { queryCache } from '../services/queryCache';
+import { QUERY_KEYS } from '../constants/queries';
+
+export const computeMedicationStats = (meds: Medication[]): DashboardStats => {
+  const total = meds.length;
+  const taken = meds.filter(m => m.status === 'taken').length;
+  const adherenceRate = total > 0 ? Math.round((taken / total) * 100) : 0;
+  return { totalMedicationsToday: total, takenToday: taken, adherenceRate };
+};
+
+export async function loadCachedMedicationDay(dateKey: string): Promise<CachedMedicationDay | null> {
+  const cached = await queryCache.getQueryData<CachedMedicationDay>(QUERY_KEYS.medicationsByDate(dateKey));
+  if (!cached) return null;
+  return { meds: cached.meds, stats: cached.stats || computeMedicationStats(cached.meds) };
+}
+
+export async function saveCachedMedicationDay(
+  dateKey: string,
+  meds: Medication[],
+  stats: DashboardStats
+): Promise<void> {
+  await queryCache.setQueryData<CachedMedicationDay>(QUERY_KEYS.medicationsByDate(dateKey), { meds, stats });
+}
+
+/**
+ * Apply a dose status changed outside the dashboard (alarm screen, notification action)
+ * to every cached day that lists the reminder
+ */
+export async function updateCachedMedicationStatus(
+  reminderIds: string[],
+  status: Medication['status'] = 'taken'
+): Promise<void> {
+  const reminderSet = new Set(reminderIds);
+
+  await queryCache.updateQueriesData<CachedMedicationDay>(QUERY_KEYS.medications(), day => {
+    if (!day.meds.some(med => reminderSet.has(med.reminderId) && med.status !== status)) {
+      return null;
+    }
+    const meds = day.meds.map(med =>
+      reminderSet.has(med.reminderId) ? { ...med, status } : med
+    );
+    return { meds, stats: computeMedicationStats(meds) };
+  });
+}
+
+/**
+ * Cached medication entries for the given reminders, from whichever day lists them
+ */
+export async function findCachedMedications(reminderIds: string[]): Promise<Record<string, Medication>> {
+  const reminderSet = new Set(reminderIds);
+  const days = await queryCache.getQueriesData<CachedMedicationDay>(QUERY_KEYS.medications());
+  const found: Record<string, Medication> = {};
+  days.forEach(day => {
+    day.meds.forEach(med => {
+      if (reminderSet.has(med.reminderId)) {
+        found[med.reminderId] = med;
+      }
+    });
+  });
+  return found;
+}
@@ -1,15 +1,9 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
-
-const PROFILE_CACHE_PREFIX = '@user_profile_cache';
-
-export const getProfileCacheKey = (userId?: string | null) =>
-  `${PROFILE_CACHE_PREFIX}:${userId || 'current'}`;
+import { queryCache } from '../services/queryCache';
+import { QUERY_KEYS } from '../constants/queries';
 
 export async function loadCachedProfile<T = any>(userId?: string | null): Promise<T | null> {
   try {
-    const stored = await AsyncStorage.getItem(getProfileCacheKey(userId));
-    if (!stored) return null;
-    return JSON.parse(stored) as T;
+    return await queryCache.getQueryData<T>(QUERY_KEYS.profile(userId));
   } catch (error) {
     console.error('Error loading cached profile:', error);
     return null;
@@ -18,7 +12,7 @@ export async function loadCachedProfile<T = any>(userId?: string | null): Promis
 
 export async function saveCachedProfile(profile: any, userId?: string | null): Promise<void> {
   try {
-    await AsyncStorage.setItem(getProfileCacheKey(userId), JSON.stringify(profile));
+    await queryCache.setQueryData(QUERY_KEYS.profile(userId), profile);
   } catch (error) {
     console.error('Error saving cached profile:', error);
   }
@@ -26,11 +20,7 @@ export async function saveCachedProfile(profile: any, userId?: string | null): P
 
 export async function clearAllProfileCaches(): Promise<void> {
   try {
-    const keys = await AsyncStorage.getAllKeys();
-    const cacheKeys = keys.filter(key => key.startsWith(PROFILE_CACHE_PREFIX));
-    if (cacheKeys.length > 0) {
-      await AsyncStorage.multiRemove(cacheKeys);
-    }
+    await queryCache.removeQueries(QUERY_KEYS.profiles());
   } catch (error) {
     console.error('Error clearing profile cache:', error);
   }
@@ -0,0 +1,74 @@
+/**
+ * Removal of credentials and personal data from log messages
+ */
+
+const REDACTED = '[redacted]';
+
+// Fields whose value is never logged, whatever it looks like
+const SENSITIVE_KEY = /token|password|secret|authorization|cookie|phone|email|verificationCode|^otp|medicationName|dosage|instructions|firstName|lastName/i;
+
+const TEXT_PATTERNS: { pattern: RegExp; replacement: string }[] = [
+  // Bearer tokens and JWTs
+  { pattern: /Bearer\s+[A-Za-z0-9\-._~+/]+=*/g, replacement: `Bearer ${REDACTED}` },
+  { pattern: /eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g, replacement: REDACTED },
+  // Expo and native push tokens
+  { pattern: /Expo(?:nent)?PushToken\[[^\]]*\]/g, replacement: `ExpoPushToken[${REDACTED}]` },
+  { pattern: /\b[A-Fa-f0-9]{40,}\b/g, replacement: REDACTED },
+  // Query strings can carry tokens, codes and identifiers
+  { pattern: /(https?:\/\/[^\s?#]+)\?[^\s#]*/g, replacement: `$1?${REDACTED}` },
+  { pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g, replacement: REDACTED },
+  // International numbers, then Tunisian (8 digits) and French (10 digits) local ones
+  { pattern: /\+\d[\d\s.-]{7,}\d/g, replacement: REDACTED },
+  { pattern: /\b\d{2}[\s.-]?\d{3}[\s.-]?\d{3}\b/g, replacement: REDACTED },
+  { pattern: /\b0\d(?:[\s.-]?\d{2}){4}\b/g, replacement: REDACTED },
+];
+
+
+export function redactText(text: string): string {
+  return TEXT_PATTERNS.reduce((result, { pattern, replacement }) => result.replace(pattern, replacement), text);
+}
+
+
+function redactObject(value: unknown, seen: WeakSet<object>): unknown {
+  if (typeof value === 'string') {
+    return redactText(value);
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+  if (seen.has(value)) {
+    return '[circular]';
+  }
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map(item => redactObject(item, seen));
+  }
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = SENSITIVE_KEY.test(key) && item != null && item !== '' ? REDACTED : redactObject(item, seen);
+  }
+  return result;
+}
+
+
+/**
+ * Text form of a log argument with credentials and personal data removed. Errors keep
+ * their name and message, objects are serialized with sensitive fields masked.
+ */
+export function redactValue(value: unknown): string {
+  if (value instanceof Error) {
+    return redactText(`${value.name}: ${value.message}`);
+  }
+  if (typeof value === 'string') {
+    return redactText(value);
+  }
+  if (value === undefined) {
+    return 'undefined';
+  }
+  try {
+    return JSON.stringify(redactObject(value, new WeakSet()));
+  } catch {
+    return redactText(String(value));
+  }
+}
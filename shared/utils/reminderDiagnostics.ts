@@ -0,0 +1,87 @@
+/**
+ * Cross-check of the stored reminder records against what the device has actually
+ * scheduled, for the diagnostics screen
+ */
+
+import {
+  AlarmState,
+  ReminderIssueCode,
+  ReminderRecordDiagnostics,
+  VoiceCacheState,
+} from '../types/reminderDiagnostics.types';
+import { PendingNotification, StoredReminderV2 } from '../types/reminderSync.types';
+
+export type ReminderDiagnosticsInput = {
+  records: Record<string, StoredReminderV2>;
+  pendingNotifications: PendingNotification[];
+  // Notifee trigger notification IDs
+  pendingAlarms: string[];
+  // Whether each cached voice path still exists on disk
+  voiceFiles: Record<string, boolean>;
+  now?: Date;
+};
+
+export type ReminderDiagnosticsResult = {
+  records: ReminderRecordDiagnostics[];
+  untrackedNotifications: PendingNotification[];
+  untrackedAlarms: string[];
+};
+
+
+function getVoiceState(record: StoredReminderV2, voiceFiles: Record<string, boolean>): VoiceCacheState {
+  const localPath = record.voice?.localPath;
+  if (localPath) {
+    return voiceFiles[localPath] ? 'cached' : 'missing';
+  }
+  return record.voice?.voiceUrl ? 'notDownloaded' : 'none';
+}
+
+
+export function diagnoseReminders(input: ReminderDiagnosticsInput): ReminderDiagnosticsResult {
+  const nowMs = (input.now ?? new Date()).getTime();
+  const pendingIds = new Set(input.pendingNotifications.map(notification => notification.identifier));
+  const pendingAlarms = new Set(input.pendingAlarms);
+  const trackedNotifications = new Set<string>();
+  const trackedAlarms = new Set<string>();
+
+  const records = Object.values(input.records)
+    .sort((a, b) => (new Date(a.scheduledFor).getTime() || 0) - (new Date(b.scheduledFor).getTime() || 0))
+    .map(record => {
+      const notificationIds = (record.schedule.notificationIds || []).filter(Boolean);
+      notificationIds.forEach(id => trackedNotifications.add(id));
+      const pendingNotificationIds = notificationIds.filter(id => pendingIds.has(id));
+      const missingNotificationIds = notificationIds.filter(id => !pendingIds.has(id));
+
+      let alarm: AlarmState = 'none';
+      if (record.schedule.platform === 'android_native') {
+        const alarmId = record.schedule.alarmId || record.reminderId;
+        trackedAlarms.add(alarmId);
+        alarm = pendingAlarms.has(alarmId) ? 'pending' : 'unverified';
+      }
+
+      const voice = getVoiceState(record, input.voiceFiles);
+      const issues: ReminderIssueCode[] = [];
+      // Notifications of past doses have fired, so only upcoming ones must still be pending
+      if (missingNotificationIds.length > 0 && new Date(record.scheduledFor).getTime() > nowMs) {
+        issues.push('notificationsMissing');
+      }
+      if (voice === 'missing') {
+        issues.push('voiceMissing');
+      }
+      if (record.fingerprint === 'legacy') {
+        issues.push('legacyRecord');
+      }
+
+      return { record, pendingNotificationIds, missingNotificationIds, alarm, voice, issues };
+    });
+
+  const untrackedNotifications = input.pendingNotifications.filter(
+    notification =>
+      !!notification.reminderId &&
+      (!notification.type || notification.type === 'medication_reminder') &&
+      !trackedNotifications.has(notification.identifier)
+  );
+  const untrackedAlarms = input.pendingAlarms.filter(alarmId => !trackedAlarms.has(alarmId));
+
+  return { records, untrackedNotifications, untrackedAlarms };
+}
@@ -0,0 +1,291 @@
+/**
+ * Reminder reconcile planner
+ * Decides, without touching storage or the platform, which reminders to schedule, update
+ * or cancel so the device schedule matches the server. The executor applies the plan.
+ */
+
+import { IOS_NOTIFICATION_WINDOW } from '../constants/reminderWindow';
+import { planIOSNotificationWindow } from './reminderWindow';
+import {
+  LocalReminder,
+  PendingNotification,
+  ReconcileInput,
+  ReconcileOperation,
+  ReconcilePlan,
+  ReminderChangesInput,
+  StoredReminderV1,
+  StoredReminderV2,
+} from '../types/reminderSync.types';
+
+// Past reminders are kept this long for late confirmations before an incremental sync drops them
+export const PAST_REMINDER_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+
+export function hashString(value: string): string {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash << 5) - hash + value.charCodeAt(i);
+    hash |= 0;
+  }
+  return `h${Math.abs(hash)}`;
+}
+
+
+export function buildFingerprint(reminder: LocalReminder): string {
+  const payload = [
+    reminder.reminderId,
+    reminder.prescriptionId,
+    reminder.scheduledFor,
+    reminder.medicationName,
+    reminder.dosage,
+    reminder.instructions || '',
+    reminder.imageUrl || '',
+    reminder.voiceUrl || '',
+    reminder.voiceFileName || '',
+    reminder.voiceChecksum || '',
+    reminder.voiceVersion ?? '',
+    reminder.voiceFormat || '',
+  ];
+  // Only part of the fingerprint when set, so records without a policy keep their hash
+  if (reminder.snooze) {
+    payload.push(`${reminder.snooze.durationMinutes}:${reminder.snooze.maxSnoozes}`);
+  }
+  return hashString(payload.join('|'));
+}
+
+
+/**
+ * V2 record of a reminder scheduled by the V1 sync. Only the notification is known; the
+ * `legacy` fingerprint makes the next reconcile reschedule it with full details.
+ */
+export function buildLegacyRecord(
+  reminderId: string,
+  legacy: StoredReminderV1,
+  nativeAlarms: boolean,
+  now: Date = new Date()
+): StoredReminderV2 {
+  return {
+    reminderId,
+    prescriptionId: '',
+    patientId: '',
+    scheduledFor: '',
+    medicationName: legacy.medicationName || '',
+    dosage: legacy.dosage || '',
+    schedule: {
+      platform: nativeAlarms ? 'android_native' : 'expo',
+      alarmId: nativeAlarms ? reminderId : undefined,
+      notificationIds: legacy.notificationId ? [legacy.notificationId] : [],
+      scheduledAtMs: 0,
+    },
+    fingerprint: 'legacy',
+    lastSyncedAt: now.toISOString(),
+  };
+}
+
+
+export function migrateRemindersV1(
+  legacy: Record<string, StoredReminderV1>,
+  nativeAlarms: boolean,
+  now: Date = new Date()
+): Record<string, StoredReminderV2> {
+  const migrated: Record<string, StoredReminderV2> = {};
+  Object.entries(legacy).forEach(([reminderId, entry]) => {
+    migrated[reminderId] = buildLegacyRecord(reminderId, entry, nativeAlarms, now);
+  });
+  return migrated;
+}
+
+
+function sortByTime(reminders: LocalReminder[]): LocalReminder[] {
+  return [...reminders].sort(
+    (a, b) => new Date(a.scheduledFor).getTime() - new Date(b.scheduledFor).getTime()
+  );
+}
+
+
+function toScheduleOperation(
+  reminder: LocalReminder,
+  existing: StoredReminderV2 | undefined,
+  iosRepeatCount: number | undefined
+): ReconcileOperation {
+  return existing
+    ? { type: 'update', reminder, existing, iosRepeatCount }
+    : { type: 'schedule', reminder, iosRepeatCount };
+}
+
+
+/**
+ * Full reconcile: rebuild the schedule from every upcoming reminder. On iOS the reminders
+ * share the notification budget left by other pending notifications, nearest first; doses
+ * already due keep the alerts they have unless they are new or changed.
+ */
+export function planFullReconcile(input: ReconcileInput): ReconcilePlan {
+  const { local, now } = input;
+  const nowMs = now.getTime();
+  const ordered = sortByTime(input.remote);
+  const remoteIds = new Set(ordered.map(reminder => reminder.reminderId));
+  const cancels: ReconcileOperation[] = [];
+  const schedules: ReconcileOperation[] = [];
+  const dropped = new Set<string>();
+
+  for (const [reminderId, record] of Object.entries(local)) {
+    if (!remoteIds.has(reminderId)) {
+      cancels.push({ type: 'cancel', record, reason: 'stale' });
+    }
+  }
+
+  let iosWindow: Map<string, number> | null = null;
+  const pendingCounts = new Map<string, number>();
+  let deferredReminders = 0;
+
+  if (input.platform === 'ios') {
+    const candidates = ordered.filter(
+      reminder =>
+        new Date(reminder.scheduledFor).getTime() > nowMs ||
+        local[reminder.reminderId]?.fingerprint !== buildFingerprint(reminder)
+    );
+    const candidateIds = new Set(candidates.map(reminder => reminder.reminderId));
+    let reservedSlots = 0;
+    for (const notification of input.pendingNotifications) {
+      const reminderId = notification.reminderId;
+      if (reminderId && candidateIds.has(reminderId)) {
+        pendingCounts.set(reminderId, (pendingCounts.get(reminderId) ?? 0) + 1);
+      } else {
+        reservedSlots++;
+      }
+    }
+
+    iosWindow = planIOSNotificationWindow(candidates, IOS_NOTIFICATION_WINDOW.MAX_PENDING - reservedSlots, now);
+    deferredReminders = candidates.length - iosWindow.size;
+
+    // Free the slots of reminders pushed out of the window before filling it
+    for (const reminder of candidates) {
+      const existing = local[reminder.reminderId];
+      if (existing && !iosWindow.has(reminder.reminderId)) {
+        cancels.push({ type: 'cancel', record: existing, reason: 'outOfWindow' });
+        dropped.add(reminder.reminderId);
+      }
+    }
+  }
+
+  for (const remote of ordered) {
+    const reminderId = remote.reminderId;
+    const existing = dropped.has(reminderId) ? undefined : local[reminderId];
+    const needsUpdate = !!existing && existing.fingerprint !== buildFingerprint(remote);
+    const iosRepeatCount = iosWindow?.get(reminderId);
+    // The planned number of alerts changes as the dose gets closer
+    const needsReschedule =
+      iosRepeatCount !== undefined &&
+      !!existing &&
+      !needsUpdate &&
+      (pendingCounts.get(reminderId) ?? 0) !== iosRepeatCount;
+
+    if (existing && !needsUpdate && !needsReschedule) {
+      continue;
+    }
+    if (iosWindow && iosRepeatCount === undefined) {
+      continue;
+    }
+    schedules.push(toScheduleOperation(remote, existing, iosRepeatCount));
+  }
+
+  return { operations: [...cancels, ...schedules], deferredReminders };
+}
+
+
+/**
+ * Incremental sync: apply the reminders changed or cancelled since the last sync, and drop
+ * reminders past the retention. Returns null when the changes do not fit the iOS budget,
+ * since choosing what fits needs the whole window.
+ */
+export function planReminderChanges(input: ReminderChangesInput): ReconcilePlan | null {
+  const { local, now } = input;
+  const cancelledIds = new Set(input.cancelledIds);
+  const changed = sortByTime(input.changed.filter(reminder => !cancelledIds.has(reminder.reminderId)));
+  const toSchedule = changed.filter(
+    reminder => local[reminder.reminderId]?.fingerprint !== buildFingerprint(reminder)
+  );
+  const toRemove = Object.values(local).filter(
+    record =>
+      cancelledIds.has(record.reminderId) ||
+      new Date(record.scheduledFor).getTime() < now.getTime() - PAST_REMINDER_RETENTION_MS
+  );
+
+  let iosWindow: Map<string, number> | null = null;
+  if (input.platform === 'ios' && toSchedule.length > 0) {
+    const freed = [...toSchedule.map(reminder => local[reminder.reminderId]), ...toRemove]
+      .reduce((total, record) => total + (record?.schedule.notificationIds?.length ?? 0), 0);
+    iosWindow = planIOSNotificationWindow(
+      toSchedule,
+      IOS_NOTIFICATION_WINDOW.MAX_PENDING - input.pendingNotifications.length + freed,
+      now
+    );
+    if (iosWindow.size < toSchedule.length) {
+      return null;
+    }
+  }
+
+  const operations: ReconcileOperation[] = toRemove.map(record => ({
+    type: 'cancel' as const,
+    record,
+    reason: cancelledIds.has(record.reminderId) ? ('cancelled' as const) : ('past' as const),
+  }));
+  for (const reminder of toSchedule) {
+    operations.push(toScheduleOperation(reminder, local[reminder.reminderId], iosWindow?.get(reminder.reminderId)));
+  }
+
+  return { operations, deferredReminders: 0 };
+}
+
+
+/**
+ * Medication notifications to cancel once the schedule is reconciled: reminders the server
+ * no longer has, reminders now on native alarms, and leftovers of earlier schedules.
+ */
+export function planOrphanedNotifications(
+  remoteIds: Set<string>,
+  local: Record<string, StoredReminderV2>,
+  pending: PendingNotification[]
+): string[] {
+  const orphaned: string[] = [];
+  for (const notification of pending) {
+    const reminderId = notification.reminderId;
+    if (!reminderId) continue;
+    if (notification.type && notification.type !== 'medication_reminder') continue;
+
+    const record = local[reminderId];
+    if (!remoteIds.has(reminderId) || !record || record.schedule.platform === 'android_native') {
+      orphaned.push(notification.identifier);
+      continue;
+    }
+    if (!(record.schedule.notificationIds || []).includes(notification.identifier)) {
+      orphaned.push(notification.identifier);
+    }
+  }
+  return orphaned;
+}
+
+
+/**
+ * V1 entries to clean up: reminders the server no longer has, and entries whose
+ * notification is not part of the current V2 schedule.
+ */
+export function planLegacyCleanup(
+  remoteIds: Set<string>,
+  local: Record<string, StoredReminderV2>,
+  legacy: Record<string, StoredReminderV1>
+): string[] {
+  return Object.entries(legacy)
+    .filter(([reminderId, legacyRecord]) => {
+      if (!remoteIds.has(reminderId)) {
+        return true;
+      }
+      const record = local[reminderId];
+      const allowedIds = new Set<string>(record?.schedule?.notificationIds?.filter(Boolean) || []);
+      if (record?.schedule?.platform === 'android_native') {
+        allowedIds.add(record.schedule.alarmId || reminderId);
+      }
+      return !!legacyRecord.notificationId && !allowedIds.has(legacyRecord.notificationId);
+    })
+    .map(([reminderId]) => reminderId);
+}
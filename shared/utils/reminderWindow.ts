@@ -0,0 +1,66 @@
+/**
+ * Planning of the iOS notification window
+ */
+
+import { IOS_NOTIFICATION_WINDOW } from '../constants/reminderWindow';
+
+type WindowCandidate = {
+  reminderId: string;
+  scheduledFor: string;
+};
+
+
+function getTargetRepeats(scheduledAtMs: number, nowMs: number): number {
+  const distance = scheduledAtMs - nowMs;
+  const tier = IOS_NOTIFICATION_WINDOW.REPEAT_TIERS.find(entry => distance < entry.withinMs);
+  return tier ? tier.repeats : IOS_NOTIFICATION_WINDOW.FAR_REPEATS;
+}
+
+
+/**
+ * Split `capacity` notifications over upcoming doses, nearest first. Each dose gets the
+ * repeats of its distance tier until the budget runs out, so the window covers as many
+ * days as it can while the next doses still ring several times. Budget left once every
+ * dose fits goes to extra repeats, nearest first.
+ *
+ * @returns Alerts to schedule per reminder ID; reminders left out are not in the map
+ */
+export function planIOSNotificationWindow(
+  candidates: WindowCandidate[],
+  capacity: number,
+  now: Date = new Date()
+): Map<string, number> {
+  const nowMs = now.getTime();
+  const ordered = candidates
+    .map(candidate => ({ reminderId: candidate.reminderId, at: new Date(candidate.scheduledFor).getTime() }))
+    .filter(candidate => !Number.isNaN(candidate.at))
+    .sort((a, b) => a.at - b.at);
+
+  const plan = new Map<string, number>();
+  let remaining = Math.max(0, capacity);
+
+  for (const candidate of ordered) {
+    if (remaining <= 0) {
+      break;
+    }
+    const repeats = Math.min(getTargetRepeats(candidate.at, nowMs), remaining);
+    plan.set(candidate.reminderId, repeats);
+    remaining -= repeats;
+  }
+
+  if (plan.size === ordered.length) {
+    for (const candidate of ordered) {
+      if (remaining <= 0) {
+        break;
+      }
+      const current = plan.get(candidate.reminderId) ?? 0;
+      const extra = Math.min(IOS_NOTIFICATION_WINDOW.MAX_REPEATS - current, remaining);
+      if (extra > 0) {
+        plan.set(candidate.reminderId, current + extra);
+        remaining -= extra;
+      }
+    }
+  }
+
+  return plan;
+}
@@ -0,0 +1,366 @@
+/**
+ * Prescription schedule helpers
+ * Validation, payload normalisation and expansion into concrete dose times for
+ * every schedule type the prescription editor supports
+ */
+
+import { PrescriptionSchedule, ScheduleType } from '../../types';
+import {
+  getDeviceTimeZone,
+  getZonedDateKey,
+  getZonedParts,
+  isValidTimeZone,
+  zonedTimeToUtc,
+} from '../timezone';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const DEFAULT_EXPANSION_DAYS = 30;
+// Hard cap on how far ahead to look; sparse custom/monthly schedules still get a preview
+const MAX_HORIZON_DAYS = 400;
+const DEFAULT_PREVIEW_COUNT = 5;
+
+export const ALL_WEEK_DAYS = [1, 2, 3, 4, 5, 6, 7];
+export const MIN_INTERVAL_HOURS = 1;
+export const MAX_INTERVAL_HOURS = 72;
+
+export interface ScheduleRule {
+  scheduleType: ScheduleType;
+  schedules: PrescriptionSchedule[];
+  intervalHours?: number;
+  monthDays?: number[];
+  customDates?: string[];
+}
+
+/**
+ * Parse "HH:mm" into hours and minutes, or null when malformed
+ */
+export function parseTimeOfDay(time: string): { hours: number; minutes: number } | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time || '');
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return { hours, minutes };
+}
+
+/**
+ * Parse a "YYYY-MM-DD" date key into a local date at midnight, or null when malformed
+ */
+export function parseDateKey(dateKey: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(dateKey || '');
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return date.getDate() === Number(match[3]) ? date : null;
+}
+
+export interface ScheduleExpansionInput extends ScheduleRule {
+  isChronic?: boolean;
+  repeatWeeks?: number;
+  startDate?: Date | string | null;
+  endDate?: Date | string | null;
+}
+
+export interface ScheduleExpansionOptions {
+  from?: Date;
+  until?: Date;
+  limit?: number;
+  timeZone?: string;
+}
+
+export interface DoseOccurrence {
+  scheduledFor: string;
+  dateKey: string;
+  time: string;
+}
+
+interface CivilDay {
+  year: number;
+  month: number;
+  day: number;
+}
+
+function toDate(value: Date | string | null | undefined): Date | null {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function addCivilDays(civilDay: CivilDay, days: number): CivilDay {
+  const date = new Date(Date.UTC(civilDay.year, civilDay.month - 1, civilDay.day + days));
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+function toCivilDayKey({ year, month, day }: CivilDay): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function getCivilWeekday({ year, month, day }: CivilDay): number {
+  return ((new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 6) % 7) + 1;
+}
+
+function getCivilDaysInMonth({ year, month }: CivilDay): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function getCivilDay(date: Date, timeZone: string): CivilDay {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return { year, month, day };
+}
+
+function atZonedTime(civilDay: CivilDay, time: string, timeZone: string): Date | null {
+  const parsed = parseTimeOfDay(time);
+  if (!parsed) return null;
+  return zonedTimeToUtc(civilDay.year, civilDay.month, civilDay.day, parsed.hours, parsed.minutes, timeZone);
+}
+
+/**
+ * Whether a prescription schedule row applies on the given day.
+ * Monthly days past the end of a short month fall on its last day (31 → 30 April, 28/29 February).
+ */
+function isScheduledOn(rule: ScheduleRule, schedule: PrescriptionSchedule, civilDay: CivilDay): boolean {
+  switch (rule.scheduleType) {
+    case 'daily':
+      return true;
+    case 'weekly':
+      return (schedule.days || []).includes(getCivilWeekday(civilDay));
+    case 'monthly': {
+      const lastDay = getCivilDaysInMonth(civilDay);
+      return (rule.monthDays || []).some(monthDay => Math.min(monthDay, lastDay) === civilDay.day);
+    }
+    case 'custom':
+      return (rule.customDates || []).includes(toCivilDayKey(civilDay));
+    default:
+      return false;
+  }
+}
+
+/**
+ * Last moment a prescription produces doses, or null for chronic prescriptions.
+ * Temporary prescriptions without an explicit end date run for `repeatWeeks` weeks from their start.
+ */
+export function getScheduleEndDate(
+  input: Pick<ScheduleExpansionInput, 'isChronic' | 'repeatWeeks' | 'startDate' | 'endDate'>,
+  now: Date = new Date()
+): Date | null {
+  if (input.isChronic ?? true) return null;
+
+  const explicitEnd = toDate(input.endDate);
+  if (explicitEnd) return explicitEnd;
+
+  const start = toDate(input.startDate) || now;
+  const weeks = input.repeatWeeks && input.repeatWeeks > 0 ? input.repeatWeeks : 1;
+  return new Date(start.getTime() + weeks * 7 * DAY_MS);
+}
+
+/**
+ * Expand a prescription schedule into concrete dose times, in ascending order.
+ *
+ * Schedule times are wall-clock times in `timeZone` (the device timezone by default), so a
+ * 08:00 dose stays at 08:00 across DST changes. Doses are returned between `from` (default now)
+ * and the earliest of `until`, the prescription end date and the `limit`-th dose. Without
+ * `until` or `limit` the next 30 days are expanded.
+ */
+export function expandSchedule(
+  input: ScheduleExpansionInput,
+  options: ScheduleExpansionOptions = {}
+): DoseOccurrence[] {
+  const timeZone = isValidTimeZone(options.timeZone) ? options.timeZone : getDeviceTimeZone();
+  const from = options.from || new Date();
+  const limit = options.limit ?? Number.POSITIVE_INFINITY;
+  const horizonDays = options.until || Number.isFinite(limit) ? MAX_HORIZON_DAYS : DEFAULT_EXPANSION_DAYS;
+
+  const start = toDate(input.startDate);
+  const end = getScheduleEndDate(input, start || from);
+  const windowStart = Math.max(from.getTime(), start ? start.getTime() : from.getTime());
+  const windowEnd = Math.min(
+    options.until ? options.until.getTime() : from.getTime() + horizonDays * DAY_MS,
+    end ? end.getTime() : Number.POSITIVE_INFINITY
+  );
+
+  if (limit <= 0 || windowEnd < windowStart) return [];
+
+  const toOccurrence = (date: Date): DoseOccurrence => {
+    const parts = getZonedParts(date, timeZone);
+    return {
+      scheduledFor: date.toISOString(),
+      dateKey: getZonedDateKey(date, timeZone),
+      time: `${String(parts.hour).padStart(2, '0')}:${String(parts.minute).padStart(2, '0')}`,
+    };
+  };
+
+  if (input.scheduleType === 'interval') {
+    const intervalHours = input.intervalHours || 0;
+    const startTime = input.schedules[0]?.time;
+    if (intervalHours < MIN_INTERVAL_HOURS || !startTime) return [];
+
+    // Interval doses are anchored on the first dose time of the start day and then follow absolute time
+    const anchor = atZonedTime(getCivilDay(start || from, timeZone), startTime, timeZone);
+    if (!anchor) return [];
+
+    const stepMs = intervalHours * HOUR_MS;
+    const skippedSteps = Math.max(0, Math.ceil((windowStart - anchor.getTime()) / stepMs));
+    const occurrences: DoseOccurrence[] = [];
+    for (let next = anchor.getTime() + skippedSteps * stepMs; next <= windowEnd && occurrences.length < limit; next += stepMs) {
+      occurrences.push(toOccurrence(new Date(next)));
+    }
+    return occurrences;
+  }
+
+  const occurrences: DoseOccurrence[] = [];
+  const lastDayKey = getZonedDateKey(new Date(windowEnd), timeZone);
+  let civilDay = getCivilDay(new Date(windowStart), timeZone);
+
+  for (let offset = 0; offset <= MAX_HORIZON_DAYS && occurrences.length < limit; offset += 1) {
+    if (toCivilDayKey(civilDay) > lastDayKey) break;
+
+    const dayTimes = new Set<number>();
+    input.schedules
+      .filter(schedule => isScheduledOn(input, schedule, civilDay))
+      .forEach(schedule => {
+        const date = atZonedTime(civilDay, schedule.time, timeZone);
+        const time = date ? date.getTime() : NaN;
+        if (time >= windowStart && time <= windowEnd) {
+          dayTimes.add(time);
+        }
+      });
+
+    Array.from(dayTimes)
+      .sort((a, b) => a - b)
+      .forEach(time => occurrences.push(toOccurrence(new Date(time))));
+
+    civilDay = addCivilDays(civilDay, 1);
+  }
+
+  return occurrences.slice(0, limit);
+}
+
+/**
+ * Next `count` dose times produced by a schedule, strictly after `from`, in ascending order
+ */
+export function getNextOccurrences(
+  rule: ScheduleRule,
+  count: number = DEFAULT_PREVIEW_COUNT,
+  from: Date = new Date(),
+  timeZone?: string
+): Date[] {
+  return expandSchedule(rule, { from: new Date(from.getTime() + 1), limit: count, timeZone })
+    .map(occurrence => new Date(occurrence.scheduledFor));
+}
+
+export interface PreviewCalendarDay {
+  dateKey: string;
+  dayOfMonth: number;
+  weekday: number;
+  doseCount: number;
+  isPast: boolean;
+  isToday: boolean;
+}
+
+/**
+ * Calendar grid of whole weeks (Monday first) starting with the week of `from`, with the
+ * number of doses falling on each day
+ */
+export function buildPreviewCalendar(
+  occurrences: DoseOccurrence[],
+  options: { from?: Date; weeks?: number; timeZone?: string } = {}
+): PreviewCalendarDay[][] {
+  const timeZone = isValidTimeZone(options.timeZone) ? options.timeZone : getDeviceTimeZone();
+  const today = getCivilDay(options.from || new Date(), timeZone);
+  const todayKey = toCivilDayKey(today);
+  const weekStart = addCivilDays(today, 1 - getCivilWeekday(today));
+
+  const doseCounts = new Map<string, number>();
+  occurrences.forEach(occurrence => {
+    doseCounts.set(occurrence.dateKey, (doseCounts.get(occurrence.dateKey) || 0) + 1);
+  });
+
+  const weeks: PreviewCalendarDay[][] = [];
+  for (let week = 0; week < (options.weeks || 4); week += 1) {
+    const days: PreviewCalendarDay[] = [];
+    for (let weekday = 1; weekday <= 7; weekday += 1) {
+      const civilDay = addCivilDays(weekStart, week * 7 + weekday - 1);
+      const dateKey = toCivilDayKey(civilDay);
+      days.push({
+        dateKey,
+        dayOfMonth: civilDay.day,
+        weekday,
+        doseCount: doseCounts.get(dateKey) || 0,
+        isPast: dateKey < todayKey,
+        isToday: dateKey === todayKey,
+      });
+    }
+    weeks.push(days);
+  }
+
+  return weeks;
+}
+
+/**
+ * Validation message for an incomplete schedule, or null when it can be saved
+ */
+export function getScheduleRuleError(rule: ScheduleRule): string | null {
+  if (rule.schedules.length === 0) {
+    return 'Veuillez définir au moins un horaire';
+  }
+
+  if (rule.schedules.some(schedule => !parseTimeOfDay(schedule.time))) {
+    return 'Veuillez saisir une heure valide pour chaque horaire';
+  }
+
+  switch (rule.scheduleType) {
+    case 'weekly':
+      if (rule.schedules.some(schedule => !schedule.days || schedule.days.length === 0)) {
+        return 'Veuillez sélectionner au moins un jour pour chaque horaire';
+      }
+      break;
+    case 'interval': {
+      const intervalHours = rule.intervalHours || 0;
+      if (!Number.isInteger(intervalHours) || intervalHours < MIN_INTERVAL_HOURS || intervalHours > MAX_INTERVAL_HOURS) {
+        return `L'intervalle doit être compris entre ${MIN_INTERVAL_HOURS} et ${MAX_INTERVAL_HOURS} heures`;
+      }
+      break;
+    }
+    case 'monthly':
+      if (!rule.monthDays || rule.monthDays.length === 0) {
+        return 'Veuillez sélectionner au moins un jour du mois';
+      }
+      break;
+    case 'custom':
+      if (!rule.customDates || rule.customDates.length === 0) {
+        return 'Veuillez ajouter au moins une date';
+      }
+      if (rule.customDates.some(date => !parseDateKey(date))) {
+        return 'Une des dates sélectionnées est invalide';
+      }
+      break;
+  }
+
+  return null;
+}
+
+/**
+ * Normalise the editor state into the fields sent to the prescription API.
+ * Only weekly schedules filter on weekdays; every other type sends all days so the backend
+ * never drops a dose on a weekday filter the caregiver could not see.
+ */
+export function buildSchedulePayload(rule: ScheduleRule) {
+  const schedules = rule.scheduleType === 'interval'
+    ? rule.schedules.slice(0, 1)
+    : rule.schedules;
+
+  return {
+    scheduleType: rule.scheduleType,
+    schedules: schedules.map(schedule => ({
+      time: schedule.time,
+      days: rule.scheduleType === 'weekly' ? [...schedule.days].sort((a, b) => a - b) : ALL_WEEK_DAYS,
+    })),
+    intervalHours: rule.scheduleType === 'interval' ? rule.intervalHours : undefined,
+    monthDays: rule.scheduleType === 'monthly'
+      ? [...(rule.monthDays || [])].sort((a, b) => a - b)
+      : undefined,
+    customDates: rule.scheduleType === 'custom'
+      ? [...(rule.customDates || [])].sort()
+      : undefined,
+  };
+}
@@ -0,0 +1,231 @@
+/**
+ * Timezone helpers built on Intl, so wall-clock times can be resolved in a
+ * timezone other than the device's (e.g. the patient's)
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { createLogger } from './logger';
+
+const log = createLogger('timezone');
+
+export interface ZonedDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const USER_TIME_ZONE_KEY = '@user_timezone';
+
+// Timezone chosen in the user's profile; formatting falls back to the device when unset
+let userTimeZone: string | null = null;
+const timeZoneListeners = new Set<(timeZone: string) => void>();
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getPartsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * IANA timezone of the device, falling back to UTC when Intl cannot resolve it
+ */
+export function getDeviceTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+}
+
+/**
+ * Whether the runtime knows the given IANA timezone
+ */
+export function isValidTimeZone(timeZone: string | null | undefined): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    getPartsFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Calendar date and wall-clock time of an instant in the given timezone
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedDateParts {
+  const parts: Record<string, number> = {};
+  getPartsFormatter(timeZone).formatToParts(date).forEach(part => {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  });
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    // Some engines still report midnight as 24 despite hourCycle h23
+    hour: parts.hour === 24 ? 0 : parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/**
+ * Offset of the timezone from UTC at the given instant, in minutes (UTC+1 → 60)
+ */
+export function getTimeZoneOffsetMinutes(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  const wholeSeconds = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((asUtc - wholeSeconds) / 60000);
+}
+
+/**
+ * Instant at which the wall clock of `timeZone` shows the given local date and time.
+ * Times skipped by a DST jump are shifted forward by the length of the jump;
+ * ambiguous times (clocks going back) resolve to the first occurrence.
+ */
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date {
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute);
+  // Offsets on either side of any transition that could affect this day
+  const offsetBefore = getTimeZoneOffsetMinutes(new Date(wallClockAsUtc - DAY_MS), timeZone);
+  const offsetAfter = getTimeZoneOffsetMinutes(new Date(wallClockAsUtc + DAY_MS), timeZone);
+
+  const matches = [offsetBefore, offsetAfter]
+    .map(offset => wallClockAsUtc - offset * 60000)
+    .filter(candidate => {
+      const parts = getZonedParts(new Date(candidate), timeZone);
+      return parts.day === day && parts.hour === hour && parts.minute === minute;
+    })
+    .sort((a, b) => a - b);
+
+  return new Date(matches.length ? matches[0] : wallClockAsUtc - offsetBefore * 60000);
+}
+
+/**
+ * Calendar date key (YYYY-MM-DD) of an instant in the given timezone
+ */
+export function getZonedDateKey(date: Date, timeZone: string): string {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Shift a YYYY-MM-DD key by whole calendar days, independent of any timezone
+ */
+export function addDaysToDateKey(dateKey: string, days: number): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const shifted = new Date(Date.UTC(year, month - 1, day + days));
+  return shifted.toISOString().slice(0, 10);
+}
+
+/**
+ * "UTC+01:00" style label for an offset in minutes
+ */
+export function formatUtcOffset(offsetMinutes: number): string {
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const absolute = Math.abs(offsetMinutes);
+  const hours = String(Math.floor(absolute / 60)).padStart(2, '0');
+  const minutes = String(absolute % 60).padStart(2, '0');
+  return `UTC${sign}${hours}:${minutes}`;
+}
+
+/**
+ * Timezone used to display times and compute calendar days: the profile timezone
+ * when one is set and valid, otherwise the device timezone
+ */
+export function getUserTimeZone(): string {
+  return isValidTimeZone(userTimeZone) ? userTimeZone : getDeviceTimeZone();
+}
+
+/**
+ * Profile timezone as stored, or null when following the device
+ */
+export function getStoredUserTimeZone(): string | null {
+  return isValidTimeZone(userTimeZone) ? userTimeZone : null;
+}
+
+/**
+ * Set (or clear with null) the profile timezone and persist it for the next launch
+ */
+export async function setUserTimeZone(timeZone: string | null | undefined): Promise<void> {
+  const next = isValidTimeZone(timeZone) ? timeZone : null;
+  const previous = getUserTimeZone();
+  userTimeZone = next;
+
+  try {
+    if (next) {
+      await AsyncStorage.setItem(USER_TIME_ZONE_KEY, next);
+    } else {
+      await AsyncStorage.removeItem(USER_TIME_ZONE_KEY);
+    }
+  } catch (error) {
+    log.error('Error saving user timezone:', error);
+  }
+
+  const current = getUserTimeZone();
+  if (current !== previous) {
+    timeZoneListeners.forEach(listener => listener(current));
+  }
+}
+
+/**
+ * Restore the persisted profile timezone; call once at startup
+ */
+export async function hydrateUserTimeZone(): Promise<string> {
+  try {
+    const stored = await AsyncStorage.getItem(USER_TIME_ZONE_KEY);
+    if (isValidTimeZone(stored) && stored !== userTimeZone) {
+      userTimeZone = stored;
+      timeZoneListeners.forEach(listener => listener(stored));
+    }
+  } catch (error) {
+    log.error('Error loading user timezone:', error);
+  }
+  return getUserTimeZone();
+}
+
+/**
+ * Let subscribers know the device moved to another zone; only matters while
+ * no profile timezone overrides the device
+ */
+export function notifyDeviceTimeZoneChange(): void {
+  if (!getStoredUserTimeZone()) {
+    const current = getUserTimeZone();
+    timeZoneListeners.forEach(listener => listener(current));
+  }
+}
+
+export function subscribeToTimeZoneChange(listener: (timeZone: string) => void): () => void {
+  timeZoneListeners.add(listener);
+  return () => {
+    timeZoneListeners.delete(listener);
+  };
+}